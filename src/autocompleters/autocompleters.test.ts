@@ -6,6 +6,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import {
   createStaticAutocompleter,
   createEnumAutocompleter,
+  createCascadingAutocompleter,
   createAsyncAutocompleter,
   createNumberAutocompleter,
   createDateAutocompleter,
@@ -15,7 +16,7 @@ import {
   withDebounce,
   withStaleWhileRevalidate,
 } from './index'
-import type { AutocompleteContext, AutocompleteItem } from '@/types'
+import type { AutocompleteContext, AutocompleteItem, FilterExpression } from '@/types'
 
 // Mock context
 const createMockContext = (inputValue: string = ''): AutocompleteContext => ({
@@ -160,6 +161,85 @@ describe('createEnumAutocompleter', () => {
   })
 })
 
+describe('createCascadingAutocompleter', () => {
+  const cities = {
+    FR: [
+      { key: 'paris', label: 'Paris' },
+      { key: 'lyon', label: 'Lyon' },
+    ],
+    DE: [{ key: 'berlin', label: 'Berlin' }],
+  }
+
+  const country = (raw: unknown, operator = 'eq', negated = false): FilterExpression => ({
+    condition: {
+      field: { key: 'country', label: 'Country', type: 'enum' },
+      operator: { key: operator, label: operator },
+      value: { raw, display: String(raw), serialized: String(raw) },
+      negated,
+    },
+  })
+
+  const contextWith = (
+    expressions: FilterExpression[],
+    inputValue: string = ''
+  ): AutocompleteContext => ({ ...createMockContext(inputValue), existingExpressions: expressions })
+
+  const keys = (result: AutocompleteItem[] | Promise<AutocompleteItem[]>) =>
+    (result as AutocompleteItem[]).map((item) => item.key)
+
+  it('should narrow the values by the chosen parent value', () => {
+    const autocompleter = createCascadingAutocompleter('country', cities)
+
+    expect(keys(autocompleter.getSuggestions(contextWith([country('FR')])))).toEqual([
+      'paris',
+      'lyon',
+    ])
+    expect(keys(autocompleter.getSuggestions(contextWith([country('FR')], 'ly')))).toEqual(['lyon'])
+  })
+
+  it('should merge the values of several parent values', () => {
+    const autocompleter = createCascadingAutocompleter('country', cities)
+
+    expect(keys(autocompleter.getSuggestions(contextWith([country(['DE', 'FR'], 'in')])))).toEqual([
+      'berlin',
+      'paris',
+      'lyon',
+    ])
+  })
+
+  it('should ignore negated and non-matching parent conditions', () => {
+    const autocompleter = createCascadingAutocompleter('country', cities, {
+      whenParentMissing: 'none',
+    })
+
+    expect(keys(autocompleter.getSuggestions(contextWith([country('FR', 'eq', true)])))).toEqual([])
+    expect(keys(autocompleter.getSuggestions(contextWith([country('FR', 'neq')])))).toEqual([])
+  })
+
+  it('should suggest all values while the parent is not filtered', () => {
+    const autocompleter = createCascadingAutocompleter('country', cities)
+
+    expect(keys(autocompleter.getSuggestions(contextWith([])))).toEqual(['paris', 'lyon', 'berlin'])
+  })
+
+  it('should compute values from the parent values', () => {
+    const autocompleter = createCascadingAutocompleter('country', (parents) =>
+      parents.map((parent) => ({ key: `${parent}-capital`, label: `${parent} capital` }))
+    )
+
+    expect(keys(autocompleter.getSuggestions(contextWith([country('FR')])))).toEqual(['FR-capital'])
+    expect(autocompleter.validate?.('anything', contextWith([]))).toBe(true)
+  })
+
+  it('should validate values against the chosen parent', () => {
+    const autocompleter = createCascadingAutocompleter('country', cities)
+
+    expect(autocompleter.validate?.('paris', contextWith([country('FR')]))).toBe(true)
+    expect(autocompleter.validate?.('paris', contextWith([country('DE')]))).toBe(false)
+    expect(autocompleter.validate?.('paris', contextWith([]))).toBe(true)
+  })
+})
+
 describe('createAsyncAutocompleter', () => {
   beforeEach(() => {
     vi.useFakeTimers()
@@ -495,6 +575,18 @@ describe('createDateAutocompleter', () => {
     expect(result).toHaveLength(1)
     expect(result[0].label).toBe('Custom Date')
   })
+
+  it('should suggest relative dates that stay relative', async () => {
+    const autocompleter = createDateAutocompleter()
+
+    const presets = await autocompleter.getSuggestions(createMockContext(''))
+    expect(presets.find((r) => r.label === 'Yesterday')?.key).toBe('today-1d')
+
+    const [typed] = await autocompleter.getSuggestions(createMockContext('now-30d'))
+    expect(typed).toMatchObject({ key: 'now-30d', label: '30 days ago' })
+    expect(autocompleter.validate?.('startOf:week', createMockContext())).toBe(true)
+    expect(autocompleter.format?.('startOf:week', createMockContext())).toBe('Start of this week')
+  })
 })
 
 describe('combineAutocompleters', () => {
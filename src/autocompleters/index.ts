@@ -5,6 +5,7 @@
  */
 
 import type { Autocompleter, AutocompleteContext, AutocompleteItem } from '@/types'
+import { getRelativeDateLabel, isRelativeDate, resolveRelativeDate } from '@/utils/relativeDates'
 
 // =============================================================================
 // Static Autocompleter
@@ -122,6 +123,93 @@ export function createEnumAutocompleter(
   }
 }
 
+// =============================================================================
+// Cascading Autocompleter
+// =============================================================================
+
+export interface CascadingAutocompleterOptions extends EnumAutocompleterOptions {
+  /**
+   * Operators of the parent field whose values narrow the suggestions.
+   * Negated conditions are ignored.
+   * @default ['eq', 'is', 'in']
+   */
+  parentOperators?: string[]
+  /**
+   * What to suggest while the parent field is not filtered: all values, or none
+   * @default 'all'
+   */
+  whenParentMissing?: 'all' | 'none'
+}
+
+/**
+ * Get the values chosen for a field by the expressions of a filter
+ */
+function getChosenValues(
+  expressions: AutocompleteContext['existingExpressions'],
+  fieldKey: string,
+  operators: string[]
+): string[] {
+  return expressions.flatMap(({ condition }) => {
+    if (condition.field.key !== fieldKey || condition.negated) return []
+    if (!operators.includes(condition.operator.key)) return []
+    const { raw } = condition.value
+    return (Array.isArray(raw) ? raw : [raw]).map(String)
+  })
+}
+
+/**
+ * Create an autocompleter whose values are narrowed by the value of another
+ * field, e.g. cities narrowed by the chosen country.
+ *
+ * The values are given per parent value, or computed from the chosen parent
+ * values (a function is called with an empty list while the parent is not
+ * filtered). Values of several chosen parents (`country in (FR, DE)`) are merged.
+ * The autocompleter also validates values against the other expressions, so
+ * `validateExpressions` reports a city that no longer matches after the
+ * country was edited.
+ *
+ * @example
+ * ```ts
+ * valueAutocompleter: createCascadingAutocompleter('country', {
+ *   FR: [{ key: 'paris', label: 'Paris' }, { key: 'lyon', label: 'Lyon' }],
+ *   DE: [{ key: 'berlin', label: 'Berlin' }],
+ * })
+ * ```
+ */
+export function createCascadingAutocompleter(
+  parentField: string,
+  values: Record<string, EnumValue[]> | ((parentValues: string[]) => EnumValue[]),
+  options: CascadingAutocompleterOptions = {}
+): Autocompleter {
+  const { parentOperators = ['eq', 'is', 'in'], whenParentMissing = 'all' } = options
+
+  const getValues = (parentValues: string[]): EnumValue[] => {
+    if (typeof values === 'function') return values(parentValues)
+    const merged = parentValues.flatMap((parent) => values[parent] ?? [])
+    return merged.filter((value, index) => merged.findIndex((v) => v.key === value.key) === index)
+  }
+
+  const getAllowedValues = (context: AutocompleteContext): EnumValue[] | undefined => {
+    const parentValues = getChosenValues(context.existingExpressions, parentField, parentOperators)
+    if (parentValues.length > 0) return getValues(parentValues)
+    if (whenParentMissing === 'none') return []
+    // Without a parent, every value is allowed
+    return typeof values === 'function' ? undefined : getValues(Object.keys(values))
+  }
+
+  return {
+    getSuggestions: (context: AutocompleteContext) => {
+      const allowed = getAllowedValues(context) ?? getValues([])
+      return createEnumAutocompleter(allowed, options).getSuggestions(context)
+    },
+    validate: (value: unknown, context: AutocompleteContext): boolean => {
+      const allowed = getAllowedValues(context)
+      return allowed === undefined || allowed.some((v) => v.key === String(value))
+    },
+    validatesExpressions: true,
+  }
+}
+
 // =============================================================================
 // Async Autocompleter
 // =============================================================================
@@ -324,7 +412,8 @@ export function createNumberAutocompleter(options: NumberAutocompleterOptions =
 
 export interface DatePreset {
   label: string
-  value: Date
+  /** A fixed date, or a relative date such as `today-1d` that stays relative */
+  value: Date | string
 }
 
 export interface DateAutocompleterOptions {
@@ -356,7 +445,25 @@ function parseDateISO(str: string): Date | null {
 }
 
 /**
- * Create an autocompleter for date input
+ * Create a suggestion for a preset. Relative presets keep the relative date as
+ * their key and describe the date it currently resolves to.
+ */
+function toPresetItem(preset: DatePreset): AutocompleteItem {
+  const key = preset.value instanceof Date ? formatDateISO(preset.value) : preset.value
+  return {
+    type: 'value' as const,
+    key,
+    label: preset.label,
+    description: isRelativeDate(key) ? formatDateISO(resolveRelativeDate(key)) : key,
+  }
+}
+
+/**
+ * Create an autocompleter for date input.
+ *
+ * The default presets ("Today", "One week ago", ...) are relative dates, so
+ * filters using them stay relative (see `ConditionValue.relative`). Typed
+ * relative dates such as `now-30d` are suggested as well.
  */
 export function createDateAutocompleter(options: DateAutocompleterOptions = {}): Autocompleter {
   const { presets = getDefaultDatePresets() } = options
@@ -367,24 +474,28 @@ export function createDateAutocompleter(options: DateAutocompleterOptions = {}):
 
       // If no input, show presets
       if (!inputValue) {
-        return presets.map((preset) => ({
-          type: 'value' as const,
-          key: formatDateISO(preset.value),
-          label: preset.label,
-          description: formatDateISO(preset.value),
-        }))
+        return presets.map(toPresetItem)
       }
 
       // Filter presets by input
       const query = inputValue.toLowerCase()
       const matchingPresets = presets
         .filter((preset) => preset.label.toLowerCase().includes(query))
-        .map((preset) => ({
-          type: 'value' as const,
-          key: formatDateISO(preset.value),
-          label: preset.label,
-          description: formatDateISO(preset.value),
-        }))
+        .map(toPresetItem)
+
+      // Offer typed relative dates as they are
+      if (isRelativeDate(inputValue)) {
+        const key = inputValue.trim()
+        return [
+          {
+            type: 'value' as const,
+            key,
+            label: getRelativeDateLabel(key),
+            description: formatDateISO(resolveRelativeDate(key)),
+          },
+          ...matchingPresets,
+        ]
+      }
 
       // Try to parse as date
       const parsedDate = parseDateISO(inputValue)
@@ -404,12 +515,14 @@ export function createDateAutocompleter(options: DateAutocompleterOptions = {}):
 
     validate: (value: unknown): boolean => {
       if (value instanceof Date) return !isNaN(value.getTime())
+      if (isRelativeDate(value)) return true
       if (typeof value === 'string') return parseDateISO(value) !== null
       return false
     },
 
     format: (value: unknown): string => {
       if (value instanceof Date) return formatDateISO(value)
+      if (isRelativeDate(value)) return getRelativeDateLabel(value)
       if (typeof value === 'string') {
         const date = parseDateISO(value)
         return date ? formatDateISO(date) : value
@@ -427,30 +540,13 @@ export function createDateAutocompleter(options: DateAutocompleterOptions = {}):
  * Get default date presets
  */
 function getDefaultDatePresets(): DatePreset[] {
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
-
-  const yesterday = new Date(today)
-  yesterday.setDate(yesterday.getDate() - 1)
-
-  const lastWeek = new Date(today)
-  lastWeek.setDate(lastWeek.getDate() - 7)
-
-  const lastMonth = new Date(today)
-  lastMonth.setMonth(lastMonth.getMonth() - 1)
-
-  const startOfWeek = new Date(today)
-  startOfWeek.setDate(startOfWeek.getDate() - startOfWeek.getDay())
-
-  const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1)
-
   return [
-    { label: 'Today', value: today },
-    { label: 'Yesterday', value: yesterday },
-    { label: 'Start of this week', value: startOfWeek },
-    { label: 'Start of this month', value: startOfMonth },
-    { label: 'One week ago', value: lastWeek },
-    { label: 'One month ago', value: lastMonth },
+    { label: 'Today', value: 'today' },
+    { label: 'Yesterday', value: 'today-1d' },
+    { label: 'Start of this week', value: 'startOf:week' },
+    { label: 'Start of this month', value: 'startOf:month' },
+    { label: 'One week ago', value: 'today-1w' },
+    { label: 'One month ago', value: 'today-1M' },
   ]
 }
 
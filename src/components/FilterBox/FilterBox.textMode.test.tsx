@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useState } from 'react'
+import { FilterBox } from './FilterBox'
+import type { FilterExpression, FilterSchema } from '@/types'
+import { ENUM_OPERATORS, NUMBER_OPERATORS } from '@/types'
+
+const schema: FilterSchema = {
+  fields: [
+    { key: 'status', label: 'Status', type: 'enum', operators: ENUM_OPERATORS },
+    { key: 'price', label: 'Price', type: 'number', operators: NUMBER_OPERATORS },
+  ],
+}
+
+const value: FilterExpression[] = [
+  {
+    condition: {
+      field: { key: 'status', label: 'Status', type: 'enum' },
+      operator: { key: 'eq', label: 'is', symbol: '=' },
+      value: { raw: 'open', display: 'open', serialized: 'open' },
+    },
+  },
+]
+
+/**
+ * FilterBox with its value held in state, as an application would use it
+ */
+function ControlledFilterBox({
+  initialValue = [],
+  onChange,
+}: {
+  initialValue?: FilterExpression[]
+  onChange?: (expressions: FilterExpression[]) => void
+}) {
+  const [expressions, setExpressions] = useState(initialValue)
+  return (
+    <FilterBox
+      schema={schema}
+      value={expressions}
+      onChange={(next) => {
+        setExpressions(next)
+        onChange?.(next)
+      }}
+      allowTextMode
+    />
+  )
+}
+
+const getToggle = () => screen.getByRole('button', { name: 'Edit as text' })
+
+describe('FilterBox - Text Mode', () => {
+  it('should not offer text mode unless allowTextMode is set', () => {
+    render(<FilterBox schema={schema} value={value} onChange={vi.fn()} />)
+    expect(screen.queryByRole('button', { name: 'Edit as text' })).not.toBeInTheDocument()
+  })
+
+  it('should switch to a text editor containing the query', async () => {
+    const user = userEvent.setup()
+    const onModeChange = vi.fn()
+    render(
+      <FilterBox
+        schema={schema}
+        value={value}
+        onChange={vi.fn()}
+        allowTextMode
+        onModeChange={onModeChange}
+      />
+    )
+
+    await user.click(getToggle())
+
+    expect(getToggle()).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByRole('combobox')).toHaveValue('status = open')
+    expect(screen.getByRole('combobox')).toHaveFocus()
+    expect(onModeChange).toHaveBeenCalledWith('text')
+  })
+
+  it('should start in text mode when requested', () => {
+    render(
+      <FilterBox
+        schema={schema}
+        value={value}
+        onChange={vi.fn()}
+        allowTextMode
+        defaultMode="text"
+      />
+    )
+    expect(screen.getByRole('combobox')).toHaveValue('status = open')
+  })
+
+  it('should apply typed queries and show them as tokens after switching back', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<ControlledFilterBox onChange={onChange} />)
+
+    await user.click(getToggle())
+    fireEvent.change(screen.getByRole('combobox'), {
+      target: { value: 'status = open OR price >= 5' },
+    })
+    expect(onChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({ connector: 'OR' }),
+      expect.objectContaining({
+        condition: expect.objectContaining({ operator: expect.objectContaining({ key: 'gte' }) }),
+      }),
+    ])
+
+    await user.click(getToggle())
+
+    expect(getToggle()).toHaveAttribute('aria-pressed', 'false')
+    expect(document.querySelector('textarea')).not.toBeInTheDocument()
+    expect(screen.getByText('Price')).toBeInTheDocument()
+  })
+
+  it('should stay in text mode while the query has errors', async () => {
+    const user = userEvent.setup()
+    render(<ControlledFilterBox initialValue={value} />)
+
+    await user.click(getToggle())
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'status = open AND' } })
+    await user.click(getToggle())
+
+    expect(screen.getByRole('combobox')).toBeInTheDocument()
+    expect(
+      screen.getByText('Fix 1 error in the query before switching to tokens.')
+    ).toBeInTheDocument()
+  })
+})
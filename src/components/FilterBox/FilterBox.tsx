@@ -20,15 +20,21 @@ import { TokenContainer } from '@/components/TokenContainer'
 import { AutocompleteDropdown } from '@/components/AutocompleteDropdown'
 import { DropdownPortal, FILTER_BOX_PORTAL_ATTR } from '@/components/DropdownPortal'
 import { LiveRegion } from '@/components/LiveRegion'
+import { QueryEditor } from '@/components/QueryEditor'
 import {
   useFilterState,
   useDropdownPosition,
   useFocusManagement,
   type UseFilterStateProps,
 } from '@/hooks'
-import { validateExpressions, type ValidationError } from '@/utils'
+import { validateExpressions, type ValidationError, type QueryParseError } from '@/utils'
 import './FilterBox.css'
 
+/**
+ * How the filter is edited: as tokens or as a text query
+ */
+export type FilterBoxMode = 'tokens' | 'text'
+
 export interface FilterBoxHandle {
   /** Focus the input */
   focus: () => void
@@ -61,6 +67,15 @@ export interface FilterBoxProps extends UseFilterStateProps {
   skipLinkText?: string
   /** Whether the token container should take full available width (default: true) */
   fullWidth?: boolean
+  /**
+   * Show a toggle to edit the filter as a text query, with highlighting,
+   * inline errors and autocomplete (default: false)
+   */
+  allowTextMode?: boolean
+  /** Mode to start in when text mode is allowed (default: 'tokens') */
+  defaultMode?: FilterBoxMode
+  /** Callback when the user switches between token and text mode */
+  onModeChange?: (mode: FilterBoxMode) => void
 }
 
 export const FilterBox = forwardRef<FilterBoxHandle, FilterBoxProps>(function FilterBox(
@@ -79,11 +94,18 @@ export const FilterBox = forwardRef<FilterBoxHandle, FilterBoxProps>(function Fi
     skipToId,
     skipLinkText = 'Skip to content',
     fullWidth = true,
+    allowTextMode = false,
+    defaultMode = 'tokens',
+    onModeChange,
   },
   ref
 ) {
   const containerRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const textInputRef = useRef<HTMLTextAreaElement>(null)
+  const [mode, setMode] = useState<FilterBoxMode>(allowTextMode ? defaultMode : 'tokens')
+  const [textErrors, setTextErrors] = useState<QueryParseError[]>([])
+  const [modeAnnouncement, setModeAnnouncement] = useState('')
   const generatedId = useId()
   const dropdownId = id ? `${id}-dropdown` : `${generatedId}-dropdown`
   const [validationErrorAnnouncement, setValidationErrorAnnouncement] = useState('')
@@ -151,8 +173,13 @@ export const FilterBox = forwardRef<FilterBoxHandle, FilterBoxProps>(function Fi
     handleCustomWidgetConfirm,
     handleCustomWidgetCancel,
     handleExpressionDelete,
+    handleNegationToggle,
+    handleGroupDelete,
   } = useFilterState({ schema, value, onChange })
 
+  // Count expressions by their field tokens (group tokens vary in number)
+  const expressionCount = tokens.filter((t) => t.type === 'field').length
+
   // Use a unique portal ID based on the generated component ID
   const portalId = `${generatedId}-portal`
 
@@ -253,27 +280,69 @@ export const FilterBox = forwardRef<FilterBoxHandle, FilterBoxProps>(function Fi
     [handleBlur]
   )
 
+  // Switch between token and text mode. Text with errors must be fixed first,
+  // since only valid text has been applied to the filter.
+  const handleModeToggle = useCallback(() => {
+    if (mode === 'text' && textErrors.length > 0) {
+      setModeAnnouncement(
+        `Fix ${textErrors.length} error${textErrors.length !== 1 ? 's' : ''} in the query before switching to tokens.`
+      )
+      return
+    }
+    const nextMode = mode === 'text' ? 'tokens' : 'text'
+    if (nextMode === 'text') {
+      // Discard any expression being built with tokens
+      handleBlur()
+    }
+    setTextErrors([])
+    setMode(nextMode)
+    setModeAnnouncement(
+      nextMode === 'text' ? 'Editing filter as text.' : 'Editing filter as tokens.'
+    )
+    onModeChange?.(nextMode)
+  }, [mode, textErrors, handleBlur, onModeChange])
+
+  // Focus the editor of the new mode after switching
+  const prevModeRef = useRef(mode)
+  useEffect(() => {
+    if (prevModeRef.current === mode) return
+    prevModeRef.current = mode
+    if (mode === 'text') {
+      const input = textInputRef.current
+      input?.focus()
+      input?.setSelectionRange(input.value.length, input.value.length)
+    } else {
+      focusInput()
+    }
+  }, [mode, focusInput])
+
   // Expose imperative handle
   useImperativeHandle(
     ref,
     () => ({
       focus: () => {
-        focusInput()
+        if (mode === 'text') {
+          textInputRef.current?.focus()
+        } else {
+          focusInput()
+        }
       },
       blur: () => {
         inputRef.current?.blur()
+        textInputRef.current?.blur()
       },
       clear: () => {
         handleClear()
       },
     }),
-    [handleClear, focusInput]
+    [handleClear, focusInput, mode]
   )
 
   // Auto-focus on mount
   useEffect(() => {
     if (autoFocus && !disabled) {
       inputRef.current?.focus()
+      textInputRef.current?.focus()
     }
   }, [autoFocus, disabled])
 
@@ -348,45 +417,60 @@ export const FilterBox = forwardRef<FilterBoxHandle, FilterBoxProps>(function Fi
       <LiveRegion>{announcement}</LiveRegion>
       {/* Separate live region for validation errors with assertive politeness */}
       <LiveRegion politeness="assertive">{validationErrorAnnouncement}</LiveRegion>
+      {allowTextMode && <LiveRegion>{modeAnnouncement}</LiveRegion>}
       {/* Hidden status for screen readers */}
       {tokens.length > 0 && (
         <div id={`${generatedId}-status`} className="sr-only">
-          {`${Math.ceil(tokens.length / 4)} filter expression${Math.ceil(tokens.length / 4) !== 1 ? 's' : ''} applied`}
+          {`${expressionCount} filter expression${expressionCount !== 1 ? 's' : ''} applied`}
         </div>
       )}
       <div className="filter-box__content">
-        <TokenContainer
-          tokens={tokens}
-          inputRef={inputRef}
-          inputValue={inputValue}
-          placeholder={placeholder}
-          onInputChange={handleInputChange}
-          onInputFocus={handleFocus}
-          onInputBlur={handleInputBlur}
-          onInputKeyDown={handleKeyDown}
-          onTokenClick={handleTokenEdit}
-          onTokenSelect={handleTokenSelect}
-          onOperatorClick={handleOperatorEdit}
-          onConnectorClick={handleConnectorEdit}
-          editingTokenIndex={editingTokenIndex}
-          selectedTokenIndex={selectedTokenIndex}
-          allTokensSelected={allTokensSelected}
-          onTokenEditComplete={handleTokenEditComplete}
-          onTokenEditCancel={handleTokenEditCancel}
-          onExpressionDelete={handleExpressionDelete}
-          disabled={disabled}
-          fullWidth={fullWidth}
-          inputProps={{
-            'aria-autocomplete': 'list',
-            'aria-controls': isDropdownOpen ? dropdownId : undefined,
-            'aria-expanded': isDropdownOpen,
-            'aria-label': ariaLabel,
-            'aria-activedescendant':
-              isDropdownOpen && suggestions[highlightedIndex]
-                ? `${dropdownId}-item-${highlightedIndex}`
-                : undefined,
-          }}
-        />
+        {mode === 'text' ? (
+          <QueryEditor
+            schema={schema}
+            value={value}
+            onChange={onChange}
+            onErrorsChange={setTextErrors}
+            inputRef={textInputRef}
+            disabled={disabled}
+            aria-label={ariaLabel}
+          />
+        ) : (
+          <TokenContainer
+            tokens={tokens}
+            inputRef={inputRef}
+            inputValue={inputValue}
+            placeholder={placeholder}
+            onInputChange={handleInputChange}
+            onInputFocus={handleFocus}
+            onInputBlur={handleInputBlur}
+            onInputKeyDown={handleKeyDown}
+            onTokenClick={handleTokenEdit}
+            onTokenSelect={handleTokenSelect}
+            onOperatorClick={handleOperatorEdit}
+            onConnectorClick={handleConnectorEdit}
+            onNegationClick={handleNegationToggle}
+            onGroupDelete={handleGroupDelete}
+            editingTokenIndex={editingTokenIndex}
+            selectedTokenIndex={selectedTokenIndex}
+            allTokensSelected={allTokensSelected}
+            onTokenEditComplete={handleTokenEditComplete}
+            onTokenEditCancel={handleTokenEditCancel}
+            onExpressionDelete={handleExpressionDelete}
+            disabled={disabled}
+            fullWidth={fullWidth}
+            inputProps={{
+              'aria-autocomplete': 'list',
+              'aria-controls': isDropdownOpen ? dropdownId : undefined,
+              'aria-expanded': isDropdownOpen,
+              'aria-label': ariaLabel,
+              'aria-activedescendant':
+                isDropdownOpen && suggestions[highlightedIndex]
+                  ? `${dropdownId}-item-${highlightedIndex}`
+                  : undefined,
+            }}
+          />
+        )}
         {showClearButton && tokens.length > 0 && !disabled && (
           <button
             type="button"
@@ -397,6 +481,19 @@ export const FilterBox = forwardRef<FilterBoxHandle, FilterBoxProps>(function Fi
             ×
           </button>
         )}
+        {allowTextMode && (
+          <button
+            type="button"
+            className="filter-box__mode-toggle"
+            onClick={handleModeToggle}
+            aria-pressed={mode === 'text'}
+            aria-label="Edit as text"
+            title={mode === 'text' ? 'Edit as tokens' : 'Edit as text'}
+            disabled={disabled}
+          >
+            {'</>'}
+          </button>
+        )}
       </div>
       {usePortal ? (
         <DropdownPortal portalId={portalId}>
@@ -1 +1,6 @@
-export { FilterBox, type FilterBoxProps, type FilterBoxHandle } from './FilterBox'
+export {
+  FilterBox,
+  type FilterBoxProps,
+  type FilterBoxHandle,
+  type FilterBoxMode,
+} from './FilterBox'
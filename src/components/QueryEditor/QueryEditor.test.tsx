@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { QueryEditor } from './QueryEditor'
+import type { FilterExpression, FilterSchema } from '@/types'
+import { ENUM_OPERATORS, NUMBER_OPERATORS } from '@/types'
+import { analyzeQuery } from '@/utils/queryLanguage'
+
+vi.mock('@/utils/queryLanguage', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/utils/queryLanguage')>()
+  return { ...actual, analyzeQuery: vi.fn(actual.analyzeQuery) }
+})
+
+const schema: FilterSchema = {
+  fields: [
+    {
+      key: 'status',
+      label: 'Status',
+      type: 'enum',
+      operators: ENUM_OPERATORS,
+      valueAutocompleter: {
+        getSuggestions: ({ inputValue }) =>
+          ['open', 'closed']
+            .filter((status) => status.startsWith(inputValue))
+            .map((status) => ({ type: 'value' as const, key: status, label: status })),
+      },
+    },
+    { key: 'price', label: 'Price', type: 'number', operators: NUMBER_OPERATORS },
+  ],
+}
+
+const statusOpen: FilterExpression = {
+  condition: {
+    field: { key: 'status', label: 'Status', type: 'enum' },
+    operator: { key: 'eq', label: 'is', symbol: '=' },
+    value: { raw: 'open', display: 'open', serialized: 'open' },
+  },
+}
+
+const getEditor = () => screen.getByRole('combobox') as HTMLTextAreaElement
+
+describe('QueryEditor', () => {
+  it('should show the value as query text', () => {
+    render(<QueryEditor schema={schema} value={[statusOpen]} onChange={vi.fn()} />)
+    expect(getEditor()).toHaveValue('status = open')
+  })
+
+  it('should highlight fields, operators and values', () => {
+    const { container } = render(
+      <QueryEditor schema={schema} value={[statusOpen]} onChange={vi.fn()} />
+    )
+
+    expect(container.querySelector('.query-editor__segment--field')).toHaveTextContent('status')
+    expect(container.querySelector('.query-editor__segment--operator')).toHaveTextContent('=')
+    expect(container.querySelector('.query-editor__segment--value')).toHaveTextContent('open')
+  })
+
+  it('should apply valid text as it is typed', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<QueryEditor schema={schema} value={[]} onChange={onChange} />)
+
+    await user.type(getEditor(), 'price > 10')
+
+    expect(onChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({
+        condition: expect.objectContaining({
+          field: expect.objectContaining({ key: 'price' }),
+          value: expect.objectContaining({ serialized: '10' }),
+        }),
+      }),
+    ])
+  })
+
+  it('should parse the text once per change', async () => {
+    const user = userEvent.setup()
+    const onErrorsChange = vi.fn()
+    render(
+      <QueryEditor schema={schema} value={[]} onChange={vi.fn()} onErrorsChange={onErrorsChange} />
+    )
+    vi.mocked(analyzeQuery).mockClear()
+
+    await user.type(getEditor(), 'price > 1')
+
+    expect(vi.mocked(analyzeQuery).mock.calls.map(([text]) => text)).toEqual([
+      'p',
+      'pr',
+      'pri',
+      'pric',
+      'price',
+      'price ',
+      'price >',
+      'price > ',
+      'price > 1',
+    ])
+  })
+
+  it('should mark errors inline and list them', () => {
+    const onErrorsChange = vi.fn()
+    const onChange = vi.fn()
+    const { container } = render(
+      <QueryEditor schema={schema} value={[]} onChange={onChange} onErrorsChange={onErrorsChange} />
+    )
+
+    fireEvent.change(getEditor(), { target: { value: 'color = red' } })
+
+    expect(getEditor()).toHaveAttribute('aria-invalid', 'true')
+    expect(screen.getByText('Column 1: Unknown field "color"')).toBeInTheDocument()
+    expect(container.querySelector('.query-editor__segment--error')).toHaveTextContent('color')
+    expect(onErrorsChange).toHaveBeenLastCalledWith([
+      { message: 'Unknown field "color"', start: 0, end: 5 },
+    ])
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('should suggest fields and insert the selected one', async () => {
+    const user = userEvent.setup()
+    render(<QueryEditor schema={schema} value={[]} onChange={vi.fn()} />)
+
+    await user.click(getEditor())
+    await user.type(getEditor(), 'pri')
+    expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['Price'])
+
+    await user.keyboard('{Enter}')
+    expect(getEditor()).toHaveValue('price ')
+    // The operators of the field are suggested next
+    expect(screen.getByRole('option', { name: /greater than/ })).toBeInTheDocument()
+  })
+
+  it('should suggest values from the field autocompleter', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<QueryEditor schema={schema} value={[]} onChange={onChange} />)
+
+    await user.click(getEditor())
+    await user.type(getEditor(), 'status = c')
+    await waitFor(() =>
+      expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['closed'])
+    )
+
+    await user.keyboard('{Tab}')
+    expect(getEditor()).toHaveValue('status = closed ')
+    expect(onChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({
+        condition: expect.objectContaining({
+          value: expect.objectContaining({ serialized: 'closed' }),
+        }),
+      }),
+    ])
+  })
+
+  it('should close suggestions with Escape', async () => {
+    const user = userEvent.setup()
+    render(<QueryEditor schema={schema} value={[]} onChange={vi.fn()} />)
+
+    await user.click(getEditor())
+    expect(screen.getByRole('listbox')).toBeInTheDocument()
+
+    await user.keyboard('{Escape}')
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+  })
+
+  it('should update the text when the value changes from outside', () => {
+    const { rerender } = render(<QueryEditor schema={schema} value={[]} onChange={vi.fn()} />)
+    rerender(<QueryEditor schema={schema} value={[statusOpen]} onChange={vi.fn()} />)
+    expect(getEditor()).toHaveValue('status = open')
+  })
+})
@@ -0,0 +1,455 @@
+/**
+ * QueryEditor Component
+ *
+ * Text editor for filters written in the text query language, with syntax
+ * highlighting, inline error markers and autocomplete driven by the schema
+ * (including field and operator `Autocompleter`s for values).
+ */
+
+import {
+  useState,
+  useRef,
+  useMemo,
+  useEffect,
+  useCallback,
+  useId,
+  type ReactNode,
+  type RefObject,
+} from 'react'
+import clsx from 'clsx'
+import { AutocompleteDropdown } from '@/components/AutocompleteDropdown'
+import type { AutocompleteContext, AutocompleteItem, FilterExpression, FilterSchema } from '@/types'
+import { DEFAULT_CONNECTORS } from '@/types'
+import {
+  analyzeQuery,
+  formatQuery,
+  getCompletionAt,
+  formatQueryText,
+  formatQueryOperator,
+  type QueryCompletion,
+  type QueryParseError,
+  type QuerySegment,
+} from '@/utils/queryLanguage'
+import { flattenFields } from '@/utils/fieldPaths'
+import './QueryEditor.css'
+
+export interface QueryEditorProps {
+  /** Filter schema */
+  schema: FilterSchema
+  /** Current filter expressions */
+  value: FilterExpression[]
+  /** Called with the parsed expressions whenever the text is valid */
+  onChange: (expressions: FilterExpression[]) => void
+  /** Called when the parse errors of the text change */
+  onErrorsChange?: (errors: QueryParseError[]) => void
+  /** ID for the editor */
+  id?: string
+  /** Additional CSS class names */
+  className?: string
+  /** Whether the editor is disabled */
+  disabled?: boolean
+  /** Placeholder text */
+  placeholder?: string
+  /** Accessible label for the editor */
+  'aria-label'?: string
+  /** Auto-focus the editor on mount */
+  autoFocus?: boolean
+  /** Ref to the underlying textarea */
+  inputRef?: RefObject<HTMLTextAreaElement | null>
+}
+
+/**
+ * Get the schema-driven suggestions for a completion context.
+ * Value suggestions come from autocompleters and are fetched separately.
+ */
+function getCompletionItems(completion: QueryCompletion, schema: FilterSchema): AutocompleteItem[] {
+  const lower = completion.partial.toLowerCase()
+  const matches = (...texts: (string | undefined)[]) =>
+    !lower || texts.some((text) => text?.toLowerCase().includes(lower))
+
+  switch (completion.kind) {
+    case 'field': {
+      const items: AutocompleteItem[] = []
+      if (schema.allowNegation && matches('NOT')) {
+        items.push({ type: 'negation', key: 'NOT', label: 'NOT', description: 'Negate condition' })
+      }
+      if (schema.allowGroups && !lower) {
+        items.push({ type: 'group', key: '(', label: '(', description: 'Start group' })
+      }
+      for (const field of flattenFields(schema)) {
+        if (matches(field.label, field.key)) {
+          items.push({
+            type: 'field',
+            key: field.key,
+            label: field.label,
+            description: field.description,
+          })
+        }
+      }
+      return items
+    }
+    case 'operator':
+      return completion.field.operators
+        .filter((op) => matches(op.label, op.key, op.symbol))
+        .map((op) => ({
+          type: 'operator' as const,
+          key: op.key,
+          label: op.label,
+          description: op.symbol,
+        }))
+    case 'connector': {
+      const items: AutocompleteItem[] = (schema.connectors ?? DEFAULT_CONNECTORS)
+        .filter((connector) => matches(connector.key, connector.label))
+        .map((connector) => ({
+          type: 'connector' as const,
+          key: connector.key,
+          label: connector.label,
+        }))
+      if (completion.openGroups > 0 && !lower) {
+        items.push({ type: 'group', key: ')', label: ')', description: 'End group' })
+      }
+      return items
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Get the text inserted for a selected suggestion
+ */
+function getInsertText(item: AutocompleteItem, completion: QueryCompletion): string {
+  switch (item.type) {
+    case 'operator': {
+      const operator =
+        completion.kind === 'operator'
+          ? completion.field.operators.find((op) => op.key === item.key)
+          : undefined
+      return operator && completion.kind === 'operator'
+        ? formatQueryOperator(operator, completion.field)
+        : item.key
+    }
+    case 'field':
+    case 'value':
+      return formatQueryText(item.key)
+    default:
+      return item.key
+  }
+}
+
+/**
+ * Render text with a span per highlighted segment and markers for errors
+ */
+function renderHighlights(
+  text: string,
+  segments: QuerySegment[],
+  errors: QueryParseError[]
+): ReactNode[] {
+  const boundaries = new Set([0, text.length])
+  for (const { start, end } of [...segments, ...errors]) {
+    boundaries.add(Math.min(start, text.length))
+    boundaries.add(Math.min(end, text.length))
+  }
+  const offsets = [...boundaries].sort((a, b) => a - b)
+  const nodes: ReactNode[] = []
+
+  offsets.forEach((start, index) => {
+    // Errors with no extent (e.g. a missing value at the end) get a point marker
+    if (errors.some((error) => error.start === start && error.end === start)) {
+      nodes.push(<span key={`point-${start}`} className="query-editor__error-point" />)
+    }
+    const end = offsets[index + 1]
+    if (end === undefined) return
+
+    const segment = segments.find((s) => s.start <= start && start < s.end)
+    const hasError = errors.some((error) => error.start <= start && start < error.end)
+    nodes.push(
+      <span
+        key={start}
+        className={clsx(segment && `query-editor__segment--${segment.role}`, {
+          'query-editor__segment--error': hasError,
+        })}
+      >
+        {text.slice(start, end)}
+      </span>
+    )
+  })
+
+  return nodes
+}
+
+/**
+ * QueryEditor component
+ */
+export function QueryEditor({
+  schema,
+  value,
+  onChange,
+  onErrorsChange,
+  id,
+  className,
+  disabled = false,
+  placeholder = 'status = open AND created after 2024-01-01',
+  'aria-label': ariaLabel,
+  autoFocus = false,
+  inputRef: externalInputRef,
+}: QueryEditorProps) {
+  const generatedId = useId()
+  const editorId = id ?? generatedId
+  const dropdownId = `${editorId}-dropdown`
+  const errorsId = `${editorId}-errors`
+  const internalInputRef = useRef<HTMLTextAreaElement>(null)
+  const inputRef = externalInputRef ?? internalInputRef
+  const highlightRef = useRef<HTMLDivElement>(null)
+
+  const [text, setText] = useState(() => formatQuery(value, schema))
+  const [cursor, setCursor] = useState(text.length)
+  const [isFocused, setIsFocused] = useState(false)
+  const [isDismissed, setIsDismissed] = useState(false)
+  const [highlightedIndex, setHighlightedIndex] = useState(0)
+  const [valueSuggestions, setValueSuggestions] = useState<AutocompleteItem[]>([])
+  const pendingCursorRef = useRef<number | null>(null)
+  // Whether the text was edited since its expressions were last applied
+  const isEditedRef = useRef(false)
+
+  // The expressions last emitted (or received), so external changes can be told apart
+  const lastValueRef = useRef(value)
+  useEffect(() => {
+    if (value === lastValueRef.current) return
+    const previousText = formatQuery(lastValueRef.current, schema)
+    lastValueRef.current = value
+    const newText = formatQuery(value, schema)
+    if (newText !== previousText) {
+      setText(newText)
+    }
+  }, [value, schema])
+
+  // Parse once per text change; errors, highlighting and completions all come from this
+  const analysis = useMemo(() => analyzeQuery(text, schema), [text, schema])
+  const { errors, segments } = analysis
+
+  useEffect(() => {
+    onErrorsChange?.(errors)
+  }, [errors, onErrorsChange])
+
+  // Apply edited text as soon as it is valid, unless it means the same filter
+  useEffect(() => {
+    if (!isEditedRef.current) return
+    isEditedRef.current = false
+    if (
+      analysis.errors.length === 0 &&
+      formatQuery(analysis.expressions, schema) !== formatQuery(lastValueRef.current, schema)
+    ) {
+      lastValueRef.current = analysis.expressions
+      onChange(analysis.expressions)
+    }
+  }, [analysis, schema, onChange])
+
+  const completion = useMemo(
+    () => getCompletionAt(analysis, text, cursor),
+    [analysis, text, cursor]
+  )
+
+  // Fetch value suggestions from the operator or field autocompleter
+  useEffect(() => {
+    if (completion.kind !== 'value') {
+      setValueSuggestions([])
+      return
+    }
+    const autocompleter =
+      completion.operator.valueAutocompleter ?? completion.field.valueAutocompleter
+    if (!autocompleter) {
+      setValueSuggestions([])
+      return
+    }
+
+    const context: AutocompleteContext = {
+      inputValue: completion.partial,
+      field: completion.field,
+      operator: completion.operator,
+      existingExpressions: completion.existingExpressions,
+      schema,
+    }
+    const result = autocompleter.getSuggestions(context)
+
+    if (result instanceof Promise) {
+      let cancelled = false
+      result
+        .then((suggestions) => {
+          if (!cancelled) {
+            setValueSuggestions(suggestions)
+          }
+        })
+        .catch(() => {
+          if (!cancelled) {
+            setValueSuggestions([])
+          }
+        })
+      return () => {
+        cancelled = true
+      }
+    }
+    setValueSuggestions(result)
+  }, [completion, schema])
+
+  const suggestions = useMemo(
+    () => (completion.kind === 'value' ? valueSuggestions : getCompletionItems(completion, schema)),
+    [completion, schema, valueSuggestions]
+  )
+
+  useEffect(() => {
+    setHighlightedIndex(0)
+  }, [suggestions])
+
+  const isDropdownOpen = isFocused && !isDismissed && !disabled && suggestions.length > 0
+
+  // Restore the cursor after text is replaced programmatically
+  useEffect(() => {
+    if (pendingCursorRef.current !== null && inputRef.current) {
+      inputRef.current.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current)
+      pendingCursorRef.current = null
+    }
+  }, [text, inputRef])
+
+  useEffect(() => {
+    if (autoFocus && !disabled) {
+      inputRef.current?.focus()
+    }
+  }, [autoFocus, disabled, inputRef])
+
+  const updateText = useCallback((newText: string, newCursor: number) => {
+    isEditedRef.current = true
+    setText(newText)
+    setCursor(newCursor)
+    setIsDismissed(false)
+  }, [])
+
+  const handleSelect = useCallback(
+    (item: AutocompleteItem) => {
+      const before = text.slice(0, completion.start)
+      const after = text.slice(cursor)
+      const insert = getInsertText(item, completion)
+      // Keep a single space before the next item; '(' is followed directly by a field
+      const spacing = item.key === '(' || /^\s/.test(after) ? '' : ' '
+      const newCursor = before.length + insert.length + (item.key === '(' ? 0 : 1)
+      pendingCursorRef.current = newCursor
+      updateText(`${before}${insert}${spacing}${after}`, newCursor)
+    },
+    [text, cursor, completion, updateText]
+  )
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (event.key === ' ' && event.ctrlKey) {
+        event.preventDefault()
+        setIsDismissed(false)
+        return
+      }
+
+      if (!isDropdownOpen) {
+        // Queries are a single line
+        if (event.key === 'Enter') {
+          event.preventDefault()
+        }
+        return
+      }
+
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault()
+          setHighlightedIndex((index) => (index + 1) % suggestions.length)
+          break
+        case 'ArrowUp':
+          event.preventDefault()
+          setHighlightedIndex((index) => (index - 1 + suggestions.length) % suggestions.length)
+          break
+        case 'Enter':
+        case 'Tab': {
+          const item = suggestions[highlightedIndex]
+          if (item && !item.disabled) {
+            event.preventDefault()
+            handleSelect(item)
+          }
+          break
+        }
+        case 'Escape':
+          event.preventDefault()
+          setIsDismissed(true)
+          break
+      }
+    },
+    [isDropdownOpen, suggestions, highlightedIndex, handleSelect]
+  )
+
+  const updateCursor = (event: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    setCursor(event.currentTarget.selectionStart)
+  }
+
+  return (
+    <div
+      className={clsx('query-editor', className, {
+        'query-editor--invalid': errors.length > 0,
+        'query-editor--disabled': disabled,
+      })}
+    >
+      <div className="query-editor__field">
+        <div ref={highlightRef} className="query-editor__highlight" aria-hidden="true">
+          {renderHighlights(text, segments, errors)}
+          {/* Keeps a trailing space or empty text the same height as the textarea */}{' '}
+        </div>
+        <textarea
+          ref={inputRef}
+          id={editorId}
+          className="query-editor__input"
+          value={text}
+          rows={1}
+          spellCheck={false}
+          autoComplete="off"
+          disabled={disabled}
+          placeholder={placeholder}
+          role="combobox"
+          aria-label={ariaLabel ?? 'Filter query'}
+          aria-autocomplete="list"
+          aria-expanded={isDropdownOpen}
+          aria-controls={isDropdownOpen ? dropdownId : undefined}
+          aria-activedescendant={
+            isDropdownOpen && suggestions[highlightedIndex]
+              ? `${dropdownId}-item-${highlightedIndex}`
+              : undefined
+          }
+          aria-invalid={errors.length > 0 || undefined}
+          aria-describedby={errors.length > 0 ? errorsId : undefined}
+          onChange={(event) => updateText(event.target.value, event.target.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onSelect={updateCursor}
+          onClick={updateCursor}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          onScroll={(event) => {
+            if (highlightRef.current) {
+              highlightRef.current.scrollTop = event.currentTarget.scrollTop
+            }
+          }}
+        />
+      </div>
+      {errors.length > 0 && (
+        <ul id={errorsId} className="query-editor__errors">
+          {errors.map((error, index) => (
+            <li key={index} className="query-editor__error">
+              {`Column ${error.start + 1}: ${error.message}`}
+            </li>
+          ))}
+        </ul>
+      )}
+      <AutocompleteDropdown
+        id={dropdownId}
+        className="query-editor__dropdown"
+        items={suggestions}
+        isOpen={isDropdownOpen}
+        highlightedIndex={highlightedIndex}
+        onSelect={handleSelect}
+        onHighlight={setHighlightedIndex}
+      />
+    </div>
+  )
+}
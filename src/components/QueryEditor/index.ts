@@ -0,0 +1,2 @@
+export { QueryEditor } from './QueryEditor'
+export type { QueryEditorProps } from './QueryEditor'
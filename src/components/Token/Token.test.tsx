@@ -173,6 +173,18 @@ describe('Token', () => {
       const { container } = render(<Token {...defaultProps} data={createConnectorToken()} />)
       expect(container.querySelector('.token--connector')).toBeInTheDocument()
     })
+
+    it('should render negation tokens with a distinct class', () => {
+      const { container } = render(
+        <Token
+          {...defaultProps}
+          data={createFieldToken({ type: 'negation', value: { key: 'NOT', label: 'NOT' } })}
+        />
+      )
+      const token = container.querySelector('.token--negation')
+      expect(token).toHaveTextContent('NOT')
+      expect(token).toHaveAttribute('aria-label', 'negation: NOT')
+    })
   })
 
   describe('Editing Mode', () => {
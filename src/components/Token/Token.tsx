@@ -1,12 +1,20 @@
 /**
  * Token Component
  *
- * Renders a single token (field, operator, value, or connector) in the filter box.
+ * Renders a single token (field, operator, value, connector, group or negation) in the filter box.
  */
 
 import { memo, useState, useEffect, useRef, type KeyboardEvent } from 'react'
 import { clsx } from 'clsx'
-import type { TokenData, FieldValue, OperatorValue, ConditionValue, ConnectorValue } from '@/types'
+import type {
+  TokenData,
+  FieldValue,
+  OperatorValue,
+  ConditionValue,
+  ConnectorValue,
+  GroupValue,
+  NegationValue,
+} from '@/types'
 import './Token.css'
 
 export interface TokenProps {
@@ -61,6 +69,15 @@ function getTokenDisplay(data: TokenData): string {
       const connectorValue = data.value as ConnectorValue
       return connectorValue.label
     }
+    case 'group-open':
+    case 'group-close': {
+      const groupValue = data.value as GroupValue
+      return groupValue.label
+    }
+    case 'negation': {
+      const negationValue = data.value as NegationValue
+      return negationValue.label
+    }
     default:
       return ''
   }
@@ -70,6 +87,8 @@ function getTokenDisplay(data: TokenData): string {
  * Get the aria-label for a token
  */
 function getTokenAriaLabel(data: TokenData): string {
+  if (data.type === 'group-open') return 'group start'
+  if (data.type === 'group-close') return 'group end'
   const display = getTokenDisplay(data)
   return `${data.type}: ${display}`
 }
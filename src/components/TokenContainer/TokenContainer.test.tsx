@@ -102,6 +102,69 @@ describe('TokenContainer', () => {
     })
   })
 
+  describe('Groups', () => {
+    const createGroupTokens = (): TokenData[] => [
+      {
+        id: 'token-0',
+        type: 'group-open',
+        value: { key: '(', label: '(' },
+        position: 0,
+        expressionIndex: 0,
+      },
+      ...createTokens().map((token) => ({ ...token, position: token.position + 1 })),
+      {
+        id: 'token-4',
+        type: 'group-close',
+        value: { key: ')', label: ')' },
+        position: 4,
+        expressionIndex: 0,
+      },
+    ]
+
+    it('should render open and close paren tokens around the expression', () => {
+      const { container } = render(
+        <TokenContainer {...defaultProps} tokens={createGroupTokens()} />
+      )
+      const tokens = container.querySelectorAll('.token')
+      expect(tokens[0]).toHaveClass('token--group-open')
+      expect(tokens[0]).toHaveTextContent('(')
+      expect(tokens[4]).toHaveClass('token--group-close')
+      expect(tokens[4]).toHaveTextContent(')')
+      expect(screen.getByRole('option', { name: 'group start' })).toBeInTheDocument()
+      expect(screen.getByRole('option', { name: 'group end' })).toBeInTheDocument()
+    })
+
+    it('should select paren tokens by their index', () => {
+      const onTokenSelect = vi.fn()
+      render(
+        <TokenContainer
+          {...defaultProps}
+          tokens={createGroupTokens()}
+          onTokenSelect={onTokenSelect}
+        />
+      )
+      fireEvent.click(screen.getByRole('option', { name: 'group end' }))
+      expect(onTokenSelect).toHaveBeenCalledWith(4)
+    })
+
+    it('should delete only the group when a selected paren token is deleted', () => {
+      const onGroupDelete = vi.fn()
+      const onExpressionDelete = vi.fn()
+      render(
+        <TokenContainer
+          {...defaultProps}
+          tokens={createGroupTokens()}
+          selectedTokenIndex={0}
+          onGroupDelete={onGroupDelete}
+          onExpressionDelete={onExpressionDelete}
+        />
+      )
+      fireEvent.click(screen.getByRole('button', { name: 'Delete group-open' }))
+      expect(onGroupDelete).toHaveBeenCalledWith(0)
+      expect(onExpressionDelete).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Accessibility', () => {
     it('should have proper container role', () => {
       const { container } = render(<TokenContainer {...defaultProps} />)
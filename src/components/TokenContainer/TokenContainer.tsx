@@ -30,6 +30,10 @@ export interface TokenContainerProps {
   onOperatorClick?: (expressionIndex: number) => void
   /** Called when a connector token is clicked (for editing) */
   onConnectorClick?: (expressionIndex: number) => void
+  /** Called when a negation token is clicked or deleted (removes the negation) */
+  onNegationClick?: (expressionIndex: number) => void
+  /** Called when a parenthesis token is deleted (removes its group, keeping the expressions) */
+  onGroupDelete?: (tokenIndex: number) => void
   /** Called when input gains focus */
   onInputFocus?: () => void
   /** Called when input loses focus (receives event to check relatedTarget) */
@@ -77,6 +81,8 @@ export function TokenContainer({
   onFieldClick,
   onOperatorClick,
   onConnectorClick,
+  onNegationClick,
+  onGroupDelete,
   onInputFocus,
   onInputBlur,
   onFocus,
@@ -121,6 +127,13 @@ export function TokenContainer({
       onConnectorClick
     ) {
       onConnectorClick(token.expressionIndex)
+    } else if (
+      token.type === 'negation' &&
+      !token.isPending &&
+      token.expressionIndex >= 0 &&
+      onNegationClick
+    ) {
+      onNegationClick(token.expressionIndex)
     } else if (token.type === 'value') {
       // Value tokens: single-click selects (for deletion), double-click edits
       // This handler is for single-click, so select the token
@@ -167,7 +180,15 @@ export function TokenContainer({
             onEdit={() => handleTokenDoubleClick(token, index)}
             onSelect={() => handleTokenClickInternal(token, index)}
             onDelete={() => {
-              if (token.expressionIndex >= 0 && onExpressionDelete) {
+              if (token.type === 'negation' && token.expressionIndex >= 0 && onNegationClick) {
+                onNegationClick(token.expressionIndex)
+              } else if (
+                (token.type === 'group-open' || token.type === 'group-close') &&
+                token.expressionIndex >= 0 &&
+                onGroupDelete
+              ) {
+                onGroupDelete(index)
+              } else if (token.expressionIndex >= 0 && onExpressionDelete) {
                 onExpressionDelete(token.expressionIndex)
               }
             }}
@@ -15,7 +15,10 @@ export { AutocompleteDropdown } from './AutocompleteDropdown'
 export type { AutocompleteDropdownProps } from './AutocompleteDropdown'
 
 export { FilterBox } from './FilterBox'
-export type { FilterBoxProps, FilterBoxHandle } from './FilterBox'
+export type { FilterBoxProps, FilterBoxHandle, FilterBoxMode } from './FilterBox'
+
+export { QueryEditor } from './QueryEditor'
+export type { QueryEditorProps } from './QueryEditor'
 
 export { DropdownPortal } from './DropdownPortal'
 export type { DropdownPortalProps } from './DropdownPortal'
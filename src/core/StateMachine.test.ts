@@ -817,4 +817,140 @@ describe('FilterStateMachine', () => {
       })
     })
   })
+
+  describe('Groups', () => {
+    const field: FieldValue = { key: 'status', label: 'Status', type: 'enum' }
+    const operator: OperatorValue = { key: 'eq', label: 'equals', symbol: '=' }
+    const value: ConditionValue = { raw: 'active', display: 'Active', serialized: 'active' }
+
+    const addExpression = () => {
+      machine.transition({ type: 'SELECT_FIELD', payload: field })
+      machine.transition({ type: 'SELECT_OPERATOR', payload: operator })
+      machine.transition({ type: 'CONFIRM_VALUE', payload: value })
+    }
+
+    beforeEach(() => {
+      machine.transition({ type: 'FOCUS' })
+    })
+
+    it('should allow OPEN_GROUP when selecting a field', () => {
+      expect(machine.canTransition({ type: 'OPEN_GROUP' })).toBe(true)
+    })
+
+    it('should attach pending open groups to the next expression', () => {
+      machine.transition({ type: 'OPEN_GROUP' })
+      machine.transition({ type: 'OPEN_GROUP' })
+      expect(machine.getContext().pendingOpenGroups).toBe(2)
+
+      addExpression()
+
+      expect(machine.getContext().completedExpressions[0]?.openGroups).toBe(2)
+      expect(machine.getContext().pendingOpenGroups).toBeUndefined()
+    })
+
+    it('should only allow CLOSE_GROUP while a group is open', () => {
+      addExpression()
+      expect(machine.canTransition({ type: 'CLOSE_GROUP' })).toBe(false)
+
+      machine.transition({ type: 'SELECT_CONNECTOR', payload: 'AND' })
+      machine.transition({ type: 'OPEN_GROUP' })
+      addExpression()
+      expect(machine.canTransition({ type: 'CLOSE_GROUP' })).toBe(true)
+
+      machine.transition({ type: 'CLOSE_GROUP' })
+      expect(machine.getContext().completedExpressions[1]?.closeGroups).toBe(1)
+
+      // Closing again is ignored since no group is open
+      machine.transition({ type: 'CLOSE_GROUP' })
+      expect(machine.getContext().completedExpressions[1]?.closeGroups).toBe(1)
+    })
+
+    it('should close a group of loaded expressions after FOCUS', () => {
+      machine.transition({ type: 'BLUR' })
+      machine.loadExpressions([{ condition: { field, operator, value }, openGroups: 1 }])
+      machine.transition({ type: 'FOCUS' })
+
+      machine.transition({ type: 'CLOSE_GROUP' })
+      expect(machine.getContext().completedExpressions[0]?.closeGroups).toBe(1)
+    })
+
+    it('should remove a pending open group on DELETE_LAST', () => {
+      machine.transition({ type: 'OPEN_GROUP' })
+      machine.transition({ type: 'DELETE_LAST' })
+
+      expect(machine.getState()).toBe('selecting-field')
+      expect(machine.getContext().pendingOpenGroups).toBeUndefined()
+    })
+
+    it('should reopen a closed group before removing the expression on DELETE_LAST', () => {
+      machine.transition({ type: 'OPEN_GROUP' })
+      addExpression()
+      machine.transition({ type: 'CLOSE_GROUP' })
+
+      machine.transition({ type: 'DELETE_LAST' })
+      expect(machine.getState()).toBe('selecting-connector')
+      expect(machine.getContext().completedExpressions[0]?.closeGroups).toBeUndefined()
+
+      machine.transition({ type: 'DELETE_LAST' })
+      expect(machine.getState()).toBe('entering-value')
+      expect(machine.getContext().pendingOpenGroups).toBe(1)
+    })
+
+    it('should discard pending open groups on BLUR', () => {
+      machine.transition({ type: 'OPEN_GROUP' })
+      machine.transition({ type: 'BLUR' })
+
+      expect(machine.getContext().pendingOpenGroups).toBeUndefined()
+    })
+  })
+
+  describe('Negation', () => {
+    const field: FieldValue = { key: 'status', label: 'Status', type: 'enum' }
+    const operator: OperatorValue = { key: 'eq', label: 'equals', symbol: '=' }
+    const value: ConditionValue = { raw: 'active', display: 'Active', serialized: 'active' }
+
+    beforeEach(() => {
+      machine.transition({ type: 'FOCUS' })
+    })
+
+    it('should negate the next condition', () => {
+      machine.transition({ type: 'NEGATE' })
+      expect(machine.getContext().pendingNegated).toBe(true)
+
+      machine.transition({ type: 'SELECT_FIELD', payload: field })
+      machine.transition({ type: 'SELECT_OPERATOR', payload: operator })
+      machine.transition({ type: 'CONFIRM_VALUE', payload: value })
+
+      expect(machine.getContext().completedExpressions[0]?.condition.negated).toBe(true)
+      expect(machine.getContext().pendingNegated).toBeUndefined()
+    })
+
+    it('should not allow opening a group after NOT', () => {
+      machine.transition({ type: 'NEGATE' })
+
+      expect(machine.canTransition({ type: 'OPEN_GROUP' })).toBe(false)
+      expect(machine.canTransition({ type: 'NEGATE' })).toBe(false)
+    })
+
+    it('should remove the pending negation before pending groups on DELETE_LAST', () => {
+      machine.transition({ type: 'OPEN_GROUP' })
+      machine.transition({ type: 'NEGATE' })
+
+      machine.transition({ type: 'DELETE_LAST' })
+      expect(machine.getContext().pendingNegated).toBeUndefined()
+      expect(machine.getContext().pendingOpenGroups).toBe(1)
+    })
+
+    it('should restore the negation when deleting back into an expression', () => {
+      machine.transition({ type: 'NEGATE' })
+      machine.transition({ type: 'SELECT_FIELD', payload: field })
+      machine.transition({ type: 'SELECT_OPERATOR', payload: operator })
+      machine.transition({ type: 'CONFIRM_VALUE', payload: value })
+
+      machine.transition({ type: 'DELETE_LAST' })
+
+      expect(machine.getState()).toBe('entering-value')
+      expect(machine.getContext().pendingNegated).toBe(true)
+    })
+  })
 })
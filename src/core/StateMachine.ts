@@ -11,6 +11,7 @@ import type {
   FilterExpression,
   FilterCondition,
 } from '@/types'
+import { getOpenGroupDepth } from '@/utils/expressionTree'
 
 // =============================================================================
 // State Types
@@ -44,6 +45,10 @@ export interface FilterContext {
   currentOperator?: OperatorValue
   /** Pending connector (set when continuing after an expression) */
   pendingConnector?: 'AND' | 'OR'
+  /** Groups opened before the expression being built (undefined when none) */
+  pendingOpenGroups?: number
+  /** Whether the expression being built is negated (NOT) */
+  pendingNegated?: boolean
 }
 
 // =============================================================================
@@ -60,6 +65,9 @@ export type FilterActionType =
   | 'SELECT_OPERATOR'
   | 'CONFIRM_VALUE'
   | 'SELECT_CONNECTOR'
+  | 'OPEN_GROUP'
+  | 'CLOSE_GROUP'
+  | 'NEGATE'
   | 'COMPLETE'
   | 'DELETE_LAST'
   | 'CLEAR'
@@ -75,6 +83,9 @@ export type FilterAction =
   | { type: 'SELECT_OPERATOR'; payload: OperatorValue }
   | { type: 'CONFIRM_VALUE'; payload: ConditionValue }
   | { type: 'SELECT_CONNECTOR'; payload: 'AND' | 'OR' }
+  | { type: 'OPEN_GROUP' }
+  | { type: 'CLOSE_GROUP' }
+  | { type: 'NEGATE' }
   | { type: 'COMPLETE' }
   | { type: 'DELETE_LAST' }
   | { type: 'CLEAR' }
@@ -132,13 +143,17 @@ export class FilterStateMachine {
       case 'idle':
         return ['FOCUS']
       case 'selecting-field':
-        return ['SELECT_FIELD', 'BLUR', 'DELETE_LAST']
+        return this.context.pendingNegated
+          ? ['SELECT_FIELD', 'BLUR', 'DELETE_LAST']
+          : ['SELECT_FIELD', 'OPEN_GROUP', 'NEGATE', 'BLUR', 'DELETE_LAST']
       case 'selecting-operator':
         return ['SELECT_OPERATOR', 'BLUR', 'DELETE_LAST']
       case 'entering-value':
         return ['CONFIRM_VALUE', 'BLUR', 'DELETE_LAST']
       case 'selecting-connector':
-        return ['SELECT_CONNECTOR', 'COMPLETE', 'BLUR', 'DELETE_LAST']
+        return getOpenGroupDepth(this.context.completedExpressions) > 0
+          ? ['SELECT_CONNECTOR', 'CLOSE_GROUP', 'COMPLETE', 'BLUR', 'DELETE_LAST']
+          : ['SELECT_CONNECTOR', 'COMPLETE', 'BLUR', 'DELETE_LAST']
       case 'editing-token':
         // Note: These actions are returned for completeness, but editing-token
         // transitions are handled by React state, not this machine
@@ -171,6 +186,15 @@ export class FilterStateMachine {
       case 'SELECT_CONNECTOR':
         this.handleSelectConnector(action.payload)
         break
+      case 'OPEN_GROUP':
+        this.handleOpenGroup()
+        break
+      case 'CLOSE_GROUP':
+        this.handleCloseGroup()
+        break
+      case 'NEGATE':
+        this.handleNegate()
+        break
       case 'COMPLETE':
         this.handleComplete()
         break
@@ -196,6 +220,8 @@ export class FilterStateMachine {
       currentField: undefined,
       currentOperator: undefined,
       pendingConnector: undefined,
+      pendingOpenGroups: undefined,
+      pendingNegated: undefined,
     }
   }
 
@@ -210,6 +236,8 @@ export class FilterStateMachine {
       currentField: undefined,
       currentOperator: undefined,
       pendingConnector: undefined,
+      pendingOpenGroups: undefined,
+      pendingNegated: undefined,
     }
   }
 
@@ -240,6 +268,8 @@ export class FilterStateMachine {
       currentField: undefined,
       currentOperator: undefined,
       pendingConnector: undefined,
+      pendingOpenGroups: undefined,
+      pendingNegated: undefined,
     }
     this.state = 'idle'
   }
@@ -275,17 +305,25 @@ export class FilterStateMachine {
         operator: this.context.currentOperator,
         value: value,
       }
+      if (this.context.pendingNegated) {
+        condition.negated = true
+      }
 
       const newExpression: FilterExpression = {
         condition,
         connector: undefined,
       }
+      if (this.context.pendingOpenGroups) {
+        newExpression.openGroups = this.context.pendingOpenGroups
+      }
 
       this.context = {
         ...this.context,
         completedExpressions: [...this.context.completedExpressions, newExpression],
         currentField: undefined,
         currentOperator: undefined,
+        pendingOpenGroups: undefined,
+        pendingNegated: undefined,
       }
       this.state = 'selecting-connector'
     }
@@ -313,6 +351,53 @@ export class FilterStateMachine {
     }
   }
 
+  private handleOpenGroup(): void {
+    // Groups cannot be opened after NOT, which negates a single condition
+    if (this.state === 'selecting-field' && !this.context.pendingNegated) {
+      this.context = {
+        ...this.context,
+        pendingOpenGroups: (this.context.pendingOpenGroups ?? 0) + 1,
+      }
+    }
+  }
+
+  private handleCloseGroup(): void {
+    const expressions = [...this.context.completedExpressions]
+    const lastIndex = expressions.length - 1
+    const lastExpression = expressions[lastIndex]
+    // Loaded expressions are focused in selecting-field while the last of them
+    // still waits for a connector
+    const awaitingConnector =
+      this.state === 'selecting-connector' ||
+      (this.state === 'selecting-field' &&
+        lastExpression !== undefined &&
+        !lastExpression.connector &&
+        !this.context.pendingOpenGroups &&
+        !this.context.pendingNegated)
+    if (awaitingConnector && getOpenGroupDepth(expressions) > 0) {
+      // Close the innermost open group after the last expression
+      if (lastExpression) {
+        expressions[lastIndex] = {
+          ...lastExpression,
+          closeGroups: (lastExpression.closeGroups ?? 0) + 1,
+        }
+      }
+      this.context = {
+        ...this.context,
+        completedExpressions: expressions,
+      }
+    }
+  }
+
+  private handleNegate(): void {
+    if (this.state === 'selecting-field') {
+      this.context = {
+        ...this.context,
+        pendingNegated: true,
+      }
+    }
+  }
+
   private handleComplete(): void {
     if (this.state === 'selecting-connector') {
       this.context = {
@@ -326,18 +411,34 @@ export class FilterStateMachine {
   private handleDeleteLast(): void {
     switch (this.state) {
       case 'selecting-connector': {
-        // Remove the last completed expression and go back to entering-value
-        const expressions = this.context.completedExpressions.slice(0, -1)
         const deletedExpression =
           this.context.completedExpressions[this.context.completedExpressions.length - 1]
 
+        // Reopen the last closed group before removing the expression itself
+        if (deletedExpression?.closeGroups) {
+          const expressions = [...this.context.completedExpressions]
+          const { closeGroups, ...rest } = deletedExpression
+          expressions[expressions.length - 1] =
+            closeGroups > 1 ? { ...rest, closeGroups: closeGroups - 1 } : rest
+          this.context = {
+            ...this.context,
+            completedExpressions: expressions,
+          }
+          break
+        }
+
+        // Remove the last completed expression and go back to entering-value
+        const expressions = this.context.completedExpressions.slice(0, -1)
+
         if (deletedExpression) {
-          // Restore the field and operator from the deleted expression
+          // Restore the field, operator, negation and opened groups from the deleted expression
           this.context = {
             ...this.context,
             completedExpressions: expressions,
             currentField: deletedExpression.condition.field,
             currentOperator: deletedExpression.condition.operator,
+            pendingOpenGroups: deletedExpression.openGroups,
+            pendingNegated: deletedExpression.condition.negated || undefined,
           }
         }
         this.state = 'entering-value'
@@ -365,6 +466,23 @@ export class FilterStateMachine {
       }
 
       case 'selecting-field': {
+        // Remove the negation of the next expression first
+        if (this.context.pendingNegated) {
+          this.context = {
+            ...this.context,
+            pendingNegated: undefined,
+          }
+          break
+        }
+        // Then remove groups opened for the next expression
+        if (this.context.pendingOpenGroups) {
+          this.context = {
+            ...this.context,
+            pendingOpenGroups:
+              this.context.pendingOpenGroups > 1 ? this.context.pendingOpenGroups - 1 : undefined,
+          }
+          break
+        }
         // If there are completed expressions, go to selecting-connector of the last one
         if (this.context.completedExpressions.length > 0) {
           // Remove the connector from the last expression
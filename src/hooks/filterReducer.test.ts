@@ -524,6 +524,26 @@ describe('selectors', () => {
       expect(suggestions[0].label).toBe('Status')
     })
 
+    it('should only return fields whose prerequisites are filtered', () => {
+      const schema: FilterSchema = {
+        fields: [
+          ...mockSchema.fields,
+          { ...mockSchema.fields[1], key: 'substatus', label: 'Substatus', dependsOn: 'status' },
+        ],
+      }
+      const state: FilterState = { ...initialFilterState, step: 'selecting-field' }
+
+      expect(selectSuggestions(state, schema, []).map((item) => item.key)).toEqual([
+        'status',
+        'name',
+      ])
+      expect(selectSuggestions(state, schema, mockExpressions).map((item) => item.key)).toEqual([
+        'status',
+        'name',
+        'substatus',
+      ])
+    })
+
     it('should return operators when selecting-operator', () => {
       const state: FilterState = {
         ...initialFilterState,
@@ -17,6 +17,8 @@ import type {
   FilterSchema,
 } from '@/types'
 import type { FilterStep } from '@/core'
+import { getAvailableFields } from '@/utils/dependencies'
+import { findField } from '@/utils/fieldPaths'
 
 // =============================================================================
 // State Shape
@@ -448,6 +450,30 @@ export function selectTokens(
 
   // Add tokens from completed expressions
   expressions.forEach((expr, exprIndex) => {
+    // Group open tokens
+    for (let i = 0; i < (expr.openGroups ?? 0); i++) {
+      tokens.push({
+        id: `${exprIndex}-group-open-${i}`,
+        type: 'group-open',
+        value: { key: '(', label: '(' },
+        position: position++,
+        expressionIndex: exprIndex,
+        isPending: false,
+      })
+    }
+
+    // Negation token
+    if (expr.condition.negated) {
+      tokens.push({
+        id: `${exprIndex}-negation`,
+        type: 'negation',
+        value: { key: 'NOT', label: 'NOT' },
+        position: position++,
+        expressionIndex: exprIndex,
+        isPending: false,
+      })
+    }
+
     // Field token
     tokens.push({
       id: `${exprIndex}-field`,
@@ -478,6 +504,18 @@ export function selectTokens(
       isPending: false,
     })
 
+    // Group close tokens
+    for (let i = 0; i < (expr.closeGroups ?? 0); i++) {
+      tokens.push({
+        id: `${exprIndex}-group-close-${i}`,
+        type: 'group-close',
+        value: { key: ')', label: ')' },
+        position: position++,
+        expressionIndex: exprIndex,
+        isPending: false,
+      })
+    }
+
     // Connector token (if present)
     if (expr.connector) {
       tokens.push({
@@ -520,7 +558,8 @@ export function selectTokens(
 }
 
 /**
- * Get suggestions based on current state
+ * Get suggestions based on current state.
+ * Fields whose prerequisites are not met by the expressions are left out.
  */
 export function selectSuggestions(
   state: FilterState,
@@ -543,7 +582,7 @@ export function selectSuggestions(
   if (editingOperatorIndex >= 0 && expressions[editingOperatorIndex]) {
     const expr = expressions[editingOperatorIndex]
     const fieldKey = expr.condition.field.key
-    const fieldConfig = schema.fields.find((f) => f.key === fieldKey)
+    const fieldConfig = findField(schema, fieldKey)
     if (fieldConfig) {
       return fieldConfig.operators.map((op) => ({
         type: 'operator' as const,
@@ -558,7 +597,7 @@ export function selectSuggestions(
   switch (step) {
     case 'selecting-field':
       return filterByInput(
-        schema.fields.map((field) => ({
+        getAvailableFields(schema, expressions).map((field) => ({
           type: 'field' as const,
           key: field.key,
           label: field.label,
@@ -570,7 +609,7 @@ export function selectSuggestions(
 
     case 'selecting-operator': {
       if (!currentField) return []
-      const fieldConfig = schema.fields.find((f) => f.key === currentField.key)
+      const fieldConfig = findField(schema, currentField.key)
       if (!fieldConfig) return []
       return filterByInput(
         fieldConfig.operators.map((op) => ({
@@ -0,0 +1,163 @@
+/**
+ * Tests for array fields in useFilterState: selecting several values for
+ * list operators and completing operators that take no value
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useFilterState } from './useFilterState'
+import { createEnumAutocompleter } from '@/autocompleters'
+import { ARRAY_OPERATORS } from '@/types'
+import type { FilterExpression, FilterSchema } from '@/types'
+
+const keyDown = (key: string, ctrlKey = false) =>
+  ({
+    key,
+    preventDefault: vi.fn(),
+    stopPropagation: vi.fn(),
+    ctrlKey,
+    shiftKey: false,
+    metaKey: false,
+  }) as unknown as React.KeyboardEvent<HTMLInputElement>
+
+const schema: FilterSchema = {
+  fields: [
+    {
+      key: 'tags',
+      label: 'Tags',
+      type: 'array',
+      operators: ARRAY_OPERATORS,
+      valueAutocompleter: createEnumAutocompleter([
+        { key: 'bug', label: 'Bug' },
+        { key: 'docs', label: 'Docs' },
+        { key: 'ui', label: 'UI' },
+      ]),
+    },
+  ],
+}
+
+const empty: FilterExpression[] = []
+
+const keys = (result: { current: ReturnType<typeof useFilterState> }) =>
+  result.current.suggestions.map((item) => item.key)
+
+/** Focus the input and select the tags field and the given operator */
+const selectOperator = (
+  result: { current: ReturnType<typeof useFilterState> },
+  operatorKey: string
+) => {
+  act(() => {
+    result.current.handleFocus()
+  })
+  act(() => {
+    result.current.handleSelect(result.current.suggestions[0])
+  })
+  const operator = result.current.suggestions.find((item) => item.key === operatorKey)
+  act(() => {
+    result.current.handleSelect(operator!)
+  })
+}
+
+describe('useFilterState - Array Fields', () => {
+  it('should collect several values for list operators', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange }))
+
+    selectOperator(result, 'anyOf')
+    expect(result.current.state).toBe('entering-value')
+    expect(keys(result)).toEqual(['bug', 'docs', 'ui'])
+
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[0])
+    })
+    expect(result.current.state).toBe('entering-value')
+    expect(keys(result)).toEqual(['docs', 'ui'])
+    expect(result.current.announcement).toMatch(/^Added "Bug"\. Select more values/)
+
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[1])
+    })
+    expect(result.current.tokens.find((token) => token.id === 'pending-value')?.value).toEqual({
+      raw: ['bug', 'ui'],
+      display: 'Bug, UI',
+      serialized: 'bug, ui',
+    })
+    expect(onChange).not.toHaveBeenCalled()
+
+    act(() => {
+      result.current.handleKeyDown(keyDown('Enter'))
+    })
+    expect(onChange).toHaveBeenLastCalledWith([
+      {
+        condition: {
+          field: { key: 'tags', label: 'Tags', type: 'array' },
+          operator: { key: 'anyOf', label: 'contains any of', symbol: undefined },
+          value: { raw: ['bug', 'ui'], display: 'Bug, UI', serialized: 'bug, ui' },
+        },
+      },
+    ])
+  })
+
+  it('should remove the last selected value with Backspace', () => {
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange: vi.fn() }))
+
+    selectOperator(result, 'allOf')
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[0])
+    })
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[0])
+    })
+
+    act(() => {
+      result.current.handleKeyDown(keyDown('Backspace'))
+    })
+    expect(result.current.state).toBe('entering-value')
+    expect(keys(result)).toEqual(['docs', 'ui'])
+    expect(result.current.announcement).toMatch(/^Removed "Docs"\./)
+  })
+
+  it('should drop the selected values when the filter is cleared', () => {
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange: vi.fn() }))
+
+    selectOperator(result, 'anyOf')
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[0])
+    })
+    act(() => {
+      result.current.handleClear()
+    })
+    expect(result.current.state).toBe('idle')
+    expect(result.current.tokens).toEqual([])
+
+    selectOperator(result, 'anyOf')
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[0])
+    })
+    act(() => {
+      result.current.handleKeyDown(keyDown('Backspace', true))
+    })
+    expect(result.current.state).toBe('idle')
+    expect(result.current.tokens).toEqual([])
+
+    selectOperator(result, 'allOf')
+    expect(keys(result)).toEqual(['bug', 'docs', 'ui'])
+  })
+
+  it('should complete operators that take no value when selected', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange }))
+
+    selectOperator(result, 'isEmpty')
+
+    expect(result.current.state).toBe('selecting-connector')
+    expect(onChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({
+        condition: expect.objectContaining({
+          operator: expect.objectContaining({ key: 'isEmpty' }),
+          value: { raw: '', display: '', serialized: '' },
+        }),
+      }),
+    ])
+  })
+})
@@ -1,7 +1,8 @@
 import { describe, expect, it, vi } from 'vitest'
 import { renderHook, act } from '@testing-library/react'
 import { useFilterState } from './useFilterState'
-import type { FilterExpression, ConditionValue } from '@/types'
+import type { FilterExpression, ConditionValue, FilterSchema } from '@/types'
+import { createCascadingAutocompleter } from '@/autocompleters'
 import {
   createTestSchema,
   createMockCustomWidget,
@@ -174,6 +175,54 @@ describe('useFilterState - Editing', () => {
 
       expect(result.current.isDropdownOpen).toBe(false)
     })
+
+    it('should announce dependent values that no longer match after an edit', () => {
+      const operators = [{ key: 'eq', label: 'equals', symbol: '=' }]
+      const schema: FilterSchema = {
+        fields: [
+          { key: 'country', label: 'Country', type: 'enum', operators },
+          {
+            key: 'city',
+            label: 'City',
+            type: 'enum',
+            operators,
+            valueAutocompleter: createCascadingAutocompleter('country', {
+              FR: [{ key: 'paris', label: 'Paris' }],
+              DE: [{ key: 'berlin', label: 'Berlin' }],
+            }),
+          },
+        ],
+      }
+      const condition = (key: string, raw: string) => ({
+        field: { key, label: key, type: 'enum' as const },
+        operator: { key: 'eq', label: 'equals', symbol: '=' },
+        value: { raw, display: raw, serialized: raw },
+      })
+      const initialValue: FilterExpression[] = [
+        { condition: condition('country', 'FR'), connector: 'AND' },
+        { condition: condition('city', 'paris') },
+      ]
+      const onChange = vi.fn()
+
+      const { result } = renderHook(() => useFilterState({ schema, value: initialValue, onChange }))
+
+      act(() => {
+        result.current.handleTokenEdit(2)
+      })
+      act(() => {
+        result.current.handleTokenEditComplete({ raw: 'DE', display: 'DE', serialized: 'DE' })
+      })
+
+      expect(onChange).toHaveBeenLastCalledWith([
+        expect.objectContaining({
+          condition: expect.objectContaining({ value: expect.objectContaining({ raw: 'DE' }) }),
+        }),
+        initialValue[1],
+      ])
+      expect(result.current.announcement).toMatch(
+        /^Value updated\. Value "paris" is not valid for field "city"\. /
+      )
+    })
   })
 
   describe('Operator Editing', () => {
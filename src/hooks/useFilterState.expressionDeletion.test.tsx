@@ -212,3 +212,77 @@ describe('Expression Deletion State Reset', () => {
     expect(onChange).toHaveBeenLastCalledWith([])
   })
 })
+
+describe('Dependent Fields', () => {
+  const operators = [{ key: 'eq', label: 'equals', symbol: '=' }]
+  const schema: FilterSchema = {
+    fields: [
+      { key: 'category', label: 'Category', type: 'string', operators },
+      {
+        key: 'subcategory',
+        label: 'Subcategory',
+        type: 'string',
+        operators,
+        dependsOn: 'category',
+        removeWithPrerequisite: true,
+      },
+      { key: 'size', label: 'Size', type: 'string', operators, dependsOn: 'category' },
+    ],
+  }
+  const expression = (key: string, label: string) => ({
+    condition: {
+      field: { key, label, type: 'string' as const },
+      operator: { key: 'eq', label: 'equals', symbol: '=' },
+      value: { raw: 'x', display: 'x', serialized: 'x' },
+    },
+  })
+
+  it('should remove dependents that opt in together with their prerequisite', () => {
+    const onChange = vi.fn()
+    const initialValue = [
+      { ...expression('category', 'Category'), connector: 'AND' as const },
+      { ...expression('subcategory', 'Subcategory'), connector: 'AND' as const },
+      expression('size', 'Size'),
+    ]
+
+    const { result } = renderHook(() => useFilterState({ schema, value: initialValue, onChange }))
+
+    act(() => {
+      result.current.handleExpressionDelete(0)
+    })
+
+    expect(onChange).toHaveBeenLastCalledWith([expression('size', 'Size')])
+  })
+
+  it('should only suggest dependent fields once their prerequisite is filtered', () => {
+    const empty = renderHook(() => useFilterState({ schema, value: [], onChange: vi.fn() }))
+    act(() => {
+      empty.result.current.handleFocus()
+    })
+    expect(empty.result.current.suggestions.map((item) => item.key)).toEqual(['category'])
+
+    const { result } = renderHook(() =>
+      useFilterState({
+        schema,
+        value: [
+          { ...expression('category', 'Category'), connector: 'AND' },
+          expression('size', 'Size'),
+        ],
+        onChange: vi.fn(),
+      })
+    )
+    act(() => {
+      result.current.handleFieldEdit(1)
+    })
+    expect(result.current.suggestions.map((item) => item.key)).toEqual([
+      'category',
+      'subcategory',
+      'size',
+    ])
+
+    act(() => {
+      result.current.handleFieldEdit(0)
+    })
+    expect(result.current.suggestions.map((item) => item.key)).toEqual(['category'])
+  })
+})
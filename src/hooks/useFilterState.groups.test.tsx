@@ -0,0 +1,212 @@
+/**
+ * Tests for parenthesized groups in useFilterState
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useFilterState } from './useFilterState'
+import { createTestSchema } from './useFilterState.testUtils'
+import type { FilterExpression, FilterSchema } from '@/types'
+
+const keyDown = (key: string) =>
+  ({
+    key,
+    preventDefault: vi.fn(),
+    stopPropagation: vi.fn(),
+    ctrlKey: false,
+    shiftKey: false,
+    metaKey: false,
+  }) as unknown as React.KeyboardEvent<HTMLInputElement>
+
+const condition = (value: string): FilterExpression['condition'] => ({
+  field: { key: 'status', label: 'Status', type: 'enum' },
+  operator: { key: 'eq', label: 'equals', symbol: '=' },
+  value: { raw: value, display: value, serialized: value },
+})
+
+describe('useFilterState groups', () => {
+  const schema: FilterSchema = { ...createTestSchema(), allowGroups: true }
+
+  it('should not offer groups unless allowGroups is set', () => {
+    const { result } = renderHook(() =>
+      useFilterState({ schema: createTestSchema(), value: [], onChange: vi.fn() })
+    )
+
+    act(() => {
+      result.current.handleFocus()
+    })
+
+    expect(result.current.suggestions.some((s) => s.type === 'group')).toBe(false)
+  })
+
+  it('should offer "(" alongside the fields', () => {
+    const { result } = renderHook(() => useFilterState({ schema, value: [], onChange: vi.fn() }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+
+    expect(result.current.suggestions).toContainEqual(
+      expect.objectContaining({ type: 'group', key: '(' })
+    )
+  })
+
+  it('should attach an opened group to the next expression', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() => useFilterState({ schema, value: [], onChange }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'group', key: '(', label: '(' })
+    })
+
+    expect(result.current.state).toBe('selecting-field')
+    expect(result.current.tokens.map((t) => t.type)).toEqual(['group-open'])
+
+    act(() => {
+      result.current.handleSelect({ type: 'field', key: 'status', label: 'Status' })
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'operator', key: 'eq', label: 'equals' })
+    })
+    act(() => {
+      result.current.handleInputChange('active')
+    })
+    act(() => {
+      result.current.handleKeyDown(keyDown('Enter'))
+    })
+
+    expect(onChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({ openGroups: 1, condition: expect.anything() }),
+    ])
+  })
+
+  it('should give each pending token its own position after the completed tokens', () => {
+    const value: FilterExpression[] = [{ condition: condition('active'), connector: 'AND' }]
+    const { result } = renderHook(() => useFilterState({ schema, value, onChange: vi.fn() }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'connector', key: 'AND', label: 'AND' })
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'group', key: '(', label: '(' })
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'group', key: '(', label: '(' })
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'field', key: 'status', label: 'Status' })
+    })
+
+    const pending = result.current.tokens.filter((t) => t.isPending)
+    expect(pending.map((t) => t.type)).toEqual(['group-open', 'group-open', 'field'])
+    expect(result.current.tokens.map((t) => t.position)).toEqual(
+      result.current.tokens.map((_, index) => index)
+    )
+  })
+
+  it('should remove only the group when handleGroupDelete is called with a paren token', () => {
+    const onChange = vi.fn()
+    const value: FilterExpression[] = [
+      { condition: condition('active'), connector: 'OR', openGroups: 1 },
+      { condition: condition('pending'), closeGroups: 1 },
+    ]
+    const { result } = renderHook(() => useFilterState({ schema, value, onChange }))
+
+    act(() => {
+      result.current.handleGroupDelete(0)
+    })
+
+    expect(onChange).toHaveBeenLastCalledWith([
+      { condition: condition('active'), connector: 'OR' },
+      { condition: condition('pending') },
+    ])
+  })
+
+  it('should offer ")" while a group is open and close it', () => {
+    const onChange = vi.fn()
+    const value: FilterExpression[] = [
+      { condition: condition('active'), connector: 'OR', openGroups: 1 },
+      { condition: condition('pending') },
+    ]
+    const { result } = renderHook(() => useFilterState({ schema, value, onChange }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+
+    expect(result.current.state).toBe('selecting-connector')
+    expect(result.current.suggestions).toContainEqual(
+      expect.objectContaining({ type: 'group', key: ')' })
+    )
+
+    act(() => {
+      result.current.handleSelect({ type: 'group', key: ')', label: ')' })
+    })
+
+    expect(onChange).toHaveBeenLastCalledWith([value[0], { ...value[1], closeGroups: 1 }])
+  })
+
+  it('should drop a closed group that wraps a single expression', () => {
+    const onChange = vi.fn()
+    const value: FilterExpression[] = [
+      { condition: condition('active'), connector: 'OR', openGroups: 1 },
+      { condition: condition('pending'), openGroups: 2 },
+    ]
+    const { result } = renderHook(() => useFilterState({ schema, value, onChange }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'group', key: ')', label: ')' })
+    })
+
+    // The outer groups are still open
+    expect(onChange).toHaveBeenLastCalledWith([value[0], { ...value[1], openGroups: 1 }])
+  })
+
+  it('should render group tokens around the grouped expressions', () => {
+    const value: FilterExpression[] = [
+      { condition: condition('active'), connector: 'OR', openGroups: 1 },
+      { condition: condition('pending'), closeGroups: 1 },
+    ]
+    const { result } = renderHook(() => useFilterState({ schema, value, onChange: vi.fn() }))
+
+    const types = result.current.tokens.map((t) => t.type)
+    expect(types[0]).toBe('group-open')
+    expect(types[types.length - 1]).toBe('group-close')
+  })
+
+  it('should remove both parentheses when a group token is deleted', () => {
+    const onChange = vi.fn()
+    const value: FilterExpression[] = [
+      { condition: condition('active'), connector: 'OR', openGroups: 1 },
+      { condition: condition('pending'), closeGroups: 1 },
+    ]
+    const { result } = renderHook(() => useFilterState({ schema, value, onChange }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    // The first Backspace selects the last token, which is the closing parenthesis
+    act(() => {
+      result.current.handleKeyDown(keyDown('Backspace'))
+    })
+    expect(result.current.tokens[result.current.selectedTokenIndex]?.type).toBe('group-close')
+
+    act(() => {
+      result.current.handleKeyDown(keyDown('Backspace'))
+    })
+
+    expect(onChange).toHaveBeenLastCalledWith([
+      { condition: condition('active'), connector: 'OR' },
+      { condition: condition('pending') },
+    ])
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Tests for per-expression negation (NOT) in useFilterState
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useFilterState } from './useFilterState'
+import { createTestSchema } from './useFilterState.testUtils'
+import type { FilterExpression, FilterSchema } from '@/types'
+
+const keyDown = (key: string) =>
+  ({
+    key,
+    preventDefault: vi.fn(),
+    stopPropagation: vi.fn(),
+    ctrlKey: false,
+    shiftKey: false,
+    metaKey: false,
+  }) as unknown as React.KeyboardEvent<HTMLInputElement>
+
+const condition = (negated?: boolean): FilterExpression['condition'] => ({
+  field: { key: 'status', label: 'Status', type: 'enum' },
+  operator: { key: 'eq', label: 'equals', symbol: '=' },
+  value: { raw: 'active', display: 'Active', serialized: 'active' },
+  ...(negated ? { negated } : {}),
+})
+
+describe('useFilterState negation', () => {
+  const schema: FilterSchema = { ...createTestSchema(), allowNegation: true }
+  // A stable empty value, so suggestions only change when the filter state does
+  const empty: FilterExpression[] = []
+
+  it('should not offer NOT unless allowNegation is set', () => {
+    const { result } = renderHook(() =>
+      useFilterState({ schema: createTestSchema(), value: [], onChange: vi.fn() })
+    )
+
+    act(() => {
+      result.current.handleFocus()
+    })
+
+    expect(result.current.suggestions.some((s) => s.type === 'negation')).toBe(false)
+  })
+
+  it('should negate the next expression when NOT is selected', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    const not = result.current.suggestions.find((s) => s.type === 'negation')
+    expect(not).toBeDefined()
+
+    act(() => {
+      result.current.handleSelect(not!)
+    })
+
+    expect(result.current.tokens.map((t) => t.type)).toEqual(['negation'])
+    expect(result.current.announcement).toMatch(/^Negation added\. Now select a field\./)
+    expect(result.current.suggestions.some((s) => s.type === 'negation')).toBe(false)
+
+    act(() => {
+      result.current.handleSelect({ type: 'field', key: 'status', label: 'Status' })
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'operator', key: 'eq', label: 'equals' })
+    })
+    act(() => {
+      result.current.handleInputChange('active')
+    })
+    act(() => {
+      result.current.handleKeyDown(keyDown('Enter'))
+    })
+
+    expect(onChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({ condition: expect.objectContaining({ negated: true }) }),
+    ])
+  })
+
+  it('should negate the next expression when "NOT " is typed', () => {
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange: vi.fn() }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    act(() => {
+      result.current.handleInputChange('not ')
+    })
+
+    expect(result.current.inputValue).toBe('')
+    expect(result.current.tokens.map((t) => t.type)).toEqual(['negation'])
+  })
+
+  it('should remove a pending NOT with Backspace', () => {
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange: vi.fn() }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    act(() => {
+      result.current.handleSelect({ type: 'negation', key: 'NOT', label: 'NOT' })
+    })
+    act(() => {
+      result.current.handleKeyDown(keyDown('Backspace'))
+    })
+
+    expect(result.current.tokens).toHaveLength(0)
+    expect(result.current.announcement).toMatch(/^Negation removed\./)
+  })
+
+  it('should render a negation token before the field of a negated expression', () => {
+    const { result } = renderHook(() =>
+      useFilterState({ schema, value: [{ condition: condition(true) }], onChange: vi.fn() })
+    )
+
+    expect(result.current.tokens.map((t) => t.type)).toEqual([
+      'negation',
+      'field',
+      'operator',
+      'value',
+    ])
+  })
+
+  it('should toggle negation from the field editing dropdown', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() =>
+      useFilterState({ schema, value: [{ condition: condition() }], onChange })
+    )
+
+    act(() => {
+      result.current.handleFieldEdit(0)
+    })
+    const toggle = result.current.suggestions.find((s) => s.type === 'negation')
+    expect(toggle?.label).toBe('NOT')
+
+    act(() => {
+      result.current.handleSelect(toggle!)
+    })
+
+    expect(onChange).toHaveBeenLastCalledWith([{ condition: condition(true) }])
+    expect(result.current.announcement).toBe('Filter expression 1 negated.')
+  })
+
+  it('should remove only the negation when the negation token is deleted', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() =>
+      useFilterState({ schema, value: [{ condition: condition(true) }], onChange })
+    )
+
+    act(() => {
+      result.current.handleTokenSelect(0)
+    })
+    act(() => {
+      result.current.handleKeyDown(keyDown('Delete'))
+    })
+
+    expect(onChange).toHaveBeenLastCalledWith([{ condition: condition() }])
+    expect(result.current.announcement).toBe('Negation removed from expression 1.')
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Tests for drilling into nested fields (sub-schemas) in useFilterState
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useFilterState } from './useFilterState'
+import type { FilterExpression, FilterSchema } from '@/types'
+
+const keyDown = (key: string, ctrlKey = false) =>
+  ({
+    key,
+    preventDefault: vi.fn(),
+    stopPropagation: vi.fn(),
+    ctrlKey,
+    shiftKey: false,
+    metaKey: false,
+  }) as unknown as React.KeyboardEvent<HTMLInputElement>
+
+const operators = [
+  { key: 'eq', label: 'is' },
+  { key: 'neq', label: 'is not' },
+]
+
+const schema: FilterSchema = {
+  fields: [
+    { key: 'title', label: 'Title', type: 'string', operators },
+    {
+      key: 'assignee',
+      label: 'Assignee',
+      type: 'string',
+      operators: [],
+      subSchema: {
+        fields: [
+          { key: 'name', label: 'Name', type: 'string', operators },
+          {
+            key: 'team',
+            label: 'Team',
+            type: 'string',
+            operators: [],
+            subSchema: { fields: [{ key: 'name', label: 'Name', type: 'string', operators }] },
+          },
+        ],
+      },
+    },
+  ],
+}
+
+const empty: FilterExpression[] = []
+
+const keys = (result: { current: ReturnType<typeof useFilterState> }) =>
+  result.current.suggestions.map((item) => item.key)
+
+describe('useFilterState - Nested Fields', () => {
+  it('should drill into nested fields and select them by dotted key', () => {
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange: vi.fn() }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    expect(keys(result)).toEqual(['title', 'assignee'])
+    expect(result.current.suggestions[1].description).toBe('2 fields')
+
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[1])
+    })
+    expect(result.current.state).toBe('selecting-field')
+    expect(keys(result)).toEqual(['__parent__', 'assignee.name', 'assignee.team'])
+    expect(result.current.suggestions[1].group).toBe('Assignee')
+    expect(result.current.announcement).toMatch(/^Assignee\. Now select a field\./)
+
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[2])
+    })
+    expect(keys(result)).toEqual(['__parent__', 'assignee.team.name'])
+    expect(result.current.suggestions[0].description).toBe('Back to Assignee')
+
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[1])
+    })
+    expect(result.current.state).toBe('selecting-operator')
+    expect(result.current.tokens[0].value).toEqual({
+      key: 'assignee.team.name',
+      label: 'Assignee › Team › Name',
+      type: 'string',
+    })
+  })
+
+  it('should go back to the parent with the back item and Backspace', () => {
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange: vi.fn() }))
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[1])
+    })
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[2])
+    })
+
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[0])
+    })
+    expect(keys(result)).toEqual(['__parent__', 'assignee.name', 'assignee.team'])
+
+    act(() => {
+      result.current.handleKeyDown(keyDown('Backspace'))
+    })
+    expect(keys(result)).toEqual(['title', 'assignee'])
+    expect(result.current.announcement).toMatch(/^All fields\. Now select a field\./)
+  })
+
+  it('should show the top-level fields again after clearing during a drill-down', () => {
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange: vi.fn() }))
+    const select = (key: string) => {
+      act(() => {
+        result.current.handleSelect(result.current.suggestions.find((item) => item.key === key)!)
+      })
+    }
+
+    act(() => {
+      result.current.handleFocus()
+    })
+    select('title')
+    select('eq')
+    act(() => {
+      result.current.handleInputChange('a')
+    })
+    act(() => {
+      result.current.handleKeyDown(keyDown('Enter'))
+    })
+    select('AND')
+    select('assignee')
+    expect(keys(result)).toEqual(['__parent__', 'assignee.name', 'assignee.team'])
+    act(() => {
+      result.current.handleKeyDown(keyDown('Backspace', true))
+    })
+    act(() => {
+      result.current.handleFocus()
+    })
+    expect(keys(result)).toEqual(['title', 'assignee'])
+
+    select('assignee')
+    act(() => {
+      result.current.handleClear()
+    })
+    act(() => {
+      result.current.handleFocus()
+    })
+    expect(keys(result)).toEqual(['title', 'assignee'])
+  })
+
+  it('should drill into nested fields when editing the field of an expression', () => {
+    const onChange = vi.fn()
+    const value = [
+      {
+        condition: {
+          field: { key: 'title', label: 'Title', type: 'string' as const },
+          operator: { key: 'eq', label: 'is' },
+          value: { raw: 'x', display: 'x', serialized: 'x' },
+        },
+      },
+    ]
+    const { result } = renderHook(() => useFilterState({ schema, value, onChange }))
+
+    act(() => {
+      result.current.handleFieldEdit(0)
+    })
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[1])
+    })
+    expect(keys(result)).toEqual(['__parent__', 'assignee.name', 'assignee.team'])
+
+    act(() => {
+      result.current.handleSelect(result.current.suggestions[1])
+    })
+    expect(onChange).toHaveBeenLastCalledWith([
+      {
+        condition: {
+          field: { key: 'assignee.name', label: 'Assignee › Name', type: 'string' },
+          operator: { key: 'eq', label: 'is', symbol: undefined },
+          value: { raw: 'x', display: 'x', serialized: 'x' },
+        },
+      },
+    ])
+  })
+})
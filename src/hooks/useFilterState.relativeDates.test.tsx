@@ -0,0 +1,101 @@
+/**
+ * Tests for entering relative date values in useFilterState
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useFilterState } from './useFilterState'
+import { createDateAutocompleter } from '@/autocompleters'
+import { DATE_OPERATORS } from '@/types'
+import type { FilterExpression, FilterSchema } from '@/types'
+
+const schema: FilterSchema = {
+  fields: [
+    {
+      key: 'created',
+      label: 'Created',
+      type: 'date',
+      operators: DATE_OPERATORS,
+      valueAutocompleter: createDateAutocompleter(),
+    },
+  ],
+}
+
+const empty: FilterExpression[] = []
+
+/** Focus the input and select the created field and an operator ('after' by default) */
+const selectOperator = (
+  result: { current: ReturnType<typeof useFilterState> },
+  operatorKey = 'after'
+) => {
+  act(() => {
+    result.current.handleFocus()
+  })
+  act(() => {
+    result.current.handleSelect(result.current.suggestions[0])
+  })
+  const operator = result.current.suggestions.find((item) => item.key === operatorKey)
+  act(() => {
+    result.current.handleSelect(operator!)
+  })
+}
+
+describe('useFilterState - Relative Dates', () => {
+  it('should keep date presets relative', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange }))
+
+    selectOperator(result)
+    const yesterday = result.current.suggestions.find((item) => item.label === 'Yesterday')
+    act(() => {
+      result.current.handleSelect(yesterday!)
+    })
+
+    expect(onChange.mock.calls[0][0][0].condition.value).toEqual({
+      raw: 'today-1d',
+      display: 'Yesterday',
+      serialized: 'today-1d',
+      relative: true,
+    })
+  })
+
+  it('should keep typed relative dates relative', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange }))
+
+    selectOperator(result)
+    act(() => {
+      result.current.handleInputChange('now-30d')
+    })
+    act(() => {
+      result.current.handleConfirmValue()
+    })
+
+    expect(onChange.mock.calls[0][0][0].condition.value).toEqual({
+      raw: 'now-30d',
+      display: '30 days ago',
+      serialized: 'now-30d',
+      relative: true,
+    })
+  })
+
+  it('should keep typed relative range endpoints relative', () => {
+    const onChange = vi.fn()
+    const { result } = renderHook(() => useFilterState({ schema, value: empty, onChange }))
+
+    selectOperator(result, 'between')
+    act(() => {
+      result.current.handleInputChange('today-7d and today')
+    })
+    act(() => {
+      result.current.handleConfirmValue()
+    })
+
+    expect(onChange.mock.calls[0][0][0].condition.value).toEqual({
+      raw: ['today-7d', 'today'],
+      display: 'today-7d and today',
+      serialized: 'today-7d and today',
+      relative: true,
+    })
+  })
+})
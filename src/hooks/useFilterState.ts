@@ -8,6 +8,13 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react'
 import { FilterStateMachine, type FilterStep } from '@/core'
 import { serialize, deserialize } from '@/utils/serialization'
+import { balanceGroups, getOpenGroupDepth, removeGroupAt } from '@/utils/expressionTree'
+import { getAvailableFields, removeExpressionWithDependents } from '@/utils/dependencies'
+import { validateExpressions } from '@/utils/validation'
+import { findField, getFieldChain, getFieldPathLabel } from '@/utils/fieldPaths'
+import { getListSeparator } from '@/utils/queryLanguage'
+import { getValueList } from '@/utils/evaluation'
+import { createRelativeDateValue, isRelativeDate } from '@/utils/relativeDates'
 import type {
   FilterSchema,
   FilterExpression,
@@ -18,6 +25,7 @@ import type {
   ConditionValue,
   OperatorConfig,
   FieldConfig,
+  FieldType,
   CustomAutocompleteWidget,
   AutocompleteContext,
   Autocompleter,
@@ -111,6 +119,10 @@ export interface UseFilterStateReturn {
   handleConnectorEditCancel: () => void
   /** Delete an expression by index */
   handleExpressionDelete: (expressionIndex: number) => void
+  /** Toggle negation (NOT) of an expression by index */
+  handleNegationToggle: (expressionIndex: number) => void
+  /** Remove the group of a parenthesis token by token index, keeping its expressions */
+  handleGroupDelete: (tokenIndex: number) => void
 }
 
 /**
@@ -121,6 +133,30 @@ function expressionsToTokens(expressions: FilterExpression[]): TokenData[] {
   let position = 0
 
   expressions.forEach((expr, exprIndex) => {
+    // Group open tokens
+    for (let i = 0; i < (expr.openGroups ?? 0); i++) {
+      tokens.push({
+        id: `${exprIndex}-group-open-${i}`,
+        type: 'group-open',
+        value: { key: '(', label: '(' },
+        position: position++,
+        expressionIndex: exprIndex,
+        isPending: false,
+      })
+    }
+
+    // Negation token
+    if (expr.condition.negated) {
+      tokens.push({
+        id: `${exprIndex}-negation`,
+        type: 'negation',
+        value: { key: 'NOT', label: 'NOT' },
+        position: position++,
+        expressionIndex: exprIndex,
+        isPending: false,
+      })
+    }
+
     // Field token
     tokens.push({
       id: `${exprIndex}-field`,
@@ -151,6 +187,18 @@ function expressionsToTokens(expressions: FilterExpression[]): TokenData[] {
       isPending: false,
     })
 
+    // Group close tokens
+    for (let i = 0; i < (expr.closeGroups ?? 0); i++) {
+      tokens.push({
+        id: `${exprIndex}-group-close-${i}`,
+        type: 'group-close',
+        value: { key: ')', label: ')' },
+        position: position++,
+        expressionIndex: exprIndex,
+        isPending: false,
+      })
+    }
+
     // Connector token (if present)
     if (expr.connector) {
       tokens.push({
@@ -168,22 +216,48 @@ function expressionsToTokens(expressions: FilterExpression[]): TokenData[] {
 }
 
 /**
- * Generate pending tokens for incomplete expression being built
+ * Generate pending tokens for incomplete expression being built. Pending tokens
+ * continue the positions of the completed tokens.
  */
 function generatePendingTokens(
   currentField?: FieldValue,
   currentOperator?: OperatorValue,
-  completedExpressionsCount: number = 0
+  startPosition: number = 0,
+  pendingOpenGroups: number = 0,
+  pendingNegated: boolean = false,
+  pendingValue?: ConditionValue
 ): TokenData[] {
   const tokens: TokenData[] = []
-  const basePosition = completedExpressionsCount * 4 // max 4 tokens per expression
+  let position = startPosition
+
+  for (let i = 0; i < pendingOpenGroups; i++) {
+    tokens.push({
+      id: `pending-group-open-${i}`,
+      type: 'group-open',
+      value: { key: '(', label: '(' },
+      position: position++,
+      expressionIndex: -1,
+      isPending: true,
+    })
+  }
+
+  if (pendingNegated) {
+    tokens.push({
+      id: 'pending-negation',
+      type: 'negation',
+      value: { key: 'NOT', label: 'NOT' },
+      position: position++,
+      expressionIndex: -1,
+      isPending: true,
+    })
+  }
 
   if (currentField) {
     tokens.push({
       id: 'pending-field',
       type: 'field',
       value: currentField,
-      position: basePosition,
+      position: position++,
       expressionIndex: -1, // -1 indicates pending
       isPending: true,
     })
@@ -194,7 +268,18 @@ function generatePendingTokens(
       id: 'pending-operator',
       type: 'operator',
       value: currentOperator,
-      position: basePosition + 1,
+      position: position++,
+      expressionIndex: -1,
+      isPending: true,
+    })
+  }
+
+  if (pendingValue) {
+    tokens.push({
+      id: 'pending-value',
+      type: 'value',
+      value: pendingValue,
+      position: position++,
       expressionIndex: -1,
       isPending: true,
     })
@@ -203,12 +288,81 @@ function generatePendingTokens(
   return tokens
 }
 
+/**
+ * Build the value of a list operator (multiValue with an unlimited count, e.g.
+ * 'anyOf') from the selected values. The values are serialized with the
+ * operator's list separator, as in text queries.
+ */
+function toListValue(items: AutocompleteItem[], operatorConfig?: OperatorConfig): ConditionValue {
+  const separator = (operatorConfig && getListSeparator(operatorConfig)) ?? ', '
+  return {
+    raw: items.map((item) => item.key),
+    display: items.map((item) => item.label).join(', '),
+    serialized: items.map((item) => item.key).join(separator),
+  }
+}
+
+/**
+ * Build the value of a condition from a selected or typed value. Relative
+ * dates (e.g. 'now-7d') of date fields stay relative, also as the endpoints of
+ * a range such as 'today-7d and today'.
+ */
+function toConditionValue(
+  key: string,
+  label: string,
+  type?: FieldType,
+  operatorConfig?: OperatorConfig
+): ConditionValue {
+  if (type !== 'date' && type !== 'datetime') {
+    return { raw: key, display: label, serialized: key }
+  }
+  if (isRelativeDate(key)) {
+    return createRelativeDateValue(key, label === key ? undefined : label)
+  }
+  const value = { raw: key, display: label, serialized: key }
+  if (operatorConfig?.multiValue) {
+    const raw = getValueList(value, operatorConfig)
+    if (raw.some(isRelativeDate)) return { ...value, raw, relative: true }
+  }
+  return value
+}
+
+/**
+ * Key of the suggestion that leaves a nested field for its parent
+ */
+const PARENT_FIELD_KEY = '__parent__'
+
+/**
+ * Get the dotted path of the parent of a nested field ('' at the top level)
+ */
+function getParentFieldPath(schema: FilterSchema, path: string): string {
+  return getFieldChain(schema, path)
+    .slice(0, -1)
+    .reduce((parent, field) => (parent ? `${parent}.${field.key}` : field.key), '')
+}
+
+/**
+ * Map a field to its field suggestion. Fields with a sub-schema describe how
+ * many fields they hold.
+ */
+function toFieldSuggestion(field: FieldConfig, group = field.group): AutocompleteItem {
+  return {
+    type: 'field' as const,
+    key: field.key,
+    label: field.label,
+    description:
+      field.description ?? (field.subSchema && `${field.subSchema.fields.length} fields`),
+    icon: field.icon,
+    group,
+  }
+}
+
 /**
  * Check if a field key represents a freeform field
  */
 function isFreeformField(schema: FilterSchema, fieldKey: string): boolean {
   if (!schema.allowFreeformFields) return false
-  return !schema.fields.some((f) => f.key === fieldKey)
+  return !findField(schema, fieldKey)
 }
 
 /**
@@ -249,7 +403,11 @@ function getSuggestions(
   state: FilterStep,
   schema: FilterSchema,
   currentField?: FieldValue,
-  inputValue: string = ''
+  inputValue: string = '',
+  openGroupDepth: number = 0,
+  pendingNegated: boolean = false,
+  expressions: FilterExpression[] = [],
+  fieldPath: string = ''
 ): AutocompleteItem[] {
   const filterByInput = (items: AutocompleteItem[]) => {
     if (!inputValue) return items
@@ -263,15 +421,28 @@ function getSuggestions(
 
   switch (state) {
     case 'selecting-field': {
+      // Inside a nested field, offer its fields and a way back to the parent
+      if (fieldPath) {
+        const breadcrumb = getFieldPathLabel(schema, fieldPath)
+        const parentPath = getParentFieldPath(schema, fieldPath)
+        return [
+          {
+            type: 'field' as const,
+            key: PARENT_FIELD_KEY,
+            label: '‹ Back',
+            description: `Back to ${parentPath ? getFieldPathLabel(schema, parentPath) : 'all fields'}`,
+            group: breadcrumb,
+          },
+          ...filterByInput(
+            getAvailableFields(schema, expressions, fieldPath).map((field) =>
+              toFieldSuggestion(field, breadcrumb)
+            )
+          ),
+        ]
+      }
+
       const fieldSuggestions = filterByInput(
-        schema.fields.map((field) => ({
-          type: 'field' as const,
-          key: field.key,
-          label: field.label,
-          description: field.description,
-          icon: field.icon,
-          group: field.group,
-        }))
+        getAvailableFields(schema, expressions).map((field) => toFieldSuggestion(field))
       )
 
       // Add freeform field option if enabled and there's input text
@@ -317,6 +488,28 @@ function getSuggestions(
         }
       }
 
+      // Offer to negate the next condition or start a group before the field.
+      // Neither is offered after NOT, which applies to a single condition.
+      if (schema.allowNegation && !pendingNegated) {
+        fieldSuggestions.push(
+          ...filterByInput([
+            {
+              type: 'negation' as const,
+              key: 'NOT',
+              label: 'NOT',
+              description: 'Negate the next condition',
+            },
+          ])
+        )
+      }
+      if (schema.allowGroups && !pendingNegated) {
+        fieldSuggestions.push(
+          ...filterByInput([
+            { type: 'group' as const, key: '(', label: '(', description: 'Start a group' },
+          ])
+        )
+      }
+
       return fieldSuggestions
     }
 
@@ -344,7 +537,7 @@ function getSuggestions(
         )
       }
 
-      const fieldConfig = schema.fields.find((f) => f.key === currentField.key)
+      const fieldConfig = findField(schema, currentField.key)
       if (!fieldConfig) return []
       return filterByInput(
         fieldConfig.operators.map((op) => ({
@@ -361,13 +554,21 @@ function getSuggestions(
         { key: 'AND' as const, label: 'AND' },
         { key: 'OR' as const, label: 'OR' },
       ]
-      return filterByInput(
-        connectors.map((conn) => ({
-          type: 'connector' as const,
-          key: conn.key,
-          label: conn.label,
-        }))
-      )
+      const connectorSuggestions: AutocompleteItem[] = connectors.map((conn) => ({
+        type: 'connector' as const,
+        key: conn.key,
+        label: conn.label,
+      }))
+      // Offer to close the innermost open group
+      if (schema.allowGroups && openGroupDepth > 0) {
+        connectorSuggestions.push({
+          type: 'group' as const,
+          key: ')',
+          label: ')',
+          description: 'Close group',
+        })
+      }
+      return filterByInput(connectorSuggestions)
     }
 
     default:
@@ -434,11 +635,17 @@ export function useFilterState({
   const [allTokensSelected, setAllTokensSelected] = useState(false)
   const [currentField, setCurrentField] = useState<FieldValue | undefined>()
   const [currentOperator, setCurrentOperator] = useState<OperatorValue | undefined>()
+  const [pendingOpenGroups, setPendingOpenGroups] = useState(0)
+  const [pendingNegated, setPendingNegated] = useState(false)
   const [announcement, setAnnouncement] = useState('')
   const [editingOperatorIndex, setEditingOperatorIndex] = useState(-1)
   const [editingConnectorIndex, setEditingConnectorIndex] = useState(-1)
   const [editingFieldIndex, setEditingFieldIndex] = useState(-1)
+  // Dotted path of the nested field the field picker has drilled into
+  const [fieldPath, setFieldPath] = useState('')
   const [valueSuggestions, setValueSuggestions] = useState<AutocompleteItem[]>([])
+  // Values selected so far for a list operator (e.g. 'contains any of')
+  const [pendingValues, setPendingValues] = useState<AutocompleteItem[]>([])
 
   // Store the step before token editing so we can restore it after
   const stepBeforeEditRef = useRef<FilterStep | null>(null)
@@ -446,6 +653,10 @@ export function useFilterState({
   // Track if we just selected a token (to prevent handleFocus from clearing it)
   const justSelectedTokenRef = useRef(false)
 
+  // Announcement for a step that keeps the dropdown open (e.g. NOT or "("), which is
+  // prepended to the suggestions announcement made in the same render
+  const stepAnnouncementRef = useRef('')
+
   // Undo/Redo history stacks
   const undoStack = useRef<FilterExpression[][]>([])
   const redoStack = useRef<FilterExpression[][]>([])
@@ -486,20 +697,63 @@ export function useFilterState({
     if (state === 'editing-token') {
       return completedTokens
     }
-    const pendingTokens = generatePendingTokens(currentField, currentOperator, value.length)
+    const pendingTokens = generatePendingTokens(
+      currentField,
+      currentOperator,
+      completedTokens.length,
+      pendingOpenGroups,
+      pendingNegated,
+      pendingValues.length > 0 ? toListValue(pendingValues) : undefined
+    )
     return [...completedTokens, ...pendingTokens]
-  }, [value, currentField, currentOperator, state])
+  }, [
+    value,
+    currentField,
+    currentOperator,
+    pendingOpenGroups,
+    pendingNegated,
+    pendingValues,
+    state,
+  ])
+
+  // Number of groups still open after the last completed expression
+  const openGroupDepth = useMemo(() => getOpenGroupDepth(value), [value])
 
   // Get suggestions - handles both normal state and operator/connector/field editing mode
   const suggestions = useMemo(() => {
-    // If editing a field, show all fields
+    // If editing a field, show the available fields (and a negation toggle when enabled)
     if (editingFieldIndex >= 0 && value[editingFieldIndex]) {
-      return schema.fields.map((field) => ({
+      const others = value.filter((_, index) => index !== editingFieldIndex)
+      const fieldSuggestions: AutocompleteItem[] = getAvailableFields(
+        schema,
+        others,
+        fieldPath
+      ).map((field) => ({
         type: 'field' as const,
         key: field.key,
         label: field.label,
-        description: `Type: ${field.type}`,
+        description: field.subSchema
+          ? `${field.subSchema.fields.length} fields`
+          : `Type: ${field.type}`,
       }))
+      if (fieldPath) {
+        const parentPath = getParentFieldPath(schema, fieldPath)
+        fieldSuggestions.unshift({
+          type: 'field' as const,
+          key: PARENT_FIELD_KEY,
+          label: '‹ Back',
+          description: `Back to ${parentPath ? getFieldPathLabel(schema, parentPath) : 'all fields'}`,
+        })
+      } else if (schema.allowNegation) {
+        const negated = value[editingFieldIndex].condition.negated
+        fieldSuggestions.push({
+          type: 'negation' as const,
+          key: 'NOT',
+          label: negated ? 'Remove NOT' : 'NOT',
+          description: negated ? 'Stop negating this condition' : 'Negate this condition',
+        })
+      }
+      return fieldSuggestions
     }
     // If editing a connector, show connector options
     if (editingConnectorIndex >= 0 && value[editingConnectorIndex]) {
@@ -519,7 +773,7 @@ export function useFilterState({
       const fieldKey = expr.condition.field.key
       const fieldLabel = expr.condition.field.label
       // First check schema fields, then check if it's a freeform field
-      let fieldConfig = schema.fields.find((f) => f.key === fieldKey)
+      let fieldConfig = findField(schema, fieldKey)
       if (!fieldConfig && isFreeformField(schema, fieldKey)) {
         fieldConfig = getFreeformFieldConfig(schema, fieldKey, fieldLabel)
       }
@@ -535,19 +789,34 @@ export function useFilterState({
     }
     // If in entering-value state, return value suggestions
     if (state === 'entering-value') {
-      return valueSuggestions
+      return pendingValues.length > 0
+        ? valueSuggestions.filter((item) => !pendingValues.some((v) => v.key === item.key))
+        : valueSuggestions
     }
-    return getSuggestions(state, schema, currentField, inputValue)
+    return getSuggestions(
+      state,
+      schema,
+      currentField,
+      inputValue,
+      openGroupDepth,
+      pendingNegated,
+      value,
+      fieldPath
+    )
   }, [
     state,
     schema,
     currentField,
     inputValue,
+    openGroupDepth,
+    pendingNegated,
+    fieldPath,
     editingFieldIndex,
     editingOperatorIndex,
     editingConnectorIndex,
     value,
     valueSuggestions,
+    pendingValues,
   ])
 
   const placeholder = useMemo(() => getPlaceholder(state, schema), [state, schema])
@@ -556,7 +825,7 @@ export function useFilterState({
   const currentFieldConfig = useMemo(() => {
     if (!currentField) return undefined
     // Check for predefined field first
-    const predefinedConfig = schema.fields.find((f) => f.key === currentField.key)
+    const predefinedConfig = findField(schema, currentField.key)
     if (predefinedConfig) return predefinedConfig
     // If not found and freeform is enabled, generate a freeform config
     if (schema.allowFreeformFields) {
@@ -602,7 +871,8 @@ export function useFilterState({
   // Fetch value suggestions when in entering-value state
   useEffect(() => {
     if (state !== 'entering-value') {
-      setValueSuggestions([])
+      // Keep an empty list as is, so the suggestions are not announced again
+      setValueSuggestions((previous) => (previous.length === 0 ? previous : []))
       return
     }
 
@@ -655,6 +925,7 @@ export function useFilterState({
 
   // Generate announcements when dropdown opens or suggestions change
   useEffect(() => {
+    const stepAnnouncement = stepAnnouncementRef.current ? `${stepAnnouncementRef.current} ` : ''
     if (isDropdownOpen && suggestions.length > 0) {
       const count = suggestions.length
       const itemType =
@@ -666,13 +937,18 @@ export function useFilterState({
               ? 'connector'
               : 'suggestion'
       setAnnouncement(
-        `${count} ${itemType}${count !== 1 ? 's' : ''} available. Use arrow keys to navigate.`
+        `${stepAnnouncement}${count} ${itemType}${count !== 1 ? 's' : ''} available. Use arrow keys to navigate.`
       )
     } else if (isDropdownOpen && suggestions.length === 0) {
-      setAnnouncement('No suggestions available.')
+      setAnnouncement(`${stepAnnouncement}No suggestions available.`)
     }
   }, [isDropdownOpen, suggestions])
 
+  // Step announcements only apply to the render they were made in
+  useEffect(() => {
+    stepAnnouncementRef.current = ''
+  })
+
   // Handlers
   const handleFocus = useCallback(() => {
     // If a token was just selected, don't clear the selection
@@ -685,7 +961,13 @@ export function useFilterState({
     let newState = machine.getState()
     // If there are completed expressions but no partial expression in progress,
     // we should be in selecting-connector state
-    if (value.length > 0 && !currentField && !currentOperator) {
+    if (
+      value.length > 0 &&
+      !currentField &&
+      !currentOperator &&
+      pendingOpenGroups === 0 &&
+      !pendingNegated
+    ) {
       newState = 'selecting-connector'
     }
     setState(newState)
@@ -697,7 +979,7 @@ export function useFilterState({
     setSelectedTokenIndex(-1)
     setAllTokensSelected(false)
     // Announcement will be set after suggestions are calculated
-  }, [machine, value.length, currentField, currentOperator])
+  }, [machine, value.length, currentField, currentOperator, pendingOpenGroups, pendingNegated])
 
   const handleBlur = useCallback(() => {
     machine.transition({ type: 'BLUR' })
@@ -706,6 +988,8 @@ export function useFilterState({
     setInputValue('')
     setCurrentField(undefined)
     setCurrentOperator(undefined)
+    setPendingOpenGroups(0)
+    setPendingNegated(false)
     // Clear token selection when losing focus
     setSelectedTokenIndex(-1)
     setAllTokensSelected(false)
@@ -714,6 +998,8 @@ export function useFilterState({
     setEditingOperatorIndex(-1)
     setEditingConnectorIndex(-1)
     setEditingFieldIndex(-1)
+    setFieldPath('')
+    setPendingValues([])
   }, [machine])
 
   const handleInputChange = useCallback(
@@ -723,6 +1009,21 @@ export function useFilterState({
       setSelectedTokenIndex(-1)
       setAllTokensSelected(false)
 
+      // Typing "NOT " before a field negates the next condition
+      if (
+        state === 'selecting-field' &&
+        schema.allowNegation &&
+        !pendingNegated &&
+        /^not\s+$/i.test(newValue)
+      ) {
+        machine.transition({ type: 'NEGATE' })
+        setPendingNegated(machine.getContext().pendingNegated ?? false)
+        setInputValue('')
+        stepAnnouncementRef.current = 'Negation added. Now select a field.'
+        setAnnouncement(stepAnnouncementRef.current)
+        return
+      }
+
       // When typing in selecting-connector state, auto-add default connector (AND)
       // and transition to selecting-field - user is starting a new expression
       if (state === 'selecting-connector' && newValue.length > 0) {
@@ -736,19 +1037,120 @@ export function useFilterState({
         setIsDropdownOpen(true)
       }
     },
-    [state, machine, isDropdownOpen, schema.connectors]
+    [state, machine, isDropdownOpen, schema.connectors, schema.allowNegation, pendingNegated]
   )
 
   const handleHighlight = useCallback((index: number) => {
     setHighlightedIndex(index)
   }, [])
 
+  const handleNegationToggle = useCallback(
+    (expressionIndex: number) => {
+      const expr = value[expressionIndex]
+      if (!expr) return
+      const negated = !expr.condition.negated
+      const { negated: _, ...condition } = expr.condition
+      const newExpressions = [...value]
+      newExpressions[expressionIndex] = {
+        ...expr,
+        condition: negated ? { ...condition, negated } : condition,
+      }
+      machine.loadExpressions(newExpressions)
+      onChange(newExpressions)
+      setSelectedTokenIndex(-1)
+      setAnnouncement(
+        negated
+          ? `Filter expression ${expressionIndex + 1} negated.`
+          : `Negation removed from expression ${expressionIndex + 1}.`
+      )
+    },
+    [machine, value, onChange]
+  )
+
+  // Remove the group of a parenthesis token (both parentheses), keeping its expressions
+  const handleGroupDelete = useCallback(
+    (tokenIndex: number) => {
+      const token = tokens[tokenIndex]
+      if (!token || token.expressionIndex < 0) return
+      if (token.type !== 'group-open' && token.type !== 'group-close') return
+      const side = token.type === 'group-open' ? 'open' : 'close'
+      const ordinal = tokens
+        .slice(0, tokenIndex)
+        .filter((t) => t.type === token.type && t.expressionIndex === token.expressionIndex).length
+      const newExpressions = removeGroupAt(value, token.expressionIndex, side, ordinal)
+      machine.loadExpressions(newExpressions)
+      onChange(newExpressions)
+      setSelectedTokenIndex(-1)
+      setAnnouncement('Group removed.')
+    },
+    [machine, tokens, value, onChange]
+  )
+
+  // Show the fields of the nested field at a dotted path ('' for the top level)
+  const showNestedFields = useCallback(
+    (path: string) => {
+      setFieldPath(path)
+      setInputValue('')
+      setHighlightedIndex(-1)
+      stepAnnouncementRef.current = path
+        ? `${getFieldPathLabel(schema, path)}. Now select a field.`
+        : 'All fields. Now select a field.'
+      setAnnouncement(stepAnnouncementRef.current)
+    },
+    [schema]
+  )
+
+  // Complete the expression being built with its value
+  const completeCondition = useCallback(
+    (conditionValue: ConditionValue, message: string) => {
+      machine.transition({ type: 'CONFIRM_VALUE', payload: conditionValue })
+      const newExpressions = machine.getContext().completedExpressions
+      onChange([...newExpressions])
+      setState(machine.getState())
+      setInputValue('')
+      setCurrentField(undefined)
+      setCurrentOperator(undefined)
+      setPendingOpenGroups(0)
+      setPendingNegated(false)
+      setFieldPath('')
+      setPendingValues([])
+      setIsDropdownOpen(false)
+      setHighlightedIndex(0)
+      setAnnouncement(`${message} Press Down Arrow to add more conditions.`)
+    },
+    [machine, onChange]
+  )
+
   const handleSelect = useCallback(
     (item: AutocompleteItem) => {
+      // Toggle negation of the expression whose field is being edited
+      if (editingFieldIndex >= 0 && item.type === 'negation') {
+        handleNegationToggle(editingFieldIndex)
+        setEditingFieldIndex(-1)
+        setIsDropdownOpen(false)
+        return
+      }
+
+      // Drill into the fields of a nested field, or back out to its parent
+      if (
+        item.type === 'field' &&
+        (editingFieldIndex >= 0 || machine.getState() === 'selecting-field')
+      ) {
+        if (item.key === PARENT_FIELD_KEY) {
+          showNestedFields(getParentFieldPath(schema, fieldPath))
+          return
+        }
+        if (findField(schema, item.key)?.subSchema) {
+          showNestedFields(item.key)
+          return
+        }
+        setFieldPath('')
+      }
+
       // Handle field editing mode
       if (editingFieldIndex >= 0 && item.type === 'field') {
         const expr = value[editingFieldIndex]
-        const fieldConfig = schema.fields.find((f) => f.key === item.key)
+        const fieldConfig = findField(schema, item.key)
         if (fieldConfig) {
           const fieldValue: FieldValue = {
             key: fieldConfig.key,
@@ -803,7 +1205,7 @@ export function useFilterState({
         const fieldKey = expr.condition.field.key
         const fieldLabel = expr.condition.field.label
         // First check schema fields, then check if it's a freeform field
-        let fieldConfig = schema.fields.find((f) => f.key === fieldKey)
+        let fieldConfig = findField(schema, fieldKey)
         if (!fieldConfig && isFreeformField(schema, fieldKey)) {
           fieldConfig = getFreeformFieldConfig(schema, fieldKey, fieldLabel)
         }
@@ -831,6 +1233,38 @@ export function useFilterState({
         return
       }
 
+      // Handle negation of the next condition
+      if (item.type === 'negation') {
+        machine.transition({ type: 'NEGATE' })
+        setPendingNegated(machine.getContext().pendingNegated ?? false)
+        setInputValue('')
+        stepAnnouncementRef.current = 'Negation added. Now select a field.'
+        setAnnouncement(stepAnnouncementRef.current)
+        return
+      }
+
+      // Handle group delimiters
+      if (item.type === 'group') {
+        if (item.key === '(') {
+          machine.transition({ type: 'OPEN_GROUP' })
+          setPendingOpenGroups(machine.getContext().pendingOpenGroups ?? 0)
+          setInputValue('')
+          stepAnnouncementRef.current = 'Group started. Now select a field.'
+          setAnnouncement(stepAnnouncementRef.current)
+        } else if (item.key === ')' && getOpenGroupDepth(value) > 0) {
+          machine.transition({ type: 'CLOSE_GROUP' })
+          // A group around a single expression is redundant, e.g. "(a)"
+          const newExpressions = balanceGroups(machine.getContext().completedExpressions, {
+            keepOpenGroups: true,
+          })
+          machine.loadExpressions(newExpressions)
+          onChange([...newExpressions])
+          setInputValue('')
+          setAnnouncement('Group closed.')
+        }
+        return
+      }
+
       const currentState = machine.getState()
 
       if (currentState === 'selecting-field') {
@@ -881,7 +1315,7 @@ export function useFilterState({
           return
         }
 
-        const fieldConfig = schema.fields.find((f) => f.key === item.key)
+        const fieldConfig = findField(schema, item.key)
         if (fieldConfig) {
           const fieldValue: FieldValue = {
             key: fieldConfig.key,
@@ -904,6 +1338,13 @@ export function useFilterState({
             setCurrentOperator(operatorValue)
             machine.transition({ type: 'SELECT_OPERATOR', payload: operatorValue })
             setState(machine.getState())
+            if (opConfig.noValue) {
+              completeCondition(
+                { raw: '', display: '', serialized: '' },
+                `Filter added: ${fieldValue.label} ${operatorValue.label}.`
+              )
+              return
+            }
             // Keep dropdown open if there's a custom widget or value autocompleter
             const hasCustomWidget = opConfig.customInput !== undefined
             const hasValueAutocompleter =
@@ -947,7 +1388,7 @@ export function useFilterState({
             setAnnouncement(`Selected ${operatorValue.label}. Now enter a value.`)
           }
         } else {
-          const fieldConfig = schema.fields.find((f) => f.key === currentField?.key)
+          const fieldConfig = currentField && findField(schema, currentField.key)
           const opConfig = fieldConfig?.operators.find((op) => op.key === item.key)
           if (opConfig) {
             const operatorValue: OperatorValue = {
@@ -959,6 +1400,14 @@ export function useFilterState({
             machine.transition({ type: 'SELECT_OPERATOR', payload: operatorValue })
             setState(machine.getState())
             setInputValue('')
+            // Operators without a value complete the expression
+            if (opConfig.noValue) {
+              completeCondition(
+                { raw: '', display: '', serialized: '' },
+                `Filter added: ${currentField?.label} ${operatorValue.label}.`
+              )
+              return
+            }
             // Keep dropdown open if there's a value autocompleter
             const hasValueAutocompleter =
               opConfig.valueAutocompleter !== undefined ||
@@ -974,13 +1423,27 @@ export function useFilterState({
         setState(machine.getState())
         setInputValue('')
         setAnnouncement(`Added ${item.key} connector. Now select a field.`)
+      } else if (
+        currentState === 'entering-value' &&
+        item.type === 'value' &&
+        currentOperatorConfig?.multiValue?.count === -1
+      ) {
+        // List operators collect values until the list is confirmed
+        setPendingValues((previous) =>
+          previous.some((v) => v.key === item.key) ? previous : [...previous, item]
+        )
+        setInputValue('')
+        setHighlightedIndex(-1)
+        stepAnnouncementRef.current = `Added "${item.label}". Select more values or press Enter to apply.`
+        setAnnouncement(stepAnnouncementRef.current)
       } else if (currentState === 'entering-value' && item.type === 'value') {
         // Handle value selection from autocomplete dropdown
-        const conditionValue: ConditionValue = {
-          raw: item.key,
-          display: item.label,
-          serialized: String(item.key),
-        }
+        const conditionValue = toConditionValue(
+          item.key,
+          item.label,
+          currentOperatorConfig?.valueType ?? currentField?.type,
+          currentOperatorConfig
+        )
         machine.transition({ type: 'CONFIRM_VALUE', payload: conditionValue })
         const newExpressions = machine.getContext().completedExpressions
         onChange([...newExpressions])
@@ -988,6 +1451,10 @@ export function useFilterState({
         setInputValue('')
         setCurrentField(undefined)
         setCurrentOperator(undefined)
+        setPendingOpenGroups(0)
+        setPendingNegated(false)
+        setPendingValues([])
+        setFieldPath('')
         setIsDropdownOpen(false)
         setHighlightedIndex(0)
         setAnnouncement(
@@ -1004,16 +1471,36 @@ export function useFilterState({
       editingOperatorIndex,
       editingConnectorIndex,
       value,
+      handleNegationToggle,
+      fieldPath,
+      showNestedFields,
+      currentOperatorConfig,
+      completeCondition,
     ]
   )
 
   const handleConfirmValue = useCallback(() => {
+    // List operators apply the selected values, and the typed value if any
+    if (
+      machine.getState() === 'entering-value' &&
+      currentOperatorConfig?.multiValue?.count === -1
+    ) {
+      const typed = inputValue.trim()
+      const items = typed
+        ? [...pendingValues, { type: 'value' as const, key: typed, label: typed }]
+        : pendingValues
+      if (items.length === 0) return
+      const conditionValue = toListValue(items, currentOperatorConfig)
+      completeCondition(conditionValue, `Filter added: values "${conditionValue.display}".`)
+      return
+    }
     if (machine.getState() === 'entering-value' && inputValue.trim()) {
-      const conditionValue: ConditionValue = {
-        raw: inputValue.trim(),
-        display: inputValue.trim(),
-        serialized: inputValue.trim(),
-      }
+      const conditionValue = toConditionValue(
+        inputValue.trim(),
+        inputValue.trim(),
+        currentOperatorConfig?.valueType ?? currentField?.type,
+        currentOperatorConfig
+      )
       machine.transition({ type: 'CONFIRM_VALUE', payload: conditionValue })
       const newExpressions = machine.getContext().completedExpressions
       onChange([...newExpressions])
@@ -1021,13 +1508,25 @@ export function useFilterState({
       setInputValue('')
       setCurrentField(undefined)
       setCurrentOperator(undefined)
+      setPendingOpenGroups(0)
+      setPendingNegated(false)
+      setPendingValues([])
+      setFieldPath('')
       setIsDropdownOpen(false)
       setHighlightedIndex(0)
       setAnnouncement(
         `Filter added: value "${inputValue.trim()}". Press Down Arrow to add more conditions.`
       )
     }
-  }, [machine, inputValue, onChange])
+  }, [
+    machine,
+    inputValue,
+    onChange,
+    currentOperatorConfig,
+    currentField,
+    pendingValues,
+    completeCondition,
+  ])
 
   // Handle custom widget value confirmation
   const handleCustomWidgetConfirm = useCallback(
@@ -1104,6 +1603,10 @@ export function useFilterState({
       setInputValue('')
       setCurrentField(undefined)
       setCurrentOperator(undefined)
+      setPendingOpenGroups(0)
+      setPendingNegated(false)
+      setPendingValues([])
+      setFieldPath('')
       setIsDropdownOpen(false)
       setHighlightedIndex(0)
       setAnnouncement(`Filter added: value "${display}". Press Down Arrow to add more conditions.`)
@@ -1138,6 +1641,7 @@ export function useFilterState({
     machine.transition({ type: 'DELETE_LAST' })
     setState(machine.getState())
     setCurrentOperator(undefined)
+    setPendingValues([])
     setIsDropdownOpen(true)
     setAnnouncement('Value input cancelled. Select an operator.')
   }, [machine, state])
@@ -1176,7 +1680,7 @@ export function useFilterState({
               if (expression) {
                 const fieldKey = expression.condition.field.key
                 const operatorKey = expression.condition.operator.key
-                const fieldConfig = schema.fields.find((f) => f.key === fieldKey)
+                const fieldConfig = findField(schema, fieldKey)
                 const operatorConfig = fieldConfig?.operators.find((op) => op.key === operatorKey)
 
                 // If this operator has a custom widget, open dropdown
@@ -1267,7 +1771,7 @@ export function useFilterState({
               if (expression) {
                 const fieldKey = expression.condition.field.key
                 const operatorKey = expression.condition.operator.key
-                const fieldConfig = schema.fields.find((f) => f.key === fieldKey)
+                const fieldConfig = findField(schema, fieldKey)
                 const operatorConfig = fieldConfig?.operators.find((op) => op.key === operatorKey)
 
                 // Check if this operator has a custom widget
@@ -1332,6 +1836,10 @@ export function useFilterState({
             setInputValue('')
             setCurrentField(undefined)
             setCurrentOperator(undefined)
+            setPendingOpenGroups(0)
+            setPendingNegated(false)
+            setPendingValues([])
+            setFieldPath('')
             setSelectedTokenIndex(-1)
             setAllTokensSelected(false)
             onChange([])
@@ -1355,18 +1863,19 @@ export function useFilterState({
                 onChange(newExpressions)
                 setSelectedTokenIndex(-1)
                 setAnnouncement(`Connector removed from expression ${expressionIndex + 1}.`)
+              } else if (token.type === 'group-open' || token.type === 'group-close') {
+                // Group tokens remove the group (both parentheses), keeping its expressions
+                handleGroupDelete(selectedTokenIndex)
+              } else if (token.type === 'negation') {
+                // Negation tokens only remove the negation, not the expression
+                handleNegationToggle(expressionIndex)
               } else {
                 // For non-connector tokens, delete the entire expression
-                const newExpressions = value
-                  .filter((_, i) => i !== expressionIndex)
-                  .map((expr, i, arr) => {
-                    // If this is now the last expression, remove its connector
-                    if (i === arr.length - 1 && expr.connector) {
-                      const { connector: _, ...rest } = expr
-                      return rest
-                    }
-                    return expr
-                  })
+                const newExpressions = removeExpressionWithDependents(
+                  value,
+                  expressionIndex,
+                  schema
+                )
                 onChange(newExpressions)
                 setSelectedTokenIndex(-1)
                 setAnnouncement(`Filter expression ${expressionIndex + 1} deleted.`)
@@ -1386,12 +1895,33 @@ export function useFilterState({
                 }
               }
             }
+          } else if (inputValue === '' && state === 'entering-value' && pendingValues.length > 0) {
+            // Remove the last value selected for a list operator
+            const removed = pendingValues[pendingValues.length - 1]
+            setPendingValues(pendingValues.slice(0, -1))
+            stepAnnouncementRef.current = `Removed "${removed.label}".`
+            setAnnouncement(stepAnnouncementRef.current)
           } else if (inputValue === '' && state === 'entering-value') {
             machine.transition({ type: 'DELETE_LAST' })
             setState(machine.getState())
             setCurrentOperator(undefined)
             setIsDropdownOpen(true)
             setAnnouncement('Operator removed. Select operator.')
+          } else if (inputValue === '' && state === 'selecting-field' && fieldPath) {
+            // Leave the nested field for its parent
+            e.preventDefault()
+            showNestedFields(getParentFieldPath(schema, fieldPath))
+          } else if (
+            inputValue === '' &&
+            state === 'selecting-field' &&
+            (pendingNegated || pendingOpenGroups > 0)
+          ) {
+            e.preventDefault()
+            machine.transition({ type: 'DELETE_LAST' })
+            setPendingNegated(machine.getContext().pendingNegated ?? false)
+            setPendingOpenGroups(machine.getContext().pendingOpenGroups ?? 0)
+            stepAnnouncementRef.current = pendingNegated ? 'Negation removed.' : 'Group removed.'
+            setAnnouncement(stepAnnouncementRef.current)
           } else if (
             inputValue === '' &&
             (state === 'idle' || state === 'selecting-field' || state === 'selecting-connector') &&
@@ -1425,18 +1955,19 @@ export function useFilterState({
                 onChange(newExpressions)
                 setSelectedTokenIndex(-1)
                 setAnnouncement(`Connector removed from expression ${expressionIndex + 1}.`)
+              } else if (token.type === 'group-open' || token.type === 'group-close') {
+                // Group tokens remove the group (both parentheses), keeping its expressions
+                handleGroupDelete(selectedTokenIndex)
+              } else if (token.type === 'negation') {
+                // Negation tokens only remove the negation, not the expression
+                handleNegationToggle(expressionIndex)
               } else {
                 // For non-connector tokens, delete the entire expression
-                const newExpressions = value
-                  .filter((_, i) => i !== expressionIndex)
-                  .map((expr, i, arr) => {
-                    // If this is now the last expression, remove its connector
-                    if (i === arr.length - 1 && expr.connector) {
-                      const { connector: _, ...rest } = expr
-                      return rest
-                    }
-                    return expr
-                  })
+                const newExpressions = removeExpressionWithDependents(
+                  value,
+                  expressionIndex,
+                  schema
+                )
                 onChange(newExpressions)
                 setSelectedTokenIndex(-1)
                 setAnnouncement(`Filter expression ${expressionIndex + 1} deleted.`)
@@ -1729,6 +2260,13 @@ export function useFilterState({
       handleConfirmValue,
       machine,
       schema,
+      pendingOpenGroups,
+      pendingNegated,
+      handleNegationToggle,
+      handleGroupDelete,
+      fieldPath,
+      showNestedFields,
+      pendingValues,
     ]
   )
 
@@ -1738,6 +2276,10 @@ export function useFilterState({
     setInputValue('')
     setCurrentField(undefined)
     setCurrentOperator(undefined)
+    setPendingOpenGroups(0)
+    setPendingNegated(false)
+    setPendingValues([])
+    setFieldPath('')
     setEditingTokenIndex(-1)
     onChange([])
     setAnnouncement('All filters cleared.')
@@ -1755,7 +2297,7 @@ export function useFilterState({
         // Get the field and operator configs
         const fieldKey = expression.condition.field.key
         const operatorKey = expression.condition.operator.key
-        const fieldConfig = schema.fields.find((f) => f.key === fieldKey)
+        const fieldConfig = findField(schema, fieldKey)
         const operatorConfig = fieldConfig?.operators.find((op) => op.key === operatorKey)
 
         // Check if this operator has a custom widget
@@ -1808,6 +2350,22 @@ export function useFilterState({
       const expressionIndex = token.expressionIndex
       if (expressionIndex < 0 || expressionIndex >= value.length) return
 
+      // Typed relative dates of date fields stay relative
+      const { field, operator } = value[expressionIndex].condition
+      const operatorConfig = findField(schema, field.key)?.operators.find(
+        (op) => op.key === operator.key
+      )
+      const typedValue =
+        typeof newValue.raw === 'string' && !newValue.relative
+          ? toConditionValue(
+              newValue.raw,
+              newValue.display,
+              operatorConfig?.valueType ?? field.type,
+              operatorConfig
+            )
+          : undefined
+      const editedValue = typedValue?.relative ? typedValue : newValue
+
       // Create updated expressions
       const newExpressions = value.map((expr, idx) => {
         if (idx === expressionIndex) {
@@ -1815,7 +2373,7 @@ export function useFilterState({
             ...expr,
             condition: {
               ...expr.condition,
-              value: newValue,
+              value: editedValue,
             },
           }
         }
@@ -1830,9 +2388,23 @@ export function useFilterState({
       setIsDropdownOpen(true)
       stepBeforeEditRef.current = null
 
+      // Re-validate the other values, which may depend on the edited one
+      const previousErrors = new Set(
+        validateExpressions(value, schema).errors.map((error) => error.message)
+      )
+      const invalidated = validateExpressions(newExpressions, schema).errors.filter(
+        (error) =>
+          error.type === 'value' &&
+          error.expressionIndex !== expressionIndex &&
+          !previousErrors.has(error.message)
+      )
+      if (invalidated.length > 0) {
+        stepAnnouncementRef.current = `Value updated. ${invalidated.map((error) => error.message).join('. ')}.`
+      }
+
       onChange(newExpressions)
     },
-    [editingTokenIndex, tokens, value, onChange]
+    [editingTokenIndex, tokens, value, onChange, schema]
   )
 
   const handleTokenEditCancel = useCallback(() => {
@@ -1868,6 +2440,7 @@ export function useFilterState({
     (expressionIndex: number) => {
       if (expressionIndex < 0 || expressionIndex >= value.length) return
       setEditingFieldIndex(expressionIndex)
+      setFieldPath('')
       setIsDropdownOpen(true)
       setHighlightedIndex(-1)
       setSelectedTokenIndex(-1)
@@ -1906,17 +2479,8 @@ export function useFilterState({
     (expressionIndex: number) => {
       if (expressionIndex < 0 || expressionIndex >= value.length) return
 
-      // Remove the expression and fix connectors
-      const newExpressions = value
-        .filter((_, i) => i !== expressionIndex)
-        .map((expr, i, arr) => {
-          // If this is now the last expression, remove its connector
-          if (i === arr.length - 1 && expr.connector) {
-            const { connector: _, ...rest } = expr
-            return rest
-          }
-          return expr
-        })
+      // Remove the expression and fix connectors and groups
+      const newExpressions = removeExpressionWithDependents(value, expressionIndex, schema)
       onChange(newExpressions)
       setSelectedTokenIndex(-1)
       setAnnouncement(`Filter expression ${expressionIndex + 1} deleted.`)
@@ -1935,7 +2499,7 @@ export function useFilterState({
         setState('selecting-connector')
       }
     },
-    [value, onChange, machine]
+    [value, onChange, machine, schema]
   )
 
   return {
@@ -1978,5 +2542,7 @@ export function useFilterState({
     handleCustomWidgetConfirm,
     handleCustomWidgetCancel,
     handleExpressionDelete,
+    handleNegationToggle,
+    handleGroupDelete,
   }
 }
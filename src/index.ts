@@ -6,7 +6,12 @@
  */
 
 // Main Component
-export { FilterBox, type FilterBoxProps, type FilterBoxHandle } from './components'
+export {
+  FilterBox,
+  type FilterBoxProps,
+  type FilterBoxHandle,
+  type FilterBoxMode,
+} from './components'
 
 // Individual Components
 export {
@@ -14,10 +19,12 @@ export {
   TokenInput,
   TokenContainer,
   AutocompleteDropdown,
+  QueryEditor,
   type TokenProps,
   type TokenInputProps,
   type TokenContainerProps,
   type AutocompleteDropdownProps,
+  type QueryEditorProps,
 } from './components'
 
 // Custom Input Widgets
@@ -55,10 +62,17 @@ export {
   type OperatorValue,
   type ConditionValue,
   type ConnectorValue,
+  type GroupValue,
+  type NegationValue,
+  type FilterConditionNode,
+  type FilterGroup,
+  type FilterNode,
   type TokenData,
   type AutocompleteItem,
   type ValidationResult,
   type FreeformFieldConfig,
+  type SavedCondition,
+  type SchemaMigration,
   getDefaultOperators,
   DEFAULT_CONNECTORS,
   STRING_OPERATORS,
@@ -67,16 +81,133 @@ export {
   BOOLEAN_OPERATORS,
   ENUM_OPERATORS,
   ID_OPERATORS,
+  ARRAY_OPERATORS,
 } from './types'
 
 // Utilities
 export {
   serialize,
+  serializeVersioned,
   deserialize,
   toDisplayString,
   toQueryString,
   fromQueryString,
+  parseQueryString,
+  QUERY_STRING_VERSION,
   type SerializedExpression,
+  type QueryStringOptions,
+  type QueryStringError,
+  type SerializedFilter,
+  type ParseQueryStringResult,
+  // Migrations
+  migrateSerialized,
+  getSchemaVersion,
+  type MigrationReport,
+  type MigrationResult,
+  type MigratedCondition,
+  type DroppedCondition,
+  // Expression tree
+  toExpressionTree,
+  fromExpressionTree,
+  balanceGroups,
+  // Field dependencies
+  isFieldAvailable,
+  getAvailableFields,
+  getUnavailableExpressions,
+  removeExpressionWithDependents,
+  // Nested fields
+  findField,
+  flattenFields,
+  getFieldsAt,
+  getFieldChain,
+  getFieldPathLabel,
+  // Relative dates
+  isRelativeDate,
+  resolveRelativeDate,
+  resolveRelativeDates,
+  resolveRelativeValue,
+  getRelativeDateLabel,
+  createRelativeDateValue,
+  // Query serializers
+  type QueryOptions,
+  // Evaluation
+  compileFilter,
+  type FilterPredicate,
+  type CompileFilterOptions,
+  // SQL
+  toSql,
+  type ToSqlOptions,
+  type SqlResult,
+  type SqlDialect,
+  type SqlOperatorBuilder,
+  type SqlOperatorContext,
+  // MongoDB
+  toMongoQuery,
+  fromMongoQuery,
+  type MongoQuery,
+  type MongoQueryError,
+  type MongoOperatorBuilder,
+  type MongoOperatorContext,
+  type ToMongoQueryOptions,
+  type FromMongoQueryResult,
+  // Elasticsearch
+  toElasticsearchQuery,
+  type ElasticsearchQuery,
+  type ElasticsearchOperatorBuilder,
+  type ElasticsearchOperatorContext,
+  type ToElasticsearchQueryOptions,
+  // OData
+  toODataFilter,
+  fromODataFilter,
+  type ODataOperatorBuilder,
+  type ODataOperatorContext,
+  type ToODataFilterOptions,
+  // GraphQL
+  toHasuraWhere,
+  toPrismaWhere,
+  type WhereInput,
+  type WhereOperatorBuilder,
+  type WhereOperatorContext,
+  type ToWhereOptions,
+  // RSQL
+  toRsql,
+  fromRsql,
+  type RsqlOptions,
+  // Lucene
+  toLuceneQuery,
+  fromLuceneQuery,
+  type LuceneOperatorBuilder,
+  type LuceneOperatorContext,
+  type ToLuceneQueryOptions,
+  // JSON Logic
+  toJsonLogic,
+  fromJsonLogic,
+  type JsonLogicRule,
+  type JsonLogicOperatorBuilder,
+  type JsonLogicOperatorContext,
+  type ToJsonLogicOptions,
+  type FromJsonLogicOptions,
+  type FromJsonLogicResult,
+  type JsonLogicError,
+  // react-querybuilder
+  toRuleGroup,
+  fromRuleGroup,
+  type QueryBuilderRule,
+  type QueryBuilderRuleGroup,
+  type RuleGroupOptions,
+  type FromRuleGroupResult,
+  type RuleGroupError,
+  // Text queries
+  parseQuery,
+  formatQuery,
+  highlightQuery,
+  getQueryCompletion,
+  type ParseQueryResult,
+  type QueryParseError,
+  type QuerySegment,
+  type QuerySegmentRole,
+  type QueryCompletion,
+  type QueryExpectation,
   // Schema builder
   createSchema,
   defineSchema,
@@ -84,6 +215,20 @@ export {
   pickFields,
   omitFields,
   extendSchema,
+  // JSON Schema
+  schemaFromJsonSchema,
+  type JsonSchema,
+  type SchemaFromJsonSchemaOptions,
+  // OpenAPI
+  createOpenApiFilter,
+  type OpenApiDocument,
+  type OpenApiOperation,
+  type OpenApiParameter,
+  type OpenApiFilter,
+  type CreateOpenApiFilterOptions,
+  // Schema inference
+  inferSchema,
+  type InferSchemaOptions,
   // Validation
   validateExpression,
   validateExpressions,
@@ -94,6 +239,7 @@ export {
 export {
   createStaticAutocompleter,
   createEnumAutocompleter,
+  createCascadingAutocompleter,
   createAsyncAutocompleter,
   createNumberAutocompleter,
   createDateAutocompleter,
@@ -105,6 +251,7 @@ export {
   withStaleWhileRevalidate,
   type StaticAutocompleterOptions,
   type EnumAutocompleterOptions,
+  type CascadingAutocompleterOptions,
   type AsyncAutocompleterOptions,
   type NumberAutocompleterOptions,
   type DateAutocompleterOptions,
@@ -0,0 +1,71 @@
+import type { FieldConfig, FilterExpression, FilterSchema } from '@/types'
+import {
+  STRING_OPERATORS,
+  NUMBER_OPERATORS,
+  DATE_OPERATORS,
+  BOOLEAN_OPERATORS,
+  ENUM_OPERATORS,
+  ARRAY_OPERATORS,
+} from '@/types'
+import { deserialize, type SerializedExpression } from '@/utils/serialization'
+
+/**
+ * Shared fixtures for the query adapter tests (SQL, MongoDB, Elasticsearch,
+ * OData, GraphQL, RSQL, Lucene, JSON Logic and react-querybuilder)
+ */
+
+/**
+ * A condition for `createExpressions`: field key, operator key and serialized
+ * value (e.g. '10 and 20' for between, 'a, b' for lists), optionally with the
+ * connector to the next condition, negation and groups
+ */
+export type TestCondition = [
+  field: string,
+  operator: string,
+  value: string,
+  options?: Pick<SerializedExpression, 'connector' | 'negated' | 'openGroups' | 'closeGroups'>,
+]
+
+/**
+ * Create the schema the adapter tests query. Fields passed in replace the
+ * field with the same key, or are added at the end.
+ */
+export const createQuerySchema = (...fields: FieldConfig[]): FilterSchema => {
+  const base: FieldConfig[] = [
+    { key: 'status', label: 'Status', type: 'enum', operators: ENUM_OPERATORS },
+    {
+      key: 'name',
+      label: 'Name',
+      type: 'string',
+      path: 'customer.name',
+      operators: STRING_OPERATORS,
+    },
+    { key: 'price', label: 'Price', type: 'number', operators: NUMBER_OPERATORS },
+    { key: 'created', label: 'Created', type: 'date', operators: DATE_OPERATORS },
+    { key: 'updated', label: 'Updated', type: 'datetime', operators: DATE_OPERATORS },
+    { key: 'active', label: 'Active', type: 'boolean', operators: BOOLEAN_OPERATORS },
+    { key: 'labels', label: 'Labels', type: 'array', operators: ARRAY_OPERATORS },
+  ]
+  const replaced = base.map((field) => fields.find((f) => f.key === field.key) ?? field)
+  const added = fields.filter((field) => !base.some((f) => f.key === field.key))
+  return { fields: [...replaced, ...added] }
+}
+
+/**
+ * Build expressions from conditions, ANDed unless they have a connector
+ */
+export const createExpressions = (
+  schema: FilterSchema,
+  ...conditions: TestCondition[]
+): FilterExpression[] =>
+  deserialize(
+    conditions.map(([field, operator, value, options], index) => ({
+      field,
+      operator,
+      value,
+      ...(index < conditions.length - 1 && { connector: 'AND' as const }),
+      ...options,
+    })),
+    schema,
+    { useSchemaDeserializer: false }
+  )
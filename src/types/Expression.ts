@@ -19,6 +19,7 @@ export type FieldType =
   | 'boolean'
   | 'enum'
   | 'id'
+  | 'array'
   | 'custom'
 
 // =============================================================================
@@ -59,6 +60,14 @@ export interface ConditionValue {
   display: string
   /** Serialized string for API */
   serialized: string
+  /**
+   * Whether the value is a relative date (e.g. `now-7d`, `startOf:week`,
+   * `today`). Relative dates keep the expression as their raw and serialized
+   * value and are resolved to a date only when the filter is evaluated or
+   * converted into a query, see `resolveRelativeDates`. Ranges with relative
+   * endpoints have the list of endpoints as their raw value.
+   */
+  relative?: boolean | undefined
 }
 
 /**
@@ -71,6 +80,26 @@ export interface ConnectorValue {
   label: string
 }
 
+/**
+ * A group delimiter value (opening or closing parenthesis)
+ */
+export interface GroupValue {
+  /** Delimiter type */
+  key: '(' | ')'
+  /** Display label */
+  label: string
+}
+
+/**
+ * A negation value (NOT) applied to a single condition
+ */
+export interface NegationValue {
+  /** Negation keyword */
+  key: 'NOT'
+  /** Display label */
+  label: string
+}
+
 // =============================================================================
 // Expression Types
 // =============================================================================
@@ -85,6 +114,8 @@ export interface FilterCondition {
   operator: OperatorValue
   /** The value to filter by */
   value: ConditionValue
+  /** Whether the condition is negated (NOT) */
+  negated?: boolean | undefined
 }
 
 /**
@@ -95,8 +126,41 @@ export interface FilterExpression {
   condition: FilterCondition
   /** Connector to the NEXT expression (undefined for last expression) */
   connector?: 'AND' | 'OR' | undefined
+  /** Number of groups opened immediately before this expression */
+  openGroups?: number | undefined
+  /** Number of groups closed immediately after this expression */
+  closeGroups?: number | undefined
+}
+
+// =============================================================================
+// Expression Tree Types
+// =============================================================================
+
+/**
+ * A leaf node in the expression tree holding a single condition
+ */
+export interface FilterConditionNode {
+  type: 'condition'
+  /** The condition for this node */
+  condition: FilterCondition
+}
+
+/**
+ * A group node joining its children with a single connector
+ */
+export interface FilterGroup {
+  type: 'group'
+  /** Connector applied between all children */
+  connector: 'AND' | 'OR'
+  /** Child nodes (conditions or nested groups) */
+  children: FilterNode[]
 }
 
+/**
+ * A node in the expression tree
+ */
+export type FilterNode = FilterConditionNode | FilterGroup
+
 // =============================================================================
 // Token Types
 // =============================================================================
@@ -104,7 +168,14 @@ export interface FilterExpression {
 /**
  * Token types in the filter box
  */
-export type TokenType = 'field' | 'operator' | 'value' | 'connector'
+export type TokenType =
+  | 'field'
+  | 'operator'
+  | 'value'
+  | 'connector'
+  | 'group-open'
+  | 'group-close'
+  | 'negation'
 
 /**
  * Token data representing a single token in the filter box
@@ -115,7 +186,7 @@ export interface TokenData {
   /** Token type */
   type: TokenType
   /** Token value (varies by type) */
-  value: FieldValue | OperatorValue | ConditionValue | ConnectorValue
+  value: FieldValue | OperatorValue | ConditionValue | ConnectorValue | GroupValue | NegationValue
   /** Position in token sequence */
   position: number
   /** Which expression this belongs to (-1 for pending tokens) */
@@ -131,7 +202,14 @@ export interface TokenData {
 /**
  * Types of autocomplete items
  */
-export type AutocompleteItemType = 'field' | 'operator' | 'value' | 'connector' | 'custom'
+export type AutocompleteItemType =
+  | 'field'
+  | 'operator'
+  | 'value'
+  | 'connector'
+  | 'group'
+  | 'negation'
+  | 'custom'
 
 /**
  * An item in the autocomplete dropdown
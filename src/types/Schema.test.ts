@@ -7,6 +7,7 @@ import {
   BOOLEAN_OPERATORS,
   ENUM_OPERATORS,
   ID_OPERATORS,
+  ARRAY_OPERATORS,
   DEFAULT_CONNECTORS,
 } from './Schema'
 import type { FieldType } from './Expression'
@@ -99,6 +100,27 @@ describe('Schema', () => {
     })
   })
 
+  describe('ARRAY_OPERATORS', () => {
+    it('should include the quantifiers, is empty and length comparisons', () => {
+      expect(ARRAY_OPERATORS.map((op) => op.key)).toEqual([
+        'anyOf',
+        'allOf',
+        'noneOf',
+        'isEmpty',
+        'lengthEq',
+        'lengthGt',
+        'lengthLt',
+      ])
+    })
+
+    it('should take lists for the quantifiers and no value for is empty', () => {
+      const anyOf = ARRAY_OPERATORS.find((op) => op.key === 'anyOf')
+      expect(anyOf?.multiValue?.count).toBe(-1)
+      expect(ARRAY_OPERATORS.find((op) => op.key === 'isEmpty')?.noValue).toBe(true)
+      expect(ARRAY_OPERATORS.find((op) => op.key === 'lengthGt')?.valueType).toBe('number')
+    })
+  })
+
   describe('getDefaultOperators', () => {
     it('should return STRING_OPERATORS for string type', () => {
       expect(getDefaultOperators('string')).toBe(STRING_OPERATORS)
@@ -128,6 +150,10 @@ describe('Schema', () => {
       expect(getDefaultOperators('id')).toBe(ID_OPERATORS)
     })
 
+    it('should return ARRAY_OPERATORS for array type', () => {
+      expect(getDefaultOperators('array')).toBe(ARRAY_OPERATORS)
+    })
+
     it('should return STRING_OPERATORS for custom type', () => {
       expect(getDefaultOperators('custom')).toBe(STRING_OPERATORS)
     })
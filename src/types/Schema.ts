@@ -73,6 +73,11 @@ export interface Autocompleter {
   customWidget?: CustomAutocompleteWidget
   /** Optional value validation */
   validate?: (value: unknown, context: AutocompleteContext) => boolean
+  /**
+   * Whether `validate` checks values against the other expressions of the
+   * filter, so that `validateExpressions` runs it (as cascading autocompleters do)
+   */
+  validatesExpressions?: boolean
   /** Optional parse display string back to value */
   parse?: (display: string, context: AutocompleteContext) => unknown
   /** Optional format value for display */
@@ -119,6 +124,17 @@ export interface OperatorConfig {
   customInput?: CustomAutocompleteWidget
   /** For operators needing multiple values */
   multiValue?: MultiValueConfig
+  /**
+   * The operator takes no value (e.g. 'is empty'). Selecting it in the filter
+   * box completes the condition right away, with an empty value.
+   */
+  noValue?: boolean
+  /**
+   * Evaluate the operator for client-side filtering (see `compileFilter`).
+   * Receives the record's field value and the condition value, and takes
+   * precedence over the built-in behavior for the operator key.
+   */
+  evaluate?: (fieldValue: unknown, conditionValue: ConditionValue) => boolean
 }
 
 // =============================================================================
@@ -137,6 +153,26 @@ export interface FieldConfig {
   description?: string
   /** Field type (determines default operators and input) */
   type: FieldType
+  /** Path of the field in stored documents, e.g. 'customer.city' (defaults to the key) */
+  path?: string
+  /**
+   * Fields of a related or nested object, e.g. the fields of an 'assignee'.
+   * Picking the field drills into these fields instead of selecting operators,
+   * and expressions use dotted keys such as 'assignee.team.name'.
+   */
+  subSchema?: FilterSchema
+  /**
+   * Elasticsearch/OpenSearch mapping of the field: 'keyword' for exact values or
+   * 'text' for analyzed full text (defaults to 'text' for string fields)
+   */
+  searchMapping?: 'keyword' | 'text'
+  /** Keyword sub-field of a text field used for exact matches, e.g. 'name.keyword' */
+  keywordField?: string
+  /**
+   * Type of the values of an `id` field in OData filters: 'guid' and 'number'
+   * values are written as bare literals, 'string' values quoted (the default)
+   */
+  idType?: 'guid' | 'number' | 'string'
   /** Available operators for this field */
   operators: OperatorConfig[]
   /** Default operator key (first if not specified) */
@@ -149,6 +185,21 @@ export interface FieldConfig {
   group?: string
   /** Whether this field can appear multiple times (default: true) */
   allowMultiple?: boolean
+  /**
+   * Keys of fields that must be filtered before this field is offered, e.g.
+   * 'category' for a 'subcategory' field
+   */
+  dependsOn?: string | string[]
+  /**
+   * Whether this field is offered, given the other expressions of the filter.
+   * Checked together with `dependsOn`.
+   */
+  availableWhen?: (expressions: FilterExpression[]) => boolean
+  /**
+   * Remove this field's expressions when deleting an expression makes the field
+   * unavailable (default: false - they are kept and reported by validation)
+   */
+  removeWithPrerequisite?: boolean
   /** Whether a value is required (default: true) */
   valueRequired?: boolean
   /** Custom autocompleter for values */
@@ -239,6 +290,59 @@ export interface FreeformFieldConfig {
   createLabel?: string
 }
 
+// =============================================================================
+// Schema Migrations
+// =============================================================================
+
+/**
+ * A condition of a saved filter, as seen by schema migrations
+ */
+export interface SavedCondition {
+  /** Field key */
+  field: string
+  /** Operator key */
+  operator: string
+  /** Serialized value */
+  value: unknown
+}
+
+/**
+ * Changes made to a schema in one version, applied to filters saved with an
+ * older version.
+ *
+ * Within a migration, `dropFields` is checked first, then fields are renamed,
+ * operators remapped and values transformed, and finally the `drop` rule is
+ * checked against the migrated condition.
+ *
+ * @example
+ * ```ts
+ * const migration: SchemaMigration = {
+ *   version: 2,
+ *   renameFields: { state: 'status' },
+ *   renameOperators: { status: { is: 'eq' } },
+ *   transformValues: { status: (value) => (value === 'pending' ? 'open' : value) },
+ *   dropFields: ['legacyFlag'],
+ * }
+ * ```
+ */
+export interface SchemaMigration {
+  /** Schema version this migration upgrades to */
+  version: number
+  /** New field keys by old field key */
+  renameFields?: Record<string, string>
+  /**
+   * New operator keys by old operator key, per (new) field key. Use '*' for
+   * remaps that apply to every field.
+   */
+  renameOperators?: Record<string, Record<string, string>>
+  /** Value transforms by (new) field key */
+  transformValues?: Record<string, (value: unknown, condition: SavedCondition) => unknown>
+  /** Field keys (before renaming) whose conditions are dropped */
+  dropFields?: string[]
+  /** Drop rule: return true, or a reason, to drop a migrated condition */
+  drop?: (condition: SavedCondition) => boolean | string
+}
+
 // =============================================================================
 // Schema Configuration
 // =============================================================================
@@ -287,6 +391,31 @@ export interface FilterSchema {
    * Configuration for freeform fields when allowFreeformFields is true
    */
   freeformFieldConfig?: FreeformFieldConfig | undefined
+  /**
+   * Enable parenthesized groups in the filter box.
+   *
+   * When enabled, "(" is offered alongside the fields when selecting a field,
+   * and ")" is offered alongside the connectors while a group is open. Without
+   * groups, AND binds tighter than OR: `a OR b AND c` means `a OR (b AND c)`.
+   */
+  allowGroups?: boolean | undefined
+  /**
+   * Enable per-expression negation in the filter box.
+   *
+   * When enabled, "NOT" is offered alongside the fields when selecting a field,
+   * and can be toggled on an existing expression by clicking its field token.
+   * This avoids having to define paired operators such as `eq`/`neq` on every field.
+   */
+  allowNegation?: boolean | undefined
+  /**
+   * Version of the schema. Filters saved with `serializeVersioned` record it
+   * (pass it as the `version` option for `toQueryString` to record it too), and
+   * `deserialize` and `parseQueryString` apply the `migrations` for newer
+   * versions to older filters.
+   */
+  version?: number | undefined
+  /** Migrations between schema versions, see `SchemaMigration` */
+  migrations?: SchemaMigration[] | undefined
 }
 
 // =============================================================================
@@ -370,6 +499,33 @@ export const ID_OPERATORS: OperatorConfig[] = [
   { key: 'in', label: 'in list' },
 ]
 
+/**
+ * Default operators for array fields (tags, labels, assignees).
+ *
+ * The quantifiers take a list of values; the length comparisons take a number.
+ */
+export const ARRAY_OPERATORS: OperatorConfig[] = [
+  {
+    key: 'anyOf',
+    label: 'contains any of',
+    multiValue: { count: -1, separator: ',', labels: [] },
+  },
+  {
+    key: 'allOf',
+    label: 'contains all of',
+    multiValue: { count: -1, separator: ',', labels: [] },
+  },
+  {
+    key: 'noneOf',
+    label: 'contains none of',
+    multiValue: { count: -1, separator: ',', labels: [] },
+  },
+  { key: 'isEmpty', label: 'is empty', noValue: true },
+  { key: 'lengthEq', label: 'length equals', valueType: 'number' },
+  { key: 'lengthGt', label: 'length greater than', valueType: 'number' },
+  { key: 'lengthLt', label: 'length less than', valueType: 'number' },
+]
+
 /**
  * Get default operators for a field type
  */
@@ -388,6 +544,8 @@ export function getDefaultOperators(type: FieldType): OperatorConfig[] {
       return ENUM_OPERATORS
     case 'id':
       return ID_OPERATORS
+    case 'array':
+      return ARRAY_OPERATORS
     case 'custom':
     default:
       return STRING_OPERATORS
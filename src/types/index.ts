@@ -9,8 +9,13 @@ export type {
   OperatorValue,
   ConditionValue,
   ConnectorValue,
+  GroupValue,
+  NegationValue,
   FilterCondition,
   FilterExpression,
+  FilterConditionNode,
+  FilterGroup,
+  FilterNode,
   TokenType,
   TokenData,
   AutocompleteItemType,
@@ -34,6 +39,8 @@ export type {
   ConnectorConfig,
   FilterSchema,
   FreeformFieldConfig,
+  SavedCondition,
+  SchemaMigration,
 } from './Schema'
 
 export {
@@ -45,5 +52,6 @@ export {
   BOOLEAN_OPERATORS,
   ENUM_OPERATORS,
   ID_OPERATORS,
+  ARRAY_OPERATORS,
   getDefaultOperators,
 } from './Schema'
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import {
+  escapeLike,
+  formatDate,
+  getDayRange,
+  getSingleValue,
+  likeToRegExp,
+  resolveCondition,
+  toTypedValue,
+  unsupportedOperatorError,
+} from './conditionValues'
+import type { FilterCondition, FilterSchema } from '@/types'
+
+const schema: FilterSchema = {
+  fields: [
+    {
+      key: 'price',
+      label: 'Price',
+      type: 'number',
+      operators: [
+        { key: 'gt', label: '>' },
+        { key: 'contains', label: 'contains', valueType: 'string' },
+      ],
+    },
+  ],
+}
+
+const condition = (fieldKey: string, operatorKey: string): FilterCondition => ({
+  field: { key: fieldKey, label: fieldKey, type: 'string' },
+  operator: { key: operatorKey, label: operatorKey },
+  value: { raw: '10', display: '10', serialized: '10' },
+})
+
+describe('resolveCondition', () => {
+  it('should find the field and operator with the type to compare as', () => {
+    const resolved = resolveCondition(condition('price', 'gt'), schema)
+    expect(resolved.fieldConfig?.key).toBe('price')
+    expect(resolved.operatorConfig?.key).toBe('gt')
+    expect(resolved.type).toBe('number')
+    expect(resolveCondition(condition('price', 'contains'), schema).type).toBe('string')
+  })
+
+  it('should reject unknown fields unless freeform fields are allowed', () => {
+    expect(() => resolveCondition(condition('owner', 'eq'), schema)).toThrow(
+      'Unknown field "owner"'
+    )
+    const resolved = resolveCondition(condition('owner', 'eq'), {
+      ...schema,
+      allowFreeformFields: true,
+    })
+    expect(resolved.fieldConfig).toBeUndefined()
+    expect(resolved.operatorConfig?.key).toBe('eq')
+    expect(resolved.type).toBe('string')
+  })
+})
+
+describe('unsupportedOperatorError', () => {
+  it('should name the operator, the field and how to add it', () => {
+    expect(unsupportedOperatorError(condition('price', 'near'), 'to filter with it').message).toBe(
+      'Unsupported operator "near" for field "price": add it to the operators option to filter with it'
+    )
+  })
+})
+
+describe('values', () => {
+  it('should use the serialized value of structured values', () => {
+    const date = new Date('2024-03-05T12:00:00Z')
+    expect(getSingleValue({ raw: date, display: '', serialized: '' })).toBe(date)
+    expect(getSingleValue({ raw: ['a'], display: 'a', serialized: 'a' })).toBe('a')
+    expect(getSingleValue({ raw: null, display: '', serialized: 'x' })).toBe('x')
+  })
+
+  it('should convert numbers and booleans and leave other values', () => {
+    expect(toTypedValue('10', 'number')).toBe(10)
+    expect(toTypedValue('ten', 'number')).toBe('ten')
+    expect(toTypedValue(' TRUE ', 'boolean')).toBe(true)
+    expect(toTypedValue('10', 'string')).toBe('10')
+  })
+
+  it('should format dates by field type', () => {
+    const date = new Date('2024-03-05T12:00:00Z')
+    expect(formatDate(date, 'date')).toBe('2024-03-05')
+    expect(formatDate(date, 'datetime')).toBe('2024-03-05T12:00:00.000Z')
+  })
+
+  it('should get the UTC day of a date', () => {
+    expect(getDayRange('2024-03-05T12:00:00Z')).toEqual([
+      new Date('2024-03-05T00:00:00Z'),
+      new Date('2024-03-06T00:00:00Z'),
+    ])
+    expect(getDayRange('soon')).toBeUndefined()
+  })
+})
+
+describe('patterns', () => {
+  it('should escape LIKE wildcards', () => {
+    expect(escapeLike('50%_off\\')).toBe('50\\%\\_off\\\\')
+    expect(escapeLike('50%_off!\\', '!')).toBe('50!%!_off!!\\')
+  })
+
+  it('should convert LIKE patterns into anchored regular expressions', () => {
+    const pattern = likeToRegExp('a%b_.', 'i')
+    expect(pattern.test('AxxbY.')).toBe(true)
+    expect(pattern.test('axxbYz')).toBe(false)
+    expect(pattern.test('xab..')).toBe(false)
+  })
+})
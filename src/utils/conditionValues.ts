@@ -0,0 +1,194 @@
+/**
+ * Condition Values
+ *
+ * Helpers shared by the query serializers (SQL, MongoDB, Elasticsearch, OData,
+ * GraphQL, RSQL, Lucene, JSON Logic and react-querybuilder) for looking up the
+ * field and operator of a condition and converting its value into the types and
+ * patterns of a query language.
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterSchema,
+  OperatorConfig,
+} from '@/types'
+import { FREEFORM_OPERATORS } from './serialization'
+import { findField } from './fieldPaths'
+import { resolveRelativeValue } from './relativeDates'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options shared by the query serializers
+ */
+export interface QueryOptions {
+  /** Time to resolve relative dates (e.g. `now-7d`) against. Defaults to the current time. */
+  now?: Date
+}
+
+/**
+ * The schema configuration and value a condition is serialized with
+ */
+export interface ResolvedCondition {
+  /** Field config from the schema (undefined for freeform fields) */
+  fieldConfig: FieldConfig | undefined
+  /** Operator config of the field (undefined for operators the field does not have) */
+  operatorConfig: OperatorConfig | undefined
+  /** Type the value is compared as: the operator's value type, else the field type */
+  type: FieldType
+  /** Value of the condition, with relative dates resolved */
+  value: ConditionValue
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Fields and Operators
+// =============================================================================
+
+/**
+ * Look up the field and operator of a condition in the schema, and resolve its
+ * relative dates against `options.now`. Freeform fields use the schema's
+ * freeform operators, or the default freeform operators. The serializers
+ * resolve every condition with it, so they all reject the same fields.
+ *
+ * @throws Error if the field is not in the schema and freeform fields are not allowed
+ */
+export function resolveCondition(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  options: QueryOptions = {}
+): ResolvedCondition {
+  const { field, operator } = condition
+  const fieldConfig = findField(schema, field.key)
+  if (!fieldConfig && !schema.allowFreeformFields) {
+    throw new Error(`Unknown field "${field.key}"`)
+  }
+  const operatorConfig = (
+    fieldConfig?.operators ??
+    schema.freeformFieldConfig?.operators ??
+    FREEFORM_OPERATORS
+  ).find((op) => op.key === operator.key)
+  const type = operatorConfig?.valueType ?? fieldConfig?.type ?? field.type
+  const value = resolveRelativeValue(condition.value, options.now)
+  return { fieldConfig, operatorConfig, type, value }
+}
+
+/**
+ * Create the error for an operator that a serializer has no built-in query for.
+ * The serializers throw it for such operators unless their `operators` option
+ * has a builder for the operator key.
+ *
+ * @param usage - What a custom operator is needed for, e.g. 'to generate SQL for it'
+ */
+export function unsupportedOperatorError(condition: FilterCondition, usage: string): Error {
+  return new Error(
+    `Unsupported operator "${condition.operator.key}" for field "${condition.field.key}": ` +
+      `add it to the operators option ${usage}`
+  )
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Get the single value of a condition: its raw value, or the serialized value
+ * when the raw value is missing or structured
+ */
+export function getSingleValue(value: ConditionValue): unknown {
+  const { raw } = value
+  if (raw === null || raw === undefined) return value.serialized
+  if (typeof raw === 'object' && !(raw instanceof Date)) return value.serialized
+  return raw
+}
+
+/**
+ * Convert a single value to a number or boolean according to the field type.
+ * Values that cannot be converted, and values of other types, are returned as they are.
+ */
+export function toTypedValue(value: unknown, type: FieldType): unknown {
+  switch (type) {
+    case 'number': {
+      if (typeof value === 'number' || String(value).trim() === '') return value
+      const number = Number(value)
+      return isNaN(number) ? value : number
+    }
+    case 'boolean': {
+      const text = String(value).trim().toLowerCase()
+      if (text === 'true') return true
+      if (text === 'false') return false
+      return value
+    }
+    default:
+      return value
+  }
+}
+
+/**
+ * Format a date as an ISO date for date fields, or an ISO timestamp otherwise
+ */
+export function formatDate(date: Date, type: FieldType): string {
+  return type === 'date' ? date.toISOString().slice(0, 10) : date.toISOString()
+}
+
+/**
+ * Convert a value to a date, or undefined if it is not a valid date
+ */
+export function toDate(value: unknown): Date | undefined {
+  const date = value instanceof Date ? value : new Date(String(value))
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Get the (UTC) day containing a date value as a start and end instant
+ */
+export function getDayRange(value: unknown): [Date, Date] | undefined {
+  const date = toDate(value)
+  if (!date) return undefined
+  const start = Math.floor(date.getTime() / DAY_MS) * DAY_MS
+  return [new Date(start), new Date(start + DAY_MS)]
+}
+
+// =============================================================================
+// Patterns
+// =============================================================================
+
+/**
+ * Escape the LIKE wildcards (and the escape character itself) in a value
+ *
+ * @param escape - The escape character of the LIKE clause
+ */
+export function escapeLike(text: string, escape = '\\'): string {
+  return text
+    .split('')
+    .map((char) => (char === '%' || char === '_' || char === escape ? escape + char : char))
+    .join('')
+}
+
+/**
+ * Escape regular expression syntax in a value
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Convert a SQL LIKE pattern ('%' and '_' wildcards) into an anchored regular expression
+ */
+export function likeToRegExp(pattern: string, flags?: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '%') return '.*'
+      if (char === '_') return '.'
+      return escapeRegExp(char)
+    })
+    .join('')
+  return new RegExp(`^${source}$`, flags)
+}
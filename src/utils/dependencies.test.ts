@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getAvailableFields,
+  getUnavailableExpressions,
+  isFieldAvailable,
+  removeExpressionWithDependents,
+} from './dependencies'
+import { deserialize, serialize } from './serialization'
+import type { FieldConfig, FilterSchema } from '@/types'
+
+const operators = [{ key: 'eq', label: 'is' }]
+
+const schema: FilterSchema = {
+  fields: [
+    { key: 'category', label: 'Category', type: 'string', operators },
+    {
+      key: 'subcategory',
+      label: 'Subcategory',
+      type: 'string',
+      operators,
+      dependsOn: 'category',
+      removeWithPrerequisite: true,
+    },
+    {
+      key: 'variant',
+      label: 'Variant',
+      type: 'string',
+      operators,
+      dependsOn: ['subcategory'],
+      removeWithPrerequisite: true,
+    },
+    { key: 'size', label: 'Size', type: 'string', operators, dependsOn: 'category' },
+    {
+      key: 'discount',
+      label: 'Discount',
+      type: 'string',
+      operators,
+      availableWhen: (expressions) => expressions.length < 2,
+    },
+  ],
+}
+
+const field = (key: string) => schema.fields.find((f) => f.key === key) as FieldConfig
+
+const filter = (...keys: string[]) =>
+  deserialize(
+    keys.map((key, index) => ({
+      field: key,
+      operator: 'eq',
+      value: key,
+      ...(index < keys.length - 1 && { connector: 'AND' as const }),
+    })),
+    schema
+  )
+
+describe('isFieldAvailable', () => {
+  it('should require the fields in dependsOn to be filtered', () => {
+    expect(isFieldAvailable(field('subcategory'), [])).toBe(false)
+    expect(isFieldAvailable(field('subcategory'), filter('category'))).toBe(true)
+    expect(isFieldAvailable(field('variant'), filter('category'))).toBe(false)
+  })
+
+  it('should honor availableWhen', () => {
+    expect(isFieldAvailable(field('discount'), filter('category'))).toBe(true)
+    expect(isFieldAvailable(field('discount'), filter('category', 'size'))).toBe(false)
+  })
+
+  it('should list the available fields of a schema', () => {
+    expect(getAvailableFields(schema, filter('category')).map((f) => f.key)).toEqual([
+      'category',
+      'subcategory',
+      'size',
+      'discount',
+    ])
+  })
+})
+
+describe('getUnavailableExpressions', () => {
+  it('should check each expression against the other expressions', () => {
+    expect(getUnavailableExpressions(filter('category', 'subcategory'), schema)).toEqual([])
+    expect(getUnavailableExpressions(filter('subcategory', 'size', 'discount'), schema)).toEqual([
+      0, 1, 2,
+    ])
+  })
+})
+
+describe('removeExpressionWithDependents', () => {
+  it('should remove chains of dependents that opt in and keep the others', () => {
+    const expressions = filter('category', 'subcategory', 'variant', 'size')
+
+    expect(
+      serialize(removeExpressionWithDependents(expressions, 0, schema), schema).map(
+        (item) => item.field
+      )
+    ).toEqual(['size'])
+  })
+
+  it('should keep dependents while their prerequisite remains', () => {
+    const expressions = filter('category', 'subcategory', 'variant')
+
+    expect(
+      serialize(removeExpressionWithDependents(expressions, 2, schema), schema).map(
+        (item) => item.field
+      )
+    ).toEqual(['category', 'subcategory'])
+  })
+})
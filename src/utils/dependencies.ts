@@ -0,0 +1,99 @@
+/**
+ * Field Dependencies
+ *
+ * Decides which fields are available for a filter based on their `dependsOn`
+ * and `availableWhen` settings, so dependent fields (a subcategory after a
+ * category) are only offered once their prerequisites are filtered, and are
+ * reported or removed when a prerequisite goes away.
+ */
+
+import type { FieldConfig, FilterExpression, FilterSchema } from '@/types'
+import { removeExpressionAt } from './expressionTree'
+import { findField, getFieldsAt } from './fieldPaths'
+
+// =============================================================================
+// Availability
+// =============================================================================
+
+/**
+ * Get the prerequisite field keys of a field that are missing from the expressions
+ */
+export function getMissingPrerequisites(
+  field: FieldConfig,
+  expressions: FilterExpression[]
+): string[] {
+  const dependsOn = field.dependsOn === undefined ? [] : [field.dependsOn].flat()
+  return dependsOn.filter((key) => !expressions.some((expr) => expr.condition.field.key === key))
+}
+
+/**
+ * Check whether a field is available for a filter with the given expressions.
+ *
+ * A field is available when every field in its `dependsOn` is used by one of
+ * the expressions and its `availableWhen` (if any) returns true. To check an
+ * existing expression, leave it out of `expressions`.
+ */
+export function isFieldAvailable(field: FieldConfig, expressions: FilterExpression[]): boolean {
+  if (getMissingPrerequisites(field, expressions).length > 0) return false
+  return field.availableWhen ? field.availableWhen(expressions) : true
+}
+
+/**
+ * Get the fields of a schema that are available for a filter with the given
+ * expressions. Pass the dotted path of a nested field to get the available
+ * fields of its sub-schema.
+ */
+export function getAvailableFields(
+  schema: FilterSchema,
+  expressions: FilterExpression[],
+  path: string = ''
+): FieldConfig[] {
+  return getFieldsAt(schema, path).filter((field) => isFieldAvailable(field, expressions))
+}
+
+/**
+ * Get the indices of the expressions whose field is not available given the
+ * other expressions of the filter
+ */
+export function getUnavailableExpressions(
+  expressions: FilterExpression[],
+  schema: FilterSchema
+): number[] {
+  const indices: number[] = []
+  expressions.forEach((expr, index) => {
+    const field = findField(schema, expr.condition.field.key)
+    const others = expressions.filter((_, i) => i !== index)
+    if (field && !isFieldAvailable(field, others)) indices.push(index)
+  })
+  return indices
+}
+
+// =============================================================================
+// Removal
+// =============================================================================
+
+/**
+ * Remove an expression together with the expressions that depend on it.
+ *
+ * After the expression is removed, expressions of fields with
+ * `removeWithPrerequisite` that are no longer available are removed as well,
+ * repeatedly, so chains of dependent fields are removed at once. Other
+ * unavailable expressions are kept, and `validateExpressions` reports them.
+ * Groups around removed expressions are kept intact.
+ */
+export function removeExpressionWithDependents(
+  expressions: FilterExpression[],
+  expressionIndex: number,
+  schema: FilterSchema
+): FilterExpression[] {
+  let result = removeExpressionAt(expressions, expressionIndex)
+  for (;;) {
+    const index = getUnavailableExpressions(result, schema).find(
+      (i) =>
+        result[i] !== undefined &&
+        findField(schema, result[i].condition.field.key)?.removeWithPrerequisite === true
+    )
+    if (index === undefined) return result
+    result = removeExpressionAt(result, index)
+  }
+}
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest'
+import { toElasticsearchQuery } from './elasticsearch'
+import { STRING_OPERATORS } from '@/types'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema(
+  {
+    key: 'name',
+    label: 'Name',
+    type: 'string',
+    path: 'customer.name',
+    keywordField: 'customer.name.raw',
+    operators: STRING_OPERATORS,
+  },
+  {
+    key: 'code',
+    label: 'Code',
+    type: 'string',
+    searchMapping: 'keyword',
+    operators: STRING_OPERATORS,
+  },
+  { key: 'title', label: 'Title', type: 'string', operators: STRING_OPERATORS },
+  {
+    key: 'location',
+    label: 'Location',
+    type: 'string',
+    operators: [{ key: 'near', label: 'near' }],
+  }
+)
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+/** Convert a condition into its query clause */
+const clause = (...condition: TestCondition) => {
+  const query = toElasticsearchQuery(filter(condition), schema) as { bool: { must: unknown[] } }
+  return query.bool.must[0]
+}
+
+describe('toElasticsearchQuery', () => {
+  describe('operators', () => {
+    it('should map eq to term on keyword fields and match_phrase on text fields', () => {
+      expect(clause('status', 'eq', 'open')).toEqual({ term: { status: 'open' } })
+      expect(clause('title', 'eq', 'Big sale')).toEqual({ match_phrase: { title: 'Big sale' } })
+    })
+
+    it('should use the keyword sub-field of text fields for exact matches', () => {
+      expect(clause('name', 'eq', 'Ann')).toEqual({ term: { 'customer.name.raw': 'Ann' } })
+    })
+
+    it('should map neq to a negated term', () => {
+      expect(clause('status', 'neq', 'open')).toEqual({
+        bool: { must_not: [{ term: { status: 'open' } }] },
+      })
+    })
+
+    it('should map is on booleans to term with a boolean value', () => {
+      expect(clause('active', 'is', 'true')).toEqual({ term: { active: true } })
+    })
+
+    it('should map comparisons to range with typed values', () => {
+      expect(clause('price', 'gt', '5')).toEqual({ range: { price: { gt: 5 } } })
+      expect(clause('price', 'gte', '5')).toEqual({ range: { price: { gte: 5 } } })
+      expect(clause('price', 'lt', '5')).toEqual({ range: { price: { lt: 5 } } })
+      expect(clause('price', 'lte', '5')).toEqual({ range: { price: { lte: 5 } } })
+    })
+
+    it('should map before and after to range', () => {
+      expect(clause('created', 'before', '2024-01-01')).toEqual({
+        range: { created: { lt: '2024-01-01' } },
+      })
+      expect(clause('created', 'after', '2024-01-01')).toEqual({
+        range: { created: { gt: '2024-01-01' } },
+      })
+    })
+
+    it('should map on to a range rounded to the day', () => {
+      expect(clause('created', 'on', '2024-01-01')).toEqual({
+        range: { created: { gte: '2024-01-01||/d', lte: '2024-01-01||/d' } },
+      })
+    })
+
+    it('should map between to an inclusive range', () => {
+      expect(clause('price', 'between', '1 and 9')).toEqual({
+        range: { price: { gte: 1, lte: 9 } },
+      })
+      expect(clause('created', 'between', '2024-01-01 and 2024-02-01')).toEqual({
+        range: { created: { gte: '2024-01-01', lte: '2024-02-01' } },
+      })
+    })
+
+    it('should map in to terms', () => {
+      expect(clause('status', 'in', 'open, closed')).toEqual({
+        terms: { status: ['open', 'closed'] },
+      })
+    })
+
+    it('should map contains to wildcard on keyword fields and match_phrase on text fields', () => {
+      expect(clause('code', 'contains', 'a*b')).toEqual({
+        wildcard: { code: { value: '*a\\*b*', case_insensitive: true } },
+      })
+      expect(clause('title', 'contains', 'sale')).toEqual({ match_phrase: { title: 'sale' } })
+    })
+
+    it('should map startsWith to wildcard on keyword fields and match_phrase_prefix on text fields', () => {
+      expect(clause('code', 'startsWith', 'AB')).toEqual({
+        wildcard: { code: { value: 'AB*', case_insensitive: true } },
+      })
+      expect(clause('title', 'startsWith', 'big s')).toEqual({
+        match_phrase_prefix: { title: 'big s' },
+      })
+    })
+
+    it('should map endsWith to wildcard', () => {
+      expect(clause('name', 'endsWith', '?')).toEqual({
+        wildcard: { 'customer.name.raw': { value: '*\\?', case_insensitive: true } },
+      })
+    })
+
+    it('should map like to wildcard with converted wildcards', () => {
+      expect(clause('code', 'like', 'A_%')).toEqual({
+        wildcard: { code: { value: 'A?*', case_insensitive: true } },
+      })
+    })
+
+    it('should match array fields on their keyword values', () => {
+      expect(clause('labels', 'anyOf', 'a, b')).toEqual({ terms: { labels: ['a', 'b'] } })
+      expect(clause('labels', 'allOf', 'a, b')).toEqual({
+        bool: { must: [{ term: { labels: 'a' } }, { term: { labels: 'b' } }] },
+      })
+      expect(clause('labels', 'isEmpty', '')).toEqual({
+        bool: { must_not: [{ exists: { field: 'labels' } }] },
+      })
+      expect(clause('labels', 'lengthGt', '2')).toEqual({
+        script: {
+          script: { source: "doc['labels'].size() > params.length", params: { length: 2 } },
+        },
+      })
+    })
+  })
+
+  describe('structure', () => {
+    const query = (...conditions: TestCondition[]) =>
+      toElasticsearchQuery(filter(...conditions), schema)
+
+    it('should map AND to must and negated conditions to must_not', () => {
+      expect(query(['status', 'eq', 'open'], ['price', 'gt', '5', { negated: true }])).toEqual({
+        bool: {
+          must: [{ term: { status: 'open' } }],
+          must_not: [{ range: { price: { gt: 5 } } }],
+        },
+      })
+    })
+
+    it('should map OR groups to should', () => {
+      expect(
+        query(
+          ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+          ['price', 'gt', '5', { negated: true, closeGroups: 1 }],
+          ['active', 'is', 'true']
+        )
+      ).toEqual({
+        bool: {
+          must: [
+            {
+              bool: {
+                should: [
+                  { term: { status: 'open' } },
+                  { bool: { must_not: [{ range: { price: { gt: 5 } } }] } },
+                ],
+                minimum_should_match: 1,
+              },
+            },
+            { term: { active: true } },
+          ],
+        },
+      })
+    })
+
+    it('should keep the negation of conditions in single-condition groups', () => {
+      expect(
+        query(
+          ['status', 'eq', 'open', { openGroups: 1, negated: true, closeGroups: 1 }],
+          ['price', 'gt', '1']
+        )
+      ).toEqual({
+        bool: {
+          must: [{ range: { price: { gt: 1 } } }],
+          must_not: [{ term: { status: 'open' } }],
+        },
+      })
+    })
+
+    it('should match every document for no expressions', () => {
+      expect(toElasticsearchQuery([], schema)).toEqual({ bool: { must: [] } })
+    })
+  })
+
+  describe('options', () => {
+    it('should match case-sensitively when requested', () => {
+      const expressions = filter(['code', 'contains', 'x'])
+      expect(toElasticsearchQuery(expressions, schema, { caseSensitive: true })).toEqual({
+        bool: { must: [{ wildcard: { code: { value: '*x*' } } }] },
+      })
+    })
+
+    it('should build custom operators and throw for operators without a query', () => {
+      const expressions = filter(['location', 'near', 'berlin'])
+
+      expect(() => toElasticsearchQuery(expressions, schema)).toThrow(
+        'Unsupported operator "near" for field "location"'
+      )
+      expect(
+        toElasticsearchQuery(expressions, schema, {
+          operators: {
+            near: ({ path, value }) => ({
+              geo_distance: { distance: '10km', [path]: String(value.raw) },
+            }),
+          },
+        })
+      ).toEqual({
+        bool: { must: [{ geo_distance: { distance: '10km', location: 'berlin' } }] },
+      })
+    })
+  })
+})
@@ -0,0 +1,328 @@
+/**
+ * Elasticsearch Queries
+ *
+ * Converts filter expressions into an Elasticsearch/OpenSearch `bool` query.
+ * Fields are queried at their schema `path` (the key by default), and the
+ * `searchMapping` and `keywordField` hints decide between exact (term-level)
+ * and full text queries.
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterGroup,
+  FilterNode,
+  FilterSchema,
+} from '@/types'
+import { toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import {
+  formatDate,
+  getSingleValue,
+  resolveCondition,
+  toTypedValue,
+  unsupportedOperatorError,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An Elasticsearch/OpenSearch query clause
+ */
+export type ElasticsearchQuery = Record<string, unknown>
+
+/**
+ * Context passed to custom Elasticsearch operator builders
+ */
+export interface ElasticsearchOperatorContext {
+  /** Path of the field */
+  path: string
+  /** Path used for exact matches (the keyword sub-field of text fields) */
+  keywordPath: string
+  /** Value of the condition */
+  value: ConditionValue
+  /** Field config from the schema (undefined for freeform fields) */
+  field: FieldConfig | undefined
+}
+
+/**
+ * Builds the query clause for a custom operator
+ */
+export type ElasticsearchOperatorBuilder = (
+  context: ElasticsearchOperatorContext
+) => ElasticsearchQuery
+
+/**
+ * Options for generating Elasticsearch queries
+ */
+export interface ToElasticsearchQueryOptions extends QueryOptions {
+  /**
+   * Match `contains`, `startsWith`, `endsWith` and `like` case-sensitively on
+   * keyword fields
+   * @default false
+   */
+  caseSensitive?: boolean
+  /**
+   * Query builders for custom operators, by operator key. Also overrides the
+   * built-in query of an operator key.
+   */
+  operators?: Record<string, ElasticsearchOperatorBuilder>
+}
+
+/**
+ * How a condition's field is queried
+ */
+interface FieldTarget {
+  path: string
+  /** Exact-match path: the keyword sub-field, or the field itself */
+  keywordPath: string
+  /** Whether the field is analyzed text without a keyword sub-field */
+  analyzed: boolean
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Convert a single value to the type indexed for the field
+ */
+function toSearchValue(value: unknown, type: FieldType): unknown {
+  if (value instanceof Date && (type === 'date' || type === 'datetime')) {
+    return formatDate(value, type)
+  }
+  return toTypedValue(value, type)
+}
+
+/**
+ * Escape the wildcard syntax in a value
+ */
+function escapeWildcard(text: string): string {
+  return text.replace(/[\\*?]/g, '\\$&')
+}
+
+/**
+ * Convert a SQL LIKE pattern ('%' and '_' wildcards) into a wildcard pattern
+ */
+function likeToWildcard(pattern: string): string {
+  return pattern
+    .split('')
+    .map((char) => {
+      if (char === '%') return '*'
+      if (char === '_') return '?'
+      return escapeWildcard(char)
+    })
+    .join('')
+}
+
+// =============================================================================
+// Query Building
+// =============================================================================
+
+/**
+ * Build the query clause for a built-in operator, or undefined for unknown operators
+ */
+function buildOperator(
+  operatorKey: string,
+  value: ConditionValue,
+  type: FieldType,
+  target: FieldTarget,
+  caseSensitive: boolean,
+  getValues: () => unknown[]
+): ElasticsearchQuery | undefined {
+  const { path, keywordPath, analyzed } = target
+  const single = () => toSearchValue(getSingleValue(value), type)
+  const text = () => String(getSingleValue(value))
+  const exact = (v: unknown) =>
+    analyzed ? { match_phrase: { [path]: v } } : { term: { [keywordPath]: v } }
+  const range = (bounds: Record<string, unknown>) => ({ range: { [path]: bounds } })
+  const wildcard = (pattern: string) => ({
+    wildcard: {
+      [keywordPath]: caseSensitive
+        ? { value: pattern }
+        : { value: pattern, case_insensitive: true },
+    },
+  })
+
+  switch (operatorKey) {
+    case 'eq':
+    case 'is':
+      return exact(single())
+    case 'neq':
+      return { bool: { must_not: [exact(single())] } }
+    case 'gt':
+    case 'after':
+      return range({ gt: single() })
+    case 'gte':
+      return range({ gte: single() })
+    case 'lt':
+    case 'before':
+      return range({ lt: single() })
+    case 'lte':
+      return range({ lte: single() })
+    case 'on': {
+      // Date math rounding covers the whole day for dates and datetimes
+      const day = toSearchValue(getSingleValue(value), 'date')
+      return range({ gte: `${day}||/d`, lte: `${day}||/d` })
+    }
+    case 'between': {
+      const [from, to] = getValues()
+      return range({ gte: toSearchValue(from, type), lte: toSearchValue(to, type) })
+    }
+    case 'in': {
+      const values = getValues().map((v) => toSearchValue(v, type))
+      if (!analyzed) return { terms: { [keywordPath]: values } }
+      return { bool: { should: values.map(exact), minimum_should_match: 1 } }
+    }
+    case 'contains':
+      return analyzed
+        ? { match_phrase: { [path]: text() } }
+        : wildcard(`*${escapeWildcard(text())}*`)
+    case 'startsWith':
+      return analyzed
+        ? { match_phrase_prefix: { [path]: text() } }
+        : wildcard(`${escapeWildcard(text())}*`)
+    case 'endsWith':
+      return wildcard(`*${escapeWildcard(text())}`)
+    case 'like':
+      return wildcard(likeToWildcard(text()))
+    case 'anyOf':
+      return { terms: { [keywordPath]: getValues() } }
+    case 'allOf':
+      return { bool: { must: getValues().map((v) => ({ term: { [keywordPath]: v } })) } }
+    case 'noneOf':
+      return { bool: { must_not: [{ terms: { [keywordPath]: getValues() } }] } }
+    case 'isEmpty':
+      return { bool: { must_not: [{ exists: { field: keywordPath } }] } }
+    case 'lengthEq':
+    case 'lengthGt':
+    case 'lengthLt': {
+      // Array lengths are only available to scripts, through the doc values
+      const comparison = { lengthEq: '==', lengthGt: '>', lengthLt: '<' }[operatorKey]
+      return {
+        script: {
+          script: {
+            source: `doc['${keywordPath}'].size() ${comparison} params.length`,
+            params: { length: toSearchValue(getSingleValue(value), 'number') },
+          },
+        },
+      }
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Build the query clause for a condition, without its negation
+ */
+function buildCondition(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  options: ToElasticsearchQueryOptions
+): ElasticsearchQuery {
+  const { field, operator } = condition
+  const { fieldConfig, operatorConfig, type, value } = resolveCondition(condition, schema, options)
+
+  const path = fieldConfig?.path ?? field.key
+  const mapping =
+    fieldConfig?.searchMapping ??
+    ((fieldConfig?.type ?? field.type) === 'string' ? 'text' : 'keyword')
+  const keywordField = mapping === 'text' ? fieldConfig?.keywordField : undefined
+  const target: FieldTarget = {
+    path,
+    keywordPath: keywordField ?? path,
+    analyzed: mapping === 'text' && keywordField === undefined,
+  }
+
+  const custom = options.operators?.[operator.key]
+  if (custom) {
+    return custom({ path, keywordPath: target.keywordPath, value, field: fieldConfig })
+  }
+  const query = buildOperator(
+    operator.key,
+    value,
+    type,
+    target,
+    options.caseSensitive ?? false,
+    () => getValueList(value, operatorConfig)
+  )
+  if (!query) {
+    throw unsupportedOperatorError(condition, 'to query Elasticsearch with it')
+  }
+  return query
+}
+
+/**
+ * Unwrap groups with a single child
+ */
+function unwrap(node: FilterNode): FilterNode {
+  return node.type === 'group' && node.children.length === 1 ? unwrap(node.children[0]) : node
+}
+
+/**
+ * Build the query clause for a group
+ */
+function buildGroup(
+  group: FilterGroup,
+  schema: FilterSchema,
+  options: ToElasticsearchQueryOptions
+): ElasticsearchQuery {
+  const clauses = group.children.map(unwrap).map((node) =>
+    node.type === 'group'
+      ? { query: buildGroup(node, schema, options), negated: false }
+      : {
+          query: buildCondition(node.condition, schema, options),
+          negated: !!node.condition.negated,
+        }
+  )
+
+  if (group.connector === 'OR') {
+    // Negated alternatives need a bool query of their own
+    const should = clauses.map(({ query, negated }) =>
+      negated ? { bool: { must_not: [query] } } : query
+    )
+    return { bool: { should, minimum_should_match: 1 } }
+  }
+
+  // Negated conditions of an AND group go into its must_not
+  const bool: Record<string, ElasticsearchQuery[]> = {
+    must: clauses.filter((clause) => !clause.negated).map((clause) => clause.query),
+  }
+  const mustNot = clauses.filter((clause) => clause.negated).map((clause) => clause.query)
+  if (mustNot.length > 0) bool.must_not = mustNot
+  return { bool }
+}
+
+/**
+ * Convert filter expressions into an Elasticsearch/OpenSearch `bool` query.
+ *
+ * AND groups become `must` (with negated conditions in `must_not`) and OR
+ * groups `should`. Keyword fields are queried with term-level queries (`term`,
+ * `terms`, `range` and escaped `wildcard` patterns), while text fields use
+ * `match_phrase` and `match_phrase_prefix`, or their `keywordField` for exact
+ * matches. An empty filter yields a `bool` query matching every document.
+ *
+ * @throws Error for unknown fields and operators without a query
+ *
+ * @example
+ * ```ts
+ * const response = await client.search({
+ *   index: 'tickets',
+ *   query: toElasticsearchQuery(expressions, schema),
+ * })
+ * ```
+ */
+export function toElasticsearchQuery(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: ToElasticsearchQueryOptions = {}
+): ElasticsearchQuery {
+  return buildGroup(toExpressionTree(expressions), schema, options)
+}
@@ -0,0 +1,300 @@
+import { describe, it, expect } from 'vitest'
+import { compileFilter } from './evaluation'
+import type { FilterExpression, FilterSchema, FieldType } from '@/types'
+import {
+  STRING_OPERATORS,
+  NUMBER_OPERATORS,
+  DATE_OPERATORS,
+  ENUM_OPERATORS,
+  ID_OPERATORS,
+  BOOLEAN_OPERATORS,
+  ARRAY_OPERATORS,
+} from '@/types'
+
+const schema: FilterSchema = {
+  fields: [
+    { key: 'name', label: 'Name', type: 'string', operators: STRING_OPERATORS },
+    { key: 'age', label: 'Age', type: 'number', operators: NUMBER_OPERATORS },
+    { key: 'born', label: 'Born', type: 'date', operators: DATE_OPERATORS },
+    { key: 'status', label: 'Status', type: 'enum', operators: ENUM_OPERATORS },
+    { key: 'id', label: 'ID', type: 'id', operators: ID_OPERATORS },
+    { key: 'active', label: 'Active', type: 'boolean', operators: BOOLEAN_OPERATORS },
+    { key: 'tags', label: 'Tags', type: 'array', operators: ARRAY_OPERATORS },
+  ],
+}
+
+const types: Record<string, FieldType> = {
+  name: 'string',
+  age: 'number',
+  born: 'date',
+  status: 'enum',
+  id: 'id',
+  active: 'boolean',
+  tags: 'array',
+}
+
+const expr = (
+  field: string,
+  operator: string,
+  raw: unknown,
+  extra: Partial<Omit<FilterExpression, 'condition'>> & { negated?: boolean } = {}
+): FilterExpression => {
+  const { negated, ...rest } = extra
+  return {
+    condition: {
+      field: { key: field, label: field, type: types[field] ?? 'string' },
+      operator: { key: operator, label: operator },
+      value: { raw, display: String(raw), serialized: String(raw) },
+      ...(negated ? { negated } : {}),
+    },
+    ...rest,
+  }
+}
+
+const people = [
+  {
+    id: '1',
+    name: 'Alice Smith',
+    age: 34,
+    born: '1990-03-15',
+    status: 'active',
+    active: true,
+    tags: ['admin', 'Billing'],
+  },
+  {
+    id: '2',
+    name: 'Bob Jones',
+    age: 19,
+    born: '2005-11-02',
+    status: 'pending',
+    active: false,
+    tags: [],
+  },
+  {
+    id: '3',
+    name: 'Carol Smith',
+    age: 52,
+    born: '1972-07-30',
+    status: 'archived',
+    active: true,
+    tags: ['billing'],
+  },
+]
+
+const matchIds = (expressions: FilterExpression[]) =>
+  people.filter(compileFilter(expressions, schema)).map((p) => p.id)
+
+describe('compileFilter', () => {
+  it('should match every record for an empty filter', () => {
+    expect(matchIds([])).toEqual(['1', '2', '3'])
+  })
+
+  describe('string operators', () => {
+    it('should compare case-insensitively by default', () => {
+      expect(matchIds([expr('name', 'eq', 'alice smith')])).toEqual(['1'])
+      expect(matchIds([expr('name', 'contains', 'SMITH')])).toEqual(['1', '3'])
+    })
+
+    it('should compare case-sensitively when requested', () => {
+      const matches = compileFilter([expr('name', 'contains', 'smith')], schema, {
+        caseSensitive: true,
+      })
+      expect(people.filter(matches)).toHaveLength(0)
+    })
+
+    it('should support neq, startsWith and endsWith', () => {
+      expect(matchIds([expr('name', 'neq', 'Bob Jones')])).toEqual(['1', '3'])
+      expect(matchIds([expr('name', 'startsWith', 'car')])).toEqual(['3'])
+      expect(matchIds([expr('name', 'endsWith', 'jones')])).toEqual(['2'])
+    })
+
+    it('should support SQL LIKE wildcards', () => {
+      expect(matchIds([expr('name', 'like', '%Smith')])).toEqual(['1', '3'])
+      expect(matchIds([expr('name', 'like', 'B_b%')])).toEqual(['2'])
+      expect(matchIds([expr('name', 'like', 'Smith')])).toEqual([])
+    })
+  })
+
+  describe('number operators', () => {
+    it('should compare numbers, including numeric strings', () => {
+      expect(matchIds([expr('age', 'gt', '34')])).toEqual(['3'])
+      expect(matchIds([expr('age', 'gte', 34)])).toEqual(['1', '3'])
+      expect(matchIds([expr('age', 'lt', '34')])).toEqual(['2'])
+      expect(matchIds([expr('age', 'lte', '34')])).toEqual(['1', '2'])
+      expect(matchIds([expr('age', 'eq', '19')])).toEqual(['2'])
+    })
+
+    it('should support between with an array value', () => {
+      expect(matchIds([expr('age', 'between', [19, 34])])).toEqual(['1', '2'])
+    })
+
+    it('should support between with a separated string value', () => {
+      expect(matchIds([expr('age', 'between', '30 and 60')])).toEqual(['1', '3'])
+    })
+
+    it('should not match invalid numbers', () => {
+      expect(matchIds([expr('age', 'gt', 'abc')])).toEqual([])
+    })
+  })
+
+  describe('date operators', () => {
+    it('should compare dates by day', () => {
+      expect(matchIds([expr('born', 'before', '1990-03-15')])).toEqual(['3'])
+      expect(matchIds([expr('born', 'after', '1990-03-15')])).toEqual(['2'])
+      expect(matchIds([expr('born', 'on', new Date('1990-03-15T18:30:00Z'))])).toEqual(['1'])
+    })
+
+    it('should support between with a date range', () => {
+      const range = { from: new Date('1970-01-01'), to: new Date('1990-03-15') }
+      expect(matchIds([expr('born', 'between', range)])).toEqual(['1', '3'])
+    })
+  })
+
+  describe('enum, id and boolean operators', () => {
+    it('should support in with an array value', () => {
+      expect(matchIds([expr('status', 'in', ['active', 'archived'])])).toEqual(['1', '3'])
+    })
+
+    it('should support in with a comma-separated value', () => {
+      expect(matchIds([expr('id', 'in', '1, 2')])).toEqual(['1', '2'])
+    })
+
+    it('should compare booleans', () => {
+      expect(matchIds([expr('active', 'is', 'true')])).toEqual(['1', '3'])
+      expect(matchIds([expr('active', 'is', false)])).toEqual(['2'])
+    })
+  })
+
+  describe('array operators', () => {
+    it('should quantify over the items of the array', () => {
+      expect(matchIds([expr('tags', 'anyOf', ['billing', 'support'])])).toEqual(['1', '3'])
+      expect(matchIds([expr('tags', 'allOf', 'admin, billing')])).toEqual(['1'])
+      expect(matchIds([expr('tags', 'noneOf', ['admin'])])).toEqual(['2', '3'])
+    })
+
+    it('should compare the array length', () => {
+      expect(matchIds([expr('tags', 'isEmpty', '')])).toEqual(['2'])
+      expect(matchIds([expr('tags', 'lengthEq', '1')])).toEqual(['3'])
+      expect(matchIds([expr('tags', 'lengthGt', 0)])).toEqual(['1', '3'])
+      expect(matchIds([expr('tags', 'lengthLt', 2)])).toEqual(['2', '3'])
+    })
+  })
+
+  describe('connectors', () => {
+    it('should give AND precedence over OR', () => {
+      // status = pending OR name contains smith AND age > 40
+      expect(
+        matchIds([
+          expr('status', 'eq', 'pending', { connector: 'OR' }),
+          expr('name', 'contains', 'smith', { connector: 'AND' }),
+          expr('age', 'gt', 40),
+        ])
+      ).toEqual(['2', '3'])
+    })
+
+    it('should honor groups', () => {
+      // (status = pending OR name contains smith) AND age > 30
+      expect(
+        matchIds([
+          expr('status', 'eq', 'pending', { connector: 'OR', openGroups: 1 }),
+          expr('name', 'contains', 'smith', { connector: 'AND', closeGroups: 1 }),
+          expr('age', 'gt', 30),
+        ])
+      ).toEqual(['1', '3'])
+    })
+
+    it('should honor negation', () => {
+      expect(matchIds([expr('name', 'contains', 'smith', { negated: true })])).toEqual(['2'])
+    })
+  })
+
+  it('should read nested values by dotted path', () => {
+    const matches = compileFilter(
+      [
+        {
+          condition: {
+            field: { key: 'address.city', label: 'City', type: 'string' },
+            operator: { key: 'eq', label: 'equals' },
+            value: { raw: 'Oslo', display: 'Oslo', serialized: 'Oslo' },
+          },
+        },
+      ],
+      { fields: [] }
+    )
+    expect(matches({ address: { city: 'Oslo' } })).toBe(true)
+    expect(matches({ address: { city: 'Bergen' } })).toBe(false)
+  })
+
+  it('should use a custom value accessor', () => {
+    const matches = compileFilter<Map<string, unknown>>([expr('age', 'gt', 18)], schema, {
+      getValue: (record, key) => record.get(key),
+    })
+    expect(matches(new Map([['age', 21]]))).toBe(true)
+  })
+
+  describe('operator evaluators', () => {
+    const customSchema: FilterSchema = {
+      fields: [
+        {
+          key: 'name',
+          label: 'Name',
+          type: 'string',
+          operators: [
+            {
+              key: 'regex',
+              label: 'matches',
+              evaluate: (fieldValue, conditionValue) =>
+                new RegExp(String(conditionValue.raw)).test(String(fieldValue)),
+            },
+            {
+              // Overrides the built-in (case-insensitive) behavior
+              key: 'eq',
+              label: 'equals',
+              evaluate: (fieldValue, conditionValue) => fieldValue === conditionValue.raw,
+            },
+          ],
+        },
+      ],
+      allowFreeformFields: true,
+      freeformFieldConfig: {
+        operators: [
+          {
+            key: 'hasKey',
+            label: 'is set',
+            evaluate: (fieldValue) => fieldValue !== undefined,
+          },
+        ],
+      },
+    }
+
+    it('should use the evaluator of a custom operator', () => {
+      const matches = compileFilter([expr('name', 'regex', '^(Alice|Bob) ')], customSchema)
+      expect(people.filter(matches).map((p) => p.id)).toEqual(['1', '2'])
+    })
+
+    it('should prefer the evaluator over the built-in operator', () => {
+      const matches = compileFilter([expr('name', 'eq', 'alice smith')], customSchema)
+      expect(people.filter(matches)).toHaveLength(0)
+    })
+
+    it('should apply negation to evaluated operators', () => {
+      const matches = compileFilter(
+        [expr('name', 'regex', 'Smith$', { negated: true })],
+        customSchema
+      )
+      expect(people.filter(matches).map((p) => p.id)).toEqual(['2'])
+    })
+
+    it('should use evaluators of freeform operators', () => {
+      const matches = compileFilter([expr('nickname', 'hasKey', '')], customSchema)
+      expect(matches({ nickname: 'Al' })).toBe(true)
+      expect(matches({})).toBe(false)
+    })
+  })
+
+  it('should throw for operators it cannot evaluate', () => {
+    expect(() => compileFilter([expr('name', 'soundsLike', 'x')], schema)).toThrow(
+      'Unsupported operator "soundsLike" for field "name": add an evaluate function'
+    )
+  })
+})
@@ -0,0 +1,383 @@
+/**
+ * Expression Evaluation
+ *
+ * Compiles filter expressions into record predicates for filtering data in
+ * memory, using the same AND/OR precedence and grouping as the filter box.
+ */
+
+import type {
+  ConditionValue,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+  OperatorConfig,
+} from '@/types'
+import { toExpressionTree } from './expressionTree'
+import { findField } from './fieldPaths'
+import { resolveRelativeDates } from './relativeDates'
+import { likeToRegExp } from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A predicate deciding whether a record matches a filter
+ */
+export type FilterPredicate<T = Record<string, unknown>> = (record: T) => boolean
+
+/**
+ * Options for compiling a filter
+ */
+export interface CompileFilterOptions<T = Record<string, unknown>> {
+  /**
+   * Read a field value from a record.
+   * Defaults to the property named by the field key, falling back to a dotted path.
+   */
+  getValue?: (record: T, fieldKey: string) => unknown
+  /**
+   * Compare strings case-sensitively
+   * @default false
+   */
+  caseSensitive?: boolean
+  /** Time to resolve relative dates (e.g. `now-7d`) against. Defaults to the current time. */
+  now?: Date
+}
+
+/**
+ * A normalized value that can be compared with `===`, `<` and `>`
+ */
+type Comparable = string | number | boolean
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Value Normalization
+// =============================================================================
+
+/**
+ * Default record accessor: direct property first, then dotted path
+ */
+function getRecordValue(record: unknown, fieldKey: string): unknown {
+  if (record === null || typeof record !== 'object') return undefined
+  const direct = (record as Record<string, unknown>)[fieldKey]
+  if (direct !== undefined || !fieldKey.includes('.')) return direct
+  return fieldKey.split('.').reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') return undefined
+    return (current as Record<string, unknown>)[segment]
+  }, record)
+}
+
+/**
+ * Convert a date-like value to a timestamp
+ */
+function toTimestamp(value: unknown): number | undefined {
+  const time =
+    value instanceof Date
+      ? value.getTime()
+      : typeof value === 'number'
+        ? value
+        : new Date(String(value)).getTime()
+  return isNaN(time) ? undefined : time
+}
+
+/**
+ * Normalize a value for comparison according to the field type.
+ *
+ * Dates are compared by UTC day and datetimes by timestamp. Returns undefined
+ * for missing values and values that cannot be interpreted as the field type.
+ */
+function normalize(
+  value: unknown,
+  type: FieldType,
+  caseSensitive: boolean
+): Comparable | undefined {
+  if (value === null || value === undefined) return undefined
+
+  switch (type) {
+    case 'number': {
+      if (typeof value === 'string' && value.trim() === '') return undefined
+      const number = typeof value === 'number' ? value : Number(value)
+      return isNaN(number) ? undefined : number
+    }
+    case 'date': {
+      const time = toTimestamp(value)
+      return time === undefined ? undefined : Math.floor(time / DAY_MS)
+    }
+    case 'datetime':
+      return toTimestamp(value)
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const text = String(value).trim().toLowerCase()
+      if (text === 'true') return true
+      if (text === 'false') return false
+      return undefined
+    }
+    default: {
+      const text = value instanceof Date ? value.toISOString() : String(value)
+      return caseSensitive ? text : text.toLowerCase()
+    }
+  }
+}
+
+/**
+ * Get the individual values of a multi-value condition (e.g. 'between', 'in').
+ *
+ * Arrays and `{ from, to }` ranges are used as-is; strings are split on the
+ * operator's separator (',' when the operator has no multi-value config).
+ */
+export function getValueList(value: ConditionValue, operatorConfig?: OperatorConfig): unknown[] {
+  const { raw } = value
+  if (Array.isArray(raw)) return raw
+  if (raw !== null && typeof raw === 'object' && 'from' in raw && 'to' in raw) {
+    return [raw.from, raw.to]
+  }
+
+  const text = typeof raw === 'string' ? raw : value.serialized
+  const separator = operatorConfig?.multiValue?.separator ?? ','
+  const escaped = separator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  // Word separators such as 'and' must be surrounded by whitespace
+  const pattern = /^\w+$/.test(separator)
+    ? new RegExp(`\\s+${escaped}\\s+`, 'i')
+    : new RegExp(escaped)
+  return text
+    .split(pattern)
+    .map((part) => part.trim())
+    .filter((part) => part !== '')
+}
+
+// =============================================================================
+// Compilation
+// =============================================================================
+
+/**
+ * Compile a single condition into a predicate
+ */
+function compileCondition<T>(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  getValue: (record: T, fieldKey: string) => unknown,
+  caseSensitive: boolean
+): FilterPredicate<T> {
+  const { field, operator, value } = condition
+  const fieldConfig = findField(schema, field.key)
+  const operatorConfig = (fieldConfig?.operators ?? schema.freeformFieldConfig?.operators)?.find(
+    (op) => op.key === operator.key
+  )
+  const type = operatorConfig?.valueType ?? fieldConfig?.type ?? field.type
+
+  const read = (record: T, as: FieldType = type) =>
+    normalize(getValue(record, field.key), as, caseSensitive)
+  // Items of an array field; missing values are empty and single values a list of one
+  const readItems = (record: T) => {
+    const actual = getValue(record, field.key)
+    if (actual === null || actual === undefined) return []
+    return (Array.isArray(actual) ? actual : [actual]).map((item) =>
+      normalize(item, 'string', caseSensitive)
+    )
+  }
+  const expected = (as: FieldType = type) => normalize(value.raw, as, caseSensitive)
+
+  let predicate: FilterPredicate<T>
+
+  // Operator-level evaluators take precedence over the built-in behavior
+  const { evaluate } = operatorConfig ?? {}
+  if (evaluate) {
+    predicate = (record) => evaluate(getValue(record, field.key), value)
+    return condition.negated ? (record) => !predicate(record) : predicate
+  }
+
+  switch (operator.key) {
+    case 'eq':
+    case 'is': {
+      const target = expected()
+      predicate = (record) => target !== undefined && read(record) === target
+      break
+    }
+    case 'on': {
+      // Datetimes are on a date when they fall on the same (UTC) day
+      const target = expected('date')
+      predicate = (record) => target !== undefined && read(record, 'date') === target
+      break
+    }
+    case 'neq': {
+      const target = expected()
+      predicate = (record) => target === undefined || read(record) !== target
+      break
+    }
+    case 'gt':
+    case 'after': {
+      const target = expected()
+      predicate = (record) => {
+        const actual = read(record)
+        return target !== undefined && actual !== undefined && actual > target
+      }
+      break
+    }
+    case 'gte': {
+      const target = expected()
+      predicate = (record) => {
+        const actual = read(record)
+        return target !== undefined && actual !== undefined && actual >= target
+      }
+      break
+    }
+    case 'lt':
+    case 'before': {
+      const target = expected()
+      predicate = (record) => {
+        const actual = read(record)
+        return target !== undefined && actual !== undefined && actual < target
+      }
+      break
+    }
+    case 'lte': {
+      const target = expected()
+      predicate = (record) => {
+        const actual = read(record)
+        return target !== undefined && actual !== undefined && actual <= target
+      }
+      break
+    }
+    case 'between': {
+      const [from, to] = getValueList(value, operatorConfig).map((v) =>
+        normalize(v, type, caseSensitive)
+      )
+      predicate = (record) => {
+        const actual = read(record)
+        return (
+          from !== undefined &&
+          to !== undefined &&
+          actual !== undefined &&
+          actual >= from &&
+          actual <= to
+        )
+      }
+      break
+    }
+    case 'in': {
+      const targets = new Set(
+        getValueList(value, operatorConfig).map((v) => normalize(v, type, caseSensitive))
+      )
+      predicate = (record) => {
+        const actual = read(record)
+        return actual !== undefined && targets.has(actual)
+      }
+      break
+    }
+    case 'anyOf':
+    case 'allOf':
+    case 'noneOf': {
+      const targets = getValueList(value, operatorConfig).map((v) =>
+        normalize(v, 'string', caseSensitive)
+      )
+      const key = operator.key
+      predicate = (record) => {
+        const items = new Set(readItems(record))
+        if (key === 'anyOf') return targets.some((target) => items.has(target))
+        if (key === 'allOf') {
+          return targets.length > 0 && targets.every((target) => items.has(target))
+        }
+        return !targets.some((target) => items.has(target))
+      }
+      break
+    }
+    case 'isEmpty':
+      predicate = (record) => readItems(record).length === 0
+      break
+    case 'lengthEq':
+    case 'lengthGt':
+    case 'lengthLt': {
+      const target = expected('number') as number | undefined
+      const key = operator.key
+      predicate = (record) => {
+        const length = readItems(record).length
+        if (target === undefined) return false
+        if (key === 'lengthEq') return length === target
+        return key === 'lengthGt' ? length > target : length < target
+      }
+      break
+    }
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith': {
+      // Text operators always compare as strings, whatever the field type
+      const target = expected('string') as string | undefined
+      const key = operator.key
+      predicate = (record) => {
+        const actual = read(record, 'string') as string | undefined
+        if (target === undefined || actual === undefined) return false
+        if (key === 'contains') return actual.includes(target)
+        if (key === 'startsWith') return actual.startsWith(target)
+        return actual.endsWith(target)
+      }
+      break
+    }
+    case 'like': {
+      const pattern = likeToRegExp(String(value.raw ?? ''), caseSensitive ? 's' : 'is')
+      predicate = (record) => {
+        const actual = getValue(record, field.key)
+        return actual !== null && actual !== undefined && pattern.test(String(actual))
+      }
+      break
+    }
+    default:
+      throw new Error(
+        `Unsupported operator "${operator.key}" for field "${field.key}": ` +
+          'add an evaluate function to the operator config to filter with it'
+      )
+  }
+
+  return condition.negated ? (record) => !predicate(record) : predicate
+}
+
+/**
+ * Compile a tree node into a predicate
+ */
+function compileNode<T>(
+  node: FilterNode,
+  compile: (condition: FilterCondition) => FilterPredicate<T>
+): FilterPredicate<T> {
+  if (node.type === 'condition') {
+    return compile(node.condition)
+  }
+  const children = node.children.map((child) => compileNode(child, compile))
+  return node.connector === 'AND'
+    ? (record) => children.every((child) => child(record))
+    : (record) => children.some((child) => child(record))
+}
+
+/**
+ * Compile filter expressions into a record predicate.
+ *
+ * Supports the built-in operator keys (eq, neq, gt, gte, lt, lte, between,
+ * contains, startsWith, endsWith, like, before, after, on, is, in, and the
+ * array operators anyOf, allOf, noneOf, isEmpty, lengthEq, lengthGt and
+ * lengthLt) and honors groups, negation and AND-over-OR precedence. Values are
+ * compared according to the field type from the schema. Relative dates are
+ * resolved when the filter is compiled, so compile it again to move them
+ * along. An empty filter matches every record.
+ *
+ * Custom operators participate by providing `evaluate` on their `OperatorConfig`,
+ * which also overrides the built-in behavior of an operator key.
+ *
+ * @throws Error if an expression uses an unknown operator without an `evaluate` function
+ *
+ * @example
+ * ```ts
+ * const matches = compileFilter(expressions, schema)
+ * const visibleRows = rows.filter(matches)
+ * ```
+ */
+export function compileFilter<T = Record<string, unknown>>(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: CompileFilterOptions<T> = {}
+): FilterPredicate<T> {
+  const { getValue = getRecordValue, caseSensitive = false, now } = options
+  return compileNode<T>(toExpressionTree(resolveRelativeDates(expressions, now)), (condition) =>
+    compileCondition(condition, schema, getValue, caseSensitive)
+  )
+}
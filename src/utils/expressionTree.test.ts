@@ -0,0 +1,276 @@
+import { describe, it, expect } from 'vitest'
+import {
+  toExpressionTree,
+  fromExpressionTree,
+  balanceGroups,
+  scanGroups,
+  getOpenGroupDepth,
+  removeExpressionAt,
+  removeGroupAt,
+} from './expressionTree'
+import type { FilterExpression, FilterGroup } from '@/types'
+
+const expr = (
+  value: string,
+  extra: Partial<Omit<FilterExpression, 'condition'>> = {}
+): FilterExpression => ({
+  condition: {
+    field: { key: 'status', label: 'Status', type: 'enum' },
+    operator: { key: 'eq', label: 'is', symbol: '=' },
+    value: { raw: value, display: value, serialized: value },
+  },
+  ...extra,
+})
+
+const leaf = (value: string) => ({ type: 'condition' as const, condition: expr(value).condition })
+
+describe('expressionTree', () => {
+  describe('toExpressionTree', () => {
+    it('should return an empty AND group for no expressions', () => {
+      expect(toExpressionTree([])).toEqual({ type: 'group', connector: 'AND', children: [] })
+    })
+
+    it('should wrap a single expression in an AND group', () => {
+      expect(toExpressionTree([expr('a')])).toEqual({
+        type: 'group',
+        connector: 'AND',
+        children: [leaf('a')],
+      })
+    })
+
+    it('should give AND precedence over OR', () => {
+      const tree = toExpressionTree([
+        expr('a', { connector: 'OR' }),
+        expr('b', { connector: 'AND' }),
+        expr('c'),
+      ])
+
+      expect(tree).toEqual({
+        type: 'group',
+        connector: 'OR',
+        children: [
+          leaf('a'),
+          { type: 'group', connector: 'AND', children: [leaf('b'), leaf('c')] },
+        ],
+      })
+    })
+
+    it('should turn parentheses into nested groups', () => {
+      // (a OR b) AND c
+      const tree = toExpressionTree([
+        expr('a', { connector: 'OR', openGroups: 1 }),
+        expr('b', { connector: 'AND', closeGroups: 1 }),
+        expr('c'),
+      ])
+
+      expect(tree).toEqual({
+        type: 'group',
+        connector: 'AND',
+        children: [{ type: 'group', connector: 'OR', children: [leaf('a'), leaf('b')] }, leaf('c')],
+      })
+    })
+
+    it('should treat a missing connector as AND', () => {
+      const tree = toExpressionTree([expr('a'), expr('b')])
+      expect(tree.connector).toBe('AND')
+      expect(tree.children).toHaveLength(2)
+    })
+
+    it('should tolerate unbalanced parentheses', () => {
+      const tree = toExpressionTree([
+        expr('a', { connector: 'OR', openGroups: 2 }),
+        expr('b', { closeGroups: 1 }),
+      ])
+
+      expect(tree).toEqual({
+        type: 'group',
+        connector: 'OR',
+        children: [leaf('a'), leaf('b')],
+      })
+    })
+  })
+
+  describe('fromExpressionTree', () => {
+    it('should flatten a group without parentheses at the root', () => {
+      const tree: FilterGroup = {
+        type: 'group',
+        connector: 'OR',
+        children: [leaf('a'), leaf('b')],
+      }
+
+      expect(fromExpressionTree(tree)).toEqual([expr('a', { connector: 'OR' }), expr('b')])
+    })
+
+    it('should add parentheses around OR groups inside AND groups', () => {
+      const tree: FilterGroup = {
+        type: 'group',
+        connector: 'AND',
+        children: [{ type: 'group', connector: 'OR', children: [leaf('a'), leaf('b')] }, leaf('c')],
+      }
+
+      expect(fromExpressionTree(tree)).toEqual([
+        expr('a', { connector: 'OR', openGroups: 1 }),
+        expr('b', { connector: 'AND', closeGroups: 1 }),
+        expr('c'),
+      ])
+    })
+
+    it('should not add parentheses around AND groups inside OR groups', () => {
+      const tree: FilterGroup = {
+        type: 'group',
+        connector: 'OR',
+        children: [
+          leaf('a'),
+          { type: 'group', connector: 'AND', children: [leaf('b'), leaf('c')] },
+        ],
+      }
+
+      expect(fromExpressionTree(tree)).toEqual([
+        expr('a', { connector: 'OR' }),
+        expr('b', { connector: 'AND' }),
+        expr('c'),
+      ])
+    })
+
+    it('should skip empty groups', () => {
+      const tree: FilterGroup = {
+        type: 'group',
+        connector: 'AND',
+        children: [{ type: 'group', connector: 'OR', children: [] }, leaf('a')],
+      }
+
+      expect(fromExpressionTree(tree)).toEqual([expr('a')])
+    })
+
+    it('should round-trip nested groups', () => {
+      // a AND (b OR (c AND d) OR e)
+      const expressions = [
+        expr('a', { connector: 'AND' }),
+        expr('b', { connector: 'OR', openGroups: 1 }),
+        expr('c', { connector: 'AND' }),
+        expr('d', { connector: 'OR' }),
+        expr('e', { closeGroups: 1 }),
+      ]
+
+      expect(fromExpressionTree(toExpressionTree(expressions))).toEqual(expressions)
+    })
+  })
+
+  describe('scanGroups', () => {
+    it('should report open depth and unmatched parentheses', () => {
+      expect(scanGroups([expr('a', { openGroups: 2 }), expr('b', { closeGroups: 1 })])).toEqual({
+        openDepth: 1,
+        unmatchedCloses: [],
+        unmatchedOpens: [0],
+      })
+      expect(scanGroups([expr('a', { closeGroups: 1 })])).toEqual({
+        openDepth: 0,
+        unmatchedCloses: [0],
+        unmatchedOpens: [],
+      })
+    })
+
+    it('should report the open group depth', () => {
+      expect(getOpenGroupDepth([expr('a', { openGroups: 1 })])).toBe(1)
+      expect(getOpenGroupDepth([expr('a')])).toBe(0)
+    })
+  })
+
+  describe('balanceGroups', () => {
+    it('should return the same array when already balanced', () => {
+      const expressions = [
+        expr('a', { openGroups: 1, connector: 'OR' }),
+        expr('b', { closeGroups: 1 }),
+      ]
+      expect(balanceGroups(expressions)).toBe(expressions)
+    })
+
+    it('should drop unmatched parentheses', () => {
+      expect(
+        balanceGroups([
+          expr('a', { openGroups: 1, connector: 'OR' }),
+          expr('b', { closeGroups: 2 }),
+        ])
+      ).toEqual([expr('a', { openGroups: 1, connector: 'OR' }), expr('b', { closeGroups: 1 })])
+    })
+
+    it('should remove groups wrapping a single expression', () => {
+      expect(balanceGroups([expr('a', { openGroups: 1, closeGroups: 1 })])).toEqual([expr('a')])
+    })
+
+    it('should keep groups that are still open with keepOpenGroups', () => {
+      const expressions = [
+        expr('a', { openGroups: 1, connector: 'OR' }),
+        expr('b', { openGroups: 2, closeGroups: 1 }),
+      ]
+
+      expect(balanceGroups(expressions, { keepOpenGroups: true })).toEqual([
+        expr('a', { openGroups: 1, connector: 'OR' }),
+        expr('b', { openGroups: 1 }),
+      ])
+    })
+  })
+
+  describe('removeExpressionAt', () => {
+    it('should move opening parentheses to the next expression', () => {
+      // x AND (a OR b OR c) -> x AND (b OR c)
+      const result = removeExpressionAt(
+        [
+          expr('x', { connector: 'AND' }),
+          expr('a', { connector: 'OR', openGroups: 1 }),
+          expr('b', { connector: 'OR' }),
+          expr('c', { closeGroups: 1 }),
+        ],
+        1
+      )
+
+      expect(result).toEqual([
+        expr('x', { connector: 'AND' }),
+        expr('b', { connector: 'OR', openGroups: 1 }),
+        expr('c', { closeGroups: 1 }),
+      ])
+    })
+
+    it('should move closing parentheses to the previous expression and drop the trailing connector', () => {
+      // (a OR b OR c) -> (a OR b)
+      const result = removeExpressionAt(
+        [
+          expr('a', { connector: 'OR', openGroups: 1 }),
+          expr('b', { connector: 'OR' }),
+          expr('c', { closeGroups: 1 }),
+        ],
+        2
+      )
+
+      expect(result).toEqual([
+        expr('a', { connector: 'OR', openGroups: 1 }),
+        expr('b', { closeGroups: 1 }),
+      ])
+    })
+  })
+
+  describe('removeGroupAt', () => {
+    // ((a OR b) AND c)
+    const nested = [
+      expr('a', { connector: 'OR', openGroups: 2 }),
+      expr('b', { connector: 'AND', closeGroups: 1 }),
+      expr('c', { closeGroups: 1 }),
+    ]
+
+    it('should remove the inner group by its opening parenthesis', () => {
+      expect(removeGroupAt(nested, 0, 'open', 1)).toEqual([
+        expr('a', { connector: 'OR', openGroups: 1 }),
+        expr('b', { connector: 'AND' }),
+        expr('c', { closeGroups: 1 }),
+      ])
+    })
+
+    it('should remove the outer group by its closing parenthesis', () => {
+      expect(removeGroupAt(nested, 2, 'close', 0)).toEqual([
+        expr('a', { connector: 'OR', openGroups: 1 }),
+        expr('b', { connector: 'AND', closeGroups: 1 }),
+        expr('c'),
+      ])
+    })
+  })
+})
@@ -0,0 +1,375 @@
+/**
+ * Expression Tree Utilities
+ *
+ * Converts between the flat expression list (where parentheses are stored as
+ * `openGroups`/`closeGroups` counts on each expression) and a tree of groups,
+ * and keeps the parentheses of a flat list balanced while it is edited.
+ */
+
+import type { FilterExpression, FilterGroup, FilterNode } from '@/types'
+
+// =============================================================================
+// Group Balancing
+// =============================================================================
+
+/**
+ * The parts of a flat list entry that describe its grouping and connector.
+ * Shared by expressions and their serialized form.
+ */
+type GroupedItem = Pick<FilterExpression, 'connector' | 'openGroups' | 'closeGroups'>
+
+/**
+ * A single parenthesis in a flat expression list
+ */
+interface GroupDelimiter {
+  /** Index of the expression the parenthesis is attached to */
+  expressionIndex: number
+  /** Opening or closing parenthesis */
+  side: 'open' | 'close'
+}
+
+/**
+ * A matched pair of parentheses
+ */
+interface GroupPair {
+  open: GroupDelimiter & { ordinal: number }
+  close: GroupDelimiter & { ordinal: number }
+}
+
+/**
+ * Result of scanning the parentheses of a flat expression list
+ */
+export interface GroupScanResult {
+  /** Number of groups still open after the last expression */
+  openDepth: number
+  /** Expression indices carrying a closing parenthesis without a matching opening one */
+  unmatchedCloses: number[]
+  /** Expression indices carrying an opening parenthesis that is never closed */
+  unmatchedOpens: number[]
+}
+
+/**
+ * Scan the parentheses of a flat expression list, matching pairs.
+ *
+ * Opening parentheses are numbered from the outermost (ordinal 0) inwards and
+ * closing parentheses from the innermost (ordinal 0) outwards, which matches the
+ * order they are rendered as tokens.
+ */
+function matchGroups(expressions: GroupedItem[]): {
+  pairs: GroupPair[]
+  result: GroupScanResult
+} {
+  const stack: (GroupDelimiter & { ordinal: number })[] = []
+  const pairs: GroupPair[] = []
+  const unmatchedCloses: number[] = []
+
+  expressions.forEach((expr, expressionIndex) => {
+    const opens = expr.openGroups ?? 0
+    for (let ordinal = 0; ordinal < opens; ordinal++) {
+      stack.push({ expressionIndex, side: 'open', ordinal })
+    }
+    const closes = expr.closeGroups ?? 0
+    for (let ordinal = 0; ordinal < closes; ordinal++) {
+      const open = stack.pop()
+      if (open) {
+        pairs.push({ open, close: { expressionIndex, side: 'close', ordinal } })
+      } else {
+        unmatchedCloses.push(expressionIndex)
+      }
+    }
+  })
+
+  return {
+    pairs,
+    result: {
+      openDepth: stack.length,
+      unmatchedCloses,
+      unmatchedOpens: stack.map((open) => open.expressionIndex),
+    },
+  }
+}
+
+/**
+ * Scan the parentheses of a flat expression list
+ */
+export function scanGroups(expressions: GroupedItem[]): GroupScanResult {
+  return matchGroups(expressions).result
+}
+
+/**
+ * Get the number of groups that are still open after the last expression
+ */
+export function getOpenGroupDepth(expressions: FilterExpression[]): number {
+  return matchGroups(expressions).result.openDepth
+}
+
+/**
+ * Set the group counts of an expression, omitting zero counts
+ */
+function withGroupCounts<T extends GroupedItem>(
+  expr: T,
+  openGroups: number,
+  closeGroups: number
+): T {
+  const { openGroups: _open, closeGroups: _close, ...rest } = expr
+  const result = { ...rest } as T
+  if (openGroups > 0) result.openGroups = openGroups
+  if (closeGroups > 0) result.closeGroups = closeGroups
+  return result
+}
+
+/**
+ * Balance the parentheses of a flat expression list.
+ *
+ * Drops closing parentheses without a matching opening one, drops opening
+ * parentheses that are never closed, and removes groups that wrap a single
+ * expression. With `keepOpenGroups`, groups that are never closed are kept for
+ * lists that are still being built.
+ */
+export function balanceGroups<T extends GroupedItem>(
+  expressions: T[],
+  options: { keepOpenGroups?: boolean } = {}
+): T[] {
+  const { unmatchedCloses, unmatchedOpens } = matchGroups(expressions).result
+  const count = (indices: number[], index: number) => indices.filter((i) => i === index).length
+
+  let changed = false
+  const balanced = expressions.map((expr, index) => {
+    let opens = (expr.openGroups ?? 0) - (options.keepOpenGroups ? 0 : count(unmatchedOpens, index))
+    let closes = (expr.closeGroups ?? 0) - count(unmatchedCloses, index)
+    // A group opened and closed around the same expression is redundant
+    const redundant = Math.min(opens, closes)
+    opens -= redundant
+    closes -= redundant
+    if (opens === (expr.openGroups ?? 0) && closes === (expr.closeGroups ?? 0)) {
+      return expr
+    }
+    changed = true
+    return withGroupCounts(expr, opens, closes)
+  })
+
+  return changed ? balanced : expressions
+}
+
+/**
+ * Remove an expression, keeping surrounding groups intact.
+ *
+ * Parentheses attached to the removed expression move to its neighbours, and
+ * the connector of the new last expression is dropped.
+ */
+export function removeExpressionAt<T extends GroupedItem>(
+  expressions: T[],
+  expressionIndex: number
+): T[] {
+  const removed = expressions[expressionIndex]
+  if (!removed) return expressions
+
+  const result = expressions.map((expr, i) => {
+    if (i === expressionIndex + 1 && removed.openGroups) {
+      return withGroupCounts(
+        expr,
+        (expr.openGroups ?? 0) + removed.openGroups,
+        expr.closeGroups ?? 0
+      )
+    }
+    if (i === expressionIndex - 1 && removed.closeGroups) {
+      return withGroupCounts(
+        expr,
+        expr.openGroups ?? 0,
+        (expr.closeGroups ?? 0) + removed.closeGroups
+      )
+    }
+    return expr
+  })
+  result.splice(expressionIndex, 1)
+
+  const last = result[result.length - 1]
+  if (last?.connector) {
+    const { connector: _, ...rest } = last
+    result[result.length - 1] = rest as T
+  }
+
+  return balanceGroups(result)
+}
+
+/**
+ * Remove a group by one of its parentheses.
+ *
+ * The matching parenthesis is removed as well, so the expressions inside the
+ * group become part of the enclosing group.
+ *
+ * @param expressions - Flat expression list
+ * @param expressionIndex - Index of the expression the parenthesis is attached to
+ * @param side - Whether the parenthesis is an opening or closing one
+ * @param ordinal - Which of the expression's parentheses (outermost opening is 0, innermost closing is 0)
+ */
+export function removeGroupAt(
+  expressions: FilterExpression[],
+  expressionIndex: number,
+  side: 'open' | 'close',
+  ordinal: number = 0
+): FilterExpression[] {
+  const { pairs } = matchGroups(expressions)
+  const pair = pairs.find((p) => {
+    const delimiter = side === 'open' ? p.open : p.close
+    return delimiter.expressionIndex === expressionIndex && delimiter.ordinal === ordinal
+  })
+
+  const decrement = (open: number[], close: number[]) =>
+    expressions.map((expr, i) => {
+      const opens = (expr.openGroups ?? 0) - open.filter((j) => j === i).length
+      const closes = (expr.closeGroups ?? 0) - close.filter((j) => j === i).length
+      if (opens === (expr.openGroups ?? 0) && closes === (expr.closeGroups ?? 0)) return expr
+      return withGroupCounts(expr, Math.max(opens, 0), Math.max(closes, 0))
+    })
+
+  if (!pair) {
+    // Unmatched parenthesis - just drop it
+    return balanceGroups(
+      side === 'open' ? decrement([expressionIndex], []) : decrement([], [expressionIndex])
+    )
+  }
+
+  return balanceGroups(decrement([pair.open.expressionIndex], [pair.close.expressionIndex]))
+}
+
+// =============================================================================
+// Tree Conversion
+// =============================================================================
+
+type TreeToken =
+  | { kind: 'open' }
+  | { kind: 'close' }
+  | { kind: 'condition'; expression: FilterExpression }
+  | { kind: 'connector'; connector: 'AND' | 'OR' }
+
+/**
+ * Convert a flat expression list into a token stream for parsing
+ */
+function toTreeTokens(expressions: FilterExpression[]): TreeToken[] {
+  const tokens: TreeToken[] = []
+  expressions.forEach((expr, index) => {
+    for (let i = 0; i < (expr.openGroups ?? 0); i++) tokens.push({ kind: 'open' })
+    tokens.push({ kind: 'condition', expression: expr })
+    for (let i = 0; i < (expr.closeGroups ?? 0); i++) tokens.push({ kind: 'close' })
+    if (index < expressions.length - 1) {
+      // A missing connector between two expressions is treated as AND
+      tokens.push({ kind: 'connector', connector: expr.connector ?? 'AND' })
+    }
+  })
+  return tokens
+}
+
+/**
+ * Convert a flat expression list into an expression tree.
+ *
+ * AND binds tighter than OR, and every parenthesized group becomes a nested
+ * group node. The root is always a group; an empty list yields an empty AND group.
+ */
+export function toExpressionTree(expressions: FilterExpression[]): FilterGroup {
+  const tokens = toTreeTokens(balanceGroups(expressions))
+  let pos = 0
+
+  const peekConnector = (): 'AND' | 'OR' | undefined => {
+    const token = tokens[pos]
+    return token?.kind === 'connector' ? token.connector : undefined
+  }
+
+  const parseOr = (): FilterNode | undefined => {
+    const terms: FilterNode[] = []
+    const first = parseAnd()
+    if (first) terms.push(first)
+    while (peekConnector() === 'OR') {
+      pos++
+      const term = parseAnd()
+      if (term) terms.push(term)
+    }
+    if (terms.length === 1) return terms[0]
+    return terms.length > 0 ? { type: 'group', connector: 'OR', children: terms } : undefined
+  }
+
+  const parseAnd = (): FilterNode | undefined => {
+    const factors: FilterNode[] = []
+    const first = parsePrimary()
+    if (first) factors.push(first)
+    while (peekConnector() === 'AND') {
+      pos++
+      const factor = parsePrimary()
+      if (factor) factors.push(factor)
+    }
+    if (factors.length === 1) return factors[0]
+    return factors.length > 0 ? { type: 'group', connector: 'AND', children: factors } : undefined
+  }
+
+  const parsePrimary = (): FilterNode | undefined => {
+    const token = tokens[pos]
+    if (!token) return undefined
+    if (token.kind === 'open') {
+      pos++
+      const inner = parseOr()
+      if (tokens[pos]?.kind === 'close') pos++
+      if (!inner || inner.type === 'group') return inner
+      return { type: 'group', connector: 'AND', children: [inner] }
+    }
+    if (token.kind === 'condition') {
+      pos++
+      return { type: 'condition', condition: token.expression.condition }
+    }
+    return undefined
+  }
+
+  const root = parseOr()
+  if (!root) return { type: 'group', connector: 'AND', children: [] }
+  if (root.type === 'condition') return { type: 'group', connector: 'AND', children: [root] }
+  return root
+}
+
+/**
+ * Flatten a tree node into expressions (without a trailing connector)
+ */
+function flattenNode(node: FilterNode, parentConnector?: 'AND' | 'OR'): FilterExpression[] {
+  if (node.type === 'condition') {
+    return [{ condition: node.condition }]
+  }
+
+  const expressions: FilterExpression[] = []
+  node.children.forEach((child) => {
+    const childExpressions = flattenNode(child, node.connector)
+    if (childExpressions.length === 0) return
+    const last = expressions[expressions.length - 1]
+    if (last) {
+      expressions[expressions.length - 1] = { ...last, connector: node.connector }
+    }
+    expressions.push(...childExpressions)
+  })
+
+  // AND groups inside OR groups need no parentheses since AND binds tighter
+  const needsParens =
+    parentConnector !== undefined &&
+    expressions.length > 1 &&
+    !(node.connector === 'AND' && parentConnector === 'OR')
+
+  if (needsParens) {
+    const first = expressions[0]
+    expressions[0] = withGroupCounts(first, (first.openGroups ?? 0) + 1, first.closeGroups ?? 0)
+    const lastIndex = expressions.length - 1
+    const last = expressions[lastIndex]
+    expressions[lastIndex] = withGroupCounts(
+      last,
+      last.openGroups ?? 0,
+      (last.closeGroups ?? 0) + 1
+    )
+  }
+
+  return expressions
+}
+
+/**
+ * Convert an expression tree into a flat expression list.
+ *
+ * Parentheses are only added where they are needed to preserve the meaning of
+ * the tree, so `toExpressionTree(fromExpressionTree(tree))` is equivalent to `tree`.
+ */
+export function fromExpressionTree(tree: FilterNode): FilterExpression[] {
+  return flattenNode(tree)
+}
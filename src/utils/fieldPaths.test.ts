@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findField,
+  flattenFields,
+  getFieldChain,
+  getFieldPathLabel,
+  getFieldsAt,
+} from './fieldPaths'
+import { deserialize, serialize } from './serialization'
+import { toMongoQuery } from './mongo'
+import { compileFilter } from './evaluation'
+import type { FilterSchema } from '@/types'
+
+const operators = [{ key: 'eq', label: 'is' }]
+
+const schema: FilterSchema = {
+  fields: [
+    { key: 'title', label: 'Title', type: 'string', operators },
+    {
+      key: 'assignee',
+      label: 'Assignee',
+      type: 'string',
+      operators: [],
+      path: 'owner',
+      subSchema: {
+        fields: [
+          { key: 'name', label: 'Name', type: 'string', operators },
+          {
+            key: 'team',
+            label: 'Team',
+            type: 'string',
+            operators: [],
+            subSchema: { fields: [{ key: 'name', label: 'Name', type: 'string', operators }] },
+          },
+        ],
+      },
+    },
+  ],
+}
+
+describe('findField', () => {
+  it('should resolve nested fields by dotted key', () => {
+    expect(findField(schema, 'title')?.label).toBe('Title')
+    expect(findField(schema, 'assignee.team.name')).toMatchObject({
+      key: 'assignee.team.name',
+      label: 'Assignee › Team › Name',
+      path: 'owner.team.name',
+    })
+    expect(findField(schema, 'assignee.team.size')).toBeUndefined()
+  })
+
+  it('should return the same config for repeated lookups', () => {
+    expect(findField(schema, 'assignee.name')).toBe(findField(schema, 'assignee.name'))
+  })
+})
+
+describe('flattenFields', () => {
+  it('should list the fields expressions can use', () => {
+    expect(flattenFields(schema).map((field) => field.key)).toEqual([
+      'title',
+      'assignee.name',
+      'assignee.team.name',
+    ])
+  })
+})
+
+describe('getFieldsAt', () => {
+  it('should list the fields inside a nested field', () => {
+    expect(getFieldsAt(schema, '')).toBe(schema.fields)
+    expect(getFieldsAt(schema, 'assignee').map((field) => [field.key, field.label])).toEqual([
+      ['assignee.name', 'Name'],
+      ['assignee.team', 'Team'],
+    ])
+    expect(getFieldsAt(schema, 'title')).toEqual([])
+  })
+})
+
+describe('getFieldChain', () => {
+  it('should list the fields along a path', () => {
+    expect(getFieldChain(schema, 'assignee.team').map((field) => field.key)).toEqual([
+      'assignee',
+      'team',
+    ])
+    expect(getFieldChain(schema, 'missing.path')).toEqual([])
+    expect(getFieldPathLabel(schema, 'assignee.team')).toBe('Assignee › Team')
+  })
+})
+
+describe('nested field expressions', () => {
+  const expressions = deserialize(
+    [{ field: 'assignee.team.name', operator: 'eq', value: 'Core' }],
+    schema
+  )
+
+  it('should keep the dotted key when serialized', () => {
+    expect(expressions[0]?.condition.field.label).toBe('Assignee › Team › Name')
+    expect(serialize(expressions)).toEqual([
+      { field: 'assignee.team.name', operator: 'eq', value: 'Core' },
+    ])
+  })
+
+  it('should use the dotted path in queries and evaluation', () => {
+    expect(toMongoQuery(expressions, schema)).toEqual({ 'owner.team.name': { $eq: 'Core' } })
+
+    const matches = compileFilter(expressions, schema)
+    expect(matches({ assignee: { team: { name: 'Core' } } })).toBe(true)
+    expect(matches({ assignee: { team: { name: 'Docs' } } })).toBe(false)
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Nested Field Paths
+ *
+ * Resolves fields of nested objects and related entities. A field with a
+ * `subSchema` holds the fields of the nested object; its nested fields are
+ * keyed by dotted paths ('assignee.team.name') and labelled with the labels of
+ * the fields along the path ('Assignee › Team › Name').
+ */
+
+import type { FieldConfig, FilterSchema } from '@/types'
+
+/** Separator between the labels of the fields along a path */
+const LABEL_SEPARATOR = ' › '
+
+/**
+ * Nested fields resolved for a parent field, so repeated lookups return the
+ * same field config
+ */
+const resolvedFields = new WeakMap<FieldConfig, WeakMap<FieldConfig, FieldConfig>>()
+
+/**
+ * Qualify a field of a parent's sub-schema with the parent's key, label and path
+ */
+function resolveNested(parent: FieldConfig, field: FieldConfig): FieldConfig {
+  const cache = resolvedFields.get(parent) ?? new WeakMap<FieldConfig, FieldConfig>()
+  resolvedFields.set(parent, cache)
+  let resolved = cache.get(field)
+  if (!resolved) {
+    resolved = {
+      ...field,
+      key: `${parent.key}.${field.key}`,
+      label: `${parent.label}${LABEL_SEPARATOR}${field.label}`,
+      path: `${parent.path ?? parent.key}.${field.path ?? field.key}`,
+    }
+    cache.set(field, resolved)
+  }
+  return resolved
+}
+
+/**
+ * Find a field by key. Dotted keys resolve fields of sub-schemas, e.g.
+ * 'assignee.team.name'.
+ */
+export function findField(schema: FilterSchema, key: string): FieldConfig | undefined {
+  const direct = schema.fields.find((f) => f.key === key)
+  if (direct) return direct
+
+  for (const field of schema.fields) {
+    if (!field.subSchema || !key.startsWith(`${field.key}.`)) continue
+    const nested = findField(field.subSchema, key.slice(field.key.length + 1))
+    if (nested) return resolveNested(field, nested)
+  }
+  return undefined
+}
+
+/**
+ * Get every field that expressions can use, with the fields of sub-schemas
+ * resolved to their dotted keys. Fields with a sub-schema are left out.
+ */
+export function flattenFields(schema: FilterSchema): FieldConfig[] {
+  return schema.fields.flatMap((field) =>
+    field.subSchema
+      ? flattenFields(field.subSchema).map((nested) => resolveNested(field, nested))
+      : [field]
+  )
+}
+
+/**
+ * Get the fields to pick from inside the field at a dotted path ('' for the
+ * top level). Keys are qualified with the path; labels are kept as is.
+ */
+export function getFieldsAt(schema: FilterSchema, path: string): FieldConfig[] {
+  if (!path) return schema.fields
+  const parent = findField(schema, path)
+  if (!parent?.subSchema) return []
+  return parent.subSchema.fields.map((field) => ({ ...field, key: `${path}.${field.key}` }))
+}
+
+/**
+ * Get the fields along a dotted path, from the top-level field to the field
+ * the path points to. Empty when the path cannot be resolved.
+ */
+export function getFieldChain(schema: FilterSchema, path: string): FieldConfig[] {
+  const direct = schema.fields.find((f) => f.key === path)
+  if (direct) return [direct]
+
+  for (const field of schema.fields) {
+    if (!field.subSchema || !path.startsWith(`${field.key}.`)) continue
+    const chain = getFieldChain(field.subSchema, path.slice(field.key.length + 1))
+    if (chain.length > 0) return [field, ...chain]
+  }
+  return []
+}
+
+/**
+ * Get the breadcrumb label of a dotted path, e.g. 'Assignee › Team'
+ */
+export function getFieldPathLabel(schema: FilterSchema, path: string): string {
+  return getFieldChain(schema, path)
+    .map((field) => field.label)
+    .join(LABEL_SEPARATOR)
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import { toHasuraWhere, toPrismaWhere } from './graphql'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema({
+  key: 'tags',
+  label: 'Tags',
+  type: 'string',
+  operators: [{ key: 'has', label: 'has' }],
+})
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+describe('graphql', () => {
+  describe('toHasuraWhere', () => {
+    const where = (...conditions: TestCondition[]) => toHasuraWhere(filter(...conditions), schema)
+
+    it('should build comparisons with typed values', () => {
+      expect(
+        where(['status', 'eq', 'open'], ['price', 'gte', '10'], ['active', 'is', 'true'])
+      ).toEqual({
+        _and: [{ status: { _eq: 'open' } }, { price: { _gte: 10 } }, { active: { _eq: true } }],
+      })
+      expect(
+        where(
+          ['price', 'neq', '1', { connector: 'OR' }],
+          ['price', 'gt', '1', { connector: 'OR' }],
+          ['price', 'lt', '1', { connector: 'OR' }],
+          ['price', 'lte', '1']
+        )
+      ).toEqual({
+        _or: [
+          { price: { _neq: 1 } },
+          { price: { _gt: 1 } },
+          { price: { _lt: 1 } },
+          { price: { _lte: 1 } },
+        ],
+      })
+    })
+
+    it('should nest dotted field paths', () => {
+      expect(where(['name', 'eq', 'Ann'])).toEqual({ customer: { name: { _eq: 'Ann' } } })
+    })
+
+    it('should build groups and negation', () => {
+      expect(
+        where(
+          ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+          ['price', 'gt', '5', { negated: true, closeGroups: 1 }],
+          ['active', 'is', 'false']
+        )
+      ).toEqual({
+        _and: [
+          { _or: [{ status: { _eq: 'open' } }, { _not: { price: { _gt: 5 } } }] },
+          { active: { _eq: false } },
+        ],
+      })
+    })
+
+    it('should build lists, ranges and days', () => {
+      expect(where(['status', 'in', 'open, closed'])).toEqual({
+        status: { _in: ['open', 'closed'] },
+      })
+      expect(where(['price', 'between', '1 and 5'])).toEqual({ price: { _gte: 1, _lte: 5 } })
+      expect(where(['created', 'on', '2024-01-01'])).toEqual({ created: { _eq: '2024-01-01' } })
+      expect(where(['updated', 'on', '2024-01-01'])).toEqual({
+        updated: { _gte: '2024-01-01T00:00:00.000Z', _lt: '2024-01-02T00:00:00.000Z' },
+      })
+    })
+
+    it('should build escaped LIKE patterns for text operators', () => {
+      expect(where(['name', 'contains', '100%'], ['name', 'startsWith', 'a_b'])).toEqual({
+        _and: [
+          { customer: { name: { _ilike: '%100\\%%' } } },
+          { customer: { name: { _ilike: 'a\\_b%' } } },
+        ],
+      })
+      expect(where(['name', 'like', 'J_n%'])).toEqual({ customer: { name: { _ilike: 'J_n%' } } })
+      expect(
+        toHasuraWhere(filter(['name', 'endsWith', 'x']), schema, { caseSensitive: true })
+      ).toEqual({
+        customer: { name: { _like: '%x' } },
+      })
+    })
+
+    it('should return an empty object for no expressions', () => {
+      expect(toHasuraWhere([], schema)).toEqual({})
+    })
+  })
+
+  describe('toPrismaWhere', () => {
+    const where = (...conditions: TestCondition[]) => toPrismaWhere(filter(...conditions), schema)
+
+    it('should build comparisons with typed values', () => {
+      expect(
+        where(['status', 'eq', 'open'], ['price', 'gte', '10'], ['active', 'is', 'true'])
+      ).toEqual({
+        AND: [{ status: { equals: 'open' } }, { price: { gte: 10 } }, { active: { equals: true } }],
+      })
+      expect(where(['status', 'neq', 'open', { connector: 'OR' }], ['price', 'lt', '1'])).toEqual({
+        OR: [{ status: { not: 'open' } }, { price: { lt: 1 } }],
+      })
+    })
+
+    it('should build groups, negation and nested paths', () => {
+      expect(
+        where(
+          ['name', 'contains', 'ann', { openGroups: 1, connector: 'OR' }],
+          ['status', 'eq', 'open', { negated: true, closeGroups: 1 }],
+          ['price', 'gt', '1']
+        )
+      ).toEqual({
+        AND: [
+          {
+            OR: [
+              { customer: { name: { contains: 'ann', mode: 'insensitive' } } },
+              { NOT: { status: { equals: 'open' } } },
+            ],
+          },
+          { price: { gt: 1 } },
+        ],
+      })
+    })
+
+    it('should pass dates as Date objects', () => {
+      expect(where(['created', 'after', '2024-01-01'])).toEqual({
+        created: { gt: new Date('2024-01-01T00:00:00.000Z') },
+      })
+      expect(where(['updated', 'on', '2024-01-01'])).toEqual({
+        updated: {
+          gte: new Date('2024-01-01T00:00:00.000Z'),
+          lt: new Date('2024-01-02T00:00:00.000Z'),
+        },
+      })
+    })
+
+    it('should build lists, ranges and text operators', () => {
+      expect(where(['status', 'in', 'open, closed'])).toEqual({
+        status: { in: ['open', 'closed'] },
+      })
+      expect(where(['price', 'between', '1 and 5'])).toEqual({ price: { gte: 1, lte: 5 } })
+      expect(
+        toPrismaWhere(filter(['name', 'startsWith', 'a']), schema, { caseSensitive: true })
+      ).toEqual({
+        customer: { name: { startsWith: 'a' } },
+      })
+    })
+
+    it('should throw for like, which Prisma cannot express', () => {
+      expect(() => where(['name', 'like', 'a%'])).toThrow(
+        'Unsupported operator "like" for field "name"'
+      )
+    })
+  })
+
+  describe('array fields', () => {
+    it('should match jsonb arrays on Hasura and scalar lists on Prisma', () => {
+      const expressions = filter(['labels', 'anyOf', 'a, b'], ['labels', 'allOf', 'c'])
+      expect(toHasuraWhere(expressions, schema)).toEqual({
+        _and: [{ labels: { _has_keys_any: ['a', 'b'] } }, { labels: { _contains: ['c'] } }],
+      })
+      expect(toPrismaWhere(expressions, schema)).toEqual({
+        AND: [{ labels: { hasSome: ['a', 'b'] } }, { labels: { hasEvery: ['c'] } }],
+      })
+      expect(toPrismaWhere(filter(['labels', 'isEmpty', '']), schema)).toEqual({
+        labels: { isEmpty: true },
+      })
+    })
+  })
+
+  describe('options', () => {
+    it('should map field paths', () => {
+      const expressions = filter(['name', 'eq', 'Ann'], ['price', 'gt', '1'])
+
+      expect(
+        toHasuraWhere(expressions, schema, { paths: { name: 'author.display_name' } })
+      ).toEqual({
+        _and: [{ author: { display_name: { _eq: 'Ann' } } }, { price: { _gt: 1 } }],
+      })
+      expect(toPrismaWhere(expressions, schema, { paths: (key) => `order.${key}` })).toEqual({
+        AND: [{ order: { name: { equals: 'Ann' } } }, { order: { price: { gt: 1 } } }],
+      })
+    })
+
+    it('should nest custom operator comparisons at the field path', () => {
+      const expressions = filter(['tags', 'has', 'urgent'])
+
+      expect(() => toHasuraWhere(expressions, schema)).toThrow(
+        'Unsupported operator "has" for field "tags"'
+      )
+      expect(
+        toHasuraWhere(expressions, schema, {
+          operators: { has: ({ value }) => ({ _contains: [value.raw] }) },
+        })
+      ).toEqual({
+        tags: { _contains: ['urgent'] },
+      })
+    })
+  })
+})
@@ -0,0 +1,337 @@
+/**
+ * GraphQL Where Inputs
+ *
+ * Converts filter expressions into nested `where` input objects for GraphQL
+ * APIs following the Hasura convention (`{ _and: [...], field: { _eq: ... } }`)
+ * and for Prisma (`{ AND: [...], field: { equals: ... } }`). Dotted field paths
+ * become nested objects, e.g. `customer.name` → `{ customer: { name: { ... } } }`.
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+} from '@/types'
+import { toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import {
+  escapeLike,
+  formatDate,
+  getDayRange,
+  getSingleValue,
+  resolveCondition,
+  toDate,
+  toTypedValue,
+  unsupportedOperatorError,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A `where` input object
+ */
+export type WhereInput = Record<string, unknown>
+
+/**
+ * Context passed to custom `where` operator builders
+ */
+export interface WhereOperatorContext {
+  /** Path of the field */
+  path: string
+  /** Value of the condition */
+  value: ConditionValue
+  /** Field config from the schema (undefined for freeform fields) */
+  field: FieldConfig | undefined
+}
+
+/**
+ * Builds the comparison object for a custom operator, e.g. `{ _contains: [...] }`.
+ * The result is nested at the field path.
+ */
+export type WhereOperatorBuilder = (context: WhereOperatorContext) => WhereInput
+
+/**
+ * Options for generating `where` inputs
+ */
+export interface ToWhereOptions extends QueryOptions {
+  /**
+   * Path of each field key, as a map or a function. Dotted paths become nested
+   * objects. Defaults to the field's schema `path`, then its key.
+   */
+  paths?: Record<string, string> | ((fieldKey: string) => string)
+  /**
+   * Match `contains`, `startsWith`, `endsWith` and `like` case-sensitively
+   * @default false
+   */
+  caseSensitive?: boolean
+  /**
+   * Comparison builders for custom operators, by operator key. Also overrides
+   * the built-in comparison of an operator key.
+   */
+  operators?: Record<string, WhereOperatorBuilder>
+}
+
+/**
+ * The naming and comparisons of a `where` input convention
+ */
+interface WhereConvention {
+  and: string
+  or: string
+  not: string
+  /** Build the comparison object for a built-in operator, or undefined for unknown operators */
+  compare: (
+    operatorKey: string,
+    value: ConditionValue,
+    type: FieldType,
+    caseSensitive: boolean,
+    getValues: () => unknown[]
+  ) => WhereInput | undefined
+}
+
+// =============================================================================
+// Conventions
+// =============================================================================
+
+/**
+ * Hasura: `_eq`, `_neq`, `_gt`, ..., `_in`, `_like`/`_ilike` and `_and`/`_or`/`_not`.
+ * Dates are passed as ISO strings. Array fields are jsonb arrays of strings,
+ * matched with `_has_keys_any` and `_contains`.
+ */
+const HASURA: WhereConvention = {
+  and: '_and',
+  or: '_or',
+  not: '_not',
+  compare: (operatorKey, value, type, caseSensitive, getValues) => {
+    const convert = (v: unknown) => {
+      return v instanceof Date ? formatDate(v, type) : toTypedValue(v, type)
+    }
+    const single = () => convert(getSingleValue(value))
+    const like = (pattern: string) => (caseSensitive ? { _like: pattern } : { _ilike: pattern })
+    const text = () => escapeLike(String(getSingleValue(value)))
+
+    switch (operatorKey) {
+      case 'eq':
+      case 'is':
+        return { _eq: single() }
+      case 'neq':
+        return { _neq: single() }
+      case 'gt':
+      case 'after':
+        return { _gt: single() }
+      case 'gte':
+        return { _gte: single() }
+      case 'lt':
+      case 'before':
+        return { _lt: single() }
+      case 'lte':
+        return { _lte: single() }
+      case 'on': {
+        const range = type === 'datetime' ? getDayRange(getSingleValue(value)) : undefined
+        if (!range) return { _eq: single() }
+        return { _gte: range[0].toISOString(), _lt: range[1].toISOString() }
+      }
+      case 'between': {
+        const [from, to] = getValues()
+        return { _gte: convert(from), _lte: convert(to) }
+      }
+      case 'in':
+        return { _in: getValues().map(convert) }
+      case 'contains':
+        return like(`%${text()}%`)
+      case 'startsWith':
+        return like(`${text()}%`)
+      case 'endsWith':
+        return like(`%${text()}`)
+      case 'like':
+        return like(String(getSingleValue(value)))
+      case 'anyOf':
+        return { _has_keys_any: getValues().map(String) }
+      case 'allOf':
+        return { _contains: getValues().map(String) }
+      default:
+        return undefined
+    }
+  },
+}
+
+/**
+ * Prisma: `equals`, `not`, `gt`, ..., `in`, `contains`/`startsWith`/`endsWith`
+ * (with `mode: 'insensitive'`) and `AND`/`OR`/`NOT`. Dates are passed as Date objects.
+ * Array fields are scalar lists, matched with `hasSome`, `hasEvery` and `isEmpty`.
+ */
+const PRISMA: WhereConvention = {
+  and: 'AND',
+  or: 'OR',
+  not: 'NOT',
+  compare: (operatorKey, value, type, caseSensitive, getValues) => {
+    const convert = (v: unknown) => {
+      if (type !== 'date' && type !== 'datetime') return toTypedValue(v, type)
+      return toDate(v) ?? v
+    }
+    const single = () => convert(getSingleValue(value))
+    const text = (key: string) => {
+      const filter: WhereInput = { [key]: String(getSingleValue(value)) }
+      if (!caseSensitive) filter.mode = 'insensitive'
+      return filter
+    }
+
+    switch (operatorKey) {
+      case 'eq':
+      case 'is':
+        return { equals: single() }
+      case 'neq':
+        return { not: single() }
+      case 'gt':
+      case 'after':
+        return { gt: single() }
+      case 'gte':
+        return { gte: single() }
+      case 'lt':
+      case 'before':
+        return { lt: single() }
+      case 'lte':
+        return { lte: single() }
+      case 'on': {
+        const range = getDayRange(getSingleValue(value))
+        if (!range) return { equals: single() }
+        return { gte: range[0], lt: range[1] }
+      }
+      case 'between': {
+        const [from, to] = getValues()
+        return { gte: convert(from), lte: convert(to) }
+      }
+      case 'in':
+        return { in: getValues().map(convert) }
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith':
+        return text(operatorKey)
+      case 'anyOf':
+        return { hasSome: getValues() }
+      case 'allOf':
+        return { hasEvery: getValues() }
+      case 'isEmpty':
+        return { isEmpty: true }
+      default:
+        return undefined
+    }
+  },
+}
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Nest a comparison at a dotted path
+ */
+function nestAtPath(path: string, comparison: WhereInput): WhereInput {
+  return path
+    .split('.')
+    .reduceRight<WhereInput>((inner, segment) => ({ [segment]: inner }), comparison)
+}
+
+/**
+ * Build the `where` input for a single condition
+ */
+function buildCondition(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  convention: WhereConvention,
+  options: ToWhereOptions
+): WhereInput {
+  const { field, operator } = condition
+  const { fieldConfig, operatorConfig, type, value } = resolveCondition(condition, schema, options)
+
+  const { paths } = options
+  const path =
+    (typeof paths === 'function' ? paths(field.key) : paths?.[field.key]) ??
+    fieldConfig?.path ??
+    field.key
+
+  const custom = options.operators?.[operator.key]
+  const comparison = custom
+    ? custom({ path, value, field: fieldConfig })
+    : convention.compare(operator.key, value, type, options.caseSensitive ?? false, () =>
+        getValueList(value, operatorConfig)
+      )
+  if (!comparison) {
+    throw unsupportedOperatorError(condition, 'to build a where input for it')
+  }
+
+  const where = nestAtPath(path, comparison)
+  return condition.negated ? { [convention.not]: where } : where
+}
+
+/**
+ * Build the `where` input for a tree node
+ */
+function buildNode(
+  node: FilterNode,
+  schema: FilterSchema,
+  convention: WhereConvention,
+  options: ToWhereOptions
+): WhereInput {
+  if (node.type === 'condition') {
+    return buildCondition(node.condition, schema, convention, options)
+  }
+  const children = node.children.map((child) => buildNode(child, schema, convention, options))
+  if (children.length === 0) return {}
+  if (children.length === 1) return children[0]
+  return { [node.connector === 'AND' ? convention.and : convention.or]: children }
+}
+
+/**
+ * Convert filter expressions into a Hasura-style GraphQL `where` input.
+ *
+ * Groups become `_and`/`_or`, negated conditions `_not`, and text operators
+ * `_ilike` patterns with LIKE wildcards in values escaped (`_like` when
+ * case-sensitive). An empty filter yields `{}`, which matches every row.
+ *
+ * @throws Error for unknown fields and operators without a comparison
+ *
+ * @example
+ * ```ts
+ * const { data } = await client.query({
+ *   query: TICKETS,
+ *   variables: { where: toHasuraWhere(expressions, schema) },
+ * })
+ * ```
+ */
+export function toHasuraWhere(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: ToWhereOptions = {}
+): WhereInput {
+  return buildNode(toExpressionTree(expressions), schema, HASURA, options)
+}
+
+/**
+ * Convert filter expressions into a Prisma `where` input.
+ *
+ * Groups become `AND`/`OR`, negated conditions `NOT`, and text operators
+ * `contains`, `startsWith` and `endsWith` with `mode: 'insensitive'` (left out
+ * when case-sensitive). Date values are passed as Date objects. Prisma has no
+ * LIKE patterns, so `like` needs a custom operator. An empty filter yields `{}`.
+ *
+ * @throws Error for unknown fields and operators without a comparison
+ *
+ * @example
+ * ```ts
+ * const tickets = await prisma.ticket.findMany({ where: toPrismaWhere(expressions, schema) })
+ * ```
+ */
+export function toPrismaWhere(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: ToWhereOptions = {}
+): WhereInput {
+  return buildNode(toExpressionTree(expressions), schema, PRISMA, options)
+}
@@ -1,15 +1,160 @@
 export {
   serialize,
+  serializeVersioned,
   deserialize,
   toDisplayString,
   toQueryString,
   fromQueryString,
+  parseQueryString,
+  QUERY_STRING_VERSION,
   type SerializedExpression,
+  type SerializedFilter,
   type SerializeOptions,
   type DeserializeOptions,
   type DisplayFormatOptions,
+  type QueryStringOptions,
+  type QueryStringError,
+  type ParseQueryStringResult,
 } from './serialization'
 
+export {
+  migrateSerialized,
+  getSchemaVersion,
+  type MigrationReport,
+  type MigrationResult,
+  type MigratedCondition,
+  type DroppedCondition,
+} from './migration'
+
+export {
+  toExpressionTree,
+  fromExpressionTree,
+  balanceGroups,
+  scanGroups,
+  getOpenGroupDepth,
+  removeExpressionAt,
+  removeGroupAt,
+  type GroupScanResult,
+} from './expressionTree'
+
+export {
+  isFieldAvailable,
+  getAvailableFields,
+  getUnavailableExpressions,
+  removeExpressionWithDependents,
+} from './dependencies'
+
+export {
+  findField,
+  flattenFields,
+  getFieldsAt,
+  getFieldChain,
+  getFieldPathLabel,
+} from './fieldPaths'
+
+export {
+  isRelativeDate,
+  resolveRelativeDate,
+  resolveRelativeDates,
+  resolveRelativeValue,
+  getRelativeDateLabel,
+  createRelativeDateValue,
+} from './relativeDates'
+
+export { type QueryOptions } from './conditionValues'
+
+export { compileFilter, type FilterPredicate, type CompileFilterOptions } from './evaluation'
+
+export {
+  toSql,
+  type ToSqlOptions,
+  type SqlResult,
+  type SqlDialect,
+  type SqlOperatorBuilder,
+  type SqlOperatorContext,
+} from './sql'
+
+export {
+  toMongoQuery,
+  fromMongoQuery,
+  type MongoQuery,
+  type MongoQueryError,
+  type MongoOperatorBuilder,
+  type MongoOperatorContext,
+  type ToMongoQueryOptions,
+  type FromMongoQueryResult,
+} from './mongo'
+
+export {
+  toElasticsearchQuery,
+  type ElasticsearchQuery,
+  type ElasticsearchOperatorBuilder,
+  type ElasticsearchOperatorContext,
+  type ToElasticsearchQueryOptions,
+} from './elasticsearch'
+
+export {
+  toODataFilter,
+  fromODataFilter,
+  type ODataOperatorBuilder,
+  type ODataOperatorContext,
+  type ToODataFilterOptions,
+} from './odata'
+
+export {
+  toHasuraWhere,
+  toPrismaWhere,
+  type WhereInput,
+  type WhereOperatorBuilder,
+  type WhereOperatorContext,
+  type ToWhereOptions,
+} from './graphql'
+
+export { toRsql, fromRsql, type RsqlOptions } from './rsql'
+
+export {
+  toLuceneQuery,
+  fromLuceneQuery,
+  type LuceneOperatorBuilder,
+  type LuceneOperatorContext,
+  type ToLuceneQueryOptions,
+} from './lucene'
+
+export {
+  toJsonLogic,
+  fromJsonLogic,
+  type JsonLogicRule,
+  type JsonLogicOperatorBuilder,
+  type JsonLogicOperatorContext,
+  type ToJsonLogicOptions,
+  type FromJsonLogicOptions,
+  type FromJsonLogicResult,
+  type JsonLogicError,
+} from './jsonLogic'
+
+export {
+  toRuleGroup,
+  fromRuleGroup,
+  type QueryBuilderRule,
+  type QueryBuilderRuleGroup,
+  type RuleGroupOptions,
+  type FromRuleGroupResult,
+  type RuleGroupError,
+} from './ruleGroup'
+
+export {
+  parseQuery,
+  formatQuery,
+  highlightQuery,
+  getQueryCompletion,
+  type ParseQueryResult,
+  type QueryParseError,
+  type QuerySegment,
+  type QuerySegmentRole,
+  type QueryCompletion,
+  type QueryExpectation,
+} from './queryLanguage'
+
 export {
   validateExpression,
   validateExpressions,
@@ -30,6 +175,23 @@ export {
   FieldBuilder,
 } from './schemaBuilder'
 
+export {
+  schemaFromJsonSchema,
+  type JsonSchema,
+  type SchemaFromJsonSchemaOptions,
+} from './jsonSchema'
+
+export {
+  createOpenApiFilter,
+  type OpenApiDocument,
+  type OpenApiOperation,
+  type OpenApiParameter,
+  type OpenApiFilter,
+  type CreateOpenApiFilterOptions,
+} from './openApi'
+
+export { inferSchema, type InferSchemaOptions } from './inferSchema'
+
 export {
   createLazyAutocompleter,
   preloadAutocompleter,
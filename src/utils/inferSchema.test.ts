@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { inferSchema } from './inferSchema'
+import {
+  STRING_OPERATORS,
+  NUMBER_OPERATORS,
+  DATE_OPERATORS,
+  BOOLEAN_OPERATORS,
+  ENUM_OPERATORS,
+  ID_OPERATORS,
+  type AutocompleteContext,
+} from '@/types'
+
+const records = [
+  {
+    id: 1,
+    userId: 'u-1',
+    name: 'Ann',
+    status: 'open',
+    total: 10.5,
+    paid: true,
+    dueDate: '2024-01-31',
+    createdAt: '2024-01-01T10:00:00Z',
+    tags: ['a'],
+    note: null,
+  },
+  {
+    id: 2,
+    userId: 'u-2',
+    name: 'Bob',
+    status: 'closed',
+    total: 3,
+    paid: false,
+    dueDate: '2024-02-01',
+    createdAt: new Date('2024-01-02T00:00:00Z'),
+    tags: [],
+    note: '',
+  },
+  {
+    id: 3,
+    userId: 'u-3',
+    name: 'Cy',
+    status: 'open',
+    total: 7,
+    paid: true,
+    dueDate: null,
+    createdAt: '2024-01-03T08:30:00+02:00',
+    mixed: 1,
+  },
+  { id: 4, mixed: 'x', status: 'open', name: 'Dee', total: 1, paid: false },
+]
+
+describe('inferSchema', () => {
+  it('should infer field types from values and names', () => {
+    const { fields } = inferSchema(records)
+
+    expect(fields.map(({ key, label, type }) => ({ key, label, type }))).toEqual([
+      { key: 'id', label: 'Id', type: 'id' },
+      { key: 'userId', label: 'User id', type: 'id' },
+      { key: 'name', label: 'Name', type: 'string' },
+      { key: 'status', label: 'Status', type: 'enum' },
+      { key: 'total', label: 'Total', type: 'number' },
+      { key: 'paid', label: 'Paid', type: 'boolean' },
+      { key: 'dueDate', label: 'Due date', type: 'date' },
+      { key: 'createdAt', label: 'Created at', type: 'datetime' },
+      { key: 'mixed', label: 'Mixed', type: 'string' },
+    ])
+    expect(fields.map((field) => field.operators)).toEqual([
+      ID_OPERATORS,
+      ID_OPERATORS,
+      STRING_OPERATORS,
+      ENUM_OPERATORS,
+      NUMBER_OPERATORS,
+      BOOLEAN_OPERATORS,
+      DATE_OPERATORS,
+      DATE_OPERATORS,
+      STRING_OPERATORS,
+    ])
+  })
+
+  it('should suggest the values of enum fields', async () => {
+    const status = inferSchema(records).fields.find((field) => field.key === 'status')
+
+    const suggestions = await status?.valueAutocompleter?.getSuggestions({
+      inputValue: '',
+    } as AutocompleteContext)
+    expect(suggestions?.map((item) => item.key)).toEqual(['closed', 'open'])
+  })
+
+  it('should keep strings with many or unique values as string fields', () => {
+    const { fields } = inferSchema(records, { maxEnumValues: 1 })
+    expect(fields.find((field) => field.key === 'status')?.type).toBe('string')
+  })
+
+  it('should use a custom ID pattern', () => {
+    const { fields } = inferSchema(records, { idPattern: /^name$/ })
+    expect(fields.filter((field) => field.type === 'id').map((field) => field.key)).toEqual([
+      'name',
+    ])
+  })
+
+  it('should include, exclude and customize fields', () => {
+    const { fields } = inferSchema(records, {
+      include: ['paid', 'total', 'status', 'tags'],
+      exclude: ['status'],
+      customize: (field, values) =>
+        field.type === 'number' ? { ...field, description: `${values.length} values` } : field,
+    })
+
+    expect(fields.map(({ key, description }) => ({ key, description }))).toEqual([
+      { key: 'paid', description: undefined },
+      { key: 'total', description: '4 values' },
+    ])
+  })
+
+  it('should return no fields for no records', () => {
+    expect(inferSchema([])).toEqual({ fields: [] })
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Schema Inference
+ *
+ * Proposes a filter schema from sample data by inspecting the values of each
+ * property, so a FilterBox can be put on top of a data array without writing a
+ * schema by hand.
+ */
+
+import type { FieldConfig, FieldType, FilterSchema } from '@/types'
+import { getDefaultOperators } from '@/types'
+import { createEnumAutocompleter } from '@/autocompleters'
+import { toLabel } from './labels'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for inferring a schema from sample data
+ */
+export interface InferSchemaOptions {
+  /**
+   * Maximum number of distinct values for a string property to become an enum
+   * field. Values must also repeat: a property whose values are all different
+   * stays a string field.
+   * @default 10
+   */
+  maxEnumValues?: number
+  /**
+   * Pattern for property names that hold IDs (default: 'id', 'uuid', 'guid' and
+   * names ending in 'Id', '_id' or '-id', such as 'userId')
+   */
+  idPattern?: RegExp
+  /** Property names to generate fields for, in this order (default: all properties) */
+  include?: string[]
+  /** Property names to leave out */
+  exclude?: string[]
+  /**
+   * Adjust the inferred field for a property, or return undefined to leave the
+   * property out
+   */
+  customize?: (field: FieldConfig, values: unknown[]) => FieldConfig | undefined
+}
+
+const DEFAULT_MAX_ENUM_VALUES = 10
+
+const DEFAULT_ID_PATTERN = /^(id|uuid|guid)$|[a-z0-9](Id|ID|_id|_ID|-id)$/
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+
+// =============================================================================
+// Inference
+// =============================================================================
+
+/**
+ * Infer the field type of a property from its non-empty values
+ */
+function inferType(
+  name: string,
+  values: unknown[],
+  options: Required<Pick<InferSchemaOptions, 'maxEnumValues' | 'idPattern'>>
+): FieldType {
+  const every = (predicate: (value: unknown) => boolean) => values.every(predicate)
+
+  if (every((value) => typeof value === 'boolean')) return 'boolean'
+  if (
+    options.idPattern.test(name) &&
+    every((value) => typeof value === 'string' || typeof value === 'number')
+  ) {
+    return 'id'
+  }
+  if (every((value) => typeof value === 'number' && isFinite(value))) return 'number'
+
+  const isDate = (value: unknown) => typeof value === 'string' && DATE_PATTERN.test(value)
+  const isDatetime = (value: unknown) =>
+    value instanceof Date || (typeof value === 'string' && DATETIME_PATTERN.test(value))
+  if (every(isDate)) return 'date'
+  if (every((value) => isDate(value) || isDatetime(value))) return 'datetime'
+
+  if (every((value) => typeof value === 'string')) {
+    const distinct = new Set(values).size
+    if (distinct <= options.maxEnumValues && distinct < values.length) return 'enum'
+  }
+  return 'string'
+}
+
+/**
+ * Infer a filter schema from an array of records.
+ *
+ * Each property found in the records becomes a field, in the order the
+ * properties are first seen:
+ *
+ * - booleans become boolean fields and numbers number fields
+ * - properties named like IDs ('id', 'userId', 'order_id') become ID fields
+ * - ISO dates ('2024-01-31') become date fields, and ISO timestamps or `Date`
+ *   objects datetime fields
+ * - strings with few, repeating values become enum fields with an enum
+ *   autocompleter for the values; other strings become string fields
+ *
+ * Empty values (null, undefined and '') are ignored. Properties holding objects,
+ * arrays or only empty values are left out, and properties with mixed types
+ * become string fields. Labels are derived from the property names.
+ *
+ * @example
+ * ```tsx
+ * const schema = inferSchema(users, { exclude: ['passwordHash'] })
+ * <FilterBox schema={schema} value={filter} onChange={setFilter} />
+ * ```
+ */
+export function inferSchema(
+  records: Record<string, unknown>[],
+  options: InferSchemaOptions = {}
+): FilterSchema {
+  const settings = {
+    maxEnumValues: options.maxEnumValues ?? DEFAULT_MAX_ENUM_VALUES,
+    idPattern: options.idPattern ?? DEFAULT_ID_PATTERN,
+  }
+
+  const valuesByName = new Map<string, unknown[]>()
+  for (const record of records) {
+    for (const [name, value] of Object.entries(record)) {
+      const values = valuesByName.get(name) ?? []
+      if (value !== null && value !== undefined && value !== '') values.push(value)
+      valuesByName.set(name, values)
+    }
+  }
+
+  const names = (options.include ?? [...valuesByName.keys()]).filter(
+    (name) => valuesByName.has(name) && !options.exclude?.includes(name)
+  )
+  const fields: FieldConfig[] = []
+  for (const name of names) {
+    const values = valuesByName.get(name) ?? []
+    const filterable = values.every((value) => value instanceof Date || typeof value !== 'object')
+    if (values.length === 0 || !filterable) continue
+
+    const type = inferType(name, values, settings)
+    const field: FieldConfig = {
+      key: name,
+      label: toLabel(name),
+      type,
+      operators: getDefaultOperators(type),
+    }
+    if (type === 'enum') {
+      const distinct = [...new Set(values as string[])].sort((a, b) => a.localeCompare(b))
+      field.valueAutocompleter = createEnumAutocompleter(
+        distinct.map((value) => ({ key: value, label: value }))
+      )
+    }
+    const customized = options.customize ? options.customize(field, values) : field
+    if (customized) fields.push(customized)
+  }
+  return { fields }
+}
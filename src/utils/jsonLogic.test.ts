@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest'
+import { toJsonLogic, fromJsonLogic } from './jsonLogic'
+import { formatQuery } from './queryLanguage'
+import { STRING_OPERATORS } from '@/types'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema()
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+const jsonLogic = (...conditions: TestCondition[]) => toJsonLogic(filter(...conditions), schema)
+
+/** Read a JSON Logic rule and format it as a text query */
+const read = (rule: unknown) => {
+  const { expressions, errors } = fromJsonLogic(rule, schema)
+  return { text: formatQuery(expressions, schema), errors }
+}
+
+describe('jsonLogic', () => {
+  describe('toJsonLogic', () => {
+    it('should map comparisons with typed values', () => {
+      expect(
+        jsonLogic(['status', 'eq', 'open'], ['price', 'gte', '10'], ['active', 'is', 'true'])
+      ).toEqual({
+        and: [
+          { '==': [{ var: 'status' }, 'open'] },
+          { '>=': [{ var: 'price' }, 10] },
+          { '==': [{ var: 'active' }, true] },
+        ],
+      })
+      expect(
+        jsonLogic(
+          ['price', 'neq', '1', { connector: 'OR' }],
+          ['price', 'gt', '1', { connector: 'OR' }],
+          ['price', 'lt', '1', { connector: 'OR' }],
+          ['price', 'lte', '1']
+        )
+      ).toEqual({
+        or: [
+          { '!=': [{ var: 'price' }, 1] },
+          { '>': [{ var: 'price' }, 1] },
+          { '<': [{ var: 'price' }, 1] },
+          { '<=': [{ var: 'price' }, 1] },
+        ],
+      })
+    })
+
+    it('should read fields at their path', () => {
+      expect(jsonLogic(['name', 'eq', 'Ann'])).toEqual({ '==': [{ var: 'customer.name' }, 'Ann'] })
+    })
+
+    it('should map ranges, lists, substrings and days', () => {
+      expect(jsonLogic(['price', 'between', '1 and 5'], ['status', 'in', 'open, closed'])).toEqual({
+        and: [{ '<=': [1, { var: 'price' }, 5] }, { in: [{ var: 'status' }, ['open', 'closed']] }],
+      })
+      expect(jsonLogic(['name', 'contains', 'sale'])).toEqual({
+        in: ['sale', { var: 'customer.name' }],
+      })
+      expect(jsonLogic(['created', 'on', '2024-01-01'], ['updated', 'on', '2024-01-01'])).toEqual({
+        and: [
+          { '==': [{ var: 'created' }, '2024-01-01'] },
+          { '==': [{ substr: [{ var: 'updated' }, 0, 10] }, '2024-01-01'] },
+        ],
+      })
+    })
+
+    it('should map nested groups and negation', () => {
+      expect(
+        jsonLogic(
+          ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+          ['price', 'gt', '5', { negated: true, closeGroups: 1 }],
+          ['active', 'is', 'true']
+        )
+      ).toEqual({
+        and: [
+          { or: [{ '==': [{ var: 'status' }, 'open'] }, { '!': { '>': [{ var: 'price' }, 5] } }] },
+          { '==': [{ var: 'active' }, true] },
+        ],
+      })
+    })
+
+    it('should return true for no expressions', () => {
+      expect(toJsonLogic([], schema)).toBe(true)
+    })
+
+    it('should map every string operator', () => {
+      const variable = { var: 'customer.name' }
+      const rules = STRING_OPERATORS.map((op) =>
+        toJsonLogic(filter(['name', op.key, 'Jo']), schema)
+      )
+
+      expect(rules).toEqual([
+        { '==': [variable, 'Jo'] },
+        { '!=': [variable, 'Jo'] },
+        { in: ['Jo', variable] },
+        { '==': [{ substr: [variable, 0, 2] }, 'Jo'] },
+        { '==': [{ substr: [variable, -2] }, 'Jo'] },
+        { '==': [variable, 'Jo'] },
+      ])
+      expect(STRING_OPERATORS.map((op) => op.key)).toEqual([
+        'eq',
+        'neq',
+        'contains',
+        'startsWith',
+        'endsWith',
+        'like',
+      ])
+    })
+
+    it('should map like patterns with wildcards at the ends', () => {
+      const variable = { var: 'customer.name' }
+      expect(jsonLogic(['name', 'like', 'Jo%'])).toEqual({
+        '==': [{ substr: [variable, 0, 2] }, 'Jo'],
+      })
+      expect(jsonLogic(['name', 'like', '%son'])).toEqual({
+        '==': [{ substr: [variable, -3] }, 'son'],
+      })
+      expect(jsonLogic(['name', 'like', '%an%'])).toEqual({ in: ['an', variable] })
+    })
+
+    it('should build custom operators and throw for operators without a rule', () => {
+      const expressions = filter(['name', 'like', 'J_n'])
+
+      expect(() => toJsonLogic(expressions, schema)).toThrow(
+        'Unsupported operator "like" for field "name"'
+      )
+      expect(
+        toJsonLogic(expressions, schema, {
+          operators: {
+            like: ({ variable, value }) => ({ like: [variable, value.raw] }),
+          },
+        })
+      ).toEqual({ like: [{ var: 'customer.name' }, 'J_n'] })
+    })
+
+    it('should build array rules', () => {
+      const variable = { var: 'labels' }
+      expect(jsonLogic(['labels', 'anyOf', 'a, b'])).toEqual({
+        some: [variable, { in: [{ var: '' }, ['a', 'b']] }],
+      })
+      expect(jsonLogic(['labels', 'allOf', 'a, b'])).toEqual({
+        and: [{ in: ['a', variable] }, { in: ['b', variable] }],
+      })
+      expect(jsonLogic(['labels', 'isEmpty', ''])).toEqual({ '!': variable })
+      expect(jsonLogic(['labels', 'lengthLt', '3'])).toEqual({
+        '<': [{ reduce: [variable, { '+': [{ var: 'accumulator' }, 1] }, 0] }, 3],
+      })
+    })
+  })
+
+  describe('fromJsonLogic', () => {
+    it('should round-trip generated rules', () => {
+      const expressions = filter(
+        ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+        ['name', 'contains', 'a b', { negated: true, closeGroups: 1 }],
+        ['price', 'between', '1 and 5'],
+        ['created', 'on', '2024-01-01'],
+        ['updated', 'on', '2024-02-01'],
+        ['status', 'in', 'open, closed'],
+        ['status', 'neq', 'closed'],
+        ['price', 'lt', '3'],
+        ['active', 'is', 'false'],
+        ['name', 'startsWith', 'Jo'],
+        ['name', 'endsWith', 'son']
+      )
+
+      expect(fromJsonLogic(toJsonLogic(expressions, schema), schema)).toEqual({
+        expressions,
+        errors: [],
+      })
+    })
+
+    it('should read strict comparisons, swapped operands and var defaults', () => {
+      expect(
+        read({
+          and: [
+            { '===': [{ var: 'status' }, 'open'] },
+            { '<': [5, { var: ['price', 0] }] },
+            { '!': [{ '!==': [{ var: 'active' }, true] }] },
+          ],
+        })
+      ).toEqual({ text: 'status = open AND price > 5 AND active is true', errors: [] })
+    })
+
+    it('should read custom operations', () => {
+      const { expressions, errors } = fromJsonLogic(
+        { starts_with: [{ var: 'customer.name' }, 'Jo'] },
+        schema,
+        { operators: { starts_with: 'startsWith' } }
+      )
+
+      expect(errors).toEqual([])
+      expect(formatQuery(expressions, schema)).toBe('name startsWith Jo')
+    })
+
+    it('should report parts that cannot be represented and keep the rest', () => {
+      const { text, errors } = read({
+        or: [
+          { '==': [{ var: 'color' }, 'red'] },
+          { '>': [{ var: 'status' }, 'a'] },
+          { '==': [{ var: 'status' }, null] },
+          { '!': { or: [{ '==': [{ var: 'price' }, 1] }, { '==': [{ var: 'price' }, 2] }] } },
+          { max: [1, 2] },
+          { '==': [{ var: 'price' }, 3] },
+        ],
+      })
+
+      expect(text).toBe('price = 3')
+      expect(errors).toEqual([
+        { message: 'Unknown field "color"', path: 'or[0].==' },
+        { message: 'Field "status" has no operator for ">"', path: 'or[1].>' },
+        { message: 'Values must be strings, numbers or booleans', path: 'or[2].==' },
+        { message: 'Only single conditions can be negated', path: 'or[3].!' },
+        { message: 'Unsupported operation "max"', path: 'or[4].max' },
+      ])
+    })
+
+    it('should return no expressions for a constant true rule', () => {
+      expect(fromJsonLogic(true, schema)).toEqual({ expressions: [], errors: [] })
+    })
+  })
+})
@@ -0,0 +1,587 @@
+/**
+ * JSON Logic Rules
+ *
+ * Converts filter expressions into JSON Logic rules
+ * (`{ and: [{ '==': [{ var: 'status' }, 'open'] }] }`) that JSON Logic engines
+ * evaluate against records, and reads rules back into expressions. Fields are
+ * read with `var` at their schema `path` (the key by default).
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+} from '@/types'
+import { fromExpressionTree, toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import { getListSeparator } from './queryLanguage'
+import { deserialize, FREEFORM_OPERATORS, type SerializedExpression } from './serialization'
+import { findField, flattenFields } from './fieldPaths'
+import {
+  formatDate,
+  getSingleValue,
+  resolveCondition,
+  toTypedValue,
+  unsupportedOperatorError,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A JSON Logic rule: an operation object, or a constant such as `true`
+ */
+export type JsonLogicRule = { [operation: string]: unknown } | boolean
+
+/**
+ * Context passed to custom JSON Logic operator builders
+ */
+export interface JsonLogicOperatorContext {
+  /** `var` operation reading the field, e.g. `{ var: 'customer.name' }` */
+  variable: { var: string }
+  /** Value of the condition */
+  value: ConditionValue
+  /** Field config from the schema (undefined for freeform fields) */
+  field: FieldConfig | undefined
+}
+
+/**
+ * Builds the rule for a custom operator
+ */
+export type JsonLogicOperatorBuilder = (context: JsonLogicOperatorContext) => JsonLogicRule
+
+/**
+ * Options for generating JSON Logic rules
+ */
+export interface ToJsonLogicOptions extends QueryOptions {
+  /**
+   * Rule builders for custom operators, by operator key. Also overrides the
+   * built-in rule of an operator key.
+   */
+  operators?: Record<string, JsonLogicOperatorBuilder>
+}
+
+/**
+ * Options for reading JSON Logic rules
+ */
+export interface FromJsonLogicOptions {
+  /**
+   * Operator keys for custom JSON Logic operations, by operation name, e.g.
+   * `{ starts_with: 'startsWith' }`. The operation's first argument must be a
+   * `var`; further arguments are the condition's values.
+   */
+  operators?: Record<string, string>
+}
+
+/**
+ * A part of a rule that could not be read
+ */
+export interface JsonLogicError {
+  /** Error message */
+  message: string
+  /** Location of the part in the rule, e.g. 'and[1].==' */
+  path: string
+}
+
+/**
+ * Result of reading a JSON Logic rule
+ */
+export interface FromJsonLogicResult {
+  /** Expressions for the parts of the rule that could be read */
+  expressions: FilterExpression[]
+  /** Parts of the rule that cannot be represented as expressions */
+  errors: JsonLogicError[]
+}
+
+/** JSON Logic comparisons by operator key */
+const COMPARISONS: Record<string, string> = {
+  eq: '==',
+  is: '==',
+  neq: '!=',
+  gt: '>',
+  after: '>',
+  gte: '>=',
+  lt: '<',
+  before: '<',
+  lte: '<=',
+}
+
+/**
+ * Operator keys that each JSON Logic comparison can be read as, in order of
+ * preference. Keys starting with `!` are read as negated conditions.
+ */
+const COMPARISON_OPERATORS: Record<string, string[]> = {
+  '==': ['eq', 'is'],
+  '===': ['eq', 'is'],
+  '!=': ['neq', '!eq', '!is'],
+  '!==': ['neq', '!eq', '!is'],
+  '>': ['gt', 'after'],
+  '>=': ['gte'],
+  '<': ['lt', 'before'],
+  '<=': ['lte'],
+}
+
+/** Comparisons with their operands swapped, for rules with the value first */
+const SWAPPED_COMPARISONS: Record<string, string> = {
+  '==': '==',
+  '===': '===',
+  '!=': '!=',
+  '!==': '!==',
+  '>': '<',
+  '>=': '<=',
+  '<': '>',
+  '<=': '>=',
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Convert a single value to a number or boolean according to the field type.
+ * Dates are compared as ISO strings.
+ */
+function toRuleValue(value: unknown, type: FieldType): unknown {
+  return value instanceof Date ? formatDate(value, type) : toTypedValue(value, type)
+}
+
+/**
+ * Read a LIKE pattern with wildcards only at its ends (such as `abc%` or
+ * `%abc%`) into its text and whether the text is at the start and end of the
+ * value, or undefined for other patterns
+ */
+function readLikePattern(
+  pattern: string
+): { text: string; atStart: boolean; atEnd: boolean } | undefined {
+  const match = /^(%*)([^%_]*)(%*)$/.exec(pattern)
+  if (!match) return undefined
+  return { text: match[2], atStart: match[1] === '', atEnd: match[3] === '' }
+}
+
+/**
+ * Check whether a value is a plain object (not an array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Build the rule for a built-in operator, or undefined for unknown operators
+ */
+function buildOperator(
+  variable: { var: string },
+  operatorKey: string,
+  value: ConditionValue,
+  type: FieldType,
+  getValues: () => unknown[]
+): JsonLogicRule | undefined {
+  const single = () => toRuleValue(getSingleValue(value), type)
+  const text = () => String(getSingleValue(value))
+  // `in` finds substrings when its second argument is a string
+  const contains = (part: string) => ({ in: [part, variable] })
+  const prefix = (part: string) => ({ '==': [{ substr: [variable, 0, part.length] }, part] })
+  const suffix = (part: string) => ({ '==': [{ substr: [variable, -part.length] }, part] })
+
+  if (operatorKey in COMPARISONS) {
+    return { [COMPARISONS[operatorKey]]: [variable, single()] }
+  }
+  switch (operatorKey) {
+    case 'on':
+      // Datetimes are on a day when their date part matches
+      return type === 'datetime'
+        ? { '==': [{ substr: [variable, 0, 10] }, toRuleValue(getSingleValue(value), 'date')] }
+        : { '==': [variable, single()] }
+    case 'between': {
+      const [from, to] = getValues().map((v) => toRuleValue(v, type))
+      return { '<=': [from, variable, to] }
+    }
+    case 'in':
+      return { in: [variable, getValues().map((v) => toRuleValue(v, type))] }
+    case 'contains':
+      return contains(text())
+    case 'startsWith':
+      return prefix(text())
+    case 'endsWith':
+      return suffix(text())
+    case 'like': {
+      // Only wildcards at the ends can be expressed with substrings
+      const pattern = readLikePattern(text())
+      if (!pattern) return undefined
+      const { text: part, atStart, atEnd } = pattern
+      if (atStart && atEnd) return { '==': [variable, part] }
+      if (atStart) return prefix(part)
+      if (atEnd) return suffix(part)
+      return contains(part)
+    }
+    case 'anyOf':
+      return { some: [variable, { in: [{ var: '' }, getValues()] }] }
+    case 'allOf':
+      return { and: getValues().map((v) => ({ in: [v, variable] })) }
+    case 'noneOf':
+      return { none: [variable, { in: [{ var: '' }, getValues()] }] }
+    case 'isEmpty':
+      // Missing values and empty arrays are falsy
+      return { '!': variable }
+    case 'lengthEq':
+    case 'lengthGt':
+    case 'lengthLt': {
+      const length = { reduce: [variable, { '+': [{ var: 'accumulator' }, 1] }, 0] }
+      const comparison = { lengthEq: '==', lengthGt: '>', lengthLt: '<' }[operatorKey]
+      return { [comparison]: [length, toRuleValue(getSingleValue(value), 'number')] }
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Build the rule for a single condition
+ */
+function buildCondition(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  options: ToJsonLogicOptions
+): JsonLogicRule {
+  const { field, operator } = condition
+  const { fieldConfig, operatorConfig, type, value } = resolveCondition(condition, schema, options)
+  const variable = { var: fieldConfig?.path ?? field.key }
+
+  const custom = options.operators?.[operator.key]
+  const rule = custom
+    ? custom({ variable, value, field: fieldConfig })
+    : buildOperator(variable, operator.key, value, type, () => getValueList(value, operatorConfig))
+  if (rule === undefined) {
+    throw unsupportedOperatorError(condition, 'to build a JSON Logic rule for it')
+  }
+  return condition.negated ? { '!': rule } : rule
+}
+
+/**
+ * Build the rule for a tree node
+ */
+function buildNode(
+  node: FilterNode,
+  schema: FilterSchema,
+  options: ToJsonLogicOptions
+): JsonLogicRule {
+  if (node.type === 'condition') {
+    return buildCondition(node.condition, schema, options)
+  }
+  const rules = node.children.map((child) => buildNode(child, schema, options))
+  if (rules.length === 0) return true
+  if (rules.length === 1) return rules[0]
+  return { [node.connector === 'AND' ? 'and' : 'or']: rules }
+}
+
+/**
+ * Convert filter expressions into a JSON Logic rule.
+ *
+ * Supports `==`, `!=`, `>`, `>=`, `<`, `<=`, `between` as `{ '<=': [a, var, b] }`,
+ * `in` with a list, `contains` as a substring `in`, `startsWith` and `endsWith`
+ * as `substr` comparisons, and `on` for datetimes as a comparison of the date
+ * part, with `and`/`or` groups and `!` for negation. JSON Logic has no pattern
+ * matching, so `like` is only supported with `%` wildcards at the ends of the
+ * pattern; other patterns need a custom operator. Array fields use `some`,
+ * `all` and `none` over the items, `!` for `isEmpty` and a `reduce` count for
+ * length comparisons. An empty filter yields `true`.
+ *
+ * @throws Error for unknown fields and operators without a JSON Logic rule
+ *
+ * @example
+ * ```ts
+ * const rule = toJsonLogic(expressions, schema)
+ * // → { and: [{ '==': [{ var: 'status' }, 'open'] }, { '>=': [{ var: 'price' }, 10] }] }
+ * jsonLogic.apply(rule, record)
+ * ```
+ */
+export function toJsonLogic(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: ToJsonLogicOptions = {}
+): JsonLogicRule {
+  return buildNode(toExpressionTree(expressions), schema, options)
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Read the path of a `var` operation, or undefined for other values
+ */
+function readVariable(value: unknown): string | undefined {
+  if (!isPlainObject(value) || Object.keys(value).length !== 1 || !('var' in value)) {
+    return undefined
+  }
+  const path = Array.isArray(value.var) ? value.var[0] : value.var
+  return typeof path === 'string' ? path : undefined
+}
+
+/**
+ * Read the field path and arguments of a `{ substr: [{ var }, start, length] }`
+ * operation, or undefined for other values
+ */
+function readSubstring(
+  value: unknown
+): { path: string; start: unknown; length: unknown } | undefined {
+  if (!isPlainObject(value) || !Array.isArray(value.substr)) return undefined
+  const [variable, start, length] = value.substr
+  const path = readVariable(variable)
+  return path === undefined ? undefined : { path, start, length }
+}
+
+/**
+ * Get the operator keys that comparing a substring with a value can be read
+ * as: a date part (`on`), a prefix (`startsWith`) or a suffix (`endsWith`)
+ */
+function getSubstringOperators(
+  substring: { start: unknown; length: unknown },
+  value: unknown
+): string[] {
+  const { start, length } = substring
+  const operators: string[] = []
+  if (start === 0 && length === 10) operators.push('on')
+  if (typeof value !== 'string' || value === '') return operators
+  if (start === 0 && length === value.length) operators.push('startsWith')
+  if (start === -value.length && length === undefined) operators.push('endsWith')
+  return operators
+}
+
+/**
+ * Format a rule value as text for deserialization, or undefined for values
+ * that are not strings, numbers or booleans
+ */
+function formatValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return undefined
+}
+
+/**
+ * Read a JSON Logic rule back into filter expressions.
+ *
+ * Understands the output of `toJsonLogic`: comparisons (also with the value
+ * first, or using `===`/`!==`), `<=` between, `in` lists and substrings,
+ * date part, prefix and suffix comparisons, `and`/`or` and `!` around single conditions. Custom
+ * operations can be mapped to operator keys with the `operators` option.
+ * Fields are matched by path or key.
+ *
+ * Parts of the rule that cannot be represented, such as unknown fields,
+ * operators the field does not have or unsupported operations, are left out
+ * and reported with their location.
+ *
+ * @example
+ * ```ts
+ * const { expressions, errors } = fromJsonLogic(
+ *   { and: [{ '==': [{ var: 'status' }, 'open'] }, { '>=': [{ var: 'price' }, 10] }] },
+ *   schema
+ * )
+ * ```
+ */
+export function fromJsonLogic(
+  rule: unknown,
+  schema: FilterSchema,
+  options: FromJsonLogicOptions = {}
+): FromJsonLogicResult {
+  const errors: JsonLogicError[] = []
+
+  const addError = (message: string, path: string) => {
+    errors.push({ message, path })
+  }
+
+  /** Find the field read by a `var` path */
+  const resolveField = (path: string): FieldConfig | undefined => {
+    const field =
+      flattenFields(schema).find((f) => (f.path ?? f.key) === path) ?? findField(schema, path)
+    if (field || !schema.allowFreeformFields) return field
+    const freeformConfig = schema.freeformFieldConfig ?? {}
+    return {
+      key: path,
+      label: path,
+      type: freeformConfig.type ?? 'string',
+      operators: freeformConfig.operators ?? FREEFORM_OPERATORS,
+    }
+  }
+
+  /**
+   * Create a condition for a field from the first candidate operator it has,
+   * reporting fields, operators and values that cannot be used
+   */
+  const createCondition = (
+    path: string,
+    candidates: string[],
+    values: unknown[],
+    location: string,
+    description: string
+  ): FilterNode | undefined => {
+    const field = resolveField(path)
+    if (!field) {
+      addError(`Unknown field "${path}"`, location)
+      return undefined
+    }
+    const match = candidates
+      .map((candidate) => {
+        const negated = candidate.startsWith('!')
+        const key = negated ? candidate.slice(1) : candidate
+        const operator = field.operators.find((op) => op.key === key)
+        return operator && { operator, negated }
+      })
+      .find((candidate) => candidate !== undefined)
+    if (!match) {
+      addError(`Field "${field.key}" has no operator for ${description}`, location)
+      return undefined
+    }
+    const formatted = values.map(formatValue)
+    if (formatted.some((v) => v === undefined)) {
+      addError('Values must be strings, numbers or booleans', location)
+      return undefined
+    }
+    const item: SerializedExpression = {
+      field: field.key,
+      operator: match.operator.key,
+      value: formatted.join(getListSeparator(match.operator) ?? ', '),
+    }
+    if (match.negated) item.negated = true
+    try {
+      const [expression] = deserialize([item], schema, { useSchemaDeserializer: false })
+      return { type: 'condition', condition: expression.condition }
+    } catch (error) {
+      addError(error instanceof Error ? error.message : String(error), location)
+      return undefined
+    }
+  }
+
+  /** Read a comparison such as `{ '>': [{ var: 'price' }, 5] }` */
+  const readComparison = (
+    operation: string,
+    args: unknown[],
+    location: string
+  ): FilterNode | undefined => {
+    // { '<=': [a, { var }, b] } is a range
+    if (args.length === 3) {
+      const path = readVariable(args[1])
+      if (operation !== '<=' || path === undefined) {
+        addError(`Only "<=" ranges around a var are supported`, location)
+        return undefined
+      }
+      return createCondition(path, ['between'], [args[0], args[2]], location, '"<=" ranges')
+    }
+    if (args.length !== 2) {
+      addError(`Expected 2 arguments for "${operation}"`, location)
+      return undefined
+    }
+
+    const [left, right] = args
+    const swapped = readVariable(left) === undefined && readSubstring(left) === undefined
+    const [operand, value] = swapped ? [right, left] : [left, right]
+    const comparison = swapped ? SWAPPED_COMPARISONS[operation] : operation
+
+    const substring = readSubstring(operand)
+    const substringOperators = substring ? getSubstringOperators(substring, value) : []
+    if (
+      substring &&
+      substringOperators.length > 0 &&
+      (comparison === '==' || comparison === '===')
+    ) {
+      return createCondition(substring.path, substringOperators, [value], location, 'substrings')
+    }
+    const path = readVariable(operand)
+    if (path === undefined) {
+      addError(`Expected a var argument for "${operation}"`, location)
+      return undefined
+    }
+    const candidates = [...COMPARISON_OPERATORS[comparison]]
+    // Date fields compare whole days, so equality is 'on'
+    if (resolveField(path)?.type === 'date') {
+      if (comparison === '==' || comparison === '===') candidates.push('on')
+      if (comparison === '!=' || comparison === '!==') candidates.push('!on')
+    }
+    return createCondition(path, candidates, [value], location, `"${operation}"`)
+  }
+
+  /** Read an `in`: list membership or a substring */
+  const readIn = (args: unknown[], location: string): FilterNode | undefined => {
+    const [needle, haystack] = args
+    const path = readVariable(needle)
+    if (path !== undefined && Array.isArray(haystack)) {
+      return createCondition(path, ['in'], haystack, location, '"in" lists')
+    }
+    const substringPath = readVariable(haystack)
+    if (substringPath !== undefined && typeof needle === 'string') {
+      return createCondition(substringPath, ['contains'], [needle], location, '"in" substrings')
+    }
+    addError('Expected a var in a list, or a string in a var', location)
+    return undefined
+  }
+
+  /** Read a rule into a node */
+  const readRule = (value: unknown, location: string): FilterNode | undefined => {
+    if (!isPlainObject(value) || Object.keys(value).length !== 1) {
+      addError('Expected an object with a single operation', location)
+      return undefined
+    }
+    const [operation, rawArgs] = Object.entries(value)[0]
+    const args = Array.isArray(rawArgs) ? rawArgs : [rawArgs]
+    const at = (index?: number) =>
+      index === undefined
+        ? `${location}${location ? '.' : ''}${operation}`
+        : `${location}${location ? '.' : ''}${operation}[${index}]`
+
+    if (operation === 'and' || operation === 'or') {
+      const children = args
+        .map((arg, index) => readRule(arg, at(index)))
+        .filter((node): node is FilterNode => node !== undefined)
+      if (children.length <= 1) return children[0]
+      return { type: 'group', connector: operation === 'and' ? 'AND' : 'OR', children }
+    }
+    if (operation === '!') {
+      const node = args.length === 1 ? readRule(args[0], at(0)) : undefined
+      if (!node) {
+        if (args.length !== 1) addError('Expected a single argument for "!"', at())
+        return undefined
+      }
+      if (node.type !== 'condition') {
+        addError('Only single conditions can be negated', at())
+        return undefined
+      }
+      const { negated, ...condition } = node.condition
+      return {
+        type: 'condition',
+        condition: negated ? condition : { ...condition, negated: true },
+      }
+    }
+    if (operation in COMPARISON_OPERATORS) {
+      return readComparison(operation, args, at())
+    }
+    if (operation === 'in') {
+      return readIn(args, at())
+    }
+    const operatorKey = options.operators?.[operation]
+    if (operatorKey !== undefined) {
+      const [variable, ...values] = args
+      const path = readVariable(variable)
+      if (path === undefined) {
+        addError(`Expected a var as the first argument of "${operation}"`, at())
+        return undefined
+      }
+      return createCondition(path, [operatorKey], values, at(), `"${operation}"`)
+    }
+    addError(`Unsupported operation "${operation}"`, at())
+    return undefined
+  }
+
+  // A constant true rule matches everything
+  if (rule === true) return { expressions: [], errors }
+  const root = readRule(rule, '')
+  return { expressions: root ? fromExpressionTree(root) : [], errors }
+}
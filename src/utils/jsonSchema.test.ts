@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { schemaFromJsonSchema, type JsonSchema } from './jsonSchema'
+import { validateExpressions } from './validation'
+import { parseQuery } from './queryLanguage'
+import {
+  STRING_OPERATORS,
+  NUMBER_OPERATORS,
+  DATE_OPERATORS,
+  BOOLEAN_OPERATORS,
+  ENUM_OPERATORS,
+  type AutocompleteContext,
+} from '@/types'
+
+const orderSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    customerName: { type: 'string', title: 'Customer', description: 'Billing name' },
+    created_at: { type: 'string', format: 'date-time' },
+    dueDate: { type: ['string', 'null'], format: 'date' },
+    status: { type: 'string', enum: ['open', 'closed'] },
+    priority: { $ref: '#/$defs/Priority' },
+    quantity: { type: 'integer', minimum: 1, maximum: 10 },
+    total: { anyOf: [{ type: 'number', exclusiveMinimum: 0 }, { type: 'null' }] },
+    paid: { type: 'boolean' },
+    lines: { type: 'array', items: { type: 'object' } },
+    address: { type: 'object', properties: { city: { type: 'string' } } },
+  },
+  $defs: {
+    Priority: {
+      title: 'Priority',
+      oneOf: [
+        { const: 1, title: 'Low' },
+        { const: 2, title: 'High', description: 'Handle today' },
+      ],
+    },
+  },
+}
+
+describe('schemaFromJsonSchema', () => {
+  it('should generate fields from properties', () => {
+    const { fields } = schemaFromJsonSchema(orderSchema)
+
+    expect(fields.map(({ key, label, type }) => ({ key, label, type }))).toEqual([
+      { key: 'customerName', label: 'Customer', type: 'string' },
+      { key: 'created_at', label: 'Created at', type: 'datetime' },
+      { key: 'dueDate', label: 'Due date', type: 'date' },
+      { key: 'status', label: 'Status', type: 'enum' },
+      { key: 'priority', label: 'Priority', type: 'enum' },
+      { key: 'quantity', label: 'Quantity', type: 'number' },
+      { key: 'total', label: 'Total', type: 'number' },
+      { key: 'paid', label: 'Paid', type: 'boolean' },
+    ])
+    expect(fields[0].description).toBe('Billing name')
+    expect(fields.map((field) => field.operators)).toEqual([
+      STRING_OPERATORS,
+      DATE_OPERATORS,
+      DATE_OPERATORS,
+      ENUM_OPERATORS,
+      ENUM_OPERATORS,
+      NUMBER_OPERATORS,
+      NUMBER_OPERATORS,
+      BOOLEAN_OPERATORS,
+    ])
+  })
+
+  it('should suggest enum values with titles', () => {
+    const { fields } = schemaFromJsonSchema(orderSchema)
+    const suggest = (key: string) =>
+      fields
+        .find((field) => field.key === key)
+        ?.valueAutocompleter?.getSuggestions({ inputValue: '' } as AutocompleteContext)
+
+    expect(suggest('status')).toEqual([
+      { type: 'value', key: 'open', label: 'open', description: undefined },
+      { type: 'value', key: 'closed', label: 'closed', description: undefined },
+    ])
+    expect(suggest('priority')).toEqual([
+      { type: 'value', key: '1', label: 'Low', description: undefined },
+      { type: 'value', key: '2', label: 'High', description: 'Handle today' },
+    ])
+  })
+
+  it('should validate numbers against minimum and maximum', () => {
+    const schema = schemaFromJsonSchema(orderSchema)
+    const messages = (text: string) =>
+      validateExpressions(parseQuery(text, schema).expressions, schema).errors.map(
+        (error) => error.message
+      )
+
+    expect(messages('quantity = 5 AND total > 0.5 AND quantity <= 10')).toEqual([])
+    expect(messages('quantity = 0')).toEqual(['Value must be at least 1'])
+    expect(messages('quantity < 11')).toEqual(['Value must be at most 10'])
+    expect(messages('quantity = 1.5')).toEqual(['Value must be a whole number'])
+    expect(messages('total = 0')).toEqual(['Value must be greater than 0'])
+  })
+
+  it('should include, exclude and customize fields', () => {
+    const { fields } = schemaFromJsonSchema(orderSchema, {
+      include: ['paid', 'status', 'quantity', 'missing'],
+      exclude: ['quantity'],
+      customize: (field, property) =>
+        property.enum ? { ...field, label: `${field.label}!` } : field,
+    })
+
+    expect(fields.map((field) => [field.key, field.label])).toEqual([
+      ['paid', 'Paid'],
+      ['status', 'Status!'],
+    ])
+    expect(
+      schemaFromJsonSchema(orderSchema, {
+        customize: (field) => (field.type === 'string' ? field : undefined),
+      }).fields.map((field) => field.key)
+    ).toEqual(['customerName'])
+  })
+
+  it('should throw for schemas without properties and unresolvable references', () => {
+    expect(() => schemaFromJsonSchema({ type: 'string' })).toThrow('JSON Schema has no properties')
+    expect(() => schemaFromJsonSchema({ properties: { a: { $ref: 'other.json#/A' } } })).toThrow(
+      'Cannot resolve $ref "other.json#/A"'
+    )
+    expect(() => schemaFromJsonSchema({ properties: { a: { $ref: '#/$defs/A' } } })).toThrow(
+      'Cannot resolve $ref "#/$defs/A"'
+    )
+  })
+})
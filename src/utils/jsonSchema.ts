@@ -0,0 +1,271 @@
+/**
+ * JSON Schema Import
+ *
+ * Generates a filter schema from the properties of a JSON Schema object, so
+ * APIs that are already described in JSON Schema don't need a hand-written
+ * schema kept in sync with them.
+ */
+
+import type { ConditionValue, FieldConfig, FieldType, FilterSchema } from '@/types'
+import { getDefaultOperators } from '@/types'
+import { createEnumAutocompleter, type EnumValue } from '@/autocompleters'
+import { getValueList } from './evaluation'
+import { toLabel } from './labels'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The subset of JSON Schema used to generate fields
+ */
+export interface JsonSchema {
+  type?: string | string[]
+  format?: string
+  title?: string
+  description?: string
+  enum?: unknown[]
+  const?: unknown
+  oneOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  properties?: Record<string, JsonSchema>
+  $ref?: string
+  [keyword: string]: unknown
+}
+
+/**
+ * Options for generating a filter schema from JSON Schema
+ */
+export interface SchemaFromJsonSchemaOptions {
+  /** Property names to generate fields for, in this order (default: all properties) */
+  include?: string[]
+  /** Property names to leave out */
+  exclude?: string[]
+  /**
+   * Adjust the generated field for a property, or return undefined to leave
+   * the property out
+   */
+  customize?: (field: FieldConfig, property: JsonSchema, name: string) => FieldConfig | undefined
+}
+
+// =============================================================================
+// Properties
+// =============================================================================
+
+/**
+ * Resolve a local `$ref` such as '#/$defs/Status' against the root document
+ */
+export function resolveRef<T extends { $ref?: string }>(
+  schema: T,
+  root: object,
+  seen = new Set<string>()
+): T {
+  const ref = schema.$ref
+  if (ref === undefined) return schema
+  if (!ref.startsWith('#') || seen.has(ref)) {
+    throw new Error(`Cannot resolve $ref "${ref}"`)
+  }
+  let target: unknown = root
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const name = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    target = (target as Record<string, unknown> | undefined)?.[name]
+  }
+  if (typeof target !== 'object' || target === null) {
+    throw new Error(`Cannot resolve $ref "${ref}"`)
+  }
+  seen.add(ref)
+  // Keywords next to $ref (such as a title) take precedence
+  const { $ref: _ref, ...rest } = schema
+  return { ...resolveRef(target as T, root, seen), ...rest }
+}
+
+/**
+ * Get the non-null type of a property, unwrapping `anyOf`/`oneOf` unions with null
+ */
+function getType(property: JsonSchema, root: JsonSchema): { property: JsonSchema; type?: string } {
+  const variants = property.anyOf ?? property.oneOf
+  if (variants && property.type === undefined) {
+    const nonNull = variants
+      .map((variant) => resolveRef(variant, root))
+      .filter((variant) => variant.type !== 'null')
+    if (nonNull.length === 1) {
+      return getType({ ...nonNull[0], ...withoutVariants(property) }, root)
+    }
+  }
+  const types = Array.isArray(property.type) ? property.type : [property.type]
+  return { property, type: types.find((type) => type !== undefined && type !== 'null') }
+}
+
+/**
+ * Copy a property without its `anyOf`/`oneOf` keywords
+ */
+function withoutVariants(property: JsonSchema): JsonSchema {
+  const { anyOf: _anyOf, oneOf: _oneOf, ...rest } = property
+  return rest
+}
+
+/**
+ * Get the enum values of a property from `enum`, or from a `oneOf`/`anyOf` of
+ * `const` values with titles
+ */
+function getEnumValues(property: JsonSchema, root: JsonSchema): EnumValue[] | undefined {
+  if (property.enum) {
+    return property.enum
+      .filter((value) => value !== null)
+      .map((value) => ({ key: String(value), label: String(value) }))
+  }
+  const variants = (property.oneOf ?? property.anyOf)?.map((variant) => resolveRef(variant, root))
+  if (variants?.length && variants.every((variant) => 'const' in variant)) {
+    return variants
+      .filter((variant) => variant.const !== null)
+      .map((variant) => ({
+        key: String(variant.const),
+        label: variant.title ?? String(variant.const),
+        ...(variant.description !== undefined && { description: variant.description }),
+      }))
+  }
+  return undefined
+}
+
+/**
+ * Create a validator for the numeric keywords of a property, or undefined when
+ * the property has none
+ */
+function createNumberValidator(
+  property: JsonSchema,
+  integer: boolean
+): FieldConfig['validate'] | undefined {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = property
+  if (
+    !integer &&
+    minimum === undefined &&
+    maximum === undefined &&
+    exclusiveMinimum === undefined &&
+    exclusiveMaximum === undefined
+  ) {
+    return undefined
+  }
+
+  const check = (number: number): string | undefined => {
+    if (integer && !Number.isInteger(number)) return 'Value must be a whole number'
+    if (minimum !== undefined && number < minimum) return `Value must be at least ${minimum}`
+    if (maximum !== undefined && number > maximum) return `Value must be at most ${maximum}`
+    if (exclusiveMinimum !== undefined && number <= exclusiveMinimum) {
+      return `Value must be greater than ${exclusiveMinimum}`
+    }
+    if (exclusiveMaximum !== undefined && number >= exclusiveMaximum) {
+      return `Value must be less than ${exclusiveMaximum}`
+    }
+    return undefined
+  }
+
+  return (value: ConditionValue, context) => {
+    const messages = getValueList(value, context.operator)
+      .map(Number)
+      .filter((number) => !isNaN(number))
+      .map(check)
+      .filter((message): message is string => message !== undefined)
+    return {
+      valid: messages.length === 0,
+      errors: [...new Set(messages)].map((message) => ({ type: 'value' as const, message })),
+    }
+  }
+}
+
+/**
+ * Create the field for a property, or undefined for properties that cannot be
+ * filtered (objects, arrays and properties without a known type). `$ref`s are
+ * resolved against `root`.
+ */
+export function fieldFromJsonSchema(
+  name: string,
+  schema: JsonSchema,
+  root: JsonSchema
+): FieldConfig | undefined {
+  const { property, type: jsonType } = getType(resolveRef(schema, root), root)
+  const enumValues = getEnumValues(property, root)
+
+  let type: FieldType
+  let validate: FieldConfig['validate']
+  if (enumValues) {
+    type = 'enum'
+  } else if (jsonType === 'string') {
+    type =
+      property.format === 'date' ? 'date' : property.format === 'date-time' ? 'datetime' : 'string'
+  } else if (jsonType === 'number' || jsonType === 'integer') {
+    type = 'number'
+    validate = createNumberValidator(property, jsonType === 'integer')
+  } else if (jsonType === 'boolean') {
+    type = 'boolean'
+  } else {
+    return undefined
+  }
+
+  const field: FieldConfig = {
+    key: name,
+    label: property.title ?? toLabel(name),
+    type,
+    operators: getDefaultOperators(type),
+  }
+  if (property.description !== undefined) field.description = property.description
+  if (enumValues) field.valueAutocompleter = createEnumAutocompleter(enumValues)
+  if (validate) field.validate = validate
+  return field
+}
+
+// =============================================================================
+// Schema Generation
+// =============================================================================
+
+/**
+ * Generate a filter schema from the properties of a JSON Schema object.
+ *
+ * - `string` properties become string fields, or date/datetime fields with
+ *   `format: 'date'`/`'date-time'`
+ * - `enum` properties (and `oneOf` lists of `const` values with titles) become
+ *   enum fields with an enum autocompleter
+ * - `number`/`integer` properties become number fields, validated against
+ *   `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum` and whole
+ *   numbers for integers
+ * - `boolean` properties become boolean fields
+ *
+ * `title` and `description` become the label and description; without a title
+ * the label is derived from the property name. Nullable types and local `$ref`s
+ * are resolved. Object and array properties are left out.
+ *
+ * @throws Error if the schema has no properties or a `$ref` cannot be resolved
+ *
+ * @example
+ * ```ts
+ * const schema = schemaFromJsonSchema(orderJsonSchema, {
+ *   exclude: ['internalNotes'],
+ *   customize: (field) => (field.key === 'id' ? { ...field, type: 'id' } : field),
+ * })
+ * ```
+ */
+export function schemaFromJsonSchema(
+  jsonSchema: JsonSchema,
+  options: SchemaFromJsonSchemaOptions = {}
+): FilterSchema {
+  const root = resolveRef(jsonSchema, jsonSchema)
+  const { properties } = root
+  if (!properties) {
+    throw new Error('JSON Schema has no properties')
+  }
+
+  const names = (options.include ?? Object.keys(properties)).filter(
+    (name) => name in properties && !options.exclude?.includes(name)
+  )
+  const fields: FieldConfig[] = []
+  for (const name of names) {
+    const field = fieldFromJsonSchema(name, properties[name], jsonSchema)
+    const customized =
+      field && options.customize ? options.customize(field, properties[name], name) : field
+    if (customized) fields.push(customized)
+  }
+  return { fields }
+}
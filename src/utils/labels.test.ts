@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest'
+import { toLabel } from './labels'
+
+describe('labels', () => {
+  describe('toLabel', () => {
+    it('should split camel case, snake case and kebab case names into words', () => {
+      expect(toLabel('createdAt')).toBe('Created at')
+      expect(toLabel('created_at')).toBe('Created at')
+      expect(toLabel('order-id')).toBe('Order id')
+      expect(toLabel('address2Line')).toBe('Address2 line')
+    })
+  })
+})
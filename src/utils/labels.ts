@@ -0,0 +1,18 @@
+/**
+ * Labels
+ *
+ * Turns property names into the human-readable labels of generated fields,
+ * shared by the schema generators (JSON Schema import and schema inference).
+ */
+
+/**
+ * Turn a property name such as 'createdAt' or 'created_at' into a label ('Created at')
+ */
+export function toLabel(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
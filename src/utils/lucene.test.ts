@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest'
+import { toLuceneQuery, fromLuceneQuery } from './lucene'
+import { formatQuery } from './queryLanguage'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema({
+  key: 'location',
+  label: 'Location',
+  type: 'string',
+  operators: [{ key: 'near', label: 'near' }],
+})
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+const lucene = (...conditions: TestCondition[]) => toLuceneQuery(filter(...conditions), schema)
+
+/** Read a Lucene query and format it as a text query */
+const read = (query: string) => {
+  const { expressions, errors } = fromLuceneQuery(query, schema)
+  return { text: formatQuery(expressions, schema), errors }
+}
+
+describe('lucene', () => {
+  describe('toLuceneQuery', () => {
+    it('should write terms, phrases and comparisons', () => {
+      expect(
+        lucene(['status', 'eq', 'open'], ['name', 'eq', 'Ann Lee'], ['active', 'is', 'true'])
+      ).toBe('status:open AND customer.name:"Ann Lee" AND active:true')
+      expect(
+        lucene(
+          ['price', 'gt', '1', { connector: 'OR' }],
+          ['price', 'gte', '1', { connector: 'OR' }],
+          ['price', 'lt', '1', { connector: 'OR' }],
+          ['price', 'lte', '1']
+        )
+      ).toBe('price:>1 OR price:>=1 OR price:<1 OR price:<=1')
+      expect(lucene(['created', 'after', '2024-01-01'])).toBe('created:>2024-01-01')
+    })
+
+    it('should escape reserved characters and quote keywords', () => {
+      expect(lucene(['name', 'eq', 'a:b(c)'], ['name', 'eq', '-x'], ['name', 'eq', 'OR'])).toBe(
+        'customer.name:a\\:b\\(c\\) AND customer.name:\\-x AND customer.name:"OR"'
+      )
+      expect(lucene(['updated', 'before', '2024-01-01T10:00:00Z'])).toBe(
+        'updated:<2024-01-01T10\\:00\\:00Z'
+      )
+    })
+
+    it('should write ranges, lists, days and wildcards', () => {
+      expect(lucene(['price', 'between', '1 and 5'], ['status', 'in', 'open, on hold'])).toBe(
+        'price:[1 TO 5] AND status:(open OR "on hold")'
+      )
+      expect(lucene(['created', 'on', '2024-01-01'], ['updated', 'on', '2024-01-01'])).toBe(
+        'created:2024-01-01 AND ' +
+          'updated:[2024-01-01T00\\:00\\:00.000Z TO 2024-01-02T00\\:00\\:00.000Z}'
+      )
+      expect(
+        lucene(
+          ['name', 'contains', 'big sale', { connector: 'OR' }],
+          ['name', 'startsWith', 'a*', { connector: 'OR' }],
+          ['name', 'endsWith', 'b', { connector: 'OR' }],
+          ['name', 'like', 'J_n%']
+        )
+      ).toBe(
+        'customer.name:*big\\ sale* OR customer.name:a\\** OR customer.name:*b OR customer.name:J?n*'
+      )
+    })
+
+    it('should write negation and always parenthesize nested groups', () => {
+      expect(
+        lucene(
+          ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+          ['price', 'gt', '5', { negated: true, closeGroups: 1 }],
+          ['status', 'neq', 'closed']
+        )
+      ).toBe('(status:open OR NOT price:>5) AND NOT status:closed')
+      expect(
+        lucene(
+          ['status', 'eq', 'open'],
+          ['price', 'gt', '1', { connector: 'OR' }],
+          ['active', 'is', 'true']
+        )
+      ).toBe('(status:open AND price:>1) OR active:true')
+      expect(lucene(['status', 'neq', 'closed', { negated: true }])).toBe('status:closed')
+    })
+
+    it('should return an empty string for no expressions', () => {
+      expect(toLuceneQuery([], schema)).toBe('')
+    })
+
+    it('should build custom operators and throw for operators without a query', () => {
+      const expressions = filter(['location', 'near', 'berlin'])
+
+      expect(() => toLuceneQuery(expressions, schema)).toThrow(
+        'Unsupported operator "near" for field "location"'
+      )
+      expect(
+        toLuceneQuery(expressions, schema, {
+          operators: { near: ({ path, term, value }) => `${path}:${term(value.raw)}~2` },
+        })
+      ).toBe('location:berlin~2')
+    })
+
+    it('should match array fields as multi-valued fields', () => {
+      expect(
+        toLuceneQuery(
+          filter(
+            ['labels', 'anyOf', 'a, b'],
+            ['labels', 'allOf', 'a, b'],
+            ['labels', 'noneOf', 'c']
+          ),
+          schema
+        )
+      ).toBe('labels:(a OR b) AND labels:(a AND b) AND NOT labels:(c)')
+    })
+  })
+
+  describe('fromLuceneQuery', () => {
+    it('should round-trip generated queries', () => {
+      const expressions = filter(
+        ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+        ['name', 'contains', 'a b', { negated: true, closeGroups: 1 }],
+        ['price', 'between', '1 and 5'],
+        ['created', 'on', '2024-01-01'],
+        ['updated', 'on', '2024-02-01'],
+        ['status', 'in', 'open, on hold'],
+        ['status', 'neq', 'closed'],
+        ['name', 'startsWith', 'x:y'],
+        ['name', 'like', 'J_n%'],
+        ['active', 'is', 'false']
+      )
+
+      expect(fromLuceneQuery(toLuceneQuery(expressions, schema), schema)).toEqual({
+        expressions,
+        errors: [],
+      })
+    })
+
+    it('should read open-ended ranges as comparisons', () => {
+      expect(read('price:[10 TO *] AND price:{* TO 20}')).toEqual({
+        text: 'price ≥ 10 AND price < 20',
+        errors: [],
+      })
+    })
+
+    it('should read KQL-style queries', () => {
+      expect(read('price >= 5 and not status: closed or -active:true')).toEqual({
+        text: 'price ≥ 5 AND status ≠ closed OR NOT active is true',
+        errors: [],
+      })
+      expect(read('+status:open && !customer.name:ann')).toEqual({
+        text: 'status = open AND name ≠ ann',
+        errors: [],
+      })
+    })
+
+    it('should keep negative numbers as values', () => {
+      expect(read('price:-5 OR price:[-10 TO -1]').text).toBe(
+        'price = -5 OR price between [-10, -1]'
+      )
+    })
+
+    it('should report clauses that cannot be represented and keep the rest', () => {
+      const { text, errors } = read('error OR color:red OR status:>a OR price:{1 TO 5} OR price:3')
+
+      expect(text).toBe('price = 3')
+      expect(errors).toEqual([
+        { message: 'Terms without a field are not supported', start: 0, end: 5 },
+        { message: 'Unknown field "color"', start: 9, end: 18 },
+        { message: 'Field "status" has no operator for ">"', start: 22, end: 31 },
+        { message: 'Exclusive ranges are not supported', start: 35, end: 49 },
+      ])
+    })
+
+    it('should stop at syntax errors', () => {
+      expect(fromLuceneQuery('name:"open', schema)).toEqual({
+        expressions: [],
+        errors: [{ message: 'Unterminated phrase', start: 5, end: 10 }],
+      })
+      expect(fromLuceneQuery('price:1 price:2', schema).errors).toEqual([
+        { message: 'Expected AND or OR but found "price"', start: 8, end: 13 },
+      ])
+      expect(fromLuceneQuery('price:[1 5]', schema).errors).toEqual([
+        { message: 'Expected "TO" but found "5"', start: 9, end: 10 },
+      ])
+    })
+
+    it('should return no expressions for an empty query', () => {
+      expect(fromLuceneQuery('  ', schema)).toEqual({ expressions: [], errors: [] })
+    })
+  })
+})
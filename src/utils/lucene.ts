@@ -0,0 +1,733 @@
+/**
+ * Lucene Query Strings
+ *
+ * Converts filter expressions into Lucene query strings (`status:open AND
+ * price:>=10`), as used by Elasticsearch/OpenSearch `query_string` queries and
+ * log-search tools, and parses them back. Fields are written at their schema
+ * `path` (the key by default). The parser also accepts the KQL-style spellings
+ * that are common in copied queries: lowercase `and`/`or`/`not`, `field >= 10`
+ * and `-`/`!` for negation.
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+  OperatorConfig,
+} from '@/types'
+import { fromExpressionTree, toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import { getListSeparator, type ParseQueryResult, type QueryParseError } from './queryLanguage'
+import { deserialize, FREEFORM_OPERATORS, type SerializedExpression } from './serialization'
+import { findField, flattenFields } from './fieldPaths'
+import {
+  formatDate,
+  getDayRange,
+  getSingleValue,
+  resolveCondition,
+  unsupportedOperatorError,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Context passed to custom Lucene operator builders
+ */
+export interface LuceneOperatorContext {
+  /** Escaped field name */
+  path: string
+  /** Value of the condition */
+  value: ConditionValue
+  /** Field config from the schema (undefined for freeform fields) */
+  field: FieldConfig | undefined
+  /** Format a value as a term, escaping or quoting it as needed */
+  term: (value: unknown) => string
+}
+
+/**
+ * Builds the query for a custom operator
+ */
+export type LuceneOperatorBuilder = (context: LuceneOperatorContext) => string
+
+/**
+ * Options for generating Lucene query strings
+ */
+export interface ToLuceneQueryOptions extends QueryOptions {
+  /**
+   * Query builders for custom operators, by operator key. Also overrides the
+   * built-in query of an operator key.
+   */
+  operators?: Record<string, LuceneOperatorBuilder>
+}
+
+/** Lucene range comparisons by operator key */
+const COMPARISONS: Record<string, string> = {
+  gt: '>',
+  after: '>',
+  gte: '>=',
+  lt: '<',
+  before: '<',
+  lte: '<=',
+}
+
+/** Operator keys that each range comparison can be read as, in order of preference */
+const COMPARISON_OPERATORS: Record<string, string[]> = {
+  '>': ['gt', 'after'],
+  '>=': ['gte'],
+  '<': ['lt', 'before'],
+  '<=': ['lte'],
+}
+
+/** Text operators as wildcard patterns of an escaped term */
+const WILDCARDS: Record<string, (term: string) => string> = {
+  contains: (term) => `*${term}*`,
+  startsWith: (term) => `${term}*`,
+  endsWith: (term) => `*${term}`,
+}
+
+/** Characters with a meaning in Lucene query syntax */
+const RESERVED_PATTERN = /[+\-=&|><!(){}[\]^"~*?:\\/\s]/g
+
+/** Words that cannot be written as bare terms */
+const KEYWORDS = ['and', 'or', 'not', 'to']
+
+// =============================================================================
+// Terms
+// =============================================================================
+
+/**
+ * Escape the reserved characters of a term. Hyphens only need escaping at the
+ * start of a term, where they would negate it.
+ */
+function escapeTerm(text: string): string {
+  return text.replace(RESERVED_PATTERN, (char, index: number) =>
+    char === '-' && index > 0 ? char : `\\${char}`
+  )
+}
+
+/**
+ * Format a value as a term: a quoted phrase when it contains whitespace or is a
+ * keyword, an escaped term otherwise
+ */
+function toTerm(value: unknown, type: FieldType): string {
+  const text = value instanceof Date ? formatDate(value, type) : String(value)
+  if (text === '' || /\s/.test(text) || KEYWORDS.includes(text.toLowerCase())) {
+    return `"${text.replace(/["\\]/g, '\\$&')}"`
+  }
+  return escapeTerm(text)
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Build the query for a built-in operator, or undefined for unknown operators
+ */
+function buildOperator(
+  path: string,
+  operatorKey: string,
+  value: ConditionValue,
+  type: FieldType,
+  getValues: () => unknown[]
+): string | undefined {
+  const term = (v: unknown) => toTerm(v, type)
+
+  if (operatorKey in COMPARISONS) {
+    return `${path}:${COMPARISONS[operatorKey]}${term(getSingleValue(value))}`
+  }
+  if (operatorKey in WILDCARDS) {
+    return `${path}:${WILDCARDS[operatorKey](escapeTerm(String(getSingleValue(value))))}`
+  }
+  switch (operatorKey) {
+    case 'eq':
+    case 'is':
+      return `${path}:${term(getSingleValue(value))}`
+    case 'neq':
+      return `NOT ${path}:${term(getSingleValue(value))}`
+    case 'on': {
+      // Datetimes are on a day when they fall within it
+      const day = type === 'datetime' ? getDayRange(getSingleValue(value)) : undefined
+      if (!day) return `${path}:${term(getSingleValue(value))}`
+      const [start, end] = day.map((date) => term(date))
+      return `${path}:[${start} TO ${end}}`
+    }
+    case 'between': {
+      const [from, to] = getValues()
+      return `${path}:[${term(from)} TO ${term(to)}]`
+    }
+    case 'in':
+    case 'anyOf':
+      return `${path}:(${getValues().map(term).join(' OR ')})`
+    case 'allOf':
+      return `${path}:(${getValues().map(term).join(' AND ')})`
+    case 'noneOf':
+      return `NOT ${path}:(${getValues().map(term).join(' OR ')})`
+    case 'like': {
+      // % and _ become the * and ? wildcards
+      const pattern = String(getSingleValue(value))
+        .split(/([%_])/)
+        .map((part) => (part === '%' ? '*' : part === '_' ? '?' : escapeTerm(part)))
+        .join('')
+      return `${path}:${pattern}`
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Build the query for a single condition
+ */
+function buildCondition(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  options: ToLuceneQueryOptions
+): string {
+  const { field, operator } = condition
+  const { fieldConfig, operatorConfig, type, value } = resolveCondition(condition, schema, options)
+  const path = escapeTerm(fieldConfig?.path ?? field.key)
+
+  const custom = options.operators?.[operator.key]
+  const query = custom
+    ? custom({ path, value, field: fieldConfig, term: (v) => toTerm(v, type) })
+    : buildOperator(path, operator.key, value, type, () => getValueList(value, operatorConfig))
+  if (query === undefined) {
+    throw unsupportedOperatorError(condition, 'to build a Lucene query for it')
+  }
+
+  if (!condition.negated) return query
+  // A negated `neq` is an equality
+  if (!custom && operator.key === 'neq') return query.slice('NOT '.length)
+  return custom ? `NOT (${query})` : `NOT ${query}`
+}
+
+/**
+ * Build the query for a tree node
+ */
+function buildNode(node: FilterNode, schema: FilterSchema, options: ToLuceneQueryOptions): string {
+  if (node.type === 'condition') {
+    return buildCondition(node.condition, schema, options)
+  }
+  // Lucene has no precedence between AND and OR, so nested groups are always parenthesized
+  return node.children
+    .map((child) => {
+      const query = buildNode(child, schema, options)
+      return child.type === 'group' && child.children.length > 1 ? `(${query})` : query
+    })
+    .join(` ${node.connector} `)
+}
+
+/**
+ * Convert filter expressions into a Lucene query string.
+ *
+ * Supports `field:value` (quoted as a phrase when the value contains
+ * whitespace), `field:>10` style comparisons, `between` as `field:[a TO b]`,
+ * `in` as `field:(a OR b)`, and `contains`, `startsWith`, `endsWith` and `like`
+ * as wildcard terms, with groups and negation (`NOT`). Reserved characters in
+ * values are escaped. An empty filter yields an empty string.
+ *
+ * @throws Error for unknown fields and operators without a Lucene query
+ *
+ * @example
+ * ```ts
+ * const query = toLuceneQuery(expressions, schema)
+ * // → 'status:open AND (price:>=10 OR customer.name:"Ann Lee")'
+ * ```
+ */
+export function toLuceneQuery(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: ToLuceneQueryOptions = {}
+): string {
+  return buildNode(toExpressionTree(expressions), schema, options)
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * A lexical token of a Lucene query
+ */
+interface LuceneToken {
+  kind:
+    | 'term'
+    | 'phrase'
+    | 'colon'
+    | 'comparison'
+    | 'lparen'
+    | 'rparen'
+    | 'lbracket'
+    | 'rbracket'
+    | 'and'
+    | 'or'
+    | 'not'
+    | 'plus'
+  /** Token text (unescaped for terms, unquoted for phrases) */
+  text: string
+  /** Source text of terms, with escapes */
+  raw: string
+  start: number
+  end: number
+}
+
+/**
+ * Position of a syntax error
+ */
+interface LuceneSyntaxError {
+  start: number
+  end: number
+}
+
+/**
+ * Create a syntax error at a position, which stops parsing
+ */
+function syntaxError(message: string, start: number, end: number): Error & LuceneSyntaxError {
+  return Object.assign(new Error(message), { start, end })
+}
+
+/**
+ * Split a Lucene query into tokens
+ */
+function tokenize(query: string): LuceneToken[] {
+  const tokens: LuceneToken[] = []
+  const push = (kind: LuceneToken['kind'], text: string, start: number, end: number) => {
+    tokens.push({ kind, text, raw: query.slice(start, end), start, end })
+  }
+  // Tokens after which a leading `-` belongs to a value rather than negating a clause
+  const isValuePosition = () => {
+    const previous = tokens[tokens.length - 1]
+    return (
+      previous !== undefined &&
+      (['colon', 'comparison', 'lbracket'].includes(previous.kind) ||
+        (previous.kind === 'term' && previous.raw.toLowerCase() === 'to'))
+    )
+  }
+
+  let i = 0
+  while (i < query.length) {
+    const char = query[i]
+    const two = query.slice(i, i + 2)
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      push(char === '(' ? 'lparen' : 'rparen', char, i, i + 1)
+      i++
+    } else if ('[{]}'.includes(char)) {
+      push('[{'.includes(char) ? 'lbracket' : 'rbracket', char, i, i + 1)
+      i++
+    } else if (char === ':') {
+      push('colon', char, i, i + 1)
+      i++
+    } else if (two === '>=' || two === '<=') {
+      push('comparison', two, i, i + 2)
+      i += 2
+    } else if (char === '>' || char === '<') {
+      push('comparison', char, i, i + 1)
+      i++
+    } else if (two === '&&' || two === '||') {
+      push(two === '&&' ? 'and' : 'or', two, i, i + 2)
+      i += 2
+    } else if (char === '!' || (char === '-' && !isValuePosition())) {
+      push('not', char, i, i + 1)
+      i++
+    } else if (char === '+') {
+      push('plus', char, i, i + 1)
+      i++
+    } else if (char === '"') {
+      const start = i
+      let text = ''
+      i++
+      while (query[i] !== '"') {
+        if (i >= query.length) {
+          throw syntaxError('Unterminated phrase', start, query.length)
+        }
+        if (query[i] === '\\' && i + 1 < query.length) i++
+        text += query[i]
+        i++
+      }
+      i++
+      push('phrase', text, start, i)
+    } else {
+      const start = i
+      let text = ''
+      while (i < query.length && !/[\s()[\]{}":<>]/.test(query[i])) {
+        if (query[i] === '\\' && i + 1 < query.length) i++
+        text += query[i]
+        i++
+      }
+      push('term', text, start, i)
+    }
+  }
+  return tokens
+}
+
+/**
+ * Split the source of a term at its unescaped wildcards
+ */
+function splitWildcards(raw: string): string[] {
+  const parts: string[] = ['']
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i]
+    if (char === '\\' && i + 1 < raw.length) {
+      parts[parts.length - 1] += raw[++i]
+    } else if (char === '*' || char === '?') {
+      parts.push(char, '')
+    } else {
+      parts[parts.length - 1] += char
+    }
+  }
+  return parts
+}
+
+/**
+ * Read a Lucene query string back into filter expressions.
+ *
+ * Understands the output of `toLuceneQuery`: `field:value` terms and phrases,
+ * `>`/`>=`/`<`/`<=` comparisons, `[a TO b]` ranges (open-ended ranges such as
+ * `[10 TO *]` become comparisons), `(a OR b)` lists, wildcard terms, `AND`/`OR`
+ * with parentheses and `NOT` around single conditions. KQL-style lowercase
+ * keywords, `field >= 10` comparisons and `-`/`!` negation are accepted too.
+ * Fields are matched by path or key.
+ *
+ * Syntax errors stop parsing and return no expressions. Clauses that cannot be
+ * represented, such as terms without a field, unknown fields or operators the
+ * field does not have, are left out and reported with their position.
+ *
+ * @example
+ * ```ts
+ * const { expressions, errors } = fromLuceneQuery('status:open AND price:>=10', schema)
+ * ```
+ */
+export function fromLuceneQuery(query: string, schema: FilterSchema): ParseQueryResult {
+  const errors: QueryParseError[] = []
+  let tokens: LuceneToken[]
+  try {
+    tokens = tokenize(query)
+  } catch (error) {
+    const { message, start, end } = error as Error & LuceneSyntaxError
+    return { expressions: [], errors: [{ message, start, end }] }
+  }
+  let position = 0
+
+  const peek = () => tokens[position]
+  /** Keyword tokens, including KQL-style lowercase words */
+  const isKeyword = (token: LuceneToken | undefined, keyword: 'and' | 'or' | 'not') =>
+    token?.kind === keyword || (token?.kind === 'term' && token.raw.toLowerCase() === keyword)
+  const fail = (message: string, token = peek()): never => {
+    const start = token?.start ?? query.length
+    throw syntaxError(message, start, token?.end ?? start)
+  }
+  const describe = (token: LuceneToken | undefined) =>
+    token ? `"${token.raw}"` : 'the end of the query'
+  const expect = (kind: LuceneToken['kind'], description: string): LuceneToken => {
+    const token = peek()
+    if (token?.kind !== kind) fail(`Expected ${description} but found ${describe(token)}`)
+    position++
+    return token!
+  }
+
+  /** Find the field for a field name */
+  const resolveField = (name: string): FieldConfig | undefined => {
+    const field =
+      flattenFields(schema).find((f) => (f.path ?? f.key) === name) ?? findField(schema, name)
+    if (field || !schema.allowFreeformFields) return field
+    const freeformConfig = schema.freeformFieldConfig ?? {}
+    return {
+      key: name,
+      label: name,
+      type: freeformConfig.type ?? 'string',
+      operators: freeformConfig.operators ?? FREEFORM_OPERATORS,
+    }
+  }
+
+  /** Read a term or phrase */
+  const readValue = (): LuceneToken => {
+    const token = peek()
+    if (
+      token?.kind === 'phrase' ||
+      (token?.kind === 'term' && !['and', 'or', 'not'].includes(token.raw.toLowerCase()))
+    ) {
+      position++
+      return token
+    }
+    return fail(`Expected a value but found ${describe(token)}`)
+  }
+
+  /**
+   * Create a condition for a field from the first candidate operator it has,
+   * reporting fields and operators that cannot be used
+   */
+  const createCondition = (
+    name: LuceneToken,
+    candidates: string[],
+    getValue: (operator: OperatorConfig) => string,
+    description: string
+  ): FilterNode | undefined => {
+    const field = resolveField(name.text)
+    const range = { start: name.start, end: tokens[position - 1].end }
+    if (!field) {
+      errors.push({ message: `Unknown field "${name.text}"`, ...range })
+      return undefined
+    }
+    const operator = candidates
+      .map((key) => field.operators.find((op) => op.key === key))
+      .find((op): op is OperatorConfig => op !== undefined)
+    if (!operator) {
+      errors.push({ message: `Field "${field.key}" has no operator for ${description}`, ...range })
+      return undefined
+    }
+    const item: SerializedExpression = {
+      field: field.key,
+      operator: operator.key,
+      value: getValue(operator),
+    }
+    try {
+      const [expression] = deserialize([item], schema, { useSchemaDeserializer: false })
+      return { type: 'condition', condition: expression.condition }
+    } catch (error) {
+      errors.push({ message: error instanceof Error ? error.message : String(error), ...range })
+      return undefined
+    }
+  }
+
+  /** Read a term value: an exact value, or a wildcard pattern */
+  const readTermCondition = (name: LuceneToken, value: LuceneToken): FilterNode | undefined => {
+    const parts = value.kind === 'term' ? splitWildcards(value.raw) : [value.text]
+    if (parts.length === 1) {
+      // Date fields compare whole days, so equality is 'on'
+      const candidates =
+        resolveField(name.text)?.type === 'date' ? ['eq', 'is', 'on'] : ['eq', 'is']
+      return createCondition(name, candidates, () => value.text, 'values')
+    }
+    // *x*, x* and *x are text operators, other patterns are read as like
+    const texts = parts.filter((_, index) => index % 2 === 0)
+    const wildcards = parts.filter((_, index) => index % 2 === 1)
+    let textKey: string | undefined
+    if (wildcards.every((wildcard) => wildcard === '*')) {
+      if (wildcards.length === 2 && texts[0] === '' && texts[1] !== '' && texts[2] === '') {
+        textKey = 'contains'
+      } else if (wildcards.length === 1 && texts[0] !== '' && texts[1] === '') {
+        textKey = 'startsWith'
+      } else if (wildcards.length === 1 && texts[0] === '' && texts[1] !== '') {
+        textKey = 'endsWith'
+      }
+    }
+    const text = texts.find((part) => part !== '') ?? ''
+    const pattern = parts.map((part) => (part === '*' ? '%' : part === '?' ? '_' : part)).join('')
+    const candidates = textKey ? [textKey, 'like'] : ['like']
+    return createCondition(
+      name,
+      candidates,
+      (operator) => (operator.key === 'like' ? pattern : text),
+      'wildcards'
+    )
+  }
+
+  /** Read a range: [a TO b], {a TO b}, or a mix, with * for open ends */
+  const readRange = (name: LuceneToken): FilterNode | undefined => {
+    const open = expect('lbracket', '"["').text
+    const from = readValue()
+    const to = peek()
+    if (to?.kind !== 'term' || to.raw.toLowerCase() !== 'to') {
+      fail(`Expected "TO" but found ${describe(to)}`)
+    }
+    position++
+    const until = readValue()
+    const close = expect('rbracket', '"]"').text
+    const isOpen = (token: LuceneToken) => token.kind === 'term' && token.raw === '*'
+    const inclusive = open === '[' && close === ']'
+
+    if (isOpen(from) && isOpen(until)) {
+      errors.push({
+        message: 'Ranges need at least one bound',
+        start: name.start,
+        end: tokens[position - 1].end,
+      })
+      return undefined
+    }
+    if (isOpen(until)) {
+      const comparison = open === '[' ? '>=' : '>'
+      return createCondition(
+        name,
+        COMPARISON_OPERATORS[comparison],
+        () => from.text,
+        `"${comparison}"`
+      )
+    }
+    if (isOpen(from)) {
+      const comparison = close === ']' ? '<=' : '<'
+      return createCondition(
+        name,
+        COMPARISON_OPERATORS[comparison],
+        () => until.text,
+        `"${comparison}"`
+      )
+    }
+    if (inclusive) {
+      return createCondition(
+        name,
+        ['between'],
+        (operator) => [from.text, until.text].join(getListSeparator(operator) ?? ', '),
+        'ranges'
+      )
+    }
+    // [day TO next day} is a datetime on that day
+    const day = getDayRange(from.text)
+    if (
+      open === '[' &&
+      close === '}' &&
+      day &&
+      day[0].getTime() === new Date(from.text).getTime() &&
+      day[1].getTime() === new Date(until.text).getTime()
+    ) {
+      return createCondition(name, ['on'], () => from.text.slice(0, 10), 'day ranges')
+    }
+    errors.push({
+      message: 'Exclusive ranges are not supported',
+      start: name.start,
+      end: tokens[position - 1].end,
+    })
+    return undefined
+  }
+
+  /** Read a field clause: field:value, field:>value, field:[a TO b], field:(a OR b) or field >= value */
+  const readClause = (): FilterNode | undefined => {
+    const name = peek()
+    if (name?.kind !== 'term' && name?.kind !== 'phrase') {
+      return fail(`Expected a field but found ${describe(name)}`)
+    }
+    position++
+    const next = peek()
+
+    // Bare terms search all fields, which has no expression equivalent
+    if (next?.kind !== 'colon' && next?.kind !== 'comparison') {
+      errors.push({
+        message: 'Terms without a field are not supported',
+        start: name.start,
+        end: name.end,
+      })
+      return undefined
+    }
+    position++
+
+    if (next.kind === 'comparison' || peek()?.kind === 'comparison') {
+      const comparison = next.kind === 'comparison' ? next : expect('comparison', 'a comparison')
+      const value = readValue()
+      return createCondition(
+        name,
+        COMPARISON_OPERATORS[comparison.text],
+        () => value.text,
+        `"${comparison.text}"`
+      )
+    }
+    if (peek()?.kind === 'lbracket') {
+      return readRange(name)
+    }
+    if (peek()?.kind === 'lparen') {
+      position++
+      const values = [readValue()]
+      while (isKeyword(peek(), 'or')) {
+        position++
+        values.push(readValue())
+      }
+      expect('rparen', '")"')
+      return createCondition(
+        name,
+        ['in'],
+        (operator) => values.map((value) => value.text).join(getListSeparator(operator) ?? ', '),
+        'lists'
+      )
+    }
+    return readTermCondition(name, readValue())
+  }
+
+  /** Negate a condition, preferring the field's `neq` operator over a negated `eq` */
+  const negate = (condition: FilterCondition): FilterCondition => {
+    const { negated, ...rest } = condition
+    if (negated) return rest
+    const neq = resolveField(condition.field.key)?.operators.find((op) => op.key === 'neq')
+    if (condition.operator.key === 'eq' && neq) {
+      return {
+        ...rest,
+        operator: { key: neq.key, label: neq.label, symbol: neq.symbol },
+      }
+    }
+    return { ...rest, negated: true }
+  }
+
+  const readOr = (): FilterNode | undefined => {
+    const nodes: FilterNode[] = []
+    const first = readAnd()
+    if (first) nodes.push(first)
+    while (isKeyword(peek(), 'or')) {
+      position++
+      const node = readAnd()
+      if (node) nodes.push(node)
+    }
+    if (nodes.length <= 1) return nodes[0]
+    return { type: 'group', connector: 'OR', children: nodes }
+  }
+
+  const readAnd = (): FilterNode | undefined => {
+    const nodes: FilterNode[] = []
+    const first = readUnary()
+    if (first) nodes.push(first)
+    while (isKeyword(peek(), 'and')) {
+      position++
+      const node = readUnary()
+      if (node) nodes.push(node)
+    }
+    if (nodes.length <= 1) return nodes[0]
+    return { type: 'group', connector: 'AND', children: nodes }
+  }
+
+  const readUnary = (): FilterNode | undefined => {
+    const token = peek()
+    if (token?.kind === 'plus') {
+      position++
+      return readUnary()
+    }
+    if (isKeyword(token, 'not')) {
+      position++
+      const node = readUnary()
+      if (!node) return undefined
+      if (node.type !== 'condition') {
+        errors.push({
+          message: 'NOT can only be applied to a single condition',
+          start: token.start,
+          end: tokens[position - 1].end,
+        })
+        return undefined
+      }
+      return { type: 'condition', condition: negate(node.condition) }
+    }
+    if (token?.kind === 'lparen') {
+      position++
+      const node = readOr()
+      expect('rparen', '")"')
+      return node
+    }
+    return readClause()
+  }
+
+  try {
+    if (tokens.length === 0) return { expressions: [], errors: [] }
+    const root = readOr()
+    if (position < tokens.length) {
+      fail(`Expected AND or OR but found ${describe(peek())}`)
+    }
+    return { expressions: root ? fromExpressionTree(root) : [], errors }
+  } catch (error) {
+    const { message, start, end } = error as Error & LuceneSyntaxError
+    return { expressions: [], errors: [{ message, start, end }] }
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import { getSchemaVersion, migrateSerialized } from './migration'
+import type { FilterSchema } from '@/types'
+
+const schema: FilterSchema = {
+  version: 3,
+  fields: [
+    {
+      key: 'state',
+      label: 'State',
+      type: 'enum',
+      operators: [{ key: 'eq', label: 'is' }],
+    },
+    {
+      key: 'total',
+      label: 'Total',
+      type: 'number',
+      operators: [{ key: 'gte', label: 'at least' }],
+    },
+  ],
+  migrations: [
+    {
+      version: 3,
+      renameOperators: { total: { min: 'gte' } },
+      drop: (condition) => condition.value === 'archived' && 'Archived orders were removed',
+    },
+    {
+      version: 2,
+      renameFields: { status: 'state' },
+      renameOperators: { '*': { is: 'eq' } },
+      transformValues: { state: (value) => String(value).toLowerCase() },
+      dropFields: ['legacy'],
+    },
+  ],
+}
+
+describe('migrateSerialized', () => {
+  it('should rename fields and operators and transform values in version order', () => {
+    const { expressions, report } = migrateSerialized(
+      [
+        { field: 'status', operator: 'is', value: 'OPEN', connector: 'AND' },
+        { field: 'total', operator: 'min', value: '10' },
+      ],
+      schema,
+      1
+    )
+
+    expect(expressions).toEqual([
+      { field: 'state', operator: 'eq', value: 'open', connector: 'AND' },
+      { field: 'total', operator: 'gte', value: '10' },
+    ])
+    expect(report).toEqual({
+      fromVersion: 1,
+      toVersion: 3,
+      migrated: [
+        {
+          index: 0,
+          from: { field: 'status', operator: 'is', value: 'OPEN' },
+          to: { field: 'state', operator: 'eq', value: 'open' },
+        },
+        {
+          index: 1,
+          from: { field: 'total', operator: 'min', value: '10' },
+          to: { field: 'total', operator: 'gte', value: '10' },
+        },
+      ],
+      dropped: [],
+    })
+  })
+
+  it('should only apply migrations newer than the saved version', () => {
+    const { expressions, report } = migrateSerialized(
+      [{ field: 'status', operator: 'is', value: 'OPEN' }],
+      schema,
+      2
+    )
+
+    expect(expressions).toEqual([{ field: 'status', operator: 'is', value: 'OPEN' }])
+    expect(report.migrated).toEqual([])
+  })
+
+  it('should drop conditions and keep the groups around them', () => {
+    const { expressions, report } = migrateSerialized(
+      [
+        { field: 'total', operator: 'min', value: '5', connector: 'OR' },
+        { field: 'legacy', operator: 'eq', value: 'x', connector: 'AND', openGroups: 1 },
+        { field: 'status', operator: 'is', value: 'Open', connector: 'AND' },
+        { field: 'status', operator: 'is', value: 'Archived', closeGroups: 1 },
+      ],
+      schema,
+      1
+    )
+
+    expect(expressions).toEqual([
+      { field: 'total', operator: 'gte', value: '5', connector: 'OR' },
+      { field: 'state', operator: 'eq', value: 'open' },
+    ])
+    expect(report.dropped).toEqual([
+      {
+        index: 1,
+        condition: { field: 'legacy', operator: 'eq', value: 'x' },
+        reason: 'Field "legacy" was removed in version 2',
+      },
+      {
+        index: 3,
+        condition: { field: 'status', operator: 'is', value: 'Archived' },
+        reason: 'Archived orders were removed',
+      },
+    ])
+  })
+
+  it('should use a default reason for drop rules returning true', () => {
+    const { report } = migrateSerialized(
+      [{ field: 'state', operator: 'eq', value: 'x' }],
+      {
+        fields: [],
+        migrations: [{ version: 1, drop: () => true }],
+      },
+      0
+    )
+
+    expect(report.dropped[0]?.reason).toBe('Dropped by the migration to version 1')
+  })
+})
+
+describe('getSchemaVersion', () => {
+  it('should use the schema version, the newest migration or 0', () => {
+    expect(getSchemaVersion(schema)).toBe(3)
+    expect(getSchemaVersion({ ...schema, version: undefined })).toBe(3)
+    expect(getSchemaVersion({ fields: [] })).toBe(0)
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Saved Filter Migrations
+ *
+ * Upgrades filters saved with an older schema version by applying the
+ * schema's migrations: field renames, operator remaps, value transforms and
+ * drop rules. Every change is recorded in a report, so callers can tell users
+ * which saved conditions were changed or dropped.
+ */
+
+import type { FilterSchema, SavedCondition, SchemaMigration } from '@/types'
+import { removeExpressionAt } from './expressionTree'
+import type { SerializedExpression } from './serialization'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A saved condition that a migration changed
+ */
+export interface MigratedCondition {
+  /** Position of the condition in the saved filter */
+  index: number
+  /** The condition as saved */
+  from: SavedCondition
+  /** The condition after migration */
+  to: SavedCondition
+}
+
+/**
+ * A saved condition that a migration dropped
+ */
+export interface DroppedCondition {
+  /** Position of the condition in the saved filter */
+  index: number
+  /** The condition as saved */
+  condition: SavedCondition
+  /** Why the condition was dropped */
+  reason: string
+}
+
+/**
+ * What migrating a saved filter changed
+ */
+export interface MigrationReport {
+  /** Schema version the filter was saved with */
+  fromVersion: number
+  /** Schema version the filter was migrated to */
+  toVersion: number
+  /** Conditions that were changed */
+  migrated: MigratedCondition[]
+  /** Conditions that were dropped */
+  dropped: DroppedCondition[]
+}
+
+/**
+ * Result of migrating serialized expressions
+ */
+export interface MigrationResult {
+  /** Migrated expressions, without the dropped ones */
+  expressions: SerializedExpression[]
+  /** What was migrated or dropped */
+  report: MigrationReport
+}
+
+/**
+ * Migrates conditions one at a time, recording the changes in a report
+ */
+export interface ConditionMigrator {
+  report: MigrationReport
+  /** Migrate a condition, returning undefined when it is dropped */
+  migrate: (condition: SavedCondition, index: number) => SavedCondition | undefined
+}
+
+// =============================================================================
+// Migration
+// =============================================================================
+
+/**
+ * Get the current version of a schema: its `version`, or the newest migration
+ */
+export function getSchemaVersion(schema: FilterSchema): number {
+  return (
+    schema.version ??
+    Math.max(0, ...(schema.migrations ?? []).map((migration) => migration.version))
+  )
+}
+
+/**
+ * Apply a single migration to a condition, returning the reason when it is dropped
+ */
+function applyMigration(
+  condition: SavedCondition,
+  migration: SchemaMigration
+): SavedCondition | { reason: string } {
+  if (migration.dropFields?.includes(condition.field)) {
+    return { reason: `Field "${condition.field}" was removed in version ${migration.version}` }
+  }
+
+  const field = migration.renameFields?.[condition.field] ?? condition.field
+  const operator =
+    migration.renameOperators?.[field]?.[condition.operator] ??
+    migration.renameOperators?.['*']?.[condition.operator] ??
+    condition.operator
+  let migrated: SavedCondition = { field, operator, value: condition.value }
+  const transform = migration.transformValues?.[field]
+  if (transform) {
+    migrated = { ...migrated, value: transform(condition.value, migrated) }
+  }
+
+  const drop = migration.drop?.(migrated)
+  if (drop) {
+    return {
+      reason:
+        typeof drop === 'string'
+          ? drop
+          : `Dropped by the migration to version ${migration.version}`,
+    }
+  }
+  return migrated
+}
+
+/**
+ * Create a migrator for conditions saved with `fromVersion`. Only the
+ * migrations newer than `fromVersion` (up to the schema's version) are applied.
+ */
+export function createConditionMigrator(
+  schema: FilterSchema,
+  fromVersion: number
+): ConditionMigrator {
+  const toVersion = getSchemaVersion(schema)
+  const migrations = (schema.migrations ?? [])
+    .filter((migration) => migration.version > fromVersion && migration.version <= toVersion)
+    .sort((a, b) => a.version - b.version)
+  const report: MigrationReport = { fromVersion, toVersion, migrated: [], dropped: [] }
+
+  const migrate = (condition: SavedCondition, index: number): SavedCondition | undefined => {
+    let current = condition
+    for (const migration of migrations) {
+      const result = applyMigration(current, migration)
+      if ('reason' in result) {
+        report.dropped.push({ index, condition, reason: result.reason })
+        return undefined
+      }
+      current = result
+    }
+    if (
+      current.field !== condition.field ||
+      current.operator !== condition.operator ||
+      current.value !== condition.value
+    ) {
+      report.migrated.push({ index, from: condition, to: current })
+    }
+    return current
+  }
+
+  return { report, migrate }
+}
+
+/**
+ * Migrate serialized expressions saved with an older schema version.
+ *
+ * Applies the schema's migrations newer than `fromVersion` in order. Dropped
+ * conditions are removed without breaking the groups around them. Used by
+ * `deserialize` for versioned filters; call it directly to inspect a saved
+ * filter before loading it.
+ *
+ * @example
+ * ```ts
+ * const { expressions, report } = migrateSerialized(saved.expressions, schema, saved.version)
+ * if (report.dropped.length > 0) notify(`${report.dropped.length} conditions were removed`)
+ * ```
+ */
+export function migrateSerialized(
+  serialized: SerializedExpression[],
+  schema: FilterSchema,
+  fromVersion: number
+): MigrationResult {
+  const { report, migrate } = createConditionMigrator(schema, fromVersion)
+
+  let expressions = serialized.map((item, index) => {
+    const migrated = migrate(
+      { field: item.field, operator: item.operator, value: item.value },
+      index
+    )
+    return migrated ? { ...item, ...migrated } : item
+  })
+  for (const { index } of [...report.dropped].reverse()) {
+    expressions = removeExpressionAt(expressions, index)
+  }
+  return { expressions, report }
+}
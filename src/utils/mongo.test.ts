@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest'
+import { toMongoQuery, fromMongoQuery } from './mongo'
+import { formatQuery } from './queryLanguage'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema({
+  key: 'tags',
+  label: 'Tags',
+  type: 'string',
+  operators: [{ key: 'all', label: 'has all' }],
+})
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+/** Read a MongoDB query and format it as text */
+const read = (query: Record<string, unknown>) => {
+  const { expressions, errors } = fromMongoQuery(query, schema)
+  return { text: formatQuery(expressions, schema), errors }
+}
+
+describe('mongo', () => {
+  describe('toMongoQuery', () => {
+    it('should convert comparisons with typed values at the field path', () => {
+      expect(
+        toMongoQuery(
+          filter(['status', 'eq', 'open'], ['price', 'gt', '10'], ['active', 'is', 'true']),
+          schema
+        )
+      ).toEqual({
+        $and: [{ status: { $eq: 'open' } }, { price: { $gt: 10 } }, { active: { $eq: true } }],
+      })
+      expect(toMongoQuery(filter(['name', 'eq', 'Ann']), schema)).toEqual({
+        'customer.name': { $eq: 'Ann' },
+      })
+    })
+
+    it('should convert groups and negation', () => {
+      expect(
+        toMongoQuery(
+          filter(
+            ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+            ['status', 'eq', 'closed', { negated: true, closeGroups: 1 }],
+            ['price', 'lte', '5']
+          ),
+          schema
+        )
+      ).toEqual({
+        $and: [
+          { $or: [{ status: { $eq: 'open' } }, { $nor: [{ status: { $eq: 'closed' } }] }] },
+          { price: { $lte: 5 } },
+        ],
+      })
+    })
+
+    it('should convert lists and date ranges', () => {
+      expect(
+        toMongoQuery(
+          filter(
+            ['status', 'in', 'open, closed', { connector: 'OR' }],
+            ['created', 'between', '2024-01-01 and 2024-01-31']
+          ),
+          schema
+        )
+      ).toEqual({
+        $or: [
+          { status: { $in: ['open', 'closed'] } },
+          {
+            created: {
+              $gte: new Date('2024-01-01T00:00:00.000Z'),
+              $lte: new Date('2024-01-31T00:00:00.000Z'),
+            },
+          },
+        ],
+      })
+      expect(toMongoQuery(filter(['created', 'on', '2024-03-05']), schema)).toEqual({
+        created: {
+          $gte: new Date('2024-03-05T00:00:00.000Z'),
+          $lt: new Date('2024-03-06T00:00:00.000Z'),
+        },
+      })
+    })
+
+    it('should convert text operators to escaped regular expressions', () => {
+      expect(
+        toMongoQuery(
+          filter(
+            ['name', 'contains', 'a.b'],
+            ['name', 'startsWith', 'x', { connector: 'OR' }],
+            ['name', 'like', 'J_n%']
+          ),
+          schema
+        )
+      ).toEqual({
+        $or: [
+          {
+            $and: [
+              { 'customer.name': { $regex: 'a\\.b', $options: 'i' } },
+              { 'customer.name': { $regex: '^x', $options: 'i' } },
+            ],
+          },
+          { 'customer.name': { $regex: '^J.n.*$', $options: 'i' } },
+        ],
+      })
+      expect(
+        toMongoQuery(filter(['name', 'endsWith', 'z']), schema, { caseSensitive: true })
+      ).toEqual({
+        'customer.name': { $regex: 'z$' },
+      })
+    })
+
+    it('should return an empty document for no expressions', () => {
+      expect(toMongoQuery([], schema)).toEqual({})
+    })
+
+    it('should build custom operators and throw for operators without a query', () => {
+      const expressions = filter(['tags', 'all', 'a, b'])
+
+      expect(() => toMongoQuery(expressions, schema)).toThrow(
+        'Unsupported operator "all" for field "tags"'
+      )
+      expect(
+        toMongoQuery(expressions, schema, {
+          operators: {
+            all: ({ path, value }) => ({ [path]: { $all: String(value.raw).split(', ') } }),
+          },
+        })
+      ).toEqual({ tags: { $all: ['a', 'b'] } })
+    })
+
+    it('should match array fields', () => {
+      expect(
+        toMongoQuery(
+          filter(
+            ['labels', 'anyOf', 'a, b'],
+            ['labels', 'allOf', 'a, b'],
+            ['labels', 'noneOf', 'c']
+          ),
+          schema
+        )
+      ).toEqual({
+        $and: [
+          { labels: { $in: ['a', 'b'] } },
+          { labels: { $all: ['a', 'b'] } },
+          { labels: { $nin: ['c'] } },
+        ],
+      })
+      expect(toMongoQuery(filter(['labels', 'isEmpty', '']), schema)).toEqual({
+        labels: { $in: [null, []] },
+      })
+      expect(
+        toMongoQuery(
+          filter(['labels', 'lengthEq', '2', { connector: 'OR' }], ['labels', 'lengthGt', '3']),
+          schema
+        )
+      ).toEqual({
+        $or: [
+          { labels: { $size: 2 } },
+          { $expr: { $gt: [{ $size: { $ifNull: ['$labels', []] } }, 3] } },
+        ],
+      })
+    })
+  })
+
+  describe('fromMongoQuery', () => {
+    it('should read back generated queries', () => {
+      const expressions = filter(
+        ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+        ['name', 'contains', 'a.b', { negated: true, closeGroups: 1 }],
+        ['price', 'between', '1 and 5'],
+        ['created', 'on', '2024-03-05']
+      )
+
+      expect(fromMongoQuery(toMongoQuery(expressions, schema), schema)).toEqual({
+        expressions,
+        errors: [],
+      })
+    })
+
+    it('should read implicit equality and implicit AND', () => {
+      expect(read({ status: 'open', 'customer.name': /^Ann/i, price: { $gt: 1, $lt: 9 } })).toEqual(
+        { text: 'status = open AND name startsWith Ann AND price > 1 AND price < 9', errors: [] }
+      )
+    })
+
+    it('should read $nin, $not and Extended JSON dates', () => {
+      expect(
+        read({
+          status: { $nin: ['open', 'closed'] },
+          price: { $not: { $gte: 3 } },
+          created: { $gt: { $date: '2024-01-01T00:00:00Z' } },
+        })
+      ).toEqual({
+        text: 'NOT status in [open, closed] AND NOT price ≥ 3 AND created after 2024-01-01',
+        errors: [],
+      })
+    })
+
+    it('should read regular expressions that are text matches', () => {
+      expect(
+        read({
+          $or: [
+            { 'customer.name': { $regex: 'a\\.b' } },
+            { 'customer.name': { $regex: 'z$' } },
+            { 'customer.name': { $regex: '^J.n.*$', $options: 'i' } },
+          ],
+        }).text
+      ).toBe('name contains a.b OR name endsWith z OR name like J_n%')
+    })
+
+    it('should report constructs it cannot represent and keep the rest', () => {
+      const { text, errors } = read({
+        $or: [
+          { status: 'open' },
+          { color: 'red' },
+          { price: { $exists: true } },
+          { 'customer.name': { $regex: '^(a|b)+$' } },
+          { $nor: [{ $or: [{ price: 1 }, { price: 2 }] }] },
+          { status: { $gt: 'a' } },
+        ],
+        $where: 'this.a > 1',
+      })
+
+      expect(text).toBe('status = open')
+      expect(errors).toEqual([
+        { message: 'Unknown field "color"', path: '$or[1].color' },
+        {
+          message: 'Unsupported operator "$exists" for field "price"',
+          path: '$or[2].price.$exists',
+        },
+        {
+          message: 'Regular expression cannot be represented as a text match',
+          path: '$or[3].customer.name.$regex',
+        },
+        { message: 'Only single conditions can be negated', path: '$or[4].$nor[0]' },
+        { message: 'Field "status" has no operator for "$gt"', path: '$or[5].status.$gt' },
+        { message: 'Unsupported operator "$where"', path: '$where' },
+      ])
+    })
+
+    it('should return no expressions for an empty document', () => {
+      expect(fromMongoQuery({}, schema)).toEqual({ expressions: [], errors: [] })
+    })
+  })
+})
@@ -0,0 +1,616 @@
+/**
+ * MongoDB Queries
+ *
+ * Converts filter expressions into MongoDB filter documents and reads filter
+ * documents back into expressions, so saved queries can be loaded into the
+ * filter box. Fields are stored at their schema `path` (the key by default).
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+  OperatorConfig,
+} from '@/types'
+import { fromExpressionTree, toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import { getListSeparator } from './queryLanguage'
+import { deserialize, FREEFORM_OPERATORS, type SerializedExpression } from './serialization'
+import { findField, flattenFields } from './fieldPaths'
+import {
+  DAY_MS,
+  escapeRegExp,
+  getDayRange,
+  getSingleValue,
+  likeToRegExp,
+  resolveCondition,
+  toDate,
+  toTypedValue,
+  unsupportedOperatorError,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A MongoDB filter document
+ */
+export type MongoQuery = Record<string, unknown>
+
+/**
+ * Context passed to custom MongoDB operator builders
+ */
+export interface MongoOperatorContext {
+  /** Document path of the field */
+  path: string
+  /** Value of the condition */
+  value: ConditionValue
+  /** Field config from the schema (undefined for freeform fields) */
+  field: FieldConfig | undefined
+}
+
+/**
+ * Builds the filter document for a custom operator
+ */
+export type MongoOperatorBuilder = (context: MongoOperatorContext) => MongoQuery
+
+/**
+ * Options for generating MongoDB queries
+ */
+export interface ToMongoQueryOptions extends QueryOptions {
+  /**
+   * Match `contains`, `startsWith`, `endsWith` and `like` case-sensitively
+   * @default false
+   */
+  caseSensitive?: boolean
+  /**
+   * Filter document builders for custom operators, by operator key. Also
+   * overrides the built-in query of an operator key.
+   */
+  operators?: Record<string, MongoOperatorBuilder>
+}
+
+/**
+ * A part of a MongoDB query that could not be read
+ */
+export interface MongoQueryError {
+  /** Error message */
+  message: string
+  /** Location of the part in the query, e.g. '$or[1].price' */
+  path: string
+}
+
+/**
+ * Result of reading a MongoDB query
+ */
+export interface FromMongoQueryResult {
+  /** Expressions for the parts of the query that could be read */
+  expressions: FilterExpression[]
+  /** Parts of the query that cannot be represented as expressions */
+  errors: MongoQueryError[]
+}
+
+/** Operator keys that each MongoDB comparison operator can be read as, in order of preference */
+const COMPARISON_OPERATORS: Record<string, string[]> = {
+  $eq: ['eq', 'is'],
+  $ne: ['neq'],
+  $gt: ['gt', 'after'],
+  $gte: ['gte'],
+  $lt: ['lt', 'before'],
+  $lte: ['lte'],
+  $in: ['in'],
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Convert a single value to the type stored for the field
+ */
+function toMongoValue(value: unknown, type: FieldType): unknown {
+  if (type === 'date' || type === 'datetime') return toDate(value) ?? value
+  return toTypedValue(value, type)
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Build the filter document for a built-in operator, or undefined for unknown operators
+ */
+function buildOperator(
+  operatorKey: string,
+  value: ConditionValue,
+  type: FieldType,
+  caseSensitive: boolean,
+  getValues: () => unknown[]
+): unknown {
+  const single = () => toMongoValue(getSingleValue(value), type)
+  const regex = (source: string) =>
+    caseSensitive ? { $regex: source } : { $regex: source, $options: 'i' }
+
+  switch (operatorKey) {
+    case 'eq':
+    case 'is':
+      return { $eq: single() }
+    case 'neq':
+      return { $ne: single() }
+    case 'gt':
+    case 'after':
+      return { $gt: single() }
+    case 'gte':
+      return { $gte: single() }
+    case 'lt':
+    case 'before':
+      return { $lt: single() }
+    case 'lte':
+      return { $lte: single() }
+    case 'on': {
+      // Dates and datetimes are on a day when they fall within it
+      const day = getDayRange(getSingleValue(value))
+      if (!day) return { $eq: single() }
+      return { $gte: day[0], $lt: day[1] }
+    }
+    case 'between': {
+      const [from, to] = getValues()
+      return { $gte: toMongoValue(from, type), $lte: toMongoValue(to, type) }
+    }
+    case 'in':
+      return { $in: getValues().map((v) => toMongoValue(v, type)) }
+    case 'contains':
+      return regex(escapeRegExp(String(getSingleValue(value))))
+    case 'startsWith':
+      return regex(`^${escapeRegExp(String(getSingleValue(value)))}`)
+    case 'endsWith':
+      return regex(`${escapeRegExp(String(getSingleValue(value)))}$`)
+    case 'like':
+      return regex(likeToRegExp(String(getSingleValue(value))).source)
+    case 'anyOf':
+      return { $in: getValues() }
+    case 'allOf':
+      return { $all: getValues() }
+    case 'noneOf':
+      return { $nin: getValues() }
+    case 'isEmpty':
+      // Missing, null and empty arrays
+      return { $in: [null, []] }
+    case 'lengthEq':
+      return { $size: toMongoValue(getSingleValue(value), 'number') }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Build the `$expr` query comparing the length of an array field
+ */
+function buildLengthComparison(
+  path: string,
+  operatorKey: string,
+  value: ConditionValue
+): MongoQuery {
+  const size = { $size: { $ifNull: [`$${path}`, []] } }
+  const comparison = operatorKey === 'lengthGt' ? '$gt' : '$lt'
+  return { $expr: { [comparison]: [size, toMongoValue(getSingleValue(value), 'number')] } }
+}
+
+/**
+ * Build the filter document for a single condition
+ */
+function buildCondition(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  options: ToMongoQueryOptions
+): MongoQuery {
+  const { field, operator } = condition
+  const { fieldConfig, operatorConfig, type, value } = resolveCondition(condition, schema, options)
+  const path = fieldConfig?.path ?? field.key
+
+  let query: MongoQuery
+  const custom = options.operators?.[operator.key]
+  if (custom) {
+    query = custom({ path, value, field: fieldConfig })
+  } else if (operator.key === 'lengthGt' || operator.key === 'lengthLt') {
+    query = buildLengthComparison(path, operator.key, value)
+  } else {
+    const spec = buildOperator(operator.key, value, type, options.caseSensitive ?? false, () =>
+      getValueList(value, operatorConfig)
+    )
+    if (spec === undefined) {
+      throw unsupportedOperatorError(condition, 'to query MongoDB with it')
+    }
+    query = { [path]: spec }
+  }
+
+  return condition.negated ? { $nor: [query] } : query
+}
+
+/**
+ * Build the filter document for a tree node
+ */
+function buildNode(
+  node: FilterNode,
+  schema: FilterSchema,
+  options: ToMongoQueryOptions
+): MongoQuery {
+  if (node.type === 'condition') {
+    return buildCondition(node.condition, schema, options)
+  }
+  const children = node.children.map((child) => buildNode(child, schema, options))
+  if (children.length === 0) return {}
+  if (children.length === 1) return children[0]
+  return { [node.connector === 'AND' ? '$and' : '$or']: children }
+}
+
+/**
+ * Convert filter expressions into a MongoDB filter document.
+ *
+ * Groups become `$and`/`$or`, negated conditions `$nor`, and text operators
+ * case-insensitive `$regex` matches with the value escaped. Values are converted
+ * to numbers, booleans and dates according to the field type. Custom operators
+ * are added through the `operators` option.
+ *
+ * @throws Error for unknown fields and operators without a MongoDB query
+ *
+ * @example
+ * ```ts
+ * const query = toMongoQuery(expressions, schema)
+ * const tickets = await collection.find(query).toArray()
+ * ```
+ */
+export function toMongoQuery(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: ToMongoQueryOptions = {}
+): MongoQuery {
+  return buildNode(toExpressionTree(expressions), schema, options)
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Whether a value is a plain object (not an array, date or regular expression)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof RegExp)
+  )
+}
+
+/**
+ * Read an Extended JSON date (`{ $date: ... }`) or a date as a Date
+ */
+function readDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value
+  if (isPlainObject(value) && '$date' in value) {
+    const date = new Date(value.$date as string | number)
+    return isNaN(date.getTime()) ? undefined : date
+  }
+  return undefined
+}
+
+/**
+ * Whether a regular expression source is a plain text match, with no syntax
+ * other than escaped characters
+ */
+function isLiteralRegExp(source: string): boolean {
+  return !/(^|[^\\])(\\\\)*[.*+?^${}()|[\]]/.test(source)
+}
+
+/**
+ * Remove the escapes from a literal regular expression source
+ */
+function unescapeRegExp(source: string): string {
+  return source.replace(/\\(.)/g, '$1')
+}
+
+/**
+ * Read a regular expression as a text operator and value
+ */
+function readRegExp(source: string): { operator: string; value: string } | undefined {
+  const anchoredStart = source.startsWith('^')
+  const anchoredEnd = source.endsWith('$') && !/(^|[^\\])(\\\\)*\\\$$/.test(source)
+  const inner = source.slice(anchoredStart ? 1 : 0, anchoredEnd ? -1 : undefined)
+
+  if (isLiteralRegExp(inner)) {
+    const value = unescapeRegExp(inner)
+    if (anchoredStart && anchoredEnd) {
+      // '%' and '_' would be wildcards in a LIKE pattern
+      return /[%_]/.test(value) ? undefined : { operator: 'like', value }
+    }
+    if (anchoredStart) return { operator: 'startsWith', value }
+    if (anchoredEnd) return { operator: 'endsWith', value }
+    return { operator: 'contains', value }
+  }
+
+  // Anchored patterns using only '.*' and '.' wildcards are LIKE patterns
+  if (anchoredStart && anchoredEnd) {
+    const parts = inner.split(/((?<!\\)\.\*|(?<!\\)\.)/)
+    const literal = parts.every((part, i) => i % 2 === 1 || isLiteralRegExp(part))
+    if (literal && !/[%_]/.test(unescapeRegExp(inner))) {
+      const value = parts
+        .map((part, i) => (i % 2 === 1 ? (part === '.*' ? '%' : '_') : unescapeRegExp(part)))
+        .join('')
+      return { operator: 'like', value }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Combine nodes into a group, or return a single node as it is
+ */
+function combineNodes(nodes: FilterNode[], connector: 'AND' | 'OR'): FilterNode | undefined {
+  if (nodes.length === 0) return undefined
+  if (nodes.length === 1) return nodes[0]
+  return { type: 'group', connector, children: nodes }
+}
+
+/**
+ * Format a stored value as text for a field, or undefined if it cannot be
+ */
+function formatMongoValue(value: unknown, field: FieldConfig): string | undefined {
+  const date = readDate(value)
+  if (date) {
+    return field.type === 'date' ? date.toISOString().slice(0, 10) : date.toISOString()
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+  return undefined
+}
+
+/**
+ * Read a MongoDB filter document back into filter expressions.
+ *
+ * Understands `$and`, `$or`, `$nor` and `$not` around single conditions,
+ * comparison operators, `$in`/`$nin`, inclusive ranges (as `between`), day
+ * ranges (as `on`) and `$regex` matches that are plain text matches. Fields are
+ * matched by their schema `path` or key. Parts of the query that cannot be
+ * represented are left out and reported in `errors` with their location.
+ *
+ * @example
+ * ```ts
+ * const { expressions, errors } = fromMongoQuery(savedQuery, schema)
+ * ```
+ */
+export function fromMongoQuery(query: MongoQuery, schema: FilterSchema): FromMongoQueryResult {
+  const errors: MongoQueryError[] = []
+
+  const addError = (message: string, path: string) => {
+    errors.push({ message, path })
+  }
+
+  const findOperator = (field: FieldConfig, key: string) =>
+    field.operators.find((op) => op.key === key)
+
+  const joinValues = (values: (string | undefined)[], operator: OperatorConfig) =>
+    values.join(getListSeparator(operator) ?? ', ')
+
+  /** Find the field stored at a document path */
+  const resolveField = (path: string): FieldConfig | undefined => {
+    const field =
+      flattenFields(schema).find((f) => (f.path ?? f.key) === path) ?? findField(schema, path)
+    if (field || !schema.allowFreeformFields) return field
+    const freeformConfig = schema.freeformFieldConfig ?? {}
+    return {
+      key: path,
+      label: path,
+      type: freeformConfig.type ?? 'string',
+      operators: freeformConfig.operators ?? FREEFORM_OPERATORS,
+    }
+  }
+
+  /** Create a condition through deserialization, so field deserializers apply */
+  const createCondition = (
+    field: FieldConfig,
+    operator: string,
+    value: string,
+    location: string
+  ): FilterNode | undefined => {
+    const item: SerializedExpression = { field: field.key, operator, value }
+    try {
+      const [expression] = deserialize([item], schema, { useSchemaDeserializer: false })
+      return { type: 'condition', condition: expression.condition }
+    } catch (error) {
+      addError(error instanceof Error ? error.message : String(error), location)
+      return undefined
+    }
+  }
+
+  /** Negate a node, which must be a single condition */
+  const negate = (node: FilterNode, location: string): FilterNode | undefined => {
+    if (node.type !== 'condition') {
+      addError('Only single conditions can be negated', location)
+      return undefined
+    }
+    const { negated, ...condition } = node.condition
+    return {
+      type: 'condition',
+      condition: negated ? condition : { ...condition, negated: true },
+    }
+  }
+
+  /** Read a `$regex` match as a text operator condition */
+  const readRegExpCondition = (
+    field: FieldConfig,
+    spec: unknown,
+    location: string
+  ): FilterNode | undefined => {
+    const source =
+      spec instanceof RegExp ? spec.source : typeof spec === 'string' ? spec : undefined
+    const match = source === undefined ? undefined : readRegExp(source)
+    if (!match) {
+      addError('Regular expression cannot be represented as a text match', location)
+      return undefined
+    }
+    if (!findOperator(field, match.operator)) {
+      addError(`Field "${field.key}" has no "${match.operator}" operator`, location)
+      return undefined
+    }
+    return createCondition(field, match.operator, match.value, location)
+  }
+
+  /** Read a comparison such as `$gt: 5` as a condition */
+  const readComparison = (
+    field: FieldConfig,
+    mongoOperator: string,
+    spec: unknown,
+    location: string
+  ): FilterNode | undefined => {
+    if (spec instanceof RegExp) {
+      return readRegExpCondition(field, spec, location)
+    }
+
+    const operator = COMPARISON_OPERATORS[mongoOperator]
+      .map((key) => findOperator(field, key))
+      .find((op) => op !== undefined)
+    if (!operator) {
+      addError(`Field "${field.key}" has no operator for "${mongoOperator}"`, location)
+      return undefined
+    }
+
+    const values = mongoOperator === '$in' ? spec : [spec]
+    if (!Array.isArray(values)) {
+      addError('Expected an array of values', location)
+      return undefined
+    }
+    const formatted = values.map((v) => formatMongoValue(v, field))
+    if (formatted.some((v) => v === undefined)) {
+      addError('Values must be strings, numbers, booleans or dates', location)
+      return undefined
+    }
+    return createCondition(field, operator.key, joinValues(formatted, operator), location)
+  }
+
+  /** Read the conditions on a field */
+  const readField = (path: string, spec: unknown, location: string): FilterNode[] => {
+    const field = resolveField(path)
+    if (!field) {
+      addError(`Unknown field "${path}"`, location)
+      return []
+    }
+
+    // Values without operators are equality matches
+    if (!isPlainObject(spec) || readDate(spec)) {
+      const node = readComparison(field, '$eq', spec, location)
+      return node ? [node] : []
+    }
+    const keys = Object.keys(spec)
+    if (!keys.every((key) => key.startsWith('$'))) {
+      addError('Embedded document matches are not supported', location)
+      return []
+    }
+
+    const nodes: FilterNode[] = []
+    const remaining = new Set(keys)
+    const take = (...taken: string[]) => {
+      if (!taken.every((key) => remaining.has(key))) return false
+      taken.forEach((key) => remaining.delete(key))
+      return true
+    }
+    const push = (node: FilterNode | undefined) => {
+      if (node) nodes.push(node)
+    }
+
+    // Whole (UTC) days are 'on' and inclusive ranges 'between'
+    const from = readDate(spec.$gte)
+    const to = readDate(spec.$lt)
+    if (
+      findOperator(field, 'on') &&
+      from &&
+      to &&
+      from.getTime() % DAY_MS === 0 &&
+      to.getTime() - from.getTime() === DAY_MS &&
+      take('$gte', '$lt')
+    ) {
+      push(createCondition(field, 'on', formatMongoValue(from, field)!, location))
+    }
+    const between = findOperator(field, 'between')
+    if (between && take('$gte', '$lte')) {
+      const values = [spec.$gte, spec.$lte].map((v) => formatMongoValue(v, field))
+      if (values.some((v) => v === undefined)) {
+        addError('Values must be strings, numbers, booleans or dates', location)
+      } else {
+        push(createCondition(field, 'between', joinValues(values, between), location))
+      }
+    }
+    if (take('$regex')) {
+      remaining.delete('$options')
+      push(readRegExpCondition(field, spec.$regex, `${location}.$regex`))
+    }
+
+    for (const key of remaining) {
+      const operatorLocation = `${location}.${key}`
+      if (key === '$not') {
+        const inner = readField(path, spec.$not, operatorLocation)
+        if (inner.length > 1) {
+          addError('Only single conditions can be negated', operatorLocation)
+        } else if (inner.length === 1) {
+          push(negate(inner[0], operatorLocation))
+        }
+      } else if (key === '$nin') {
+        const inner = readComparison(field, '$in', spec.$nin, operatorLocation)
+        push(inner && negate(inner, operatorLocation))
+      } else if (key in COMPARISON_OPERATORS) {
+        push(readComparison(field, key, spec[key], operatorLocation))
+      } else {
+        addError(`Unsupported operator "${key}" for field "${field.key}"`, operatorLocation)
+      }
+    }
+    return nodes
+  }
+
+  /** Read a filter document, whose entries are combined with AND */
+  const readDocument = (document: unknown, location: string): FilterNode | undefined => {
+    if (!isPlainObject(document)) {
+      addError('Expected a filter document', location)
+      return undefined
+    }
+
+    const nodes: FilterNode[] = []
+    for (const [key, spec] of Object.entries(document)) {
+      const entryLocation = location ? `${location}.${key}` : key
+      if (key === '$and' || key === '$or' || key === '$nor') {
+        if (!Array.isArray(spec)) {
+          addError('Expected an array of filter documents', entryLocation)
+          continue
+        }
+        const children = spec.flatMap((child, i) => {
+          const childLocation = `${entryLocation}[${i}]`
+          const node = readDocument(child, childLocation)
+          const result = key === '$nor' && node ? negate(node, childLocation) : node
+          return result ? [result] : []
+        })
+        if (key === '$nor') {
+          nodes.push(...children)
+        } else {
+          const node = combineNodes(children, key === '$and' ? 'AND' : 'OR')
+          if (node) nodes.push(node)
+        }
+      } else if (key.startsWith('$')) {
+        addError(`Unsupported operator "${key}"`, entryLocation)
+      } else {
+        nodes.push(...readField(key, spec, entryLocation))
+      }
+    }
+    return combineNodes(nodes, 'AND')
+  }
+
+  const root = readDocument(query, '')
+  return { expressions: root ? fromExpressionTree(root) : [], errors }
+}
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest'
+import { toODataFilter, fromODataFilter } from './odata'
+import { formatQuery } from './queryLanguage'
+import { ID_OPERATORS } from '@/types'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema(
+  { key: 'owner', label: 'Owner', type: 'id', operators: ID_OPERATORS },
+  { key: 'ticket', label: 'Ticket', type: 'id', idType: 'guid', operators: ID_OPERATORS },
+  { key: 'order', label: 'Order', type: 'id', idType: 'number', operators: ID_OPERATORS }
+)
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+const toOData = (...conditions: TestCondition[]) => toODataFilter(filter(...conditions), schema)
+
+/** Read an OData filter and format it as a text query */
+const read = (filter: string) => {
+  const { expressions, errors } = fromODataFilter(filter, schema)
+  return { text: formatQuery(expressions, schema), errors }
+}
+
+const GUID = '3f2504e0-4f89-11d3-9a0c-0305e82c3301'
+
+describe('odata', () => {
+  describe('toODataFilter', () => {
+    it('should type literals by field type', () => {
+      expect(toOData(['status', 'eq', 'open'], ['name', 'eq', "O'Brien"])).toBe(
+        "status eq 'open' and customer/name eq 'O''Brien'"
+      )
+      expect(toOData(['price', 'gte', '10.5'], ['active', 'is', 'true'])).toBe(
+        'price ge 10.5 and active eq true'
+      )
+      expect(
+        toOData(['created', 'after', '2024-01-01'], ['updated', 'before', '2024-01-01T10:00:00Z'])
+      ).toBe('created gt 2024-01-01 and updated lt 2024-01-01T10:00:00Z')
+      expect(
+        toOData(
+          ['ticket', 'eq', GUID, { connector: 'OR' }],
+          ['order', 'eq', '42', { connector: 'OR' }],
+          ['owner', 'eq', GUID, { connector: 'OR' }],
+          ['owner', 'eq', '42']
+        )
+      ).toBe(`ticket eq ${GUID} or order eq 42 or owner eq '${GUID}' or owner eq '42'`)
+      expect(toOData(['ticket', 'eq', 'abc', { connector: 'OR' }], ['order', 'eq', 'abc'])).toBe(
+        "ticket eq 'abc' or order eq 'abc'"
+      )
+    })
+
+    it('should quote values that are not valid for the field type', () => {
+      expect(toOData(['price', 'eq', 'abc'])).toBe("price eq 'abc'")
+    })
+
+    it('should map comparison operators', () => {
+      expect(
+        toOData(
+          ['price', 'neq', '1', { connector: 'OR' }],
+          ['price', 'gt', '1', { connector: 'OR' }],
+          ['price', 'lt', '1', { connector: 'OR' }],
+          ['price', 'lte', '1']
+        )
+      ).toBe('price ne 1 or price gt 1 or price lt 1 or price le 1')
+    })
+
+    it('should map string functions, lists and ranges', () => {
+      expect(
+        toOData(
+          ['name', 'contains', 'a'],
+          ['name', 'startsWith', 'b'],
+          ['name', 'endsWith', 'c'],
+          ['status', 'in', 'open, closed']
+        )
+      ).toBe(
+        "contains(customer/name, 'a') and startswith(customer/name, 'b') and " +
+          "endswith(customer/name, 'c') and status in ('open', 'closed')"
+      )
+      expect(
+        toOData(['price', 'between', '1 and 5', { connector: 'OR' }], ['price', 'eq', '9'])
+      ).toBe('(price ge 1 and price le 5) or price eq 9')
+    })
+
+    it('should compare days for on', () => {
+      expect(toOData(['created', 'on', '2024-01-01'], ['updated', 'on', '2024-01-01'])).toBe(
+        'created eq 2024-01-01 and date(updated) eq 2024-01-01'
+      )
+    })
+
+    it('should honor groups and negation', () => {
+      expect(
+        toOData(
+          ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+          ['name', 'contains', 'x', { negated: true, closeGroups: 1 }],
+          ['price', 'gt', '1']
+        )
+      ).toBe("(status eq 'open' or not (contains(customer/name, 'x'))) and price gt 1")
+    })
+
+    it('should return an empty string for no expressions', () => {
+      expect(toODataFilter([], schema)).toBe('')
+    })
+
+    it('should build custom operators and throw for operators without a filter', () => {
+      const expressions = filter(['name', 'like', 'a%'])
+
+      expect(() => toODataFilter(expressions, schema)).toThrow(
+        'Unsupported operator "like" for field "name"'
+      )
+      expect(
+        toODataFilter(expressions, schema, {
+          operators: {
+            like: ({ property, value, literal }) =>
+              `matchesPattern(${property}, ${literal(`^${String(value.raw).replace(/%/g, '.*')}`)})`,
+          },
+        })
+      ).toBe("matchesPattern(customer/name, '^a.*')")
+    })
+
+    it('should use lambda operators for array fields', () => {
+      expect(toOData(['labels', 'anyOf', 'a, b'])).toBe("labels/any(item: item in ('a', 'b'))")
+      expect(
+        toOData(['labels', 'allOf', 'a, b', { connector: 'OR' }], ['labels', 'isEmpty', ''])
+      ).toBe(
+        "(labels/any(item: item eq 'a') and labels/any(item: item eq 'b')) or not labels/any()"
+      )
+      expect(toOData(['labels', 'lengthGt', '2'])).toBe('labels/$count gt 2')
+    })
+
+    it('should match every collection for all of an empty list', () => {
+      expect(toOData(['labels', 'allOf', ''])).toBe('true')
+      expect(toOData(['labels', 'allOf', '', { negated: true }])).toBe('not (true)')
+    })
+  })
+
+  describe('fromODataFilter', () => {
+    it('should round-trip generated filters', () => {
+      const expressions = filter(
+        ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+        ['name', 'contains', "it's", { negated: true, closeGroups: 1 }],
+        ['price', 'between', '1 and 5'],
+        ['created', 'on', '2024-01-01'],
+        ['updated', 'on', '2024-02-01'],
+        ['owner', 'eq', GUID],
+        ['status', 'in', 'open, closed'],
+        ['active', 'is', 'false']
+      )
+
+      expect(fromODataFilter(toODataFilter(expressions, schema), schema)).toEqual({
+        expressions,
+        errors: [],
+      })
+    })
+
+    it('should round-trip ranges and values of every field type', () => {
+      const filters: TestCondition[][] = [
+        [
+          ['name', 'contains', 'a b', { connector: 'OR' }],
+          ['name', 'eq', 'x'],
+        ],
+        [['price', 'between', '1 and 5']],
+        [['created', 'between', '2024-01-01 and 2024-01-31']],
+        [['updated', 'between', '2024-01-01T00:00:00.000Z and 2024-01-02T12:00:00.000Z']],
+        [
+          ['created', 'between', '2024-01-01 and 2024-01-31', { negated: true, connector: 'OR' }],
+          ['price', 'eq', '1'],
+        ],
+        [
+          ['created', 'between', '2024-01-01 and 2024-01-31', { openGroups: 1, connector: 'OR' }],
+          ['price', 'eq', '1', { closeGroups: 1 }],
+          ['active', 'is', 'true'],
+        ],
+        [
+          ['status', 'in', 'open, closed'],
+          ['status', 'neq', 'open'],
+        ],
+        [
+          ['ticket', 'eq', GUID, { connector: 'OR' }],
+          ['order', 'eq', '42', { connector: 'OR' }],
+          ['owner', 'eq', 'abc'],
+        ],
+      ]
+      for (const conditions of filters) {
+        const expressions = filter(...conditions)
+        expect(fromODataFilter(toODataFilter(expressions, schema), schema)).toEqual({
+          expressions,
+          errors: [],
+        })
+      }
+    })
+
+    it('should only read ge and le as between on fields with that operator', () => {
+      expect(read('created ge 2024-01-01 and created le 2024-01-31').text).toBe(
+        'created between [2024-01-01, 2024-01-31]'
+      )
+      expect(read('price ge 1 and created le 2024-01-31')).toEqual({
+        text: 'price ≥ 1',
+        errors: [{ message: 'Field "created" has no operator for "le"', start: 15, end: 36 }],
+      })
+    })
+
+    it('should read comparisons, functions and case-insensitive wrappers', () => {
+      expect(
+        read("price Ge 5 and startswith(tolower(customer/name), 'ann') or status ne 'closed'")
+      ).toEqual({
+        text: 'price ≥ 5 AND name startsWith ann OR status ≠ closed',
+        errors: [],
+      })
+    })
+
+    it('should not combine ranges that are not a single group', () => {
+      expect(read('price ge 1 and price le 5 and price ne 3').text).toBe(
+        'price ≥ 1 AND price ≤ 5 AND price ≠ 3'
+      )
+    })
+
+    it('should report conditions that cannot be represented and keep the rest', () => {
+      const { text, errors } = read(
+        "color eq 'red' or status gt 'a' or not (price eq 1 or price eq 2) or price eq 3"
+      )
+
+      expect(text).toBe('price = 3')
+      expect(errors).toEqual([
+        { message: 'Unknown field "color"', start: 0, end: 14 },
+        { message: 'Field "status" has no operator for "gt"', start: 18, end: 31 },
+        { message: 'not can only be applied to a single condition', start: 35, end: 65 },
+      ])
+    })
+
+    it('should stop at syntax errors', () => {
+      expect(fromODataFilter("status eq 'open", schema)).toEqual({
+        expressions: [],
+        errors: [{ message: 'Unterminated string', start: 10, end: 15 }],
+      })
+      expect(fromODataFilter('price eq 1 price eq 2', schema).errors).toEqual([
+        { message: 'Expected "and" or "or" but found "price"', start: 11, end: 16 },
+      ])
+      expect(fromODataFilter('price eq', schema).errors).toEqual([
+        { message: 'Expected a value but found the end of the filter', start: 8, end: 8 },
+      ])
+      expect(fromODataFilter('price eq null', schema).errors).toEqual([
+        { message: 'null values are not supported', start: 9, end: 13 },
+      ])
+    })
+
+    it('should return no expressions for an empty filter', () => {
+      expect(fromODataFilter('  ', schema)).toEqual({ expressions: [], errors: [] })
+    })
+  })
+})
@@ -0,0 +1,631 @@
+/**
+ * OData Filters
+ *
+ * Converts filter expressions into OData `$filter` strings and parses them back.
+ * Literals are typed by field type: strings are quoted, while numbers, booleans,
+ * dates, and GUIDs and numbers of `id` fields (see `FieldConfig.idType`) are
+ * written bare. Fields are written at their
+ * schema `path` (the key by default) with dots as `/` property path separators.
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+  OperatorConfig,
+} from '@/types'
+import { fromExpressionTree, toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import { getListSeparator, type ParseQueryResult, type QueryParseError } from './queryLanguage'
+import { deserialize, FREEFORM_OPERATORS, type SerializedExpression } from './serialization'
+import { findField, flattenFields } from './fieldPaths'
+import {
+  formatDate,
+  getSingleValue,
+  resolveCondition,
+  unsupportedOperatorError,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Context passed to custom OData operator builders
+ */
+export interface ODataOperatorContext {
+  /** Property path of the field */
+  property: string
+  /** Value of the condition */
+  value: ConditionValue
+  /** Field config from the schema (undefined for freeform fields) */
+  field: FieldConfig | undefined
+  /** Format a value as a literal of the field type */
+  literal: (value: unknown) => string
+}
+
+/**
+ * Builds the filter for a custom operator
+ */
+export type ODataOperatorBuilder = (context: ODataOperatorContext) => string
+
+/**
+ * Options for generating OData filters
+ */
+export interface ToODataFilterOptions extends QueryOptions {
+  /**
+   * Filter builders for custom operators, by operator key. Also overrides the
+   * built-in filter of an operator key.
+   */
+  operators?: Record<string, ODataOperatorBuilder>
+}
+
+/** OData comparison operators by operator key */
+const COMPARISONS: Record<string, string> = {
+  eq: 'eq',
+  is: 'eq',
+  neq: 'ne',
+  gt: 'gt',
+  after: 'gt',
+  gte: 'ge',
+  lt: 'lt',
+  before: 'lt',
+  lte: 'le',
+}
+
+/** Operator keys that each OData comparison can be read as, in order of preference */
+const COMPARISON_OPERATORS: Record<string, string[]> = {
+  eq: ['eq', 'is'],
+  ne: ['neq'],
+  gt: ['gt', 'after'],
+  ge: ['gte'],
+  lt: ['lt', 'before'],
+  le: ['lte'],
+}
+
+/** OData string functions by operator key */
+const FUNCTIONS: Record<string, string> = {
+  contains: 'contains',
+  startsWith: 'startswith',
+  endsWith: 'endswith',
+}
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i
+
+// =============================================================================
+// Literals
+// =============================================================================
+
+/**
+ * Quote a string literal, doubling single quotes
+ */
+function quote(text: string): string {
+  return `'${text.replace(/'/g, "''")}'`
+}
+
+/**
+ * Format a value as an OData literal of a field type, with `id` values written
+ * as the literal of their `idType`.
+ *
+ * Values that are not valid for the type are written as strings.
+ */
+function toLiteral(value: unknown, type: FieldType, idType?: FieldConfig['idType']): string {
+  if (value instanceof Date) return formatDate(value, type)
+  const text = String(value)
+  switch (type) {
+    case 'number':
+      return NUMBER_PATTERN.test(text) ? text : quote(text)
+    case 'boolean':
+      return text === 'true' || text === 'false' ? text : quote(text)
+    case 'date':
+      return DATE_PATTERN.test(text) ? text : quote(text)
+    case 'datetime':
+      return DATETIME_PATTERN.test(text) ? text : quote(text)
+    case 'id':
+      if (idType === 'guid') return GUID_PATTERN.test(text) ? text : quote(text)
+      return idType === 'number' ? toLiteral(text, 'number') : quote(text)
+    default:
+      return quote(text)
+  }
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Build the filter for a built-in operator, or undefined for unknown operators
+ */
+function buildOperator(
+  property: string,
+  operatorKey: string,
+  value: ConditionValue,
+  type: FieldType,
+  literal: (value: unknown) => string,
+  getValues: () => unknown[]
+): string | undefined {
+  if (operatorKey in COMPARISONS) {
+    return `${property} ${COMPARISONS[operatorKey]} ${literal(getSingleValue(value))}`
+  }
+  if (operatorKey in FUNCTIONS) {
+    return `${FUNCTIONS[operatorKey]}(${property}, ${quote(String(getSingleValue(value)))})`
+  }
+  switch (operatorKey) {
+    case 'on': {
+      // Datetimes are on a date when their date part matches
+      const day = toLiteral(getSingleValue(value), 'date')
+      return type === 'datetime' ? `date(${property}) eq ${day}` : `${property} eq ${day}`
+    }
+    case 'between': {
+      const [from, to] = getValues()
+      return `${property} ge ${literal(from)} and ${property} le ${literal(to)}`
+    }
+    case 'in':
+      return `${property} in (${getValues().map(literal).join(', ')})`
+    // Array operators use lambda operators over the collection
+    case 'anyOf':
+      return `${property}/any(item: item in (${getValues().map(literal).join(', ')}))`
+    case 'allOf': {
+      const values = getValues()
+      // Every collection contains all of an empty list
+      if (values.length === 0) return 'true'
+      return values.map((v) => `${property}/any(item: item eq ${literal(v)})`).join(' and ')
+    }
+    case 'noneOf':
+      return `not ${property}/any(item: item in (${getValues().map(literal).join(', ')}))`
+    case 'isEmpty':
+      return `not ${property}/any()`
+    case 'lengthEq':
+      return `${property}/$count eq ${toLiteral(getSingleValue(value), 'number')}`
+    case 'lengthGt':
+      return `${property}/$count gt ${toLiteral(getSingleValue(value), 'number')}`
+    case 'lengthLt':
+      return `${property}/$count lt ${toLiteral(getSingleValue(value), 'number')}`
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Build the filter for a single condition
+ */
+function buildCondition(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  options: ToODataFilterOptions
+): { filter: string; compound: boolean } {
+  const { field, operator } = condition
+  const { fieldConfig, operatorConfig, type, value } = resolveCondition(condition, schema, options)
+  const property = (fieldConfig?.path ?? field.key).split('.').join('/')
+  const literal = (v: unknown) => toLiteral(v, type, fieldConfig?.idType)
+
+  const custom = options.operators?.[operator.key]
+  const filter = custom
+    ? custom({ property, value, field: fieldConfig, literal })
+    : buildOperator(property, operator.key, value, type, literal, () =>
+        getValueList(value, operatorConfig)
+      )
+  if (filter === undefined) {
+    throw unsupportedOperatorError(condition, 'to filter with OData')
+  }
+
+  // Ranges and custom filters may combine several comparisons
+  const compound = custom !== undefined || operator.key === 'between' || operator.key === 'allOf'
+  if (condition.negated) {
+    return { filter: `not (${filter})`, compound: false }
+  }
+  return { filter, compound }
+}
+
+/**
+ * Build the filter for a tree node
+ */
+function buildNode(
+  node: FilterNode,
+  schema: FilterSchema,
+  options: ToODataFilterOptions
+): { filter: string; compound: boolean } {
+  if (node.type === 'condition') {
+    return buildCondition(node.condition, schema, options)
+  }
+  const filter = node.children
+    .map((child) => {
+      const built = buildNode(child, schema, options)
+      return built.compound && node.children.length > 1 ? `(${built.filter})` : built.filter
+    })
+    .join(` ${node.connector.toLowerCase()} `)
+  return { filter, compound: node.children.length > 1 }
+}
+
+/**
+ * Convert filter expressions into an OData `$filter` string.
+ *
+ * Supports `eq`, `ne`, `gt`, `ge`, `lt`, `le`, `in`, the `contains`,
+ * `startswith` and `endswith` functions, `between` as a `ge`/`le` range and
+ * `on` as a date comparison, with groups and negation (`not`). Literals are
+ * typed by field type. An empty filter yields an empty string.
+ *
+ * @throws Error for unknown fields and operators without an OData filter
+ *
+ * @example
+ * ```ts
+ * const filter = toODataFilter(expressions, schema)
+ * // → "status eq 'open' and price ge 10"
+ * fetch(`/odata/Tickets?$filter=${encodeURIComponent(filter)}`)
+ * ```
+ */
+export function toODataFilter(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: ToODataFilterOptions = {}
+): string {
+  return buildNode(toExpressionTree(expressions), schema, options).filter
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * A lexical token of an OData filter
+ */
+interface ODataToken {
+  kind: 'word' | 'string' | 'lparen' | 'rparen' | 'comma'
+  /** Token text (unquoted for strings) */
+  text: string
+  start: number
+  end: number
+}
+
+/**
+ * Create a syntax error at a position, which stops parsing
+ */
+function syntaxError(message: string, start: number, end: number): Error & ODataSyntaxError {
+  return Object.assign(new Error(message), { start, end })
+}
+
+/**
+ * Position of a syntax error
+ */
+interface ODataSyntaxError {
+  start: number
+  end: number
+}
+
+/**
+ * Split an OData filter into tokens
+ */
+function tokenize(filter: string): ODataToken[] {
+  const tokens: ODataToken[] = []
+  let i = 0
+  while (i < filter.length) {
+    const char = filter[i]
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')' || char === ',') {
+      const kind = char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma'
+      tokens.push({ kind, text: char, start: i, end: i + 1 })
+      i++
+    } else if (char === "'") {
+      const start = i
+      let text = ''
+      i++
+      for (;;) {
+        if (i >= filter.length) {
+          throw syntaxError('Unterminated string', start, filter.length)
+        }
+        if (filter[i] === "'") {
+          if (filter[i + 1] !== "'") break
+          i++
+        }
+        text += filter[i]
+        i++
+      }
+      i++
+      tokens.push({ kind: 'string', text, start, end: i })
+    } else {
+      const start = i
+      while (i < filter.length && !/[\s(),']/.test(filter[i])) i++
+      tokens.push({ kind: 'word', text: filter.slice(start, i), start, end: i })
+    }
+  }
+  return tokens
+}
+
+/**
+ * Read an OData `$filter` string back into filter expressions.
+ *
+ * Understands the output of `toODataFilter`: comparisons, `in`, the string
+ * functions (also around `tolower`/`toupper`), `date()` comparisons, `and`/`or`
+ * with parentheses and `not` around single conditions. A `ge`/`le` pair on the
+ * same property is read as `between` when the field has that operator. Fields
+ * are matched by property path or key.
+ *
+ * Syntax errors stop parsing and return no expressions. Conditions that cannot
+ * be represented, such as unknown fields or operators the field does not have,
+ * are left out and reported with their position.
+ *
+ * @example
+ * ```ts
+ * const { expressions, errors } = fromODataFilter("status eq 'open' and price ge 10", schema)
+ * ```
+ */
+export function fromODataFilter(filter: string, schema: FilterSchema): ParseQueryResult {
+  const errors: QueryParseError[] = []
+  let tokens: ODataToken[]
+  try {
+    tokens = tokenize(filter)
+  } catch (error) {
+    const { message, start, end } = error as Error & ODataSyntaxError
+    return { expressions: [], errors: [{ message, start, end }] }
+  }
+  let position = 0
+
+  const peek = () => tokens[position]
+  const keyword = (token: ODataToken | undefined) =>
+    token?.kind === 'word' ? token.text.toLowerCase() : undefined
+  const fail = (message: string, token = peek()): never => {
+    const start = token?.start ?? filter.length
+    throw syntaxError(message, start, token?.end ?? start)
+  }
+  const describe = (token: ODataToken | undefined) =>
+    token
+      ? `"${token.kind === 'string' ? `'${token.text}'` : token.text}"`
+      : 'the end of the filter'
+  const expect = (kind: ODataToken['kind'], description: string): ODataToken => {
+    const token = peek()
+    if (token?.kind !== kind) fail(`Expected ${description} but found ${describe(token)}`)
+    position++
+    return token!
+  }
+
+  /** Find the field for a property path */
+  const resolveField = (property: string): FieldConfig | undefined => {
+    const path = property.split('/').join('.')
+    const field =
+      flattenFields(schema).find((f) => (f.path ?? f.key) === path) ?? findField(schema, path)
+    if (field || !schema.allowFreeformFields) return field
+    const freeformConfig = schema.freeformFieldConfig ?? {}
+    return {
+      key: path,
+      label: path,
+      type: freeformConfig.type ?? 'string',
+      operators: freeformConfig.operators ?? FREEFORM_OPERATORS,
+    }
+  }
+
+  /** Read a literal as text; null is not representable */
+  const readLiteral = (): string => {
+    const token = peek()
+    if (token?.kind === 'string') {
+      position++
+      return token.text
+    }
+    if (token?.kind === 'word' && !['and', 'or', 'not'].includes(keyword(token)!)) {
+      position++
+      if (keyword(token) === 'null') {
+        fail('null values are not supported', token)
+      }
+      return token.text
+    }
+    return fail(`Expected a value but found ${describe(token)}`)
+  }
+
+  /** Read a property, unwrapping tolower() and toupper() */
+  const readProperty = (): ODataToken => {
+    const token = expect('word', 'a property')
+    const name = token.text.toLowerCase()
+    if ((name === 'tolower' || name === 'toupper') && peek()?.kind === 'lparen') {
+      position++
+      const property = readProperty()
+      expect('rparen', '")"')
+      return property
+    }
+    return token
+  }
+
+  /** Create a condition for a field, reporting fields and operators that cannot be used */
+  const createCondition = (
+    property: ODataToken,
+    candidates: string[],
+    value: string,
+    end: number,
+    description: string
+  ): FilterNode | undefined => {
+    const field = resolveField(property.text)
+    const range = { start: property.start, end }
+    if (!field) {
+      errors.push({ message: `Unknown field "${property.text}"`, ...range })
+      return undefined
+    }
+    const operator = candidates
+      .map((key) => field.operators.find((op) => op.key === key))
+      .find((op): op is OperatorConfig => op !== undefined)
+    if (!operator) {
+      errors.push({ message: `Field "${field.key}" has no operator for ${description}`, ...range })
+      return undefined
+    }
+    const item: SerializedExpression = { field: field.key, operator: operator.key, value }
+    try {
+      const [expression] = deserialize([item], schema, { useSchemaDeserializer: false })
+      return { type: 'condition', condition: expression.condition }
+    } catch (error) {
+      errors.push({ message: error instanceof Error ? error.message : String(error), ...range })
+      return undefined
+    }
+  }
+
+  /** Read a condition: a comparison, `in` list or function call */
+  const readCondition = (): FilterNode | undefined => {
+    const token = peek()
+    const name = keyword(token)
+
+    // contains(Name, 'x'), startswith(...), endswith(...)
+    const functionKey = Object.keys(FUNCTIONS).find((key) => FUNCTIONS[key] === name)
+    if (functionKey && tokens[position + 1]?.kind === 'lparen') {
+      position += 2
+      const property = readProperty()
+      expect('comma', '","')
+      const value = readLiteral()
+      const end = expect('rparen', '")"').end
+      return createCondition(property, [functionKey], value, end, `"${name}"`)
+    }
+
+    // date(Created) eq 2024-01-01
+    if (name === 'date' && tokens[position + 1]?.kind === 'lparen') {
+      position += 2
+      const property = readProperty()
+      expect('rparen', '")"')
+      const operator = keyword(peek())
+      if (operator !== 'eq') fail(`Expected "eq" but found ${describe(peek())}`)
+      position++
+      const value = readLiteral()
+      return createCondition(property, ['on'], value, tokens[position - 1].end, '"date() eq"')
+    }
+
+    const property = readProperty()
+    const operator = keyword(peek())
+    if (operator === 'in') {
+      position++
+      expect('lparen', '"("')
+      const values = [readLiteral()]
+      while (peek()?.kind === 'comma') {
+        position++
+        values.push(readLiteral())
+      }
+      const end = expect('rparen', '")"').end
+      const field = resolveField(property.text)
+      const inOperator = field?.operators.find((op) => op.key === 'in')
+      const separator = (inOperator && getListSeparator(inOperator)) ?? ', '
+      return createCondition(property, ['in'], values.join(separator), end, '"in"')
+    }
+    if (operator === undefined || !(operator in COMPARISON_OPERATORS)) {
+      return fail(`Expected an operator but found ${describe(peek())}`)
+    }
+    position++
+    const value = readLiteral()
+    // Date fields compare whole days, so equality is 'on'
+    const candidates =
+      operator === 'eq' && resolveField(property.text)?.type === 'date'
+        ? [...COMPARISON_OPERATORS.eq, 'on']
+        : COMPARISON_OPERATORS[operator]
+    return createCondition(property, candidates, value, tokens[position - 1].end, `"${operator}"`)
+  }
+
+  /** Check whether a token is a literal that `readLiteral` accepts */
+  const isLiteral = (token: ODataToken | undefined) =>
+    token?.kind === 'string' ||
+    (token?.kind === 'word' && !['and', 'or', 'not', 'null'].includes(keyword(token)!))
+
+  /**
+   * Whether the next tokens are a `ge`/`le` pair on the same property that is a
+   * group of its own, as `toODataFilter` writes `between`, on a field with that
+   * operator. Fields such as dates have `between` but no `ge` or `le` operator.
+   */
+  const atRange = (): boolean => {
+    const [low, ge, from, and, high, le, to, next] = tokens.slice(position, position + 8)
+    if (
+      low?.kind !== 'word' ||
+      keyword(ge) !== 'ge' ||
+      !isLiteral(from) ||
+      keyword(and) !== 'and' ||
+      high?.kind !== 'word' ||
+      keyword(le) !== 'le' ||
+      !isLiteral(to) ||
+      keyword(next) === 'and'
+    ) {
+      return false
+    }
+    const field = resolveField(low.text)
+    return (
+      field !== undefined &&
+      field.operators.some((op) => op.key === 'between') &&
+      resolveField(high.text)?.key === field.key
+    )
+  }
+
+  /** Read a `ge`/`le` pair as `between` */
+  const readRange = (): FilterNode | undefined => {
+    const [low, , from, , , , to] = tokens.slice(position, position + 7)
+    position += 7
+    const between = resolveField(low.text)?.operators.find((op) => op.key === 'between')
+    const value = [from.text, to.text].join((between && getListSeparator(between)) ?? ', ')
+    return createCondition(low, ['between'], value, to.end, '"ge" and "le"')
+  }
+
+  const readOr = (): FilterNode | undefined => {
+    const nodes: FilterNode[] = []
+    const first = readAnd()
+    if (first) nodes.push(first)
+    while (keyword(peek()) === 'or') {
+      position++
+      const node = readAnd()
+      if (node) nodes.push(node)
+    }
+    if (nodes.length <= 1) return nodes[0]
+    return { type: 'group', connector: 'OR', children: nodes }
+  }
+
+  const readAnd = (): FilterNode | undefined => {
+    if (atRange()) return readRange()
+    const nodes: FilterNode[] = []
+    const first = readUnary()
+    if (first) nodes.push(first)
+    while (keyword(peek()) === 'and') {
+      position++
+      const node = readUnary()
+      if (node) nodes.push(node)
+    }
+    if (nodes.length <= 1) return nodes[0]
+    return { type: 'group', connector: 'AND', children: nodes }
+  }
+
+  const readUnary = (): FilterNode | undefined => {
+    const token = peek()
+    if (keyword(token) === 'not') {
+      position++
+      const node = readUnary()
+      if (!node) return undefined
+      if (node.type !== 'condition') {
+        errors.push({
+          message: 'not can only be applied to a single condition',
+          start: token.start,
+          end: tokens[position - 1].end,
+        })
+        return undefined
+      }
+      const { negated, ...condition } = node.condition
+      return {
+        type: 'condition',
+        condition: negated ? condition : { ...condition, negated: true },
+      }
+    }
+    if (token?.kind === 'lparen') {
+      position++
+      const node = readOr()
+      expect('rparen', '")"')
+      return node
+    }
+    return readCondition()
+  }
+
+  try {
+    if (tokens.length === 0) return { expressions: [], errors: [] }
+    const root = readOr()
+    if (position < tokens.length) {
+      fail(`Expected "and" or "or" but found ${describe(peek())}`)
+    }
+    return { expressions: root ? fromExpressionTree(root) : [], errors }
+  } catch (error) {
+    const { message, start, end } = error as Error & ODataSyntaxError
+    return { expressions: [], errors: [{ message, start, end }] }
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import { createOpenApiFilter, type OpenApiDocument } from './openApi'
+import { parseQuery } from './queryLanguage'
+import { validateExpressions } from './validation'
+import type { FilterSchema } from '@/types'
+
+const spec: OpenApiDocument = {
+  openapi: '3.0.3',
+  paths: {
+    '/orders': {
+      parameters: [
+        { name: 'tenant', in: 'header', schema: { type: 'string' } },
+        { name: 'q', in: 'query', description: 'Search text', schema: { type: 'string' } },
+      ],
+      get: {
+        operationId: 'listOrders',
+        parameters: [
+          { $ref: '#/components/parameters/Status' },
+          { name: 'minTotal', in: 'query', schema: { type: 'number', minimum: 0 } },
+          { name: 'since', in: 'query', schema: { type: 'string', format: 'date' } },
+          {
+            name: 'tags',
+            in: 'query',
+            style: 'pipeDelimited',
+            explode: false,
+            schema: { type: 'array', items: { type: 'string' } },
+          },
+          {
+            name: 'ids',
+            in: 'query',
+            explode: false,
+            schema: { type: 'array', items: { type: 'integer' } },
+          },
+          {
+            name: 'filter',
+            in: 'query',
+            style: 'deepObject',
+            explode: true,
+            schema: {
+              type: 'object',
+              properties: { region: { type: 'string' }, paid: { type: 'boolean' } },
+            },
+          },
+          { name: 'page', in: 'query', schema: { type: 'integer' } },
+        ],
+      },
+    },
+  },
+  components: {
+    parameters: {
+      Status: {
+        name: 'status',
+        in: 'query',
+        schema: { type: 'array', items: { $ref: '#/components/schemas/Status' } },
+      },
+    },
+    schemas: {
+      Status: { type: 'string', enum: ['open', 'closed'] },
+    },
+  },
+}
+
+/** Parse a text query, failing on errors */
+const parse = (text: string, schema: FilterSchema) => {
+  const { expressions, errors } = parseQuery(text, schema)
+  expect(errors).toEqual([])
+  return expressions
+}
+
+describe('createOpenApiFilter', () => {
+  it('should generate a field per query parameter', () => {
+    const { schema } = createOpenApiFilter(spec, 'listOrders', { exclude: ['page'] })
+
+    expect(
+      schema.fields.map(({ key, label, type, description, operators, allowMultiple }) => ({
+        key,
+        label,
+        type,
+        description,
+        operators: operators.map((op) => op.key),
+        allowMultiple,
+      }))
+    ).toEqual([
+      {
+        key: 'q',
+        label: 'Q',
+        type: 'string',
+        description: 'Search text',
+        operators: ['eq'],
+        allowMultiple: false,
+      },
+      ...[
+        ['status', 'Status', 'enum', ['in']],
+        ['minTotal', 'Min total', 'number', ['eq']],
+        ['since', 'Since', 'date', ['on']],
+        ['tags', 'Tags', 'string', ['in']],
+        ['ids', 'Ids', 'number', ['in']],
+        ['region', 'Region', 'string', ['eq']],
+        ['paid', 'Paid', 'boolean', ['is']],
+      ].map(([key, label, type, operators]) => ({
+        key,
+        label,
+        type,
+        description: undefined,
+        operators,
+        allowMultiple: false,
+      })),
+    ])
+    expect(schema.connectors).toEqual([{ key: 'AND', label: 'AND' }])
+    expect(schema.fields[1].valueAutocompleter).toBeDefined()
+  })
+
+  it('should find operations by path and method', () => {
+    const { schema } = createOpenApiFilter(spec, { path: '/orders', method: 'GET' })
+    expect(schema.fields.map((field) => field.key)).toContain('page')
+  })
+
+  it('should write query parameters in declaration order with their styles', () => {
+    const { schema, toQueryParams } = createOpenApiFilter(spec, 'listOrders')
+    const query = (text: string) => toQueryParams(parse(text, schema))
+
+    expect(
+      query(
+        'paid is true AND tags in ["a b", c] AND status in [open, closed] AND q = "x&y" AND ' +
+          'ids in [1, 2] AND region = EU AND since on 2024-01-31'
+      )
+    ).toBe(
+      'q=x%26y&status=open&status=closed&since=2024-01-31&tags=a%20b|c&ids=1,2&' +
+        'filter[region]=EU&filter[paid]=true'
+    )
+    expect(toQueryParams([])).toBe('')
+  })
+
+  it('should validate values with the parameter schema', () => {
+    const { schema } = createOpenApiFilter(spec, 'listOrders')
+    const errors = validateExpressions(parse('minTotal = -1', schema), schema).errors
+
+    expect(errors.map((error) => error.message)).toEqual(['Value must be at least 0'])
+  })
+
+  it('should throw for expressions that query parameters cannot represent', () => {
+    const { schema, toQueryParams } = createOpenApiFilter(spec, 'listOrders')
+    const openSchema: FilterSchema = { ...schema, connectors: undefined }
+
+    expect(() => toQueryParams(parse('q = a OR q = b', openSchema))).toThrow(
+      'Query parameters can only combine conditions with AND'
+    )
+    expect(() => toQueryParams(parse('NOT q = a', schema))).toThrow(
+      'Negated condition on field "q" cannot be a query parameter'
+    )
+    expect(() => toQueryParams(parse('q = a AND q = b', schema))).toThrow(
+      'Field "q" can only be used once'
+    )
+  })
+
+  it('should throw for unknown operations', () => {
+    expect(() => createOpenApiFilter(spec, 'deleteOrder')).toThrow(
+      'Operation "deleteOrder" not found'
+    )
+    expect(() => createOpenApiFilter(spec, { path: '/orders', method: 'post' })).toThrow(
+      'Operation "POST /orders" not found'
+    )
+  })
+})
@@ -0,0 +1,350 @@
+/**
+ * OpenAPI Query Parameters
+ *
+ * Builds a filter schema from the query parameters of an OpenAPI 3 operation,
+ * together with a serializer that writes expressions as the exact query
+ * parameters the operation expects, honoring each parameter's `style` and
+ * `explode`. Each parameter (or property of an object parameter) becomes a
+ * field that can be used once; query parameters are always combined with AND.
+ */
+
+import type {
+  FieldConfig,
+  FieldType,
+  FilterExpression,
+  FilterSchema,
+  OperatorConfig,
+} from '@/types'
+import { getDefaultOperators } from '@/types'
+import { getValueList } from './evaluation'
+import { fieldFromJsonSchema, resolveRef, type JsonSchema } from './jsonSchema'
+import { formatDate, getSingleValue } from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An OpenAPI 3 parameter
+ */
+export interface OpenApiParameter {
+  name: string
+  in: string
+  description?: string
+  required?: boolean
+  schema?: JsonSchema
+  /** 'form' (default), 'spaceDelimited', 'pipeDelimited' or 'deepObject' */
+  style?: string
+  /** Whether arrays and objects are written as separate parameters (default: true for 'form') */
+  explode?: boolean
+  $ref?: string
+}
+
+/**
+ * An OpenAPI 3 operation
+ */
+export interface OpenApiOperation {
+  operationId?: string
+  parameters?: OpenApiParameter[]
+  [keyword: string]: unknown
+}
+
+/**
+ * The subset of an OpenAPI 3 document used to read query parameters
+ */
+export interface OpenApiDocument {
+  paths?: Record<string, Record<string, unknown>>
+  components?: Record<string, unknown>
+  [keyword: string]: unknown
+}
+
+/**
+ * Options for building a filter from an OpenAPI operation
+ */
+export interface CreateOpenApiFilterOptions {
+  /** Query parameter names to leave out, e.g. paging parameters */
+  exclude?: string[]
+  /**
+   * Adjust the generated field for a parameter, or return undefined to leave
+   * it out
+   */
+  customize?: (field: FieldConfig, parameter: OpenApiParameter) => FieldConfig | undefined
+}
+
+/**
+ * A filter schema with the serializer for its operation's query parameters
+ */
+export interface OpenApiFilter {
+  /** Schema with a field per query parameter */
+  schema: FilterSchema
+  /**
+   * Write expressions as the operation's query string (without a leading '?').
+   * Throws for expressions that query parameters cannot represent: OR,
+   * groups, negation or a field used twice.
+   */
+  toQueryParams: (expressions: FilterExpression[]) => string
+}
+
+/**
+ * Where a field is written in the query string
+ */
+interface FieldTarget {
+  parameter: OpenApiParameter
+  /** Property of an object parameter */
+  property?: string
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+
+/** Operator for array parameters */
+const LIST_OPERATOR: OperatorConfig = {
+  key: 'in',
+  label: 'in',
+  multiValue: { count: -1, separator: ',', labels: [] },
+}
+
+// =============================================================================
+// Schema Generation
+// =============================================================================
+
+/**
+ * Find an operation by operationId or by path and method, returning it with
+ * the parameters of its path item
+ */
+function findOperation(
+  document: OpenApiDocument,
+  operation: string | { path: string; method: string }
+): { operation: OpenApiOperation; pathParameters: OpenApiParameter[] } {
+  for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const candidate = pathItem[method] as OpenApiOperation | undefined
+      if (!candidate) continue
+      const matches =
+        typeof operation === 'string'
+          ? candidate.operationId === operation
+          : path === operation.path && method === operation.method.toLowerCase()
+      if (matches) {
+        return {
+          operation: candidate,
+          pathParameters: (pathItem.parameters as OpenApiParameter[] | undefined) ?? [],
+        }
+      }
+    }
+  }
+  const name =
+    typeof operation === 'string'
+      ? operation
+      : `${operation.method.toUpperCase()} ${operation.path}`
+  throw new Error(`Operation "${name}" not found`)
+}
+
+/**
+ * Get the query parameters of an operation. Operation parameters override path
+ * item parameters with the same name.
+ */
+function getQueryParameters(
+  document: OpenApiDocument,
+  operation: OpenApiOperation,
+  pathParameters: OpenApiParameter[]
+): OpenApiParameter[] {
+  const parameters = new Map<string, OpenApiParameter>()
+  for (const parameter of [...pathParameters, ...(operation.parameters ?? [])]) {
+    const resolved = resolveRef(parameter, document)
+    if (resolved.in === 'query') parameters.set(resolved.name, resolved)
+  }
+  return [...parameters.values()]
+}
+
+/**
+ * Get the operator that compares a value for equality
+ */
+function getEqualityOperator(type: FieldType): OperatorConfig {
+  return (
+    getDefaultOperators(type).find((op) => ['eq', 'is', 'on'].includes(op.key)) ??
+    getDefaultOperators('string')[0]
+  )
+}
+
+/**
+ * Create the fields for a query parameter with the targets they are written to
+ */
+function createFields(
+  parameter: OpenApiParameter,
+  document: OpenApiDocument
+): { field: FieldConfig; target: FieldTarget }[] {
+  const schema = resolveRef(parameter.schema ?? { type: 'string' }, document)
+
+  if (schema.type === 'object' && schema.properties) {
+    return Object.entries(schema.properties).flatMap(([property, propertySchema]) => {
+      const field = fieldFromJsonSchema(property, propertySchema, document)
+      if (!field) return []
+      field.operators = [getEqualityOperator(field.type)]
+      field.allowMultiple = false
+      return [{ field, target: { parameter, property } }]
+    })
+  }
+
+  const isArray = schema.type === 'array'
+  const field = fieldFromJsonSchema(
+    parameter.name,
+    isArray ? ((schema.items as JsonSchema | undefined) ?? { type: 'string' }) : schema,
+    document
+  )
+  if (!field) return []
+  field.operators = [isArray ? LIST_OPERATOR : getEqualityOperator(field.type)]
+  field.allowMultiple = false
+  if (isArray && schema.title !== undefined) field.label = schema.title
+  if (parameter.description !== undefined) field.description = parameter.description
+  return [{ field, target: { parameter } }]
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Format a single value as query parameter text
+ */
+function formatValue(value: unknown, type: FieldType): string {
+  return value instanceof Date ? formatDate(value, type) : String(value)
+}
+
+/**
+ * Write the values of a parameter according to its style and explode settings
+ */
+function writeParameter(
+  parameter: OpenApiParameter,
+  values: string[] | Record<string, string>
+): string[] {
+  const style = parameter.style ?? 'form'
+  const explode = parameter.explode ?? style === 'form'
+  const name = encodeURIComponent(parameter.name)
+  const encode = encodeURIComponent
+
+  if (Array.isArray(values)) {
+    if (values.length === 1 || (style === 'form' && !explode)) {
+      return [`${name}=${values.map(encode).join(',')}`]
+    }
+    if (style === 'form') return values.map((v) => `${name}=${encode(v)}`)
+    if (style === 'spaceDelimited') return [`${name}=${values.map(encode).join('%20')}`]
+    if (style === 'pipeDelimited') return [`${name}=${values.map(encode).join('|')}`]
+    throw new Error(`Unsupported style "${style}" for array parameter "${parameter.name}"`)
+  }
+
+  const entries = Object.entries(values)
+  if (style === 'deepObject') {
+    return entries.map(([key, v]) => `${name}[${encode(key)}]=${encode(v)}`)
+  }
+  if (style === 'form' && explode) {
+    return entries.map(([key, v]) => `${encode(key)}=${encode(v)}`)
+  }
+  if (style === 'form') {
+    return [`${name}=${entries.flatMap(([key, v]) => [encode(key), encode(v)]).join(',')}`]
+  }
+  throw new Error(`Unsupported style "${style}" for object parameter "${parameter.name}"`)
+}
+
+/**
+ * Build a filter schema from the query parameters of an OpenAPI 3 operation,
+ * with a serializer that writes expressions as those query parameters.
+ *
+ * The operation is found by `operationId` or by path and method. Parameters
+ * (also `$ref`s to `components.parameters`) become fields with their schema's
+ * type, enum values and number validation, as `schemaFromJsonSchema` would
+ * generate them, and their description. Scalar parameters get an equality
+ * operator and array parameters an `in` operator. The properties of object
+ * parameters (`deepObject` or `form` style) become separate fields.
+ *
+ * The serializer writes `form` (exploded or comma-separated),
+ * `spaceDelimited`, `pipeDelimited` and `deepObject` parameters in the order
+ * the operation declares them.
+ *
+ * @throws Error if the operation cannot be found
+ *
+ * @example
+ * ```ts
+ * const { schema, toQueryParams } = createOpenApiFilter(spec, 'listOrders', {
+ *   exclude: ['page', 'pageSize'],
+ * })
+ * toQueryParams(expressions)
+ * // → 'status=open&status=closed&minTotal=10'
+ * ```
+ */
+export function createOpenApiFilter(
+  document: OpenApiDocument,
+  operation: string | { path: string; method: string },
+  options: CreateOpenApiFilterOptions = {}
+): OpenApiFilter {
+  const found = findOperation(document, operation)
+  const parameters = getQueryParameters(document, found.operation, found.pathParameters).filter(
+    (parameter) => !options.exclude?.includes(parameter.name)
+  )
+
+  const fields: FieldConfig[] = []
+  const targets = new Map<string, FieldTarget>()
+  for (const parameter of parameters) {
+    for (const { field, target } of createFields(parameter, document)) {
+      const customized = options.customize ? options.customize(field, parameter) : field
+      if (!customized) continue
+      fields.push(customized)
+      targets.set(customized.key, target)
+    }
+  }
+  const schema: FilterSchema = { fields, connectors: [{ key: 'AND', label: 'AND' }] }
+
+  const toQueryParams = (expressions: FilterExpression[]): string => {
+    const fieldValues = new Map<string, string[]>()
+
+    expressions.forEach((expr, index) => {
+      const { field, operator, value, negated } = expr.condition
+      if (index < expressions.length - 1 && expr.connector === 'OR') {
+        throw new Error('Query parameters can only combine conditions with AND')
+      }
+      if (expr.openGroups || expr.closeGroups) {
+        throw new Error('Query parameters cannot be grouped')
+      }
+      if (negated) {
+        throw new Error(`Negated condition on field "${field.key}" cannot be a query parameter`)
+      }
+      const fieldConfig = fields.find((f) => f.key === field.key)
+      if (!fieldConfig) {
+        throw new Error(`Unknown field "${field.key}"`)
+      }
+      if (fieldValues.has(field.key)) {
+        throw new Error(`Field "${field.key}" can only be used once`)
+      }
+
+      const operatorConfig = fieldConfig.operators.find((op) => op.key === operator.key)
+      const type = operatorConfig?.valueType ?? fieldConfig.type
+      fieldValues.set(
+        field.key,
+        operatorConfig?.multiValue
+          ? getValueList(value, operatorConfig).map((v) => formatValue(v, type))
+          : [formatValue(getSingleValue(value), type)]
+      )
+    })
+
+    // Collect the values per parameter, with object properties in declaration order
+    const values = new Map<OpenApiParameter, string[] | Record<string, string>>()
+    for (const { key } of fields) {
+      const texts = fieldValues.get(key)
+      const target = targets.get(key)
+      if (!texts || !target) continue
+      if (target.property === undefined) {
+        values.set(target.parameter, texts)
+      } else {
+        const properties = (values.get(target.parameter) as Record<string, string>) ?? {}
+        values.set(target.parameter, { ...properties, [target.property]: texts.join(',') })
+      }
+    }
+
+    return parameters
+      .flatMap((parameter) => {
+        const parameterValues = values.get(parameter)
+        return parameterValues ? writeParameter(parameter, parameterValues) : []
+      })
+      .join('&')
+  }
+
+  return { schema, toQueryParams }
+}
@@ -0,0 +1,385 @@
+import { describe, it, expect } from 'vitest'
+import { parseQuery, formatQuery, highlightQuery, getQueryCompletion } from './queryLanguage'
+import type { FilterExpression, FilterSchema } from '@/types'
+import {
+  STRING_OPERATORS,
+  NUMBER_OPERATORS,
+  DATE_OPERATORS,
+  ENUM_OPERATORS,
+  ARRAY_OPERATORS,
+} from '@/types'
+
+const schema: FilterSchema = {
+  fields: [
+    { key: 'status', label: 'Status', type: 'enum', operators: ENUM_OPERATORS },
+    { key: 'name', label: 'Name', type: 'string', operators: STRING_OPERATORS },
+    { key: 'price', label: 'Price', type: 'number', operators: NUMBER_OPERATORS },
+    { key: 'created', label: 'Created At', type: 'date', operators: DATE_OPERATORS },
+  ],
+}
+
+const parse = (text: string) => parseQuery(text, schema)
+
+/** Summarize parsed expressions as [field, operator, serialized value] */
+const summarize = (expressions: FilterExpression[]) =>
+  expressions.map(({ condition }) => [
+    condition.field.key,
+    condition.operator.key,
+    condition.value.serialized,
+  ])
+
+describe('queryLanguage', () => {
+  describe('parseQuery', () => {
+    it('should parse conditions joined by connectors', () => {
+      const { expressions, errors } = parse('status = open AND created after 2024-01-01')
+
+      expect(errors).toEqual([])
+      expect(summarize(expressions)).toEqual([
+        ['status', 'eq', 'open'],
+        ['created', 'after', '2024-01-01'],
+      ])
+      expect(expressions[0].connector).toBe('AND')
+      expect(expressions[1].connector).toBeUndefined()
+      expect(expressions[0].condition.field.label).toBe('Status')
+      expect(expressions[0].condition.operator).toEqual({ key: 'eq', label: 'is', symbol: '=' })
+    })
+
+    it('should return no expressions for empty text', () => {
+      expect(parse('   ')).toEqual({ expressions: [], errors: [] })
+    })
+
+    it('should match fields by label and operators by key, label or ASCII symbol', () => {
+      const { expressions, errors } = parse(
+        '"created at" before 2024-01-01 or Status is not open and price >= 10 and name startsWith a'
+      )
+
+      expect(errors).toEqual([])
+      expect(summarize(expressions)).toEqual([
+        ['created', 'before', '2024-01-01'],
+        ['status', 'neq', 'open'],
+        ['price', 'gte', '10'],
+        ['name', 'startsWith', 'a'],
+      ])
+      expect(expressions.map((e) => e.connector)).toEqual(['OR', 'AND', 'AND', undefined])
+    })
+
+    it('should read quoted strings with escapes', () => {
+      const { expressions } = parse('name = "say \\"hi\\" AND bye"')
+      expect(expressions[0].condition.value.serialized).toBe('say "hi" AND bye')
+    })
+
+    it('should parse groups and negation', () => {
+      const { expressions, errors } = parse('(status = open OR NOT name contains x) AND price > 3')
+
+      expect(errors).toEqual([])
+      expect(expressions[0].openGroups).toBe(1)
+      expect(expressions[1].closeGroups).toBe(1)
+      expect(expressions[1].condition.negated).toBe(true)
+      expect(expressions[0].condition.negated).toBeUndefined()
+    })
+
+    it('should join lists with the operator separator', () => {
+      const { expressions, errors } = parse(
+        'price between [10, 20] AND status in [open, "on hold"]'
+      )
+
+      expect(errors).toEqual([])
+      expect(summarize(expressions)).toEqual([
+        ['price', 'between', '10 and 20'],
+        ['status', 'in', 'open, on hold'],
+      ])
+    })
+
+    it('should use field deserializers', () => {
+      const withDeserializer: FilterSchema = {
+        fields: [
+          {
+            key: 'price',
+            label: 'Price',
+            type: 'number',
+            operators: NUMBER_OPERATORS,
+            deserialize: (value) => ({
+              raw: Number(value),
+              display: `$${value}`,
+              serialized: String(value),
+            }),
+          },
+        ],
+      }
+
+      const { expressions } = parseQuery('price > 5', withDeserializer)
+      expect(expressions[0].condition.value).toEqual({ raw: 5, display: '$5', serialized: '5' })
+    })
+
+    it('should accept freeform fields when enabled', () => {
+      const freeform: FilterSchema = { ...schema, allowFreeformFields: true }
+      const { expressions, errors } = parseQuery('team contains core', freeform)
+
+      expect(errors).toEqual([])
+      expect(summarize(expressions)).toEqual([['team', 'contains', 'core']])
+    })
+
+    describe('errors', () => {
+      it('should report unknown fields with their position and keep valid conditions', () => {
+        const text = 'color = red AND status = open'
+        const { expressions, errors } = parse(text)
+
+        expect(errors).toEqual([{ message: 'Unknown field "color"', start: 0, end: 5 }])
+        expect(summarize(expressions)).toEqual([['status', 'eq', 'open']])
+        expect(expressions[0].connector).toBeUndefined()
+      })
+
+      it('should report unknown operators', () => {
+        const { errors } = parse('price ~ 5')
+        expect(errors).toEqual([
+          { message: 'Unknown operator "~" for field "price"', start: 6, end: 7 },
+        ])
+      })
+
+      it('should report missing values and trailing connectors at the end of the text', () => {
+        expect(parse('price >').errors).toEqual([
+          { message: 'Expected a value but found the end of the query', start: 7, end: 7 },
+        ])
+        expect(parse('price > 5 AND').errors).toEqual([
+          { message: 'Expected a condition after AND', start: 13, end: 13 },
+        ])
+      })
+
+      it('should assume AND when a connector is missing', () => {
+        const { expressions, errors } = parse('price > 5 status = open')
+
+        expect(errors).toEqual([
+          { message: 'Expected AND or OR but found "status"', start: 10, end: 16 },
+        ])
+        expect(expressions).toHaveLength(2)
+        expect(expressions[0].connector).toBe('AND')
+      })
+
+      it('should skip stray connectors', () => {
+        const { expressions, errors } = parse('AND price > 5 OR OR price < 1')
+
+        expect(errors).toEqual([
+          { message: 'Expected a field but found "AND"', start: 0, end: 3 },
+          { message: 'Expected a field but found "OR"', start: 17, end: 19 },
+        ])
+        expect(summarize(expressions)).toEqual([
+          ['price', 'gt', '5'],
+          ['price', 'lt', '1'],
+        ])
+        expect(expressions[0].connector).toBe('OR')
+      })
+
+      it('should report unbalanced parentheses', () => {
+        expect(parse('(price > 5 OR price < 1').errors).toEqual([
+          { message: 'Unclosed "("', start: 0, end: 1 },
+        ])
+        expect(parse('price > 5)').errors).toEqual([
+          { message: 'Unmatched ")"', start: 9, end: 10 },
+        ])
+      })
+
+      it('should report unterminated strings', () => {
+        expect(parse('name = "abc').errors).toEqual([
+          { message: 'Unterminated string', start: 7, end: 11 },
+        ])
+      })
+
+      it('should reject NOT before a group and lists for single-value operators', () => {
+        expect(parse('NOT (price > 5)').errors[0].message).toBe(
+          'NOT can only be applied to a single condition'
+        )
+        expect(parse('name = [a, b]').errors[0].message).toBe(
+          'Operator "eq" does not accept a list of values'
+        )
+      })
+    })
+  })
+
+  describe('highlightQuery', () => {
+    it('should assign a role to every token', () => {
+      const text = '(NOT status = open) OR price between [1, 2]'
+      const roles = highlightQuery(text, schema).map(({ role, start, end }) => [
+        role,
+        text.slice(start, end),
+      ])
+
+      expect(roles).toEqual([
+        ['group', '('],
+        ['negation', 'NOT'],
+        ['field', 'status'],
+        ['operator', '='],
+        ['value', 'open'],
+        ['group', ')'],
+        ['connector', 'OR'],
+        ['field', 'price'],
+        ['operator', 'between'],
+        ['punctuation', '['],
+        ['value', '1'],
+        ['punctuation', ','],
+        ['value', '2'],
+        ['punctuation', ']'],
+      ])
+    })
+
+    it('should mark tokens skipped after an error as unknown', () => {
+      const roles = highlightQuery('color = red', schema).map((segment) => segment.role)
+      expect(roles).toEqual(['unknown', 'unknown', 'unknown'])
+    })
+  })
+
+  describe('getQueryCompletion', () => {
+    const complete = (text: string, cursor = text.length) =>
+      getQueryCompletion(text, cursor, schema)
+
+    it('should expect a field at the start and after a connector', () => {
+      expect(complete('')).toMatchObject({ kind: 'field', partial: '', start: 0 })
+      expect(complete('price > 5 AND na')).toMatchObject({
+        kind: 'field',
+        partial: 'na',
+        start: 14,
+      })
+    })
+
+    it('should expect an operator after a field', () => {
+      const completion = complete('price >')
+      expect(completion).toMatchObject({ kind: 'operator', partial: '>', start: 6 })
+      expect(completion.kind === 'operator' && completion.field.key).toBe('price')
+    })
+
+    it('should expect a value after an operator, including inside quotes', () => {
+      const completion = complete('price > 5 AND name = "ali')
+      expect(completion).toMatchObject({ kind: 'value', partial: 'ali', start: 21 })
+      expect(completion.kind === 'value' && completion.operator.key).toBe('eq')
+      expect(summarize(completion.existingExpressions)).toEqual([['price', 'gt', '5']])
+    })
+
+    it('should expect a connector after a condition and track open groups', () => {
+      expect(complete('(price > 5 ')).toMatchObject({ kind: 'connector', openGroups: 1 })
+    })
+
+    it('should only consider text before the cursor', () => {
+      expect(complete('price > 5', 6)).toMatchObject({ kind: 'operator', partial: '' })
+    })
+
+    it('should complete in the middle of a query from the analysis of the whole text', () => {
+      const text = '(price > 5 OR name = a) AND status = open'
+
+      expect(complete(text, text.indexOf('OR'))).toMatchObject({
+        kind: 'connector',
+        openGroups: 1,
+      })
+      const completion = complete(text, text.indexOf(')') + 2)
+      expect(completion).toMatchObject({ kind: 'connector', openGroups: 0 })
+      expect(summarize(completion.existingExpressions)).toEqual([
+        ['price', 'gt', '5'],
+        ['name', 'eq', 'a'],
+      ])
+      expect(complete(text, text.indexOf('open') + 2)).toMatchObject({
+        kind: 'value',
+        partial: 'op',
+        start: text.indexOf('open'),
+      })
+    })
+  })
+
+  describe('formatQuery', () => {
+    it('should format expressions with symbols, connectors, groups and negation', () => {
+      const { expressions } = parse(
+        '(Status is open OR not Name contains x) and "Created At" after 2024-01-01'
+      )
+
+      expect(formatQuery(expressions, schema)).toBe(
+        '(status = open OR NOT name contains x) AND created after 2024-01-01'
+      )
+    })
+
+    it('should quote values that are not plain words', () => {
+      const { expressions } = parse('name = "a b" OR name = "and" OR name = "x=1" OR name = ""')
+
+      expect(formatQuery(expressions, schema)).toBe(
+        'name = "a b" OR name = "and" OR name = "x=1" OR name = ""'
+      )
+    })
+
+    it('should format multi-value lists', () => {
+      const text = 'price between [10, 20] AND status in [open, "on hold"]'
+      expect(formatQuery(parse(text).expressions, schema)).toBe(text)
+    })
+
+    it('should format array operators and operators without a value', () => {
+      const arraySchema: FilterSchema = {
+        fields: [{ key: 'labels', label: 'Labels', type: 'array', operators: ARRAY_OPERATORS }],
+      }
+      const { expressions, errors } = parseQuery(
+        'labels contains any of [a, b] OR labels is empty',
+        arraySchema
+      )
+
+      expect(errors).toEqual([])
+      expect(expressions[0].condition.value.raw).toEqual(['a', 'b'])
+      expect(expressions[1].condition.value).toEqual({ raw: '', display: '', serialized: '' })
+      expect(formatQuery(expressions, arraySchema)).toBe('labels anyOf [a, b] OR labels isEmpty')
+    })
+
+    it('should quote multi-value text that does not split cleanly', () => {
+      const text = 'status in "open,closed"'
+      expect(formatQuery(parse(text).expressions, schema)).toBe(text)
+    })
+
+    it('should be the exact inverse of parseQuery', () => {
+      const expressions: FilterExpression[] = [
+        {
+          condition: {
+            field: { key: 'status', label: 'Status', type: 'enum' },
+            operator: { key: 'neq', label: 'is not', symbol: '≠' },
+            value: { raw: 'on "hold"', display: 'on "hold"', serialized: 'on "hold"' },
+            negated: true,
+          },
+          connector: 'OR',
+          openGroups: 1,
+        },
+        {
+          condition: {
+            field: { key: 'price', label: 'Price', type: 'number' },
+            operator: { key: 'between', label: 'between', symbol: undefined },
+            value: { raw: '1 and 2', display: '1 and 2', serialized: '1 and 2' },
+          },
+          closeGroups: 1,
+        },
+      ]
+
+      const { expressions: parsed, errors } = parse(formatQuery(expressions, schema))
+      expect(errors).toEqual([])
+      expect(parsed).toEqual(expressions)
+    })
+
+    it('should use field serializers', () => {
+      const withSerializer: FilterSchema = {
+        fields: [
+          {
+            key: 'price',
+            label: 'Price',
+            type: 'number',
+            operators: NUMBER_OPERATORS,
+            serialize: (value) => String(Number(value.raw) * 100),
+          },
+        ],
+      }
+      const expressions: FilterExpression[] = [
+        {
+          condition: {
+            field: { key: 'price', label: 'Price', type: 'number' },
+            operator: { key: 'gt', label: 'greater than', symbol: '>' },
+            value: { raw: 5, display: '$5', serialized: '5' },
+          },
+        },
+      ]
+
+      expect(formatQuery(expressions, withSerializer)).toBe('price > 500')
+    })
+
+    it('should return an empty string for no expressions', () => {
+      expect(formatQuery([], schema)).toBe('')
+    })
+  })
+})
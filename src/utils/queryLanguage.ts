@@ -0,0 +1,760 @@
+/**
+ * Text Query Language
+ *
+ * A human-readable syntax for filters that can be shared and edited by hand:
+ *
+ *   status = open AND (priority > 3 OR NOT assignee = "Jane Doe")
+ *   created between [2024-01-01, 2024-12-31]
+ *
+ * `formatQuery` writes expressions in this syntax and `parseQuery` reads it
+ * back, reporting positioned errors for anything it cannot understand.
+ */
+
+import type { FieldConfig, FilterExpression, FilterSchema, OperatorConfig } from '@/types'
+import {
+  FREEFORM_OPERATORS,
+  deserialize,
+  serialize,
+  type SerializedExpression,
+} from './serialization'
+import { findField, flattenFields } from './fieldPaths'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An error found while parsing a text query
+ */
+export interface QueryParseError {
+  /** Human-readable description of the problem */
+  message: string
+  /** Offset of the first character of the offending text */
+  start: number
+  /** Offset just past the offending text */
+  end: number
+}
+
+/**
+ * Result of parsing a text query
+ */
+export interface ParseQueryResult {
+  /** Expressions parsed from the text, skipping conditions with errors */
+  expressions: FilterExpression[]
+  /** Parse errors, in the order they appear in the text */
+  errors: QueryParseError[]
+}
+
+/**
+ * What the query expects next, e.g. at the end of partially typed text
+ */
+export type QueryExpectation =
+  | { kind: 'field' }
+  | { kind: 'operator'; field: FieldConfig }
+  | { kind: 'value'; field: FieldConfig; operator: OperatorConfig }
+  | { kind: 'connector' }
+
+/**
+ * Context for autocompleting a partially written text query
+ */
+export type QueryCompletion = QueryExpectation & {
+  /** Text typed so far for the item at the cursor (without an opening quote) */
+  partial: string
+  /** Offset where the item at the cursor starts; a suggestion replaces the text from here */
+  start: number
+  /** Expressions completed before the cursor */
+  existingExpressions: FilterExpression[]
+  /** Number of groups open at the cursor */
+  openGroups: number
+}
+
+/**
+ * Syntactic role of a part of a text query
+ */
+export type QuerySegmentRole =
+  | 'field'
+  | 'operator'
+  | 'value'
+  | 'connector'
+  | 'negation'
+  | 'group'
+  | 'punctuation'
+  | 'unknown'
+
+/**
+ * A part of a text query with its syntactic role, for syntax highlighting
+ */
+export interface QuerySegment {
+  role: QuerySegmentRole
+  start: number
+  end: number
+}
+
+type TokenKind =
+  | 'word'
+  | 'symbol'
+  | 'string'
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'comma'
+
+/**
+ * A lexical token with its position in the text
+ */
+interface QueryToken {
+  kind: TokenKind
+  /** Token text (unescaped for strings) */
+  text: string
+  start: number
+  end: number
+}
+
+const KEYWORDS = ['AND', 'OR', 'NOT'] as const
+
+type Keyword = (typeof KEYWORDS)[number]
+
+const PUNCTUATION: Record<string, TokenKind> = {
+  '(': 'lparen',
+  ')': 'rparen',
+  '[': 'lbracket',
+  ']': 'rbracket',
+  ',': 'comma',
+}
+
+/** Characters that form operator symbols such as '=', '!=' and '>=' */
+const SYMBOL_CHARS = '=!<>≠≥≤'
+
+/** ASCII spellings accepted for the built-in operator symbols */
+const SYMBOL_ALIASES: Record<string, string[]> = {
+  '≠': ['!=', '<>'],
+  '≥': ['>='],
+  '≤': ['<='],
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+/**
+ * Whether a character can be part of a bare word
+ */
+function isWordCharacter(char: string): boolean {
+  return !/\s/.test(char) && !(char in PUNCTUATION) && char !== '"' && !SYMBOL_CHARS.includes(char)
+}
+
+/**
+ * Split text into tokens, reporting unterminated strings
+ */
+
+function tokenize(text: string, errors: QueryParseError[]): QueryToken[] {
+  const tokens: QueryToken[] = []
+  let index = 0
+
+  while (index < text.length) {
+    const char = text[index]
+    const start = index
+
+    if (/\s/.test(char)) {
+      index++
+    } else if (char in PUNCTUATION) {
+      index++
+      tokens.push({ kind: PUNCTUATION[char], text: char, start, end: index })
+    } else if (char === '"') {
+      // Quoted string; a backslash escapes the next character
+      let value = ''
+      let closed = false
+      index++
+      while (index < text.length) {
+        if (text[index] === '\\' && index + 1 < text.length) {
+          value += text[index + 1]
+          index += 2
+        } else if (text[index] === '"') {
+          closed = true
+          index++
+          break
+        } else {
+          value += text[index++]
+        }
+      }
+      if (!closed) {
+        errors.push({ message: 'Unterminated string', start, end: index })
+      }
+      tokens.push({ kind: 'string', text: value, start, end: index })
+    } else {
+      const symbol = SYMBOL_CHARS.includes(char)
+      while (
+        index < text.length &&
+        (symbol ? SYMBOL_CHARS.includes(text[index]) : isWordCharacter(text[index]))
+      ) {
+        index++
+      }
+      tokens.push({
+        kind: symbol ? 'symbol' : 'word',
+        text: text.slice(start, index),
+        start,
+        end: index,
+      })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Get the keyword (AND, OR, NOT) a token spells, case-insensitively
+ */
+function getKeyword(token: QueryToken | undefined): Keyword | undefined {
+  if (token?.kind !== 'word') return undefined
+  const text = token.text.toUpperCase()
+  return KEYWORDS.find((keyword) => keyword === text)
+}
+
+/**
+ * Whether text can be written without quotes and read back unchanged
+ */
+function isBareWord(text: string): boolean {
+  const tokens = tokenize(text, [])
+  return (
+    tokens.length === 1 &&
+    tokens[0].kind === 'word' &&
+    tokens[0].text === text &&
+    !getKeyword(tokens[0])
+  )
+}
+
+/**
+ * Write text as a bare word when possible, otherwise as a quoted string
+ */
+export function formatQueryText(text: string): string {
+  return isBareWord(text) ? text : `"${text.replace(/[\\"]/g, '\\$&')}"`
+}
+
+// =============================================================================
+// Schema Lookup
+// =============================================================================
+
+/**
+ * Find a field by key, then by label (case-insensitive), then as a freeform field
+ */
+function resolveField(name: string, schema: FilterSchema): FieldConfig | undefined {
+  const lowerName = name.toLowerCase()
+  const fieldConfig =
+    findField(schema, name) ??
+    flattenFields(schema).find((f) => f.label.toLowerCase() === lowerName)
+  if (fieldConfig || !schema.allowFreeformFields) return fieldConfig
+
+  const freeformConfig = schema.freeformFieldConfig ?? {}
+  return {
+    key: name,
+    label: name,
+    type: freeformConfig.type ?? 'string',
+    operators: freeformConfig.operators ?? FREEFORM_OPERATORS,
+    valueAutocompleter: freeformConfig.valueAutocompleter,
+  }
+}
+
+/**
+ * Get the separator that joins the values of a multi-value list, e.g. ', ' or ' and '
+ */
+export function getListSeparator(operatorConfig: OperatorConfig): string | undefined {
+  const separator = operatorConfig.multiValue?.separator
+  if (separator === undefined) return undefined
+  const trimmed = separator.trim()
+  if (/^\w+$/.test(trimmed)) return ` ${trimmed} `
+  return separator.endsWith(' ') ? separator : `${separator} `
+}
+
+/**
+ * Find the operator spelled by the tokens at `position`.
+ *
+ * Operators can be written by key, symbol (with ASCII aliases such as '!=') or
+ * label. The longest match wins, so 'is not' is preferred over 'is'.
+ */
+function matchOperator(
+  tokens: QueryToken[],
+  position: number,
+  operators: OperatorConfig[]
+): { operatorConfig: OperatorConfig; length: number } | undefined {
+  let best: { operatorConfig: OperatorConfig; length: number } | undefined
+
+  for (const operatorConfig of operators) {
+    const { key, symbol, label } = operatorConfig
+    const spellings = [key, symbol, ...(symbol ? (SYMBOL_ALIASES[symbol] ?? []) : []), label]
+
+    for (const spelling of spellings) {
+      if (!spelling) continue
+      const words = tokenize(spelling, [])
+      const matches =
+        words.length > 0 &&
+        words.every((word, offset) => {
+          const token = tokens[position + offset]
+          return (
+            (token?.kind === 'word' || token?.kind === 'symbol') &&
+            token.text.toLowerCase() === word.text.toLowerCase()
+          )
+        })
+      if (matches && words.length > (best?.length ?? 0)) {
+        best = { operatorConfig, length: words.length }
+      }
+    }
+  }
+
+  return best
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * What the parser expected before reading a token of a text query
+ */
+interface QueryCheckpoint {
+  /** Offset just past the token */
+  end: number
+  expected: QueryExpectation
+  /** Number of groups open before the token */
+  openGroups: number
+}
+
+/**
+ * Full result of reading a text query, from which errors, highlighting and
+ * completions are all derived
+ */
+export interface QueryAnalysis extends ParseQueryResult {
+  segments: QuerySegment[]
+  /** Offset just past the last token of each expression */
+  expressionEnds: number[]
+  /** Parser state before each token */
+  checkpoints: QueryCheckpoint[]
+  /** What the query expects after its last token */
+  expected: QueryExpectation
+  /** Number of groups still open after the last token */
+  openGroups: number
+}
+
+/**
+ * Read a text query, recording the role of every token and what comes next
+ */
+export function analyzeQuery(text: string, schema: FilterSchema): QueryAnalysis {
+  const errors: QueryParseError[] = []
+  const tokens = tokenize(text, errors)
+  const roles: (QuerySegmentRole | undefined)[] = []
+  const expressions: FilterExpression[] = []
+  const expressionEnds: number[] = []
+  const checkpoints: QueryCheckpoint[] = []
+  const openTokens: QueryToken[] = []
+  let expected: QueryExpectation = { kind: 'field' }
+  let position = 0
+
+  const peek = () => tokens[position]
+  // Move past the current token, recording what was expected before it
+  const advance = () => {
+    checkpoints[position] = {
+      end: tokens[position].end,
+      expected,
+      openGroups: openTokens.length,
+    }
+    return tokens[position++]
+  }
+  const consume = (role: QuerySegmentRole) => {
+    roles[position] = role
+    return advance()
+  }
+  const addError = (message: string, token: QueryToken | undefined = peek()) => {
+    errors.push({
+      message,
+      start: token?.start ?? text.length,
+      end: token?.end ?? text.length,
+    })
+  }
+  const describe = (token: QueryToken | undefined) =>
+    token ? `"${token.text}"` : 'the end of the query'
+
+  // Skip the rest of a condition after an error, up to the next connector
+  const skipCondition = () => {
+    while (peek() && getKeyword(peek()) !== 'AND' && getKeyword(peek()) !== 'OR') {
+      advance()
+    }
+  }
+
+  const parseValue = (operatorConfig: OperatorConfig): string | undefined => {
+    const token = peek()
+
+    if (token?.kind === 'lbracket') {
+      const separator = getListSeparator(operatorConfig)
+      if (!separator) {
+        addError(`Operator "${operatorConfig.key}" does not accept a list of values`)
+        return undefined
+      }
+      consume('punctuation')
+      const values: string[] = []
+      while (peek()?.kind !== 'rbracket') {
+        const item = peek()
+        if (values.length > 0) {
+          if (item?.kind !== 'comma') {
+            addError(`Expected "," or "]" but found ${describe(item)}`)
+            return undefined
+          }
+          consume('punctuation')
+        }
+        const value = peek()
+        if (value?.kind !== 'string' && (value?.kind !== 'word' || getKeyword(value))) {
+          addError(`Expected a value but found ${describe(value)}`)
+          return undefined
+        }
+        values.push(consume('value').text)
+      }
+      consume('punctuation')
+      return values.join(separator)
+    }
+
+    if (token?.kind === 'string' || (token?.kind === 'word' && !getKeyword(token))) {
+      return consume('value').text
+    }
+
+    addError(`Expected a value but found ${describe(token)}`)
+    return undefined
+  }
+
+  const parseTerm = (): FilterExpression | undefined => {
+    const opens: QueryToken[] = []
+    while (peek()?.kind === 'lparen') {
+      opens.push(consume('group'))
+    }
+
+    let negated = false
+    if (getKeyword(peek()) === 'NOT') {
+      consume('negation')
+      negated = true
+    }
+
+    // Field
+    expected = { kind: 'field' }
+    const fieldToken = peek()
+    if (fieldToken?.kind !== 'string' && (fieldToken?.kind !== 'word' || getKeyword(fieldToken))) {
+      addError(
+        fieldToken?.kind === 'lparen' && negated
+          ? 'NOT can only be applied to a single condition'
+          : `Expected a field but found ${describe(fieldToken)}`
+      )
+      skipCondition()
+      return undefined
+    }
+    const fieldConfig = resolveField(fieldToken.text, schema)
+    if (!fieldConfig) {
+      addError(`Unknown field "${fieldToken.text}"`)
+      skipCondition()
+      return undefined
+    }
+    const fieldNameCheck =
+      fieldConfig.key === fieldToken.text && !findField(schema, fieldConfig.key)
+        ? schema.freeformFieldConfig?.validateFieldName?.(fieldToken.text)
+        : true
+    if (fieldNameCheck !== undefined && fieldNameCheck !== true) {
+      addError(
+        typeof fieldNameCheck === 'string'
+          ? fieldNameCheck
+          : `Invalid field name "${fieldToken.text}"`
+      )
+      skipCondition()
+      return undefined
+    }
+    consume('field')
+
+    // Operator
+    expected = { kind: 'operator', field: fieldConfig }
+    const match = matchOperator(tokens, position, fieldConfig.operators)
+    if (!match) {
+      const token = peek()
+      addError(
+        token
+          ? `Unknown operator ${describe(token)} for field "${fieldConfig.key}"`
+          : `Expected an operator for field "${fieldConfig.key}"`
+      )
+      skipCondition()
+      return undefined
+    }
+    const { operatorConfig } = match
+    for (let i = 0; i < match.length; i++) {
+      consume('operator')
+    }
+
+    // Value (optional for operators that do not require one, none for operators without)
+    expected = { kind: 'value', field: fieldConfig, operator: operatorConfig }
+    const valueToken = peek()
+    const hasValue =
+      valueToken?.kind === 'string' ||
+      valueToken?.kind === 'lbracket' ||
+      (valueToken?.kind === 'word' && !getKeyword(valueToken))
+    let value: string | undefined = ''
+    if (!operatorConfig.noValue && (operatorConfig.valueRequired !== false || hasValue)) {
+      value = parseValue(operatorConfig)
+      if (value === undefined) {
+        skipCondition()
+        return undefined
+      }
+    }
+
+    const item: SerializedExpression = {
+      field: fieldConfig.key,
+      operator: operatorConfig.key,
+      value,
+    }
+    if (negated) {
+      item.negated = true
+    }
+    if (opens.length > 0) {
+      item.openGroups = opens.length
+    }
+
+    let expression: FilterExpression
+    const end = tokens[position - 1].end
+    try {
+      expression = deserialize([item], schema, { useSchemaDeserializer: false })[0]
+    } catch (error) {
+      errors.push({
+        message: error instanceof Error ? error.message : String(error),
+        start: fieldToken.start,
+        end,
+      })
+      skipCondition()
+      return undefined
+    }
+    openTokens.push(...opens)
+    expressionEnds.push(end)
+    expected = { kind: 'connector' }
+
+    // Closing parentheses
+    while (peek()?.kind === 'rparen') {
+      const token = consume('group')
+      if (openTokens.length > 0) {
+        openTokens.pop()
+        expression.closeGroups = (expression.closeGroups ?? 0) + 1
+      } else {
+        addError('Unmatched ")"', token)
+      }
+    }
+
+    return expression
+  }
+
+  let connector: 'AND' | 'OR' | undefined
+  let connectorToken: QueryToken | undefined
+  // Whether a condition was just read (or skipped), so a connector comes next
+  let afterTerm = false
+
+  while (peek()) {
+    if (afterTerm) {
+      const keyword = getKeyword(peek())
+      afterTerm = false
+      if (keyword === 'AND' || keyword === 'OR') {
+        connector = keyword
+        connectorToken = consume('connector')
+        expected = { kind: 'field' }
+        continue
+      }
+      // Recover from a missing connector by assuming AND
+      addError(`Expected AND or OR but found ${describe(peek())}`)
+      connector = 'AND'
+    }
+
+    const start = position
+    const expression = parseTerm()
+    if (expression) {
+      if (expressions.length > 0) {
+        expressions[expressions.length - 1].connector = connector
+      }
+      expressions.push(expression)
+    }
+    if (position === start) {
+      // Make progress past a stray connector or parenthesis
+      advance()
+    } else {
+      afterTerm = true
+      connectorToken = undefined
+    }
+  }
+
+  if (connectorToken) {
+    addError(`Expected a condition after ${connectorToken.text.toUpperCase()}`)
+  }
+  for (const token of openTokens) {
+    errors.push({ message: 'Unclosed "("', start: token.start, end: token.end })
+  }
+  errors.sort((a, b) => a.start - b.start)
+
+  const segments = tokens.map((token, index) => ({
+    role: roles[index] ?? 'unknown',
+    start: token.start,
+    end: token.end,
+  }))
+
+  return {
+    expressions,
+    errors,
+    segments,
+    expressionEnds,
+    checkpoints,
+    expected,
+    openGroups: openTokens.length,
+  }
+}
+
+/**
+ * Parse a text query into filter expressions.
+ *
+ * Conditions are written as `field operator value`, joined by AND/OR and
+ * optionally prefixed with NOT or wrapped in parentheses. Fields are matched by
+ * key or label, operators by key, symbol or label, and values are bare words,
+ * double-quoted strings or `[a, b]` lists for multi-value operators. Values are
+ * read through the field's `deserialize` function when it has one.
+ *
+ * Parsing is tolerant: conditions with errors are skipped and every problem is
+ * reported with its position in the text, so errors can be shown inline.
+ * Values are not validated; use `validateExpressions` for that.
+ *
+ * @example
+ * ```ts
+ * const { expressions, errors } = parseQuery('status = open AND created after 2024-01-01', schema)
+ * ```
+ */
+export function parseQuery(text: string, schema: FilterSchema): ParseQueryResult {
+  const { expressions, errors } = analyzeQuery(text, schema)
+  return { expressions, errors }
+}
+
+/**
+ * Split a text query into segments by syntactic role, for syntax highlighting.
+ * Tokens the parser skipped because of an error have the role 'unknown'.
+ */
+export function highlightQuery(text: string, schema: FilterSchema): QuerySegment[] {
+  return analyzeQuery(text, schema).segments
+}
+
+/**
+ * Describe what can be typed at the cursor of a partially written text query,
+ * for autocompletion. The word being typed is reported as `partial`, so
+ * suggestions can replace it; only text before it is taken into account.
+ */
+export function getQueryCompletion(
+  text: string,
+  cursor: number,
+  schema: FilterSchema
+): QueryCompletion {
+  return getCompletionAt(analyzeQuery(text, schema), text, cursor)
+}
+
+/**
+ * Describe what can be typed at the cursor from an analysis of the whole text,
+ * so a query that is already analyzed is not parsed again
+ */
+export function getCompletionAt(
+  analysis: QueryAnalysis,
+  text: string,
+  cursor: number
+): QueryCompletion {
+  // The partial item is an unterminated string or a run of word or symbol characters
+  const before = text.slice(0, cursor)
+  const errors: QueryParseError[] = []
+  const last = tokenize(before, errors).at(-1)
+  let start = cursor
+  let partial: string
+  if (last?.kind === 'string' && errors.some((error) => error.start === last.start)) {
+    start = last.start
+    partial = last.text
+  } else {
+    const isSymbol = start > 0 && SYMBOL_CHARS.includes(text[start - 1])
+    while (
+      start > 0 &&
+      (isSymbol ? SYMBOL_CHARS.includes(text[start - 1]) : isWordCharacter(text[start - 1]))
+    ) {
+      start--
+    }
+    partial = text.slice(start, cursor)
+  }
+
+  // The parser state before the first token the partial item overlaps
+  const checkpoint = analysis.checkpoints.find((c) => c.end > start) ?? analysis
+  return {
+    ...checkpoint.expected,
+    partial,
+    start,
+    existingExpressions: analysis.expressions.filter(
+      (_, index) => analysis.expressionEnds[index] <= start
+    ),
+    openGroups: checkpoint.openGroups,
+  }
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Write an operator by its symbol, as long as it reads back as the same operator,
+ * and by its key otherwise
+ */
+export function formatQueryOperator(
+  operator: Pick<OperatorConfig, 'key' | 'symbol'>,
+  fieldConfig: FieldConfig | undefined
+): string {
+  return (
+    [operator.symbol, operator.key].find((spelling) => {
+      if (!spelling || !fieldConfig) return false
+      const words = tokenize(spelling, [])
+      const match = matchOperator(words, 0, fieldConfig.operators)
+      return match?.length === words.length && match.operatorConfig.key === operator.key
+    }) ?? operator.key
+  )
+}
+
+/**
+ * Format filter expressions as a text query that `parseQuery` reads back.
+ *
+ * Fields are written by key, operators by symbol when it is unambiguous (key
+ * otherwise) and values through the field's `serialize` function when it has one.
+ *
+ * @example
+ * ```ts
+ * formatQuery(expressions, schema)
+ * // → 'status = open AND created after 2024-01-01'
+ * ```
+ */
+export function formatQuery(expressions: FilterExpression[], schema: FilterSchema): string {
+  const serialized = serialize(expressions, schema, { useSchemaSerializer: false })
+
+  return expressions
+    .map((expr, index) => {
+      const { field, operator } = expr.condition
+      const fieldConfig = resolveField(field.key, schema)
+      const operatorConfig = fieldConfig?.operators.find((op) => op.key === operator.key)
+      const value = serialized[index].value
+      const text = typeof value === 'string' ? value : String(value ?? '')
+
+      const parts = [formatQueryText(field.key), formatQueryOperator(operator, fieldConfig)]
+      const separator = operatorConfig && getListSeparator(operatorConfig)
+      const values = separator ? text.split(separator) : [text]
+      if (values.length > 1) {
+        parts.push(`[${values.map(formatQueryText).join(', ')}]`)
+      } else if (
+        !operatorConfig?.noValue &&
+        (text !== '' || operatorConfig?.valueRequired !== false)
+      ) {
+        parts.push(formatQueryText(text))
+      }
+
+      let part = parts.join(' ')
+      if (expr.condition.negated) {
+        part = `NOT ${part}`
+      }
+      part = `${'('.repeat(expr.openGroups ?? 0)}${part}${')'.repeat(expr.closeGroups ?? 0)}`
+      if (expr.connector && index < expressions.length - 1) {
+        part += ` ${expr.connector}`
+      }
+      return part
+    })
+    .join(' ')
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createRelativeDateValue,
+  getRelativeDateLabel,
+  isRelativeDate,
+  resolveRelativeDate,
+  resolveRelativeDates,
+} from './relativeDates'
+import { deserialize, serialize } from './serialization'
+import { compileFilter } from './evaluation'
+import { toSql } from './sql'
+import { formatQuery, parseQuery } from './queryLanguage'
+import { DATE_OPERATORS } from '@/types'
+import type { FilterSchema } from '@/types'
+
+// Wednesday
+const now = new Date('2024-05-15T10:30:00.000Z')
+
+const schema: FilterSchema = {
+  fields: [
+    { key: 'created', label: 'Created', type: 'date', operators: DATE_OPERATORS },
+    { key: 'title', label: 'Title', type: 'string', operators: [{ key: 'eq', label: 'is' }] },
+  ],
+}
+
+describe('isRelativeDate', () => {
+  it('should recognize relative dates', () => {
+    for (const text of [
+      'now',
+      'today',
+      'now-7d',
+      'today+1M-2h',
+      'startOf:week',
+      'startOf:month-1M',
+    ]) {
+      expect(isRelativeDate(text)).toBe(true)
+    }
+    for (const text of ['2024-01-01', 'now-7', 'startOf:decade', 'Today', 7]) {
+      expect(isRelativeDate(text)).toBe(false)
+    }
+  })
+})
+
+describe('resolveRelativeDate', () => {
+  it('should resolve bases and offsets in UTC', () => {
+    const resolve = (text: string) => resolveRelativeDate(text, now).toISOString()
+
+    expect(resolve('now')).toBe('2024-05-15T10:30:00.000Z')
+    expect(resolve('now-7d')).toBe('2024-05-08T10:30:00.000Z')
+    expect(resolve('today')).toBe('2024-05-15T00:00:00.000Z')
+    expect(resolve('today-1M')).toBe('2024-04-15T00:00:00.000Z')
+    expect(resolve('startOf:week')).toBe('2024-05-12T00:00:00.000Z')
+    expect(resolve('startOf:month-1M')).toBe('2024-04-01T00:00:00.000Z')
+    expect(resolve('startOf:year+1y-1d')).toBe('2024-12-31T00:00:00.000Z')
+  })
+
+  it('should throw for text that is not a relative date', () => {
+    expect(() => resolveRelativeDate('last week')).toThrow('Invalid relative date "last week"')
+  })
+})
+
+describe('getRelativeDateLabel', () => {
+  it('should describe relative dates', () => {
+    expect(getRelativeDateLabel('today')).toBe('Today')
+    expect(getRelativeDateLabel('today-1d')).toBe('Yesterday')
+    expect(getRelativeDateLabel('now-7d')).toBe('7 days ago')
+    expect(getRelativeDateLabel('now+2w')).toBe('In 2 weeks')
+    expect(getRelativeDateLabel('startOf:week')).toBe('Start of this week')
+    expect(getRelativeDateLabel('startOf:month-1M')).toBe('Start of last month')
+    expect(getRelativeDateLabel('startOf:week-2d')).toBe('Start of this week -2d')
+  })
+})
+
+describe('relative date values', () => {
+  const expressions = deserialize(
+    [
+      { field: 'created', operator: 'after', value: 'now-7d', connector: 'AND' },
+      { field: 'title', operator: 'eq', value: 'today' },
+    ],
+    schema
+  )
+
+  it('should deserialize relative dates of date fields only', () => {
+    expect(expressions[0]?.condition.value).toEqual(createRelativeDateValue('now-7d'))
+    expect(expressions[0]?.condition.value.display).toBe('7 days ago')
+    expect(expressions[1]?.condition.value.relative).toBeUndefined()
+  })
+
+  it('should keep relative dates symbolic when serialized', () => {
+    expect(serialize(expressions)[0]?.value).toBe('now-7d')
+    expect(formatQuery(expressions, schema)).toBe('created after now-7d AND title eq today')
+    expect(
+      parseQuery('created after now-7d', schema).expressions[0]?.condition.value.relative
+    ).toBe(true)
+  })
+
+  it('should resolve relative dates when the filter is applied', () => {
+    const [resolved] = resolveRelativeDates(expressions, now)
+    expect(resolved?.condition.value).toEqual({
+      raw: new Date('2024-05-08T10:30:00.000Z'),
+      display: '7 days ago',
+      serialized: '2024-05-08T10:30:00.000Z',
+    })
+
+    const matches = compileFilter(expressions.slice(0, 1), schema, { now })
+    expect(matches({ created: '2024-05-10' })).toBe(true)
+    expect(matches({ created: '2024-05-01' })).toBe(false)
+
+    expect(toSql(expressions.slice(0, 1), schema, { now })).toMatchObject({
+      where: '"created" > $1',
+      params: ['2024-05-08'],
+    })
+  })
+})
+
+describe('relative date ranges', () => {
+  const expressions = deserialize(
+    [{ field: 'created', operator: 'between', value: 'today-7d and today' }],
+    schema
+  )
+
+  it('should keep each endpoint of a range relative', () => {
+    expect(expressions[0]?.condition.value).toEqual({
+      raw: ['today-7d', 'today'],
+      display: 'today-7d and today',
+      serialized: 'today-7d and today',
+      relative: true,
+    })
+    expect(serialize(expressions)[0]?.value).toBe('today-7d and today')
+  })
+
+  it('should resolve each endpoint when the filter is applied', () => {
+    expect(resolveRelativeDates(expressions, now)[0]?.condition.value.raw).toEqual([
+      new Date('2024-05-08T00:00:00.000Z'),
+      new Date('2024-05-15T00:00:00.000Z'),
+    ])
+
+    const matches = compileFilter(expressions, schema, { now })
+    expect(matches({ created: '2024-05-10' })).toBe(true)
+    expect(matches({ created: '2024-05-15' })).toBe(true)
+    expect(matches({ created: '2024-05-01' })).toBe(false)
+
+    expect(toSql(expressions, schema, { now })).toMatchObject({
+      where: '"created" BETWEEN $1 AND $2',
+      params: ['2024-05-08', '2024-05-15'],
+    })
+  })
+
+  it('should resolve ranges with one relative endpoint', () => {
+    const [expression] = deserialize(
+      [{ field: 'created', operator: 'between', value: '2024-01-01 and today' }],
+      schema
+    )
+    expect(toSql([expression], schema, { now }).params).toEqual(['2024-01-01', '2024-05-15'])
+  })
+})
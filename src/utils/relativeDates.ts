@@ -0,0 +1,238 @@
+/**
+ * Relative Dates
+ *
+ * Date values such as `today`, `now-7d` or `startOf:week` that stay relative:
+ * expressions keep them symbolically (so a saved "last 7 days" filter does not
+ * go stale), and they are resolved to concrete dates only when a filter is
+ * evaluated or converted into a query.
+ *
+ * A relative date is a base followed by any number of offsets:
+ * - bases: `now`, `today` (the start of the current day) and
+ *   `startOf:day|week|month|year` (weeks start on Sunday)
+ * - offsets: `+` or `-`, an amount and a unit: `m` (minutes), `h` (hours),
+ *   `d` (days), `w` (weeks), `M` (months) or `y` (years), e.g. `today-1d`
+ *
+ * Dates are resolved in UTC, like the day comparisons of the evaluator and
+ * the date values of the query serializers.
+ */
+
+import type { ConditionValue, FilterExpression } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Unit of a relative date offset
+ */
+type OffsetUnit = 'm' | 'h' | 'd' | 'w' | 'M' | 'y'
+
+/**
+ * Period a relative date can start from
+ */
+type Period = 'day' | 'week' | 'month' | 'year'
+
+/**
+ * A parsed relative date
+ */
+interface ParsedRelativeDate {
+  base: 'now' | 'today' | Period
+  offsets: Array<{ amount: number; unit: OffsetUnit }>
+}
+
+const RELATIVE_DATE_PATTERN = /^(now|today|startOf:(?:day|week|month|year))((?:[+-]\d+[mhdwMy])*)$/
+
+const OFFSET_PATTERN = /([+-]\d+)([mhdwMy])/g
+
+const UNIT_MS: Partial<Record<OffsetUnit, number>> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+
+const UNIT_NAMES: Record<OffsetUnit, string> = {
+  m: 'minute',
+  h: 'hour',
+  d: 'day',
+  w: 'week',
+  M: 'month',
+  y: 'year',
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a relative date, or undefined if the text is not one
+ */
+function parseRelativeDate(text: string): ParsedRelativeDate | undefined {
+  const match = RELATIVE_DATE_PATTERN.exec(text.trim())
+  if (!match) return undefined
+
+  const base = match[1].startsWith('startOf:')
+    ? (match[1].slice('startOf:'.length) as Period)
+    : (match[1] as 'now' | 'today')
+  const offsets = [...match[2].matchAll(OFFSET_PATTERN)].map(([, amount, unit]) => ({
+    amount: Number(amount),
+    unit: unit as OffsetUnit,
+  }))
+  return { base: base === 'day' ? 'today' : base, offsets }
+}
+
+/**
+ * Check whether a value is a relative date such as `now-7d` or `startOf:week`
+ */
+export function isRelativeDate(value: unknown): value is string {
+  return typeof value === 'string' && parseRelativeDate(value) !== undefined
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Get the start of the (UTC) period containing a date
+ */
+function startOf(date: Date, period: ParsedRelativeDate['base']): Date {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+  const day = date.getUTCDate()
+  switch (period) {
+    case 'now':
+      return new Date(date.getTime())
+    case 'week':
+      return new Date(Date.UTC(year, month, day - date.getUTCDay()))
+    case 'month':
+      return new Date(Date.UTC(year, month, 1))
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1))
+    default:
+      return new Date(Date.UTC(year, month, day))
+  }
+}
+
+/**
+ * Resolve a relative date to a concrete date.
+ *
+ * @param expression - Relative date such as `now-7d`, `today` or `startOf:week`
+ * @param now - Time to resolve against (defaults to the current time)
+ * @throws Error if the expression is not a relative date
+ */
+export function resolveRelativeDate(expression: string, now: Date = new Date()): Date {
+  const parsed = parseRelativeDate(expression)
+  if (!parsed) {
+    throw new Error(`Invalid relative date "${expression}"`)
+  }
+
+  const date = startOf(now, parsed.base)
+  for (const { amount, unit } of parsed.offsets) {
+    if (unit === 'M') date.setUTCMonth(date.getUTCMonth() + amount)
+    else if (unit === 'y') date.setUTCFullYear(date.getUTCFullYear() + amount)
+    else date.setTime(date.getTime() + amount * (UNIT_MS[unit] ?? 0))
+  }
+  return date
+}
+
+/**
+ * Resolve a relative condition value (see `ConditionValue.relative`) to a
+ * `Date` raw value, or a list of dates for list values and ranges. Other
+ * values are returned as-is.
+ *
+ * @param now - Time to resolve against (defaults to the current time)
+ */
+export function resolveRelativeValue(
+  value: ConditionValue,
+  now: Date = new Date()
+): ConditionValue {
+  if (!value.relative) return value
+
+  const resolve = (item: unknown) => (isRelativeDate(item) ? resolveRelativeDate(item, now) : item)
+  const raw = Array.isArray(value.raw) ? value.raw.map(resolve) : resolve(value.raw)
+  return {
+    raw,
+    display: value.display,
+    serialized: raw instanceof Date ? raw.toISOString() : value.serialized,
+  }
+}
+
+/**
+ * Resolve the relative dates in filter expressions to concrete dates.
+ *
+ * Conditions with a relative value (see `ConditionValue.relative`) get a
+ * `Date` raw value, or a list of dates for list values and ranges, so they can
+ * be evaluated or converted into a query. Other expressions are returned as-is.
+ *
+ * @param now - Time to resolve against (defaults to the current time)
+ */
+export function resolveRelativeDates(
+  expressions: FilterExpression[],
+  now: Date = new Date()
+): FilterExpression[] {
+  return expressions.map((expression) => {
+    const { value } = expression.condition
+    if (!value.relative) return expression
+    const resolved = resolveRelativeValue(value, now)
+    return { ...expression, condition: { ...expression.condition, value: resolved } }
+  })
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Describe an offset, e.g. '7 days ago' or 'in 2 weeks'
+ */
+function describeOffset({ amount, unit }: ParsedRelativeDate['offsets'][number]): string {
+  const count = Math.abs(amount)
+  const text = `${count} ${UNIT_NAMES[unit]}${count === 1 ? '' : 's'}`
+  return amount < 0 ? `${text} ago` : `in ${text}`
+}
+
+/**
+ * Get a readable label for a relative date, e.g. 'Today', '7 days ago' or
+ * 'Start of last month'. Returns the expression itself if it is not a
+ * relative date.
+ */
+export function getRelativeDateLabel(expression: string): string {
+  const parsed = parseRelativeDate(expression)
+  if (!parsed) return expression
+
+  const { base, offsets } = parsed
+  const [offset] = offsets
+  if (base === 'now' || base === 'today') {
+    const baseLabel = base === 'now' ? 'Now' : 'Today'
+    if (!offset) return baseLabel
+    if (offsets.length === 1) {
+      if (base === 'today' && offset.unit === 'd' && Math.abs(offset.amount) === 1) {
+        return offset.amount < 0 ? 'Yesterday' : 'Tomorrow'
+      }
+      const text = describeOffset(offset)
+      return text.charAt(0).toUpperCase() + text.slice(1)
+    }
+  }
+
+  const baseLabel = base === 'now' ? 'Now' : base === 'today' ? 'Today' : `Start of this ${base}`
+  if (!offset) return baseLabel
+  // The start of the previous or next period, e.g. 'startOf:month-1M'
+  if (offsets.length === 1 && Math.abs(offset.amount) === 1 && UNIT_NAMES[offset.unit] === base) {
+    return `Start of ${offset.amount < 0 ? 'last' : 'next'} ${base}`
+  }
+  return `${baseLabel} ${expression.trim().slice(expression.trim().search(/[+-]/))}`
+}
+
+/**
+ * Create a condition value for a relative date. The expression is kept as the
+ * raw and serialized value, and the label is displayed.
+ *
+ * @param expression - Relative date such as `now-7d`, `today` or `startOf:week`
+ * @param label - Display label (defaults to `getRelativeDateLabel`)
+ */
+export function createRelativeDateValue(
+  expression: string,
+  label: string = getRelativeDateLabel(expression)
+): ConditionValue {
+  return { raw: expression, display: label, serialized: expression, relative: true }
+}
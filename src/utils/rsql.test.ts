@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest'
+import { toRsql, fromRsql } from './rsql'
+import { formatQuery } from './queryLanguage'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema({
+  key: 'tags',
+  label: 'Tags',
+  type: 'string',
+  operators: [
+    { key: 'all', label: 'has all', multiValue: { count: -1, separator: ',', labels: [] } },
+    { key: 'like', label: 'like' },
+  ],
+})
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+const rsql = (...conditions: TestCondition[]) => toRsql(filter(...conditions), schema)
+
+/** Read an RSQL filter and format it as a text query */
+const read = (filter: string) => {
+  const { expressions, errors } = fromRsql(filter, schema)
+  return { text: formatQuery(expressions, schema), errors }
+}
+
+describe('rsql', () => {
+  describe('toRsql', () => {
+    it('should map comparisons', () => {
+      expect(rsql(['status', 'eq', 'open'], ['price', 'gte', '10'], ['active', 'is', 'true'])).toBe(
+        'status==open;price=ge=10;active==true'
+      )
+      expect(
+        rsql(
+          ['price', 'neq', '1', { connector: 'OR' }],
+          ['price', 'gt', '1', { connector: 'OR' }],
+          ['price', 'lt', '1', { connector: 'OR' }],
+          ['price', 'lte', '1']
+        )
+      ).toBe('price!=1,price=gt=1,price=lt=1,price=le=1')
+      expect(rsql(['created', 'after', '2024-01-01'], ['created', 'on', '2024-02-01'])).toBe(
+        'created=gt=2024-01-01;created==2024-02-01'
+      )
+    })
+
+    it('should write fields at their path and quote values with reserved characters', () => {
+      expect(rsql(['name', 'eq', 'Ann "A" Lee'])).toBe('customer.name=="Ann \\"A\\" Lee"')
+      expect(rsql(['name', 'eq', 'a,b'])).toBe('customer.name=="a,b"')
+    })
+
+    it('should map lists, ranges, days and wildcard patterns', () => {
+      expect(rsql(['status', 'in', 'open, closed'], ['price', 'between', '1 and 5'])).toBe(
+        'status=in=(open,closed);(price=ge=1;price=le=5)'
+      )
+      expect(rsql(['updated', 'on', '2024-01-01'])).toBe(
+        'updated=ge=2024-01-01T00:00:00.000Z;updated=lt=2024-01-02T00:00:00.000Z'
+      )
+      expect(
+        rsql(
+          ['name', 'contains', 'big sale', { connector: 'OR' }],
+          ['name', 'startsWith', 'a', { connector: 'OR' }],
+          ['name', 'endsWith', 'b']
+        )
+      ).toBe('customer.name=="*big sale*",customer.name==a*,customer.name==*b')
+    })
+
+    it('should parenthesize OR groups inside AND', () => {
+      expect(
+        rsql(
+          ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+          ['price', 'gt', '1', { closeGroups: 1 }],
+          ['active', 'is', 'true']
+        )
+      ).toBe('(status==open,price=gt=1);active==true')
+      expect(
+        rsql(
+          ['status', 'eq', 'open'],
+          ['price', 'gt', '1', { connector: 'OR' }],
+          ['active', 'is', 'true']
+        )
+      ).toBe('status==open;price=gt=1,active==true')
+    })
+
+    it('should write negated conditions with the inverse comparison', () => {
+      expect(
+        rsql(
+          ['status', 'eq', 'open', { negated: true }],
+          ['price', 'gt', '1', { negated: true }],
+          ['status', 'in', 'a, b', { negated: true }],
+          ['name', 'contains', 'x', { negated: true }]
+        )
+      ).toBe('status!=open;price=le=1;status=out=(a,b);customer.name!=*x*')
+      expect(
+        rsql(['price', 'between', '1 and 5', { negated: true }], ['active', 'is', 'true'])
+      ).toBe('(price=lt=1,price=gt=5);active==true')
+    })
+
+    it('should return an empty string for no expressions', () => {
+      expect(toRsql([], schema)).toBe('')
+    })
+
+    it('should write custom comparisons and throw for operators without one', () => {
+      const expressions = filter(['tags', 'all', 'a, b'], ['tags', 'like', 'x%'])
+      const operators = { all: '=all=', like: '=like=' }
+
+      expect(() => toRsql(expressions, schema)).toThrow(
+        'Unsupported operator "all" for field "tags"'
+      )
+      expect(toRsql(expressions, schema, { operators })).toBe('tags=all=(a,b);tags=like=x%')
+      expect(() =>
+        toRsql(filter(['tags', 'like', 'a', { negated: true }]), schema, { operators })
+      ).toThrow('Operator "like" for field "tags" cannot be negated in RSQL')
+    })
+
+    it('should write the array quantifiers as =in= and =out=', () => {
+      expect(
+        toRsql(
+          filter(['labels', 'anyOf', 'a, b'], ['labels', 'noneOf', 'c', { negated: true }]),
+          schema
+        )
+      ).toBe('labels=in=(a,b);labels=in=(c)')
+    })
+  })
+
+  describe('fromRsql', () => {
+    it('should round-trip generated filters', () => {
+      const expressions = filter(
+        ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+        ['name', 'contains', "it's, ok", { closeGroups: 1 }],
+        ['price', 'between', '1 and 5'],
+        ['created', 'on', '2024-01-01'],
+        ['status', 'in', 'open, closed'],
+        ['active', 'is', 'false'],
+        ['price', 'between', '7 and 9', { negated: true }]
+      )
+
+      expect(fromRsql(toRsql(expressions, schema), schema)).toEqual({ expressions, errors: [] })
+    })
+
+    it('should read inverse comparisons as matching operators or negated conditions', () => {
+      expect(read('status!=open;created=ge=2024-01-01;name!=a*;status=out=(a,b)')).toEqual({
+        text: 'status ≠ open AND NOT created before 2024-01-01 AND NOT name startsWith a AND NOT status in [a, b]',
+        errors: [],
+      })
+    })
+
+    it('should read short comparison forms, quotes and whitespace', () => {
+      expect(read("price>=5 , customer.name=='Ann Lee' ; price<9")).toEqual({
+        text: 'price ≥ 5 OR name = "Ann Lee" AND price < 9',
+        errors: [],
+      })
+    })
+
+    it('should read custom comparisons', () => {
+      const { expressions, errors } = fromRsql('tags=all=(a,b);tags=like=x%', schema, {
+        operators: { all: '=all=', like: '=like=' },
+      })
+
+      expect(errors).toEqual([])
+      expect(formatQuery(expressions, schema)).toBe('tags all [a, b] AND tags like x%')
+    })
+
+    it('should report conditions that cannot be represented and keep the rest', () => {
+      const { text, errors } = read('color==red,status=gt=a,price==3')
+
+      expect(text).toBe('price = 3')
+      expect(errors).toEqual([
+        { message: 'Unknown field "color"', start: 0, end: 10 },
+        { message: 'Field "status" has no operator for "=gt="', start: 11, end: 22 },
+      ])
+    })
+
+    it('should stop at syntax errors', () => {
+      expect(fromRsql('status=="open', schema)).toEqual({
+        expressions: [],
+        errors: [{ message: 'Unterminated string', start: 8, end: 13 }],
+      })
+      expect(fromRsql('status=like=open', schema).errors).toEqual([
+        { message: 'Unknown comparison "=like="', start: 6, end: 12 },
+      ])
+      expect(fromRsql('price==1 price==2', schema).errors).toEqual([
+        { message: 'Expected ";" or "," but found "price"', start: 9, end: 14 },
+      ])
+      expect(fromRsql('(price==1', schema).errors).toEqual([
+        { message: 'Expected ")" but found the end of the filter', start: 9, end: 9 },
+      ])
+    })
+
+    it('should return no expressions for an empty filter', () => {
+      expect(fromRsql('  ', schema)).toEqual({ expressions: [], errors: [] })
+    })
+  })
+})
@@ -0,0 +1,615 @@
+/**
+ * RSQL / FIQL Filters
+ *
+ * Converts filter expressions into RSQL strings (`status==open;price=ge=10`)
+ * and parses them back. Fields are written at their schema `path` (the key by
+ * default). Text operators use the `*` wildcard convention of `==`/`!=` that
+ * RSQL backends such as rsql-jpa understand. RSQL has no `not`, so negated
+ * conditions are written with the inverse comparison.
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+  OperatorConfig,
+} from '@/types'
+import { fromExpressionTree, toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import { getListSeparator, type ParseQueryResult, type QueryParseError } from './queryLanguage'
+import { deserialize, FREEFORM_OPERATORS, type SerializedExpression } from './serialization'
+import { findField, flattenFields } from './fieldPaths'
+import {
+  formatDate,
+  getDayRange,
+  getSingleValue,
+  resolveCondition,
+  unsupportedOperatorError,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for writing and reading RSQL filters
+ */
+export interface RsqlOptions extends QueryOptions {
+  /**
+   * Custom comparison operators by operator key, e.g. `{ like: '=like=' }`.
+   * Used in both directions and also overrides the comparison of a built-in
+   * operator key. Operators with `multiValue` take an argument list.
+   */
+  operators?: Record<string, string>
+}
+
+/**
+ * An RSQL filter with the top-level connector of its text, if any
+ */
+interface RsqlPart {
+  text: string
+  connector?: 'AND' | 'OR'
+  /** Whether a single condition is written as several comparisons */
+  compound?: boolean
+}
+
+/** RSQL comparisons by operator key */
+const COMPARISONS: Record<string, string> = {
+  eq: '==',
+  is: '==',
+  on: '==',
+  neq: '!=',
+  gt: '=gt=',
+  after: '=gt=',
+  gte: '=ge=',
+  lt: '=lt=',
+  before: '=lt=',
+  lte: '=le=',
+  in: '=in=',
+  anyOf: '=in=',
+  noneOf: '=out=',
+}
+
+/** Inverse RSQL comparisons by operator key, for negated conditions */
+const NEGATED_COMPARISONS: Record<string, string> = {
+  eq: '!=',
+  is: '!=',
+  on: '!=',
+  neq: '==',
+  gt: '=le=',
+  after: '=le=',
+  gte: '=lt=',
+  lt: '=ge=',
+  before: '=ge=',
+  lte: '=gt=',
+  in: '=out=',
+  anyOf: '=out=',
+  noneOf: '=in=',
+}
+
+/**
+ * Operator keys that each RSQL comparison can be read as, in order of
+ * preference. Keys starting with `!` are read as negated conditions.
+ */
+const COMPARISON_OPERATORS: Record<string, string[]> = {
+  '==': ['eq', 'is'],
+  '!=': ['neq', '!eq', '!is'],
+  '=gt=': ['gt', 'after', '!lte'],
+  '=ge=': ['gte', '!lt', '!before'],
+  '=lt=': ['lt', 'before', '!gte'],
+  '=le=': ['lte', '!gt', '!after'],
+  '=in=': ['in', 'anyOf', '!noneOf'],
+  '=out=': ['!in', 'noneOf', '!anyOf'],
+}
+
+/** Short forms of RSQL comparisons */
+const COMPARISON_ALIASES: Record<string, string> = {
+  '>': '=gt=',
+  '>=': '=ge=',
+  '<': '=lt=',
+  '<=': '=le=',
+}
+
+/** Text operators as `*` wildcard patterns */
+const WILDCARDS: Record<string, (text: string) => string> = {
+  contains: (text) => `*${text}*`,
+  startsWith: (text) => `${text}*`,
+  endsWith: (text) => `*${text}`,
+}
+
+/** Characters that require a value to be quoted */
+const RESERVED_PATTERN = /[\s"'();,=!~<>]/
+
+// =============================================================================
+// Arguments
+// =============================================================================
+
+/**
+ * Format a value as an RSQL argument, quoting it when it contains reserved characters
+ */
+function toArgument(value: unknown, type: FieldType): string {
+  const text = value instanceof Date ? formatDate(value, type) : String(value)
+  if (text !== '' && !RESERVED_PATTERN.test(text)) return text
+  return `"${text.replace(/["\\]/g, '\\$&')}"`
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Build the filter for a built-in operator, or undefined for unknown operators
+ */
+function buildOperator(
+  selector: string,
+  operatorKey: string,
+  negated: boolean,
+  value: ConditionValue,
+  type: FieldType,
+  getValues: () => unknown[]
+): RsqlPart | undefined {
+  const argument = (v: unknown) => toArgument(v, type)
+
+  if (operatorKey in WILDCARDS) {
+    const pattern = WILDCARDS[operatorKey](String(getSingleValue(value)))
+    return { text: `${selector}${negated ? '!=' : '=='}${argument(pattern)}` }
+  }
+  if (operatorKey === 'between') {
+    const [from, to] = getValues().map(argument)
+    return negated
+      ? { text: `${selector}=lt=${from},${selector}=gt=${to}`, connector: 'OR', compound: true }
+      : { text: `${selector}=ge=${from};${selector}=le=${to}`, connector: 'AND', compound: true }
+  }
+
+  const comparison = (negated ? NEGATED_COMPARISONS : COMPARISONS)[operatorKey]
+  if (!comparison) return undefined
+  if (operatorKey === 'in' || operatorKey === 'anyOf' || operatorKey === 'noneOf') {
+    return { text: `${selector}${comparison}(${getValues().map(argument).join(',')})` }
+  }
+  const single = getSingleValue(value)
+  // Datetimes are on a day when they fall within it
+  const day = operatorKey === 'on' && type === 'datetime' ? getDayRange(single) : undefined
+  if (day) {
+    const [start, end] = day.map((date) => date.toISOString())
+    return negated
+      ? { text: `${selector}=lt=${start},${selector}=ge=${end}`, connector: 'OR', compound: true }
+      : { text: `${selector}=ge=${start};${selector}=lt=${end}`, connector: 'AND', compound: true }
+  }
+  return { text: `${selector}${comparison}${argument(single)}` }
+}
+
+/**
+ * Build the filter for a single condition
+ */
+function buildCondition(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  options: RsqlOptions
+): RsqlPart {
+  const { field, operator } = condition
+  const { fieldConfig, operatorConfig, type, value } = resolveCondition(condition, schema, options)
+  const selector = fieldConfig?.path ?? field.key
+  const getValues = () => getValueList(value, operatorConfig)
+
+  const custom = options.operators?.[operator.key]
+  if (custom) {
+    if (condition.negated) {
+      throw new Error(
+        `Operator "${operator.key}" for field "${field.key}" cannot be negated in RSQL`
+      )
+    }
+    const argument = (v: unknown) => toArgument(v, type)
+    const args = operatorConfig?.multiValue
+      ? `(${getValues().map(argument).join(',')})`
+      : argument(getSingleValue(value))
+    return { text: `${selector}${custom}${args}` }
+  }
+
+  const part = buildOperator(
+    selector,
+    operator.key,
+    condition.negated ?? false,
+    value,
+    type,
+    getValues
+  )
+  if (!part) {
+    throw unsupportedOperatorError(condition, 'to filter with RSQL')
+  }
+  return part
+}
+
+/**
+ * Build the filter for a tree node
+ */
+function buildNode(node: FilterNode, schema: FilterSchema, options: RsqlOptions): RsqlPart {
+  if (node.type === 'condition') {
+    return buildCondition(node.condition, schema, options)
+  }
+  const parts = node.children.map((child) => buildNode(child, schema, options))
+  if (parts.length === 1) return parts[0]
+  // `;` binds tighter than `,`, so only OR parts inside AND need parentheses, but
+  // conditions written as several comparisons are kept together to be read back as one
+  const text = parts
+    .map((part) =>
+      part.compound || (node.connector === 'AND' && part.connector === 'OR')
+        ? `(${part.text})`
+        : part.text
+    )
+    .join(node.connector === 'AND' ? ';' : ',')
+  return { text, connector: parts.length > 1 ? node.connector : undefined }
+}
+
+/**
+ * Convert filter expressions into an RSQL filter.
+ *
+ * Supports `==`, `!=`, `=gt=`, `=ge=`, `=lt=`, `=le=`, `=in=` and `=out=`,
+ * `between` as a `=ge=`/`=le=` range, and `contains`, `startsWith` and
+ * `endsWith` as `*` wildcard patterns, joined with `;` (and) and `,` (or).
+ * Negated conditions use the inverse comparison. An empty filter yields an
+ * empty string.
+ *
+ * @throws Error for unknown fields, operators without an RSQL comparison and
+ * negated custom operators
+ *
+ * @example
+ * ```ts
+ * const filter = toRsql(expressions, schema)
+ * // → 'status==open;(price=lt=10,name==*gift*)'
+ * fetch(`/api/tickets?search=${encodeURIComponent(filter)}`)
+ * ```
+ */
+export function toRsql(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: RsqlOptions = {}
+): string {
+  const root = toExpressionTree(expressions)
+  return root.children.length === 0 ? '' : buildNode(root, schema, options).text
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * A lexical token of an RSQL filter
+ */
+interface RsqlToken {
+  kind: 'word' | 'string' | 'comparison' | 'lparen' | 'rparen' | 'and' | 'or'
+  /** Token text (unquoted for strings) */
+  text: string
+  start: number
+  end: number
+}
+
+/**
+ * Position of a syntax error
+ */
+interface RsqlSyntaxError {
+  start: number
+  end: number
+}
+
+/**
+ * Create a syntax error at a position, which stops parsing
+ */
+function syntaxError(message: string, start: number, end: number): Error & RsqlSyntaxError {
+  return Object.assign(new Error(message), { start, end })
+}
+
+/**
+ * Split an RSQL filter into tokens
+ */
+function tokenize(filter: string): RsqlToken[] {
+  const tokens: RsqlToken[] = []
+  const punctuation: Record<string, RsqlToken['kind']> = {
+    '(': 'lparen',
+    ')': 'rparen',
+    ';': 'and',
+    ',': 'or',
+  }
+  let i = 0
+  while (i < filter.length) {
+    const char = filter[i]
+    const comparison = /^(=[a-z-]*=|!=|<=|>=|<|>)/i.exec(filter.slice(i))
+    if (/\s/.test(char)) {
+      i++
+    } else if (char in punctuation) {
+      tokens.push({ kind: punctuation[char], text: char, start: i, end: i + 1 })
+      i++
+    } else if (comparison) {
+      const text = comparison[0]
+      tokens.push({ kind: 'comparison', text, start: i, end: i + text.length })
+      i += text.length
+    } else if (char === '"' || char === "'") {
+      const start = i
+      let text = ''
+      i++
+      while (filter[i] !== char) {
+        if (i >= filter.length) {
+          throw syntaxError('Unterminated string', start, filter.length)
+        }
+        if (filter[i] === '\\' && i + 1 < filter.length) i++
+        text += filter[i]
+        i++
+      }
+      i++
+      tokens.push({ kind: 'string', text, start, end: i })
+    } else {
+      const start = i
+      while (i < filter.length && !RESERVED_PATTERN.test(filter[i])) i++
+      if (i === start) {
+        throw syntaxError(`Unexpected "${char}"`, start, start + 1)
+      }
+      tokens.push({ kind: 'word', text: filter.slice(start, i), start, end: i })
+    }
+  }
+  return tokens
+}
+
+/**
+ * Read an RSQL filter back into filter expressions.
+ *
+ * Understands the output of `toRsql`: comparisons (including the `<`, `<=`,
+ * `>` and `>=` short forms), `=in=`/`=out=` lists, `*` wildcard patterns,
+ * `;` and `,` with parentheses, and the custom comparisons in `options`.
+ * Inverse comparisons are read as the matching operator or as a negated
+ * condition, and a `=ge=`/`=le=` pair on the same field is read as `between`
+ * when the field has that operator. Fields are matched by path or key.
+ *
+ * Syntax errors stop parsing and return no expressions. Conditions that cannot
+ * be represented, such as unknown fields or operators the field does not have,
+ * are left out and reported with their position.
+ *
+ * @example
+ * ```ts
+ * const { expressions, errors } = fromRsql('status==open;price=ge=10', schema)
+ * ```
+ */
+export function fromRsql(
+  filter: string,
+  schema: FilterSchema,
+  options: RsqlOptions = {}
+): ParseQueryResult {
+  const errors: QueryParseError[] = []
+  let tokens: RsqlToken[]
+  try {
+    tokens = tokenize(filter)
+  } catch (error) {
+    const { message, start, end } = error as Error & RsqlSyntaxError
+    return { expressions: [], errors: [{ message, start, end }] }
+  }
+  let position = 0
+  const customComparisons = Object.entries(options.operators ?? {})
+
+  const peek = () => tokens[position]
+  const fail = (message: string, token = peek()): never => {
+    const start = token?.start ?? filter.length
+    throw syntaxError(message, start, token?.end ?? start)
+  }
+  const describe = (token: RsqlToken | undefined) =>
+    token
+      ? `"${token.kind === 'string' ? `"${token.text}"` : token.text}"`
+      : 'the end of the filter'
+  const expect = (kind: RsqlToken['kind'], description: string): RsqlToken => {
+    const token = peek()
+    if (token?.kind !== kind) fail(`Expected ${description} but found ${describe(token)}`)
+    position++
+    return token!
+  }
+
+  /** Find the field for a selector */
+  const resolveField = (selector: string): FieldConfig | undefined => {
+    const field =
+      flattenFields(schema).find((f) => (f.path ?? f.key) === selector) ??
+      findField(schema, selector)
+    if (field || !schema.allowFreeformFields) return field
+    const freeformConfig = schema.freeformFieldConfig ?? {}
+    return {
+      key: selector,
+      label: selector,
+      type: freeformConfig.type ?? 'string',
+      operators: freeformConfig.operators ?? FREEFORM_OPERATORS,
+    }
+  }
+
+  /** Read a single argument */
+  const readArgument = (): RsqlToken => {
+    const token = peek()
+    if (token?.kind !== 'word' && token?.kind !== 'string') {
+      return fail(`Expected a value but found ${describe(token)}`)
+    }
+    position++
+    return token
+  }
+
+  /** Read a single argument or a parenthesized argument list */
+  const readArguments = (): RsqlToken[] => {
+    if (peek()?.kind !== 'lparen') return [readArgument()]
+    position++
+    const args = [readArgument()]
+    while (peek()?.kind === 'or') {
+      position++
+      args.push(readArgument())
+    }
+    expect('rparen', '")"')
+    return args
+  }
+
+  /**
+   * Create a condition for a field from the first candidate operator it has,
+   * reporting fields and operators that cannot be used
+   */
+  const createCondition = (
+    selector: RsqlToken,
+    candidates: string[],
+    getValue: (operator: OperatorConfig) => string,
+    end: number,
+    description: string
+  ): FilterNode | undefined => {
+    const field = resolveField(selector.text)
+    const range = { start: selector.start, end }
+    if (!field) {
+      errors.push({ message: `Unknown field "${selector.text}"`, ...range })
+      return undefined
+    }
+    const match = candidates
+      .map((candidate) => {
+        const negated = candidate.startsWith('!')
+        const key = negated ? candidate.slice(1) : candidate
+        const operator = field.operators.find((op) => op.key === key)
+        return operator && { operator, negated }
+      })
+      .find((candidate) => candidate !== undefined)
+    if (!match) {
+      errors.push({ message: `Field "${field.key}" has no operator for ${description}`, ...range })
+      return undefined
+    }
+    const item: SerializedExpression = {
+      field: field.key,
+      operator: match.operator.key,
+      value: getValue(match.operator),
+    }
+    if (match.negated) item.negated = true
+    try {
+      const [expression] = deserialize([item], schema, { useSchemaDeserializer: false })
+      return { type: 'condition', condition: expression.condition }
+    } catch (error) {
+      errors.push({ message: error instanceof Error ? error.message : String(error), ...range })
+      return undefined
+    }
+  }
+
+  /** Read a comparison: selector, comparison and arguments */
+  const readComparison = (): FilterNode | undefined => {
+    const selector = expect('word', 'a field')
+    const comparisonToken = expect('comparison', 'a comparison')
+    const comparison = COMPARISON_ALIASES[comparisonToken.text] ?? comparisonToken.text
+    const args = readArguments()
+    const end = tokens[position - 1].end
+    const description = `"${comparisonToken.text}"`
+    const joinArgs = (operator: OperatorConfig) =>
+      args.map((arg) => arg.text).join(getListSeparator(operator) ?? ', ')
+
+    const custom = customComparisons.filter(([, text]) => text === comparison).map(([key]) => key)
+    if (custom.length > 0) {
+      return createCondition(selector, custom, joinArgs, end, description)
+    }
+    if (!(comparison in COMPARISON_OPERATORS)) {
+      return fail(`Unknown comparison ${description}`, comparisonToken)
+    }
+    if (comparison === '=in=' || comparison === '=out=') {
+      return createCondition(selector, COMPARISON_OPERATORS[comparison], joinArgs, end, description)
+    }
+    if (args.length > 1) {
+      return fail(`${description} takes a single value`, comparisonToken)
+    }
+
+    const text = args[0].text
+    // *x*, x* and *x are text patterns
+    if ((comparison === '==' || comparison === '!=') && /^\*.|.\*$/.test(text)) {
+      const prefix = comparison === '!=' ? '!' : ''
+      const leading = text.startsWith('*')
+      const trailing = text.endsWith('*')
+      const key = leading && trailing ? 'contains' : leading ? 'endsWith' : 'startsWith'
+      const inner = text.slice(leading ? 1 : 0, trailing ? -1 : undefined)
+      return createCondition(selector, [prefix + key], () => inner, end, description)
+    }
+
+    const candidates = [...COMPARISON_OPERATORS[comparison]]
+    // Date fields compare whole days, so equality is 'on'
+    if (resolveField(selector.text)?.type === 'date') {
+      if (comparison === '==') candidates.push('on')
+      if (comparison === '!=') candidates.push('!on')
+    }
+    return createCondition(selector, candidates, () => text, end, description)
+  }
+
+  /**
+   * Combine two range conditions on the same field into `between`: a
+   * `gte`/`lte` pair in an AND group, or a `lt`/`gt` pair in an OR group
+   * (a negated `between`)
+   */
+  const combineRange = (nodes: FilterNode[], connector: 'AND' | 'OR'): FilterNode | undefined => {
+    if (nodes.length !== 2) return undefined
+    const [low, high] = nodes
+    if (low.type !== 'condition' || high.type !== 'condition') return undefined
+    if (low.condition.negated || high.condition.negated) return undefined
+    const { field } = low.condition
+    const [lowKey, highKey] = connector === 'AND' ? ['gte', 'lte'] : ['lt', 'gt']
+    if (
+      low.condition.operator.key !== lowKey ||
+      high.condition.operator.key !== highKey ||
+      high.condition.field.key !== field.key
+    ) {
+      return undefined
+    }
+    const between = resolveField(field.key)?.operators.find((op) => op.key === 'between')
+    if (!between) return undefined
+    const value = [low.condition.value.serialized, high.condition.value.serialized].join(
+      getListSeparator(between) ?? ', '
+    )
+    const item: SerializedExpression = { field: field.key, operator: 'between', value }
+    if (connector === 'OR') item.negated = true
+    try {
+      const [expression] = deserialize([item], schema, { useSchemaDeserializer: false })
+      return { type: 'condition', condition: expression.condition }
+    } catch {
+      return undefined
+    }
+  }
+
+  const readOr = (): FilterNode | undefined => {
+    const nodes: FilterNode[] = []
+    const first = readAnd()
+    if (first) nodes.push(first)
+    while (peek()?.kind === 'or') {
+      position++
+      const node = readAnd()
+      if (node) nodes.push(node)
+    }
+    if (nodes.length <= 1) return nodes[0]
+    return combineRange(nodes, 'OR') ?? { type: 'group', connector: 'OR', children: nodes }
+  }
+
+  const readAnd = (): FilterNode | undefined => {
+    const nodes: FilterNode[] = []
+    const first = readConstraint()
+    if (first) nodes.push(first)
+    while (peek()?.kind === 'and') {
+      position++
+      const node = readConstraint()
+      if (node) nodes.push(node)
+    }
+    if (nodes.length <= 1) return nodes[0]
+    return combineRange(nodes, 'AND') ?? { type: 'group', connector: 'AND', children: nodes }
+  }
+
+  const readConstraint = (): FilterNode | undefined => {
+    if (peek()?.kind === 'lparen') {
+      position++
+      const node = readOr()
+      expect('rparen', '")"')
+      return node
+    }
+    return readComparison()
+  }
+
+  try {
+    if (tokens.length === 0) return { expressions: [], errors: [] }
+    const root = readOr()
+    if (position < tokens.length) {
+      fail(`Expected ";" or "," but found ${describe(peek())}`)
+    }
+    return { expressions: root ? fromExpressionTree(root) : [], errors }
+  } catch (error) {
+    const { message, start, end } = error as Error & RsqlSyntaxError
+    return { expressions: [], errors: [{ message, start, end }] }
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest'
+import { toRuleGroup, fromRuleGroup, type QueryBuilderRuleGroup } from './ruleGroup'
+import { formatQuery } from './queryLanguage'
+import { STRING_OPERATORS } from '@/types'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema({
+  key: 'name',
+  label: 'Name',
+  type: 'string',
+  operators: STRING_OPERATORS,
+})
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+const ruleGroup = (...conditions: TestCondition[]) => toRuleGroup(filter(...conditions), schema)
+
+/** Read a rule group and format it as a text query */
+const read = (group: QueryBuilderRuleGroup) => {
+  const { expressions, errors } = fromRuleGroup(group, schema)
+  return { text: formatQuery(expressions, schema), errors }
+}
+
+describe('ruleGroup', () => {
+  describe('toRuleGroup', () => {
+    it('should map conditions onto react-querybuilder operators', () => {
+      expect(
+        ruleGroup(['status', 'eq', 'open'], ['price', 'gte', '10'], ['name', 'startsWith', 'a'])
+      ).toEqual({
+        combinator: 'and',
+        rules: [
+          { field: 'status', operator: '=', value: 'open' },
+          { field: 'price', operator: '>=', value: 10 },
+          { field: 'name', operator: 'beginsWith', value: 'a' },
+        ],
+      })
+      expect(
+        ruleGroup(
+          ['created', 'before', '2024-01-01', { connector: 'OR' }],
+          ['active', 'is', 'true']
+        )
+      ).toEqual({
+        combinator: 'or',
+        rules: [
+          { field: 'created', operator: '<', value: '2024-01-01' },
+          { field: 'active', operator: '=', value: true },
+        ],
+      })
+    })
+
+    it('should write lists as comma-separated strings or arrays', () => {
+      const expressions = filter(['status', 'in', 'open, closed'], ['price', 'between', '1 and 5'])
+
+      expect(toRuleGroup(expressions, schema).rules).toEqual([
+        { field: 'status', operator: 'in', value: 'open,closed' },
+        { field: 'price', operator: 'between', value: '1,5' },
+      ])
+      expect(toRuleGroup(expressions, schema, { listsAsArrays: true }).rules).toEqual([
+        { field: 'status', operator: 'in', value: ['open', 'closed'] },
+        { field: 'price', operator: 'between', value: [1, 5] },
+      ])
+    })
+
+    it('should write nested groups and negation', () => {
+      expect(
+        ruleGroup(
+          ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+          ['price', 'gt', '5', { negated: true, closeGroups: 1 }],
+          ['name', 'contains', 'x', { negated: true }]
+        )
+      ).toEqual({
+        combinator: 'and',
+        rules: [
+          {
+            combinator: 'or',
+            rules: [
+              { field: 'status', operator: '=', value: 'open' },
+              {
+                combinator: 'and',
+                not: true,
+                rules: [{ field: 'price', operator: '>', value: 5 }],
+              },
+            ],
+          },
+          { field: 'name', operator: 'doesNotContain', value: 'x' },
+        ],
+      })
+    })
+
+    it('should return an empty group for no expressions', () => {
+      expect(toRuleGroup([], schema)).toEqual({ combinator: 'and', rules: [] })
+    })
+
+    it('should write custom operator names', () => {
+      expect(ruleGroup(['name', 'like', 'J%']).rules).toEqual([
+        { field: 'name', operator: 'like', value: 'J%' },
+      ])
+      expect(
+        toRuleGroup(filter(['name', 'like', 'J%']), schema, { operators: { like: 'matches' } })
+          .rules
+      ).toEqual([{ field: 'name', operator: 'matches', value: 'J%' }])
+    })
+  })
+
+  describe('fromRuleGroup', () => {
+    it('should round-trip generated rule groups', () => {
+      const expressions = filter(
+        ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+        ['name', 'contains', 'a b', { negated: true, closeGroups: 1 }],
+        ['price', 'between', '1 and 5'],
+        ['created', 'on', '2024-01-01'],
+        ['status', 'in', 'open, closed'],
+        ['status', 'eq', 'closed', { negated: true }],
+        ['name', 'like', 'J_n%'],
+        ['active', 'is', 'false']
+      )
+
+      expect(fromRuleGroup(toRuleGroup(expressions, schema), schema)).toEqual({
+        expressions,
+        errors: [],
+      })
+    })
+
+    it('should read negative operators, array values and single-rule not groups', () => {
+      expect(
+        read({
+          combinator: 'and',
+          rules: [
+            { field: 'status', operator: 'notIn', value: ['a', 'b'] },
+            { field: 'active', operator: '!=', value: 'true' },
+            { not: true, combinator: 'or', rules: [{ field: 'price', operator: '<', value: 3 }] },
+          ],
+        })
+      ).toEqual({
+        text: 'NOT status in [a, b] AND NOT active is true AND NOT price < 3',
+        errors: [],
+      })
+    })
+
+    it('should read independent combinators with AND binding tighter', () => {
+      expect(
+        read({
+          rules: [
+            { field: 'status', operator: '=', value: 'open' },
+            'or',
+            { field: 'price', operator: '>', value: 1 },
+            'and',
+            { field: 'active', operator: '=', value: true },
+          ],
+        })
+      ).toEqual({ text: 'status = open OR price > 1 AND active is true', errors: [] })
+    })
+
+    it('should skip disabled rules and empty groups', () => {
+      expect(
+        read({
+          combinator: 'and',
+          rules: [
+            { field: 'status', operator: '=', value: 'open', disabled: true },
+            { combinator: 'or', rules: [] },
+            { field: 'price', operator: '=', value: '3' },
+          ],
+        })
+      ).toEqual({ text: 'price = 3', errors: [] })
+    })
+
+    it('should report structures that cannot be flattened and keep the rest', () => {
+      const { text, errors } = read({
+        combinator: 'or',
+        rules: [
+          {
+            combinator: 'and',
+            not: true,
+            rules: [
+              { field: 'price', operator: '>', value: 1 },
+              { field: 'price', operator: '<', value: 5 },
+            ],
+          },
+          { field: 'price', operator: '=', value: 'status', valueSource: 'field' },
+          { field: 'color', operator: '=', value: 'red' },
+          { field: 'status', operator: 'beginsWith', value: 'o' },
+          { field: 'name', operator: 'null', value: null },
+          { combinator: 'xor', rules: [{ field: 'price', operator: '=', value: 2 }] },
+          { field: 'price', operator: '=', value: 3 },
+        ],
+      })
+
+      expect(text).toBe('price = 3')
+      expect(errors).toEqual([
+        { message: 'Negated groups with more than one rule cannot be flattened', path: 'rules[0]' },
+        { message: 'Rules comparing two fields are not supported', path: 'rules[1]' },
+        { message: 'Unknown field "color"', path: 'rules[2]' },
+        { message: 'Field "status" has no operator for "beginsWith"', path: 'rules[3]' },
+        { message: 'Field "name" has no operator for "null"', path: 'rules[4]' },
+        { message: 'Unsupported combinator "xor"', path: 'rules[5]' },
+      ])
+    })
+  })
+})
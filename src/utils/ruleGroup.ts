@@ -0,0 +1,453 @@
+/**
+ * react-querybuilder Rule Groups
+ *
+ * Converts filter expressions into the `RuleGroupType` JSON of
+ * react-querybuilder (`{ combinator: 'and', rules: [{ field, operator, value }] }`)
+ * and reads rule groups back, so rules saved by a tree-based query builder can
+ * be edited in FilterBox. Fields are identified by their schema key.
+ */
+
+import type {
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+  OperatorConfig,
+} from '@/types'
+import { fromExpressionTree, toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import { getListSeparator } from './queryLanguage'
+import { deserialize, FREEFORM_OPERATORS, type SerializedExpression } from './serialization'
+import { findField, flattenFields } from './fieldPaths'
+import {
+  formatDate,
+  getSingleValue,
+  resolveCondition,
+  toTypedValue,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A react-querybuilder rule
+ */
+export interface QueryBuilderRule {
+  id?: string
+  field: string
+  operator: string
+  value: unknown
+  /** 'field' when the value names another field */
+  valueSource?: 'value' | 'field'
+  disabled?: boolean
+}
+
+/**
+ * A react-querybuilder rule group. With independent combinators, `rules`
+ * alternates between rules and combinator strings instead of using
+ * `combinator`.
+ */
+export interface QueryBuilderRuleGroup {
+  id?: string
+  combinator?: string
+  not?: boolean
+  disabled?: boolean
+  rules: (QueryBuilderRule | QueryBuilderRuleGroup | string)[]
+}
+
+/**
+ * Options for converting between expressions and rule groups
+ */
+export interface RuleGroupOptions extends QueryOptions {
+  /**
+   * react-querybuilder operator names by operator key, e.g. `{ like: 'matches' }`.
+   * Overrides the built-in mapping of an operator key. Operators without a
+   * mapping are written with their key as the operator name.
+   */
+  operators?: Record<string, string>
+  /**
+   * Write multi-value operators such as `in` and `between` with array values
+   * instead of comma-separated strings, like react-querybuilder's
+   * `listsAsArrays` option. Values containing commas need arrays.
+   * @default false
+   */
+  listsAsArrays?: boolean
+}
+
+/**
+ * A part of a rule group that could not be read
+ */
+export interface RuleGroupError {
+  /** Error message */
+  message: string
+  /** Location of the part in the rule group, e.g. 'rules[1].rules[0]' */
+  path: string
+}
+
+/**
+ * Result of reading a rule group
+ */
+export interface FromRuleGroupResult {
+  /** Expressions for the parts of the rule group that could be read */
+  expressions: FilterExpression[]
+  /** Parts of the rule group that cannot be flattened into expressions */
+  errors: RuleGroupError[]
+}
+
+/** react-querybuilder operators by operator key */
+const RULE_OPERATORS: Record<string, string> = {
+  eq: '=',
+  is: '=',
+  on: '=',
+  neq: '!=',
+  gt: '>',
+  after: '>',
+  gte: '>=',
+  lt: '<',
+  before: '<',
+  lte: '<=',
+  contains: 'contains',
+  startsWith: 'beginsWith',
+  endsWith: 'endsWith',
+  in: 'in',
+  between: 'between',
+}
+
+/** react-querybuilder operators for negated conditions, by operator key */
+const NEGATED_RULE_OPERATORS: Record<string, string> = {
+  contains: 'doesNotContain',
+  startsWith: 'doesNotBeginWith',
+  endsWith: 'doesNotEndWith',
+  in: 'notIn',
+  between: 'notBetween',
+}
+
+/**
+ * Operator keys that each react-querybuilder operator can be read as, in order
+ * of preference. Keys starting with `!` are read as negated conditions.
+ */
+const RULE_OPERATOR_KEYS: Record<string, string[]> = {
+  '=': ['eq', 'is', 'on'],
+  '!=': ['neq', '!eq', '!is', '!on'],
+  '>': ['gt', 'after'],
+  '>=': ['gte'],
+  '<': ['lt', 'before'],
+  '<=': ['lte'],
+  contains: ['contains'],
+  beginsWith: ['startsWith'],
+  endsWith: ['endsWith'],
+  doesNotContain: ['!contains'],
+  doesNotBeginWith: ['!startsWith'],
+  doesNotEndWith: ['!endsWith'],
+  in: ['in'],
+  notIn: ['!in'],
+  between: ['between'],
+  notBetween: ['!between'],
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/**
+ * Convert a single value to a number or boolean according to the field type.
+ * Dates are written as ISO strings.
+ */
+function toRuleValue(value: unknown, type: FieldType): unknown {
+  return value instanceof Date ? formatDate(value, type) : toTypedValue(value, type)
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Build the rule for a single condition. Negated conditions use a negative
+ * operator such as `notIn` where react-querybuilder has one, and are otherwise
+ * wrapped in a `not` group.
+ */
+function buildRule(
+  condition: FilterCondition,
+  schema: FilterSchema,
+  options: RuleGroupOptions
+): QueryBuilderRule | QueryBuilderRuleGroup {
+  const { field, operator } = condition
+  const { operatorConfig, type, value } = resolveCondition(condition, schema, options)
+
+  let ruleValue: unknown
+  if (operatorConfig?.multiValue) {
+    const values = getValueList(value, operatorConfig).map((v) => toRuleValue(v, type))
+    ruleValue = options.listsAsArrays ? values : values.join(',')
+  } else {
+    ruleValue = toRuleValue(getSingleValue(value), type)
+  }
+
+  const custom = options.operators?.[operator.key]
+  const negatedOperator = custom === undefined ? NEGATED_RULE_OPERATORS[operator.key] : undefined
+  if (condition.negated && negatedOperator) {
+    return { field: field.key, operator: negatedOperator, value: ruleValue }
+  }
+  const rule = {
+    field: field.key,
+    operator: custom ?? RULE_OPERATORS[operator.key] ?? operator.key,
+    value: ruleValue,
+  }
+  return condition.negated ? { combinator: 'and', not: true, rules: [rule] } : rule
+}
+
+/**
+ * Build the rule group for a tree node
+ */
+function buildGroup(
+  node: FilterNode,
+  schema: FilterSchema,
+  options: RuleGroupOptions
+): QueryBuilderRuleGroup {
+  if (node.type === 'condition') {
+    const rule = buildRule(node.condition, schema, options)
+    return 'rules' in rule ? rule : { combinator: 'and', rules: [rule] }
+  }
+  return {
+    combinator: node.connector === 'AND' ? 'and' : 'or',
+    rules: node.children.map((child) =>
+      child.type === 'condition'
+        ? buildRule(child.condition, schema, options)
+        : buildGroup(child, schema, options)
+    ),
+  }
+}
+
+/**
+ * Convert filter expressions into a react-querybuilder rule group.
+ *
+ * Parenthesized groups become nested rule groups. Operators are mapped onto
+ * react-querybuilder's defaults (`=`, `!=`, `<`, `beginsWith`, `in`,
+ * `between`, ...); other operators keep their key as the operator name. Negated
+ * conditions use `doesNotContain`, `notIn` and the like where available and are
+ * otherwise wrapped in a group with `not: true`. An empty filter yields an empty
+ * `and` group.
+ *
+ * @throws Error for unknown fields
+ *
+ * @example
+ * ```ts
+ * const query = toRuleGroup(expressions, schema)
+ * // → { combinator: 'and', rules: [{ field: 'status', operator: '=', value: 'open' }] }
+ * ```
+ */
+export function toRuleGroup(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: RuleGroupOptions = {}
+): QueryBuilderRuleGroup {
+  return buildGroup(toExpressionTree(expressions), schema, options)
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Check whether a value is a plain object (not an array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Format a rule value as text for deserialization, or undefined for values
+ * that are not strings, numbers or booleans
+ */
+function formatValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim()
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return undefined
+}
+
+/**
+ * Read a react-querybuilder rule group back into filter expressions.
+ *
+ * Nested groups become parenthesized groups, and groups using independent
+ * combinators are read with AND binding tighter than OR. A `not` group is
+ * flattened into a negated condition when it holds a single rule. Rules are
+ * matched to fields by key (or path) and their operators mapped back onto the
+ * field's operators, e.g. `!=` to `neq`, or to a negated `eq` when the field
+ * has no `neq`. Multi-value operators accept arrays or comma-separated strings.
+ *
+ * Structures that cannot be flattened, such as negated groups with several
+ * rules, rules comparing two fields, unknown fields or operators the field
+ * does not have, are left out and reported with their location. Disabled rules
+ * and groups are skipped.
+ *
+ * @example
+ * ```ts
+ * const { expressions, errors } = fromRuleGroup(savedQuery, schema)
+ * ```
+ */
+export function fromRuleGroup(
+  group: QueryBuilderRuleGroup,
+  schema: FilterSchema,
+  options: RuleGroupOptions = {}
+): FromRuleGroupResult {
+  const errors: RuleGroupError[] = []
+
+  const addError = (message: string, path: string) => {
+    errors.push({ message, path })
+  }
+
+  /** Operator keys each custom operator name is read as */
+  const customKeys: Record<string, string[]> = {}
+  for (const [key, name] of Object.entries(options.operators ?? {})) {
+    customKeys[name] = [...(customKeys[name] ?? []), key]
+  }
+
+  /** Find the field a rule names */
+  const resolveField = (name: string): FieldConfig | undefined => {
+    const field =
+      findField(schema, name) ??
+      flattenFields(schema).find((f) => f.path !== undefined && f.path === name)
+    if (field || !schema.allowFreeformFields) return field
+    const freeformConfig = schema.freeformFieldConfig ?? {}
+    return {
+      key: name,
+      label: name,
+      type: freeformConfig.type ?? 'string',
+      operators: freeformConfig.operators ?? FREEFORM_OPERATORS,
+    }
+  }
+
+  /** Get the values of a rule for an operator */
+  const readValues = (value: unknown, operator: OperatorConfig): string[] | undefined => {
+    if (operator.multiValue) {
+      const values = Array.isArray(value)
+        ? value
+        : typeof value === 'string'
+          ? value.split(',').filter((part) => part.trim() !== '')
+          : [value]
+      const formatted = values.map(formatValue)
+      return formatted.some((v) => v === undefined) ? undefined : (formatted as string[])
+    }
+    const formatted = formatValue(value)
+    return formatted === undefined ? undefined : [formatted]
+  }
+
+  /** Read a rule into a condition node */
+  const readRule = (rule: QueryBuilderRule, path: string): FilterNode | undefined => {
+    if (rule.valueSource === 'field') {
+      addError('Rules comparing two fields are not supported', path)
+      return undefined
+    }
+    const field = resolveField(rule.field)
+    if (!field) {
+      addError(`Unknown field "${rule.field}"`, path)
+      return undefined
+    }
+    const candidates = [
+      ...(customKeys[rule.operator] ?? []),
+      ...(RULE_OPERATOR_KEYS[rule.operator] ?? []),
+      rule.operator,
+    ]
+    const match = candidates
+      .map((candidate) => {
+        const negated = candidate.startsWith('!')
+        const key = negated ? candidate.slice(1) : candidate
+        const operator = field.operators.find((op) => op.key === key)
+        return operator && { operator, negated }
+      })
+      .find((candidate) => candidate !== undefined)
+    if (!match) {
+      addError(`Field "${field.key}" has no operator for "${rule.operator}"`, path)
+      return undefined
+    }
+    const values = readValues(rule.value, match.operator)
+    if (!values) {
+      addError('Values must be strings, numbers or booleans', path)
+      return undefined
+    }
+    const item: SerializedExpression = {
+      field: field.key,
+      operator: match.operator.key,
+      value: values.join(getListSeparator(match.operator) ?? ', '),
+    }
+    if (match.negated) item.negated = true
+    try {
+      const [expression] = deserialize([item], schema, { useSchemaDeserializer: false })
+      return { type: 'condition', condition: expression.condition }
+    } catch (error) {
+      addError(error instanceof Error ? error.message : String(error), path)
+      return undefined
+    }
+  }
+
+  /** Join nodes with a connector, unwrapping single nodes */
+  const join = (connector: 'AND' | 'OR', nodes: FilterNode[]): FilterNode | undefined => {
+    if (nodes.length <= 1) return nodes[0]
+    return { type: 'group', connector, children: nodes }
+  }
+
+  /** Read a rule group into a node */
+  const readGroup = (value: QueryBuilderRuleGroup, path: string): FilterNode | undefined => {
+    if (!Array.isArray(value.rules)) {
+      addError('Expected a rules array', path)
+      return undefined
+    }
+    const prefix = path ? `${path}.` : ''
+    const independent = value.rules.some((rule) => typeof rule === 'string')
+
+    // Independent combinators: split into AND runs joined by OR
+    const runs: FilterNode[][] = [[]]
+    let connector: string = value.combinator?.toLowerCase() ?? 'and'
+    value.rules.forEach((rule, index) => {
+      const rulePath = `${prefix}rules[${index}]`
+      if (typeof rule === 'string') {
+        connector = rule.toLowerCase()
+        if (connector !== 'and' && connector !== 'or') {
+          addError(`Unsupported combinator "${rule}"`, rulePath)
+        }
+        return
+      }
+      if (!isPlainObject(rule) || rule.disabled) return
+      const node =
+        'rules' in rule
+          ? readGroup(rule as QueryBuilderRuleGroup, rulePath)
+          : readRule(rule as QueryBuilderRule, rulePath)
+      if (!node) return
+      if (independent && connector === 'or' && runs[runs.length - 1].length > 0) {
+        runs.push([])
+      }
+      runs[runs.length - 1].push(node)
+    })
+
+    let node: FilterNode | undefined
+    if (independent) {
+      node = join(
+        'OR',
+        runs.map((run) => join('AND', run)).filter((run): run is FilterNode => run !== undefined)
+      )
+    } else if (connector === 'and' || connector === 'or') {
+      node = join(connector === 'and' ? 'AND' : 'OR', runs[0])
+    } else {
+      addError(`Unsupported combinator "${value.combinator}"`, path)
+      return undefined
+    }
+
+    if (!value.not || !node) return node
+    if (node.type !== 'condition') {
+      addError('Negated groups with more than one rule cannot be flattened', path)
+      return undefined
+    }
+    const { negated, ...condition } = node.condition
+    return {
+      type: 'condition',
+      condition: negated ? condition : { ...condition, negated: true },
+    }
+  }
+
+  if (!isPlainObject(group) || group.disabled) return { expressions: [], errors }
+  const root = readGroup(group, '')
+  return { expressions: root ? fromExpressionTree(root) : [], errors }
+}
@@ -1,12 +1,16 @@
 import { describe, it, expect } from 'vitest'
 import {
   serialize,
+  serializeVersioned,
   deserialize,
   toDisplayString,
   toQueryString,
   fromQueryString,
+  parseQueryString,
 } from './serialization'
+import { ARRAY_OPERATORS } from '@/types'
 import type { FilterExpression, FilterSchema } from '@/types'
+import type { MigrationReport } from './migration'
 
 const testSchema: FilterSchema = {
   fields: [
@@ -207,6 +211,22 @@ describe('Serialization', () => {
 
       expect(() => deserialize(serialized, testSchema)).toThrow('Unknown field: unknown')
     })
+
+    it('should deserialize the values of list operators as arrays', () => {
+      const arraySchema: FilterSchema = {
+        fields: [{ key: 'labels', label: 'Labels', type: 'array', operators: ARRAY_OPERATORS }],
+      }
+      const serialized = [
+        { field: 'labels', operator: 'anyOf', value: 'bug, ui', connector: 'AND' as const },
+        { field: 'labels', operator: 'isEmpty', value: '', negated: true },
+      ]
+
+      const result = deserialize(serialized, arraySchema)
+
+      expect(result[0]?.condition.value.raw).toEqual(['bug', 'ui'])
+      expect(result[1]?.condition.value.raw).toBe('')
+      expect(serialize(result)).toEqual(serialized)
+    })
   })
 
   describe('toDisplayString', () => {
@@ -397,6 +417,108 @@ describe('Serialization', () => {
     })
   })
 
+  describe('groups', () => {
+    // (status = active OR status = pending) AND age > 18
+    const grouped: FilterExpression[] = [
+      {
+        condition: {
+          field: { key: 'status', label: 'Status', type: 'enum' },
+          operator: { key: 'eq', label: 'is', symbol: '=' },
+          value: { raw: 'active', display: 'Active', serialized: 'active' },
+        },
+        connector: 'OR',
+        openGroups: 1,
+      },
+      {
+        condition: {
+          field: { key: 'status', label: 'Status', type: 'enum' },
+          operator: { key: 'eq', label: 'is', symbol: '=' },
+          value: { raw: 'pending', display: 'Pending', serialized: 'pending' },
+        },
+        connector: 'AND',
+        closeGroups: 1,
+      },
+      {
+        condition: {
+          field: { key: 'age', label: 'Age', type: 'number' },
+          operator: { key: 'gt', label: 'greater than', symbol: '>' },
+          value: { raw: 18, display: '18', serialized: '18' },
+        },
+      },
+    ]
+
+    it('should serialize group counts', () => {
+      expect(serialize(grouped)).toEqual([
+        { field: 'status', operator: 'eq', value: 'active', connector: 'OR', openGroups: 1 },
+        { field: 'status', operator: 'eq', value: 'pending', connector: 'AND', closeGroups: 1 },
+        { field: 'age', operator: 'gt', value: '18' },
+      ])
+    })
+
+    it('should deserialize group counts', () => {
+      const result = deserialize(serialize(grouped), testSchema)
+
+      expect(result[0]?.openGroups).toBe(1)
+      expect(result[1]?.closeGroups).toBe(1)
+      expect(result[2]?.openGroups).toBeUndefined()
+      expect(result[2]?.closeGroups).toBeUndefined()
+    })
+
+    it('should include parentheses in the display string', () => {
+      expect(toDisplayString(grouped)).toBe(
+        '(Status is Active OR Status is Pending) AND Age greater than 18'
+      )
+    })
+  })
+
+  describe('negation', () => {
+    const negated: FilterExpression[] = [
+      {
+        condition: {
+          field: { key: 'status', label: 'Status', type: 'enum' },
+          operator: { key: 'eq', label: 'is', symbol: '=' },
+          value: { raw: 'active', display: 'Active', serialized: 'active' },
+          negated: true,
+        },
+        connector: 'AND',
+      },
+      {
+        condition: {
+          field: { key: 'name', label: 'Name', type: 'string' },
+          operator: { key: 'contains', label: 'contains' },
+          value: { raw: 'John', display: 'John', serialized: 'John' },
+        },
+      },
+    ]
+
+    it('should serialize the negation flag', () => {
+      expect(serialize(negated)).toEqual([
+        { field: 'status', operator: 'eq', value: 'active', connector: 'AND', negated: true },
+        { field: 'name', operator: 'contains', value: 'John' },
+      ])
+    })
+
+    it('should round-trip the negation flag', () => {
+      const result = deserialize(serialize(negated), testSchema)
+
+      expect(result[0]?.condition.negated).toBe(true)
+      expect(result[1]?.condition.negated).toBeUndefined()
+    })
+
+    it('should prefix negated conditions with NOT in the display string', () => {
+      expect(toDisplayString(negated)).toBe('NOT Status is Active AND Name contains John')
+    })
+
+    it('should place NOT inside group parentheses', () => {
+      const grouped: FilterExpression[] = [
+        { ...negated[0], openGroups: 1, connector: 'OR' },
+        { ...negated[1], closeGroups: 1 },
+      ]
+
+      expect(toDisplayString(grouped)).toBe('(NOT Status is Active OR Name contains John)')
+    })
+  })
+
   describe('toQueryString', () => {
     it('should generate query string for single expression', () => {
       const expressions: FilterExpression[] = [
@@ -411,7 +533,7 @@ describe('Serialization', () => {
 
       const result = toQueryString(expressions)
 
-      expect(result).toBe('status=active')
+      expect(result).toBe('filter[v]=1&filter[status][eq]=active')
     })
 
     it('should encode special characters', () => {
@@ -427,8 +549,7 @@ describe('Serialization', () => {
 
       const result = toQueryString(expressions)
 
-      // URLSearchParams uses + for spaces (valid URL encoding)
-      expect(result).toBe('name=John+Doe')
+      expect(result).toBe('filter[v]=1&filter[name][contains]=John+Doe')
     })
 
     it('should handle multiple expressions', () => {
@@ -452,7 +573,58 @@ describe('Serialization', () => {
 
       const result = toQueryString(expressions)
 
-      expect(result).toBe('status=active&age=25')
+      expect(result).toBe('filter[v]=1&filter[status][eq]=active&filter[age][gt]=25')
+    })
+
+    it('should write connectors, groups and negation as logic', () => {
+      const expressions: FilterExpression[] = [
+        {
+          condition: {
+            field: { key: 'status', label: 'Status', type: 'enum' },
+            operator: { key: 'eq', label: 'is', symbol: '=' },
+            value: { raw: 'active', display: 'active', serialized: 'active' },
+          },
+          connector: 'OR',
+        },
+        {
+          condition: {
+            field: { key: 'age', label: 'Age', type: 'number' },
+            operator: { key: 'gt', label: 'greater than', symbol: '>' },
+            value: { raw: 25, display: '25', serialized: '25' },
+          },
+          openGroups: 1,
+          connector: 'AND',
+        },
+        {
+          condition: {
+            field: { key: 'name', label: 'Name', type: 'string' },
+            operator: { key: 'contains', label: 'contains' },
+            value: { raw: 'a&b', display: 'a&b', serialized: 'a&b' },
+            negated: true,
+          },
+          closeGroups: 1,
+        },
+      ]
+
+      expect(toQueryString(expressions)).toBe(
+        'filter[v]=1&filter[status][eq]=active&filter[age][gt]=25&filter[name][contains]=a%26b' +
+          '&filter[logic]=1+OR+(2+AND+NOT+3)'
+      )
+    })
+
+    it('should use a custom parameter name and return an empty string for no expressions', () => {
+      const expressions: FilterExpression[] = [
+        {
+          condition: {
+            field: { key: 'status', label: 'Status', type: 'enum' },
+            operator: { key: 'eq', label: 'is', symbol: '=' },
+            value: { raw: 'active', display: 'active', serialized: 'active' },
+          },
+        },
+      ]
+
+      expect(toQueryString(expressions, { param: 'q' })).toBe('q[v]=1&q[status][eq]=active')
+      expect(toQueryString([])).toBe('')
     })
   })
 
@@ -491,6 +663,216 @@ describe('Serialization', () => {
       expect(result).toHaveLength(1)
       expect(result[0]?.condition.field.key).toBe('status')
     })
+
+    it('should round-trip operators, connectors, groups and negation', () => {
+      const queryString =
+        'filter[v]=1&filter[status][neq]=active&filter[age][lt]=30&filter[name][eq]=a%26b' +
+        '&filter[logic]=NOT+1+OR+(2+AND+3)'
+
+      const result = fromQueryString(queryString, testSchema)
+
+      expect(result.map((expr) => expr.condition.operator.key)).toEqual(['neq', 'lt', 'eq'])
+      expect(result[0]?.condition.negated).toBe(true)
+      expect(result[0]?.connector).toBe('OR')
+      expect(result[1]).toMatchObject({ openGroups: 1, connector: 'AND' })
+      expect(result[2]?.closeGroups).toBe(1)
+      expect(result[2]?.condition.value.raw).toBe('a&b')
+      expect(toQueryString(result)).toBe(queryString)
+    })
+
+    it('should read keys with percent-encoded brackets and ignore other parameters', () => {
+      const result = fromQueryString(
+        'page=2&filter%5Bv%5D=1&filter%5Bage%5D%5Bgt%5D=25&filter[status][eq]=active',
+        testSchema
+      )
+
+      expect(result).toHaveLength(2)
+      expect(result[0]).toMatchObject({ connector: 'AND' })
+      expect(result[0]?.condition.operator.key).toBe('gt')
+      expect(result[1]?.condition.field.key).toBe('status')
+    })
+  })
+
+  describe('parseQueryString', () => {
+    it('should drop and report conditions that cannot be read, keeping the logic', () => {
+      const { expressions, errors } = parseQueryString(
+        'filter[v]=1&filter[status][eq]=active&filter[color][eq]=red&filter[age][eq]=3' +
+          '&filter[name][eq]=x&filter[logic]=1+OR+(2+AND+3+AND+4)',
+        testSchema
+      )
+
+      expect(errors).toEqual([
+        { message: 'Unknown field: color', part: 'filter[color][eq]=red' },
+        { message: 'Unknown operator: eq for field age', part: 'filter[age][eq]=3' },
+      ])
+      expect(expressions).toHaveLength(2)
+      expect(expressions[0]?.connector).toBe('OR')
+      expect(expressions[1]?.condition.field.key).toBe('name')
+      expect(expressions[1]?.openGroups).toBeUndefined()
+    })
+
+    it('should AND the conditions when the logic cannot be read', () => {
+      const { expressions, errors } = parseQueryString(
+        'filter[status][eq]=active&filter[name][eq]=x&filter[logic]=1+OR+3&filter[a][b][c]=1',
+        testSchema
+      )
+
+      expect(errors).toEqual([
+        { message: 'Unrecognized filter parameter', part: 'filter[a][b][c]=1' },
+        { message: 'Expected condition 2 but found "3"', part: 'filter[logic]=1+OR+3' },
+      ])
+      expect(expressions.map((expr) => expr.connector)).toEqual(['AND', undefined])
+    })
+
+    it('should report unbalanced parentheses in the logic', () => {
+      const { expressions, errors } = parseQueryString(
+        'filter[status][eq]=active&filter[name][eq]=x&filter[logic]=(1+OR+2',
+        testSchema
+      )
+
+      expect(errors).toEqual([
+        { message: 'Unbalanced parentheses in logic', part: 'filter[logic]=(1+OR+2' },
+      ])
+      expect(expressions[0]).toEqual(expect.not.objectContaining({ openGroups: 1 }))
+      expect(expressions[0]?.connector).toBe('OR')
+    })
+
+    it('should reject unsupported versions', () => {
+      expect(parseQueryString('filter[v]=2&filter[status][eq]=active', testSchema)).toEqual({
+        expressions: [],
+        errors: [{ message: 'Unsupported filter version: 2', part: 'filter[v]=2' }],
+      })
+    })
+
+    it('should report unknown fields in the original format', () => {
+      const { expressions, errors } = parseQueryString('unknown=value&status=active', testSchema)
+
+      expect(expressions).toHaveLength(1)
+      expect(errors).toEqual([{ message: 'Unknown field: unknown', part: 'unknown=value' }])
+    })
+  })
+
+  describe('schema versions', () => {
+    const versionedSchema: FilterSchema = {
+      ...testSchema,
+      version: 2,
+      migrations: [
+        {
+          version: 2,
+          renameFields: { state: 'status' },
+          renameOperators: { '*': { is: 'eq' } },
+          dropFields: ['color'],
+        },
+      ],
+    }
+
+    it('should serialize the schema version with the expressions', () => {
+      const expressions = deserialize(
+        [{ field: 'status', operator: 'eq', value: 'active' }],
+        versionedSchema
+      )
+
+      expect(serializeVersioned(expressions, versionedSchema)).toEqual({
+        version: 2,
+        expressions: [{ field: 'status', operator: 'eq', value: 'active' }],
+      })
+    })
+
+    it('should migrate filters saved with an older version', () => {
+      const reports: MigrationReport[] = []
+      const result = deserialize(
+        {
+          version: 1,
+          expressions: [
+            { field: 'state', operator: 'is', value: 'active', connector: 'AND' },
+            { field: 'color', operator: 'eq', value: 'red' },
+          ],
+        },
+        versionedSchema,
+        { onMigrate: (report) => reports.push(report) }
+      )
+
+      expect(result).toHaveLength(1)
+      expect(result[0]?.condition.field.key).toBe('status')
+      expect(result[0]?.condition.operator.key).toBe('eq')
+      expect(result[0]?.connector).toBeUndefined()
+      expect(reports).toHaveLength(1)
+      expect(reports[0]?.migrated).toHaveLength(1)
+      expect(reports[0]?.dropped.map((dropped) => dropped.reason)).toEqual([
+        'Field "color" was removed in version 2',
+      ])
+    })
+
+    it('should migrate plain arrays saved with the given version', () => {
+      const serialized = [{ field: 'state', operator: 'is', value: 'active' }]
+
+      expect(deserialize(serialized, versionedSchema, { version: 1 })[0]?.condition.field.key).toBe(
+        'status'
+      )
+      expect(() => deserialize(serialized, versionedSchema)).toThrow('Unknown field: state')
+    })
+
+    it('should write the schema version to query strings', () => {
+      const expressions = deserialize(
+        [{ field: 'status', operator: 'eq', value: 'active' }],
+        versionedSchema
+      )
+
+      expect(toQueryString(expressions, { version: 2 })).toBe(
+        'filter[v]=1&filter[schema]=2&filter[status][eq]=active'
+      )
+    })
+
+    it('should migrate query strings with an older schema version', () => {
+      const { expressions, errors, migration } = parseQueryString(
+        'filter[v]=1&filter[schema]=1&filter[color][eq]=red&filter[state][is]=active' +
+          '&filter[name][eq]=x&filter[logic]=1+OR+(2+AND+3)',
+        versionedSchema
+      )
+
+      expect(errors).toEqual([])
+      expect(expressions.map((expr) => expr.condition.field.key)).toEqual(['status', 'name'])
+      expect(expressions[0]?.connector).toBe('AND')
+      expect(migration?.dropped.map((dropped) => dropped.index)).toEqual([0])
+      expect(migration?.migrated.map((migrated) => migrated.index)).toEqual([1])
+    })
+
+    it('should assume the given version for query strings without one', () => {
+      const { expressions, migration } = parseQueryString(
+        'filter[state][is]=active',
+        versionedSchema,
+        { version: 1 }
+      )
+
+      expect(expressions[0]?.condition.field.key).toBe('status')
+      expect(migration?.fromVersion).toBe(1)
+      expect(parseQueryString('filter[status][eq]=active', versionedSchema).migration).toBe(
+        undefined
+      )
+    })
+
+    it('should migrate query strings in the original format with the given version', () => {
+      const { expressions, errors, migration } = parseQueryString(
+        'state=active&color=red',
+        versionedSchema,
+        { version: 1 }
+      )
+
+      expect(errors).toEqual([])
+      expect(expressions).toHaveLength(1)
+      expect(expressions[0]?.condition.field.key).toBe('status')
+      expect(expressions[0]?.condition.value.raw).toBe('active')
+      expect(migration?.dropped.map((dropped) => dropped.index)).toEqual([1])
+      expect(parseQueryString('state=active', versionedSchema).errors).toEqual([
+        { message: 'Unknown field: state', part: 'state=active' },
+      ])
+    })
+
+    it('should report invalid schema versions', () => {
+      expect(
+        parseQueryString('filter[schema]=x&filter[status][eq]=active', versionedSchema).errors
+      ).toEqual([{ message: 'Invalid schema version: x', part: 'filter[schema]=x' }])
+    })
   })
 
   describe('custom field serialization', () => {
@@ -10,7 +10,30 @@ import type {
   OperatorValue,
   FieldConfig,
   FieldType,
+  OperatorConfig,
 } from '@/types'
+import { balanceGroups, removeExpressionAt, scanGroups } from './expressionTree'
+import {
+  createConditionMigrator,
+  getSchemaVersion,
+  migrateSerialized,
+  type ConditionMigrator,
+  type MigrationReport,
+} from './migration'
+import { findField } from './fieldPaths'
+import { getValueList } from './evaluation'
+import { createRelativeDateValue, isRelativeDate } from './relativeDates'
+
+/**
+ * Operators used for freeform fields when the schema does not configure any
+ */
+export const FREEFORM_OPERATORS: OperatorConfig[] = [
+  { key: 'eq', label: 'equals', symbol: '=' },
+  { key: 'neq', label: 'not equals', symbol: '≠' },
+  { key: 'contains', label: 'contains' },
+  { key: 'startsWith', label: 'starts with' },
+  { key: 'endsWith', label: 'ends with' },
+]
 
 /**
  * Serialized expression format (for JSON/API)
@@ -20,6 +43,21 @@ export interface SerializedExpression {
   operator: string
   value: unknown
   connector?: 'AND' | 'OR'
+  /** Whether the condition is negated (NOT) */
+  negated?: boolean
+  /** Number of groups opened before this expression */
+  openGroups?: number
+  /** Number of groups closed after this expression */
+  closeGroups?: number
+}
+
+/**
+ * Serialized expressions with the schema version they were saved with
+ */
+export interface SerializedFilter {
+  /** Schema version, see `FilterSchema.version` */
+  version: number
+  expressions: SerializedExpression[]
 }
 
 /**
@@ -40,6 +78,13 @@ export interface DeserializeOptions {
   useFieldDeserializers?: boolean
   /** Use schema-level deserializer if available */
   useSchemaDeserializer?: boolean
+  /**
+   * Schema version of expressions saved without one (a plain array). Defaults
+   * to the schema's current version, so they are not migrated.
+   */
+  version?: number
+  /** Called with the migration report when an older filter was migrated */
+  onMigrate?: (report: MigrationReport) => void
 }
 
 /**
@@ -68,7 +113,7 @@ export function serialize(
 
     // Apply field-level serializer if available
     if (useFieldSerializers && schema) {
-      const fieldConfig = schema.fields.find((f) => f.key === expr.condition.field.key)
+      const fieldConfig = findField(schema, expr.condition.field.key)
       if (fieldConfig?.serialize) {
         serializedValue = fieldConfig.serialize(expr.condition.value)
       }
@@ -79,43 +124,121 @@ export function serialize(
       operator: expr.condition.operator.key,
       value: serializedValue,
     }
+    if (expr.condition.negated) {
+      result.negated = true
+    }
     if (expr.connector) {
       result.connector = expr.connector
     }
+    if (expr.openGroups) {
+      result.openGroups = expr.openGroups
+    }
+    if (expr.closeGroups) {
+      result.closeGroups = expr.closeGroups
+    }
     return result
   })
 }
 
 /**
- * Helper to deserialize a value
+ * Serialize filter expressions together with the schema version, so that
+ * `deserialize` can migrate them after the schema changes
+ */
+export function serializeVersioned(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: SerializeOptions = {}
+): SerializedFilter {
+  return { version: getSchemaVersion(schema), expressions: serialize(expressions, schema, options) }
+}
+
+/**
+ * Check whether deserialized data is a `SerializedFilter`
+ */
+function isSerializedFilter(data: unknown): data is SerializedFilter {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as SerializedFilter).version === 'number' &&
+    Array.isArray((data as SerializedFilter).expressions)
+  )
+}
+
+/**
+ * Copy negation and group counts from a serialized expression onto an expression
+ */
+function applyStructure(
+  expression: FilterExpression,
+  item: SerializedExpression
+): FilterExpression {
+  if (item.negated) {
+    expression.condition.negated = true
+  }
+  if (item.openGroups) {
+    expression.openGroups = item.openGroups
+  }
+  if (item.closeGroups) {
+    expression.closeGroups = item.closeGroups
+  }
+  return expression
+}
+
+/**
+ * Helper to deserialize a value. Values of list operators (`multiValue` with
+ * an unlimited count) get the list of values as their raw value, and relative
+ * dates (e.g. `now-7d`) of date fields become relative values, also as the
+ * endpoints of a range such as `today-7d and today`.
  */
 function deserializeValue(
   value: unknown,
-  fieldConfig: Pick<FieldConfig, 'deserialize'>,
-  useFieldDeserializers: boolean = true
+  fieldConfig: Pick<FieldConfig, 'deserialize' | 'type'>,
+  useFieldDeserializers: boolean = true,
+  operatorConfig?: OperatorConfig
 ): ConditionValue {
   if (useFieldDeserializers && fieldConfig.deserialize) {
     return fieldConfig.deserialize(value)
   }
+  const type = operatorConfig?.valueType ?? fieldConfig.type
+  const isDate = type === 'date' || type === 'datetime'
   const valueStr = String(value)
-  return {
-    raw: value,
-    display: valueStr,
-    serialized: valueStr,
+  const conditionValue = { raw: value, display: valueStr, serialized: valueStr }
+  if (operatorConfig?.multiValue && valueStr !== '') {
+    const raw = getValueList(conditionValue, operatorConfig)
+    // Ranges with relative endpoints keep their endpoints to resolve each of them
+    if (isDate && raw.some(isRelativeDate)) return { ...conditionValue, raw, relative: true }
+    if (operatorConfig.multiValue.count === -1) return { ...conditionValue, raw }
+  }
+  if (isDate && isRelativeDate(valueStr)) {
+    return createRelativeDateValue(valueStr)
   }
+  return conditionValue
 }
 
 /**
  * Deserialize from simple JSON format back to filter expressions
  * Supports custom field-level deserializers
+ *
+ * Filters saved with an older schema version (a `SerializedFilter` from
+ * `serializeVersioned`, or a plain array with `options.version`) are migrated
+ * first, see `FilterSchema.migrations`.
  */
 export function deserialize(
-  serialized: SerializedExpression[],
+  data: SerializedExpression[] | SerializedFilter,
   schema: FilterSchema,
   options: DeserializeOptions = {}
 ): FilterExpression[] {
   const { useFieldDeserializers = true, useSchemaDeserializer = true } = options
 
+  // Other data is left to a schema-level deserializer
+  let serialized = isSerializedFilter(data) ? data.expressions : data
+  const currentVersion = getSchemaVersion(schema)
+  const version = isSerializedFilter(data) ? data.version : (options.version ?? currentVersion)
+  if (version < currentVersion && Array.isArray(serialized)) {
+    const { expressions, report } = migrateSerialized(serialized, schema, version)
+    serialized = expressions
+    options.onMigrate?.(report)
+  }
+
   // Check for schema-level deserializer
   if (useSchemaDeserializer && schema.deserialize) {
     return schema.deserialize(serialized)
@@ -123,7 +246,7 @@ export function deserialize(
 
   return serialized.map((item) => {
     // Find field config
-    let fieldConfig = schema.fields.find((f) => f.key === item.field)
+    let fieldConfig = findField(schema, item.field)
     let isFreeformField = false
 
     // If field not found in schema, check if freeform fields are enabled
@@ -135,13 +258,7 @@ export function deserialize(
         key: item.field,
         label: item.field,
         type: freeformConfig.type ?? 'string',
-        operators: freeformConfig.operators ?? [
-          { key: 'eq', label: 'equals', symbol: '=' },
-          { key: 'neq', label: 'not equals', symbol: '≠' },
-          { key: 'contains', label: 'contains' },
-          { key: 'startsWith', label: 'starts with' },
-          { key: 'endsWith', label: 'ends with' },
-        ],
+        operators: freeformConfig.operators ?? FREEFORM_OPERATORS,
       }
     }
 
@@ -159,7 +276,7 @@ export function deserialize(
         )
         if (freeformOp) {
           // Continue with the freeform operator
-          const value = deserializeValue(item.value, fieldConfig)
+          const value = deserializeValue(item.value, fieldConfig, true, freeformOp)
           const expression: FilterExpression = {
             condition: {
               field: {
@@ -178,14 +295,14 @@ export function deserialize(
           if (item.connector) {
             expression.connector = item.connector
           }
-          return expression
+          return applyStructure(expression, item)
         }
       }
       throw new Error(`Unknown operator: ${item.operator} for field ${item.field}`)
     }
 
     // Apply field-level deserializer if available
-    const value = deserializeValue(item.value, fieldConfig, useFieldDeserializers)
+    const value = deserializeValue(item.value, fieldConfig, useFieldDeserializers, operatorConfig)
 
     const expression: FilterExpression = {
       condition: {
@@ -207,7 +324,7 @@ export function deserialize(
       expression.connector = item.connector
     }
 
-    return expression
+    return applyStructure(expression, item)
   })
 }
 
@@ -244,11 +361,16 @@ export function toDisplayString(
     formatExpression,
   } = options
 
+  const wrapExpression = (expr: FilterExpression, text: string) => {
+    const condition = expr.condition.negated ? `NOT ${text}` : text
+    return `${'('.repeat(expr.openGroups ?? 0)}${condition}${')'.repeat(expr.closeGroups ?? 0)}`
+  }
+
   return expressions
     .map((expr, index) => {
       // Use custom expression formatter if provided
       if (formatExpression) {
-        const formatted = formatExpression(expr, index)
+        const formatted = wrapExpression(expr, formatExpression(expr, index))
         if (expr.connector && index < expressions.length - 1) {
           return `${formatted} ${formatConnector(expr.connector)}`
         }
@@ -260,7 +382,7 @@ export function toDisplayString(
       const operator = formatOperator(expr.condition.operator)
       const value = formatValue(expr.condition.value, expr.condition.field, expr.condition.operator)
 
-      let part = `${field} ${operator} ${value}`
+      let part = wrapExpression(expr, `${field} ${operator} ${value}`)
 
       if (expr.connector && index < expressions.length - 1) {
         part += ` ${formatConnector(expr.connector)}`
@@ -271,33 +393,238 @@ export function toDisplayString(
     .join(' ')
 }
 
+// =============================================================================
+// Query Strings
+// =============================================================================
+
 /**
- * Generate URL query string from expressions
- * Simple format: field=value&field2=value2
+ * Version of the query string format written by `toQueryString`
  */
-export function toQueryString(expressions: FilterExpression[]): string {
-  const params = new URLSearchParams()
+export const QUERY_STRING_VERSION = 1
 
-  for (const expr of expressions) {
-    const key = expr.condition.field.key
-    const value = String(expr.condition.value.serialized)
-    params.set(key, value)
+/**
+ * Options for query string encoding
+ */
+export interface QueryStringOptions {
+  /**
+   * Name of the parameter holding the filter, as in `filter[price][gte]=10`
+   * @default 'filter'
+   */
+  param?: string
+  /**
+   * Schema version of the filter. `toQueryString` records it as
+   * `filter[schema]=2`; `parseQueryString` assumes it for query strings that
+   * don't record one (default: the schema's current version).
+   */
+  version?: number
+}
+
+/**
+ * A part of a query string that could not be read
+ */
+export interface QueryStringError {
+  message: string
+  /** The `key=value` part that was dropped */
+  part: string
+}
+
+/**
+ * Result of reading a query string
+ */
+export interface ParseQueryStringResult {
+  expressions: FilterExpression[]
+  errors: QueryStringError[]
+  /** What was migrated or dropped, when the query string had an older schema version */
+  migration?: MigrationReport
+}
+
+/**
+ * A `key=value` part of a query string with its key split into a name and bracketed segments
+ */
+interface QueryStringPart {
+  part: string
+  name: string
+  segments: string[]
+  value: string
+}
+
+/**
+ * Grouping, negation and connector of a condition read from a logic string
+ */
+interface LogicItem {
+  openGroups: number
+  closeGroups: number
+  negated: boolean
+  connector?: 'AND' | 'OR'
+}
+
+/**
+ * Encode a query string component, keeping characters that are readable in URLs
+ */
+function encodeComponent(text: string): string {
+  return encodeURIComponent(text)
+    .replace(/%20/g, '+')
+    .replace(/%(2C|2F|3A|40)/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+}
+
+/**
+ * Decode a query string component, leaving malformed escapes as they are
+ */
+function decodeComponent(text: string): string {
+  const spaced = text.replace(/\+/g, ' ')
+  try {
+    return decodeURIComponent(spaced)
+  } catch {
+    return spaced
   }
+}
 
-  return params.toString()
+/**
+ * Split a query string into parts with decoded names, key segments and values
+ */
+function splitQueryString(queryString: string): QueryStringPart[] {
+  return queryString
+    .replace(/^\?/, '')
+    .split('&')
+    .filter(Boolean)
+    .map((part) => {
+      const separator = part.indexOf('=')
+      const rawKey = separator === -1 ? part : part.slice(0, separator)
+      const value = separator === -1 ? '' : decodeComponent(part.slice(separator + 1))
+      // The brackets may have been percent-encoded along with the rest of the key
+      const key = rawKey.includes('[') ? rawKey : decodeComponent(rawKey)
+      const match = /^([^[\]]*)((?:\[[^[\]]*\])+)$/.exec(key)
+      if (!match) {
+        return { part, name: decodeComponent(key), segments: [], value }
+      }
+      const segments = match[2]
+        .slice(1, -1)
+        .split('][')
+        .map((segment) => decodeComponent(segment))
+      return { part, name: decodeComponent(match[1]), segments, value }
+    })
 }
 
 /**
- * Parse URL query string to filter expressions
- * Uses the first valid operator for each field
+ * Write the grouping, negation and connectors of expressions as a logic string
+ * such as `1 AND (2 OR NOT 3)`, or undefined when the conditions are simply ANDed
  */
-export function fromQueryString(queryString: string, schema: FilterSchema): FilterExpression[] {
-  const params = new URLSearchParams(queryString)
+function toLogic(expressions: FilterExpression[]): string | undefined {
+  const isPlainAnd = expressions.every(
+    (expr, index) =>
+      !expr.openGroups &&
+      !expr.closeGroups &&
+      !expr.condition.negated &&
+      (index === expressions.length - 1 || (expr.connector ?? 'AND') === 'AND')
+  )
+  if (isPlainAnd) return undefined
+
+  return expressions
+    .map((expr, index) => {
+      const condition = `${expr.condition.negated ? 'NOT ' : ''}${index + 1}`
+      const part = `${'('.repeat(expr.openGroups ?? 0)}${condition}${')'.repeat(expr.closeGroups ?? 0)}`
+      return index < expressions.length - 1 ? `${part} ${expr.connector ?? 'AND'}` : part
+    })
+    .join(' ')
+}
+
+/**
+ * Read a logic string written by `toLogic` for the given number of conditions
+ */
+function parseLogic(logic: string, count: number): LogicItem[] | string {
+  const tokens = logic.match(/[()]|[^\s()]+/g) ?? []
+  const items: LogicItem[] = []
+  let current: LogicItem = { openGroups: 0, closeGroups: 0, negated: false }
+  let expectCondition = true
+
+  for (const token of tokens) {
+    const keyword = token.toUpperCase()
+    if (expectCondition) {
+      if (token === '(') {
+        current.openGroups++
+      } else if (keyword === 'NOT') {
+        current.negated = true
+      } else if (token === String(items.length + 1)) {
+        expectCondition = false
+      } else {
+        return `Expected condition ${items.length + 1} but found "${token}"`
+      }
+    } else if (token === ')') {
+      current.closeGroups++
+    } else if (keyword === 'AND' || keyword === 'OR') {
+      items.push({ ...current, connector: keyword })
+      current = { openGroups: 0, closeGroups: 0, negated: false }
+      expectCondition = true
+    } else {
+      return `Expected AND or OR but found "${token}"`
+    }
+  }
+
+  if (expectCondition) {
+    return 'Logic ends without a condition'
+  }
+  items.push(current)
+  if (items.length !== count) {
+    return `Logic has ${items.length} conditions but the filter has ${count}`
+  }
+  return items
+}
+
+/**
+ * Generate a URL query string from expressions.
+ *
+ * Each condition is written as `filter[field][operator]=value`, in order. When
+ * the conditions are not simply ANDed, their connectors, groups and negation are
+ * written as a logic string, e.g. `filter[logic]=1+OR+(2+AND+NOT+3)`. The format
+ * version is written as `filter[v]=1`, and the schema version given in the
+ * options as `filter[schema]=2`. An empty filter yields an empty string.
+ */
+export function toQueryString(
+  expressions: FilterExpression[],
+  options: QueryStringOptions = {}
+): string {
+  if (expressions.length === 0) return ''
+
+  const { param = 'filter', version } = options
+  const key = (...segments: string[]) =>
+    encodeComponent(param) + segments.map((segment) => `[${encodeComponent(segment)}]`).join('')
+
+  const parts = [`${key('v')}=${QUERY_STRING_VERSION}`]
+  if (version !== undefined) {
+    parts.push(`${key('schema')}=${version}`)
+  }
+  for (const expr of expressions) {
+    const { field, operator, value } = expr.condition
+    parts.push(`${key(field.key, operator.key)}=${encodeComponent(value.serialized)}`)
+  }
+  const logic = toLogic(expressions)
+  if (logic) {
+    parts.push(`${key('logic')}=${encodeComponent(logic)}`)
+  }
+  return parts.join('&')
+}
+
+/**
+ * Read query strings in the original `field=value` format, which has no
+ * operators or connectors: each field uses its first operator and all are ANDed.
+ * With a migrator, the fields are migrated first; as they have no operator,
+ * they are migrated with an empty operator key.
+ */
+function parseLegacyQueryString(
+  parts: QueryStringPart[],
+  schema: FilterSchema,
+  errors: QueryStringError[],
+  migrator: ConditionMigrator | undefined
+): FilterExpression[] {
   const expressions: FilterExpression[] = []
-  const entries = Array.from(params.entries())
 
-  entries.forEach(([key, value], index) => {
-    const fieldConfig = schema.fields.find((f) => f.key === key)
+  parts.forEach(({ part, name, value: text }, index) => {
+    const saved = { field: name, operator: '', value: text as unknown }
+    const migrated = migrator ? migrator.migrate(saved, index) : saved
+    if (!migrated) return
+    const key = migrated.field
+    const value = String(migrated.value ?? '')
+    const fieldConfig = findField(schema, key)
     let operatorConfig: { key: string; label: string; symbol?: string } | undefined
     let fieldType: FieldType = 'string'
 
@@ -312,15 +639,16 @@ export function fromQueryString(queryString: string, schema: FilterSchema): Filt
       operatorConfig = operators[0]
       fieldType = freeformConfig.type ?? 'string'
     } else {
-      // Skip unknown fields when freeform not allowed
+      errors.push({ message: `Unknown field: ${key}`, part })
       return
     }
 
     if (!operatorConfig) {
+      errors.push({ message: `Field ${key} has no operators`, part })
       return
     }
 
-    const expression: FilterExpression = {
+    expressions.push({
       condition: {
         field: {
           key: key,
@@ -338,15 +666,154 @@ export function fromQueryString(queryString: string, schema: FilterSchema): Filt
           serialized: value,
         },
       },
+    })
+  })
+
+  return expressions.map((expression, index) =>
+    index < expressions.length - 1 ? { ...expression, connector: 'AND' } : expression
+  )
+}
+
+/**
+ * Parse a URL query string into filter expressions, reporting the parts that
+ * could not be read.
+ *
+ * Reads the format written by `toQueryString`, ignoring parameters that do not
+ * belong to the filter. Conditions on unknown fields or with unknown operators
+ * are dropped and reported, as is a malformed logic string (the conditions are
+ * then ANDed). A query string without any filter parameters is read in the
+ * original `field=value` format, so existing links keep working.
+ *
+ * Query strings recording an older schema version (`filter[schema]=1`), or
+ * assumed to have one with the `version` option, are migrated with the
+ * schema's migrations before their conditions are read, see
+ * `FilterSchema.migrations`. Dropped conditions are listed in `migration`
+ * rather than `errors`.
+ */
+export function parseQueryString(
+  queryString: string,
+  schema: FilterSchema,
+  options: QueryStringOptions = {}
+): ParseQueryStringResult {
+  const { param = 'filter' } = options
+  const errors: QueryStringError[] = []
+  const parts = splitQueryString(queryString)
+  const filterParts = parts.filter((part) => part.name === param && part.segments.length > 0)
+  const currentVersion = getSchemaVersion(schema)
+  let version = options.version ?? currentVersion
+
+  if (filterParts.length === 0) {
+    const legacyParts = parts.filter((part) => part.segments.length === 0)
+    const migrator = version < currentVersion ? createConditionMigrator(schema, version) : undefined
+    const expressions = parseLegacyQueryString(legacyParts, schema, errors, migrator)
+    return migrator ? { expressions, errors, migration: migrator.report } : { expressions, errors }
+  }
+
+  const conditions: { part: QueryStringPart; expression?: FilterExpression }[] = []
+  let logicPart: QueryStringPart | undefined
+
+  const versionPart = filterParts.find(
+    (part) => part.segments.length === 1 && part.segments[0] === 'schema'
+  )
+  if (versionPart) {
+    if (/^\d+$/.test(versionPart.value)) {
+      version = Number(versionPart.value)
+    } else {
+      errors.push({
+        message: `Invalid schema version: ${versionPart.value}`,
+        part: versionPart.part,
+      })
     }
+  }
+  const migrator = version < currentVersion ? createConditionMigrator(schema, version) : undefined
+
+  for (const part of filterParts) {
+    const [first, second] = part.segments
+    if (part.segments.length === 1 && first === 'v') {
+      if (part.value !== String(QUERY_STRING_VERSION)) {
+        return {
+          expressions: [],
+          errors: [{ message: `Unsupported filter version: ${part.value}`, part: part.part }],
+        }
+      }
+    } else if (part.segments.length === 1 && first === 'logic') {
+      logicPart = part
+    } else if (part === versionPart) {
+      continue
+    } else if (part.segments.length === 2) {
+      const saved = { field: first, operator: second, value: part.value as unknown }
+      const condition = migrator ? migrator.migrate(saved, conditions.length) : saved
+      if (!condition) {
+        conditions.push({ part })
+        continue
+      }
+      try {
+        const [expression] = deserialize([condition], schema, {
+          useFieldDeserializers: false,
+          useSchemaDeserializer: false,
+        })
+        conditions.push({ part, expression })
+      } catch (error) {
+        errors.push({ message: (error as Error).message, part: part.part })
+        conditions.push({ part })
+      }
+    } else {
+      errors.push({ message: 'Unrecognized filter parameter', part: part.part })
+    }
+  }
 
-    // Add connector if not last item
-    if (index < entries.length - 1) {
-      expression.connector = 'AND'
+  let logic: LogicItem[] | undefined
+  if (logicPart) {
+    const result = parseLogic(logicPart.value, conditions.length)
+    if (typeof result === 'string') {
+      errors.push({ message: result, part: logicPart.part })
+    } else {
+      logic = result
     }
+  }
 
-    expressions.push(expression)
+  // Dropped conditions keep a placeholder until the structure has been applied
+  let expressions = conditions.map(({ part, expression }, index): FilterExpression => {
+    const result: FilterExpression = expression ?? {
+      condition: {
+        field: { key: part.segments[0], label: part.segments[0], type: 'string' },
+        operator: { key: part.segments[1], label: part.segments[1] },
+        value: { raw: part.value, display: part.value, serialized: part.value },
+      },
+    }
+    const item = logic?.[index]
+    if (item) {
+      if (item.negated) result.condition.negated = true
+      if (item.openGroups) result.openGroups = item.openGroups
+      if (item.closeGroups) result.closeGroups = item.closeGroups
+    }
+    const connector = item ? item.connector : index < conditions.length - 1 ? 'AND' : undefined
+    return connector ? { ...result, connector } : result
   })
 
-  return expressions
+  const { unmatchedOpens, unmatchedCloses } = scanGroups(expressions)
+  if (logicPart && unmatchedOpens.length + unmatchedCloses.length > 0) {
+    errors.push({ message: 'Unbalanced parentheses in logic', part: logicPart.part })
+  }
+  expressions = balanceGroups(expressions)
+
+  for (let index = conditions.length - 1; index >= 0; index--) {
+    if (!conditions[index].expression) {
+      expressions = removeExpressionAt(expressions, index)
+    }
+  }
+
+  return migrator ? { expressions, errors, migration: migrator.report } : { expressions, errors }
+}
+
+/**
+ * Parse a URL query string into filter expressions.
+ * Parts that cannot be read are dropped; use `parseQueryString` to find out which.
+ */
+export function fromQueryString(
+  queryString: string,
+  schema: FilterSchema,
+  options: QueryStringOptions = {}
+): FilterExpression[] {
+  return parseQueryString(queryString, schema, options).expressions
 }
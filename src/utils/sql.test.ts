@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest'
+import { toSql } from './sql'
+import type { FilterSchema } from '@/types'
+import { createExpressions, createQuerySchema, type TestCondition } from '@/test/queryFixtures'
+
+const schema = createQuerySchema({
+  key: 'tags',
+  label: 'Tags',
+  type: 'string',
+  operators: [{ key: 'overlaps', label: 'overlaps' }],
+})
+
+const filter = (...conditions: TestCondition[]) => createExpressions(schema, ...conditions)
+
+describe('toSql', () => {
+  it('should generate comparisons with positional Postgres placeholders', () => {
+    const result = toSql(
+      filter(['status', 'eq', 'open'], ['price', 'gte', '10'], ['active', 'is', 'true']),
+      schema
+    )
+
+    expect(result.where).toBe('"status" = $1 AND "price" >= $2 AND "active" = $3')
+    expect(result.params).toEqual(['open', 10, true])
+  })
+
+  it('should use ? placeholders and backtick identifiers for MySQL', () => {
+    const { where } = toSql(
+      filter(['price', 'lt', '5', { connector: 'OR' }], ['status', 'neq', 'open']),
+      schema,
+      { dialect: 'mysql' }
+    )
+    expect(where).toBe('`price` < ? OR `status` <> ?')
+  })
+
+  it('should use named placeholders', () => {
+    const result = toSql(filter(['price', 'gt', '1'], ['price', 'lt', '9']), schema, {
+      dialect: 'sqlite',
+      placeholders: 'named',
+    })
+
+    expect(result.where).toBe('"price" > :p1 AND "price" < :p2')
+    expect(result.params).toEqual([1, 9])
+    expect(result.namedParams).toEqual({ p1: 1, p2: 9 })
+  })
+
+  it('should query array columns per dialect', () => {
+    const postgres = toSql(filter(['labels', 'anyOf', 'a, b'], ['labels', 'lengthGt', '1']), schema)
+    expect(postgres.where).toBe(
+      '"labels" && ARRAY[$1, $2] AND COALESCE(cardinality("labels"), 0) > $3'
+    )
+    expect(postgres.params).toEqual(['a', 'b', 1])
+
+    const mysql = toSql(
+      filter(['labels', 'allOf', 'a, b'], ['labels', 'isEmpty', '', { negated: true }]),
+      schema,
+      {
+        dialect: 'mysql',
+      }
+    )
+    expect(mysql.where).toBe(
+      'JSON_CONTAINS(`labels`, JSON_ARRAY(?, ?)) AND NOT (COALESCE(JSON_LENGTH(`labels`), 0) = 0)'
+    )
+
+    const sqlite = toSql(filter(['labels', 'noneOf', 'a']), schema, { dialect: 'sqlite' })
+    expect(sqlite.where).toBe(
+      'NOT EXISTS (SELECT value FROM json_each("labels") WHERE value IN (?))'
+    )
+  })
+
+  it('should honor groups, negation and precedence', () => {
+    const { where } = toSql(
+      filter(
+        ['status', 'eq', 'open', { openGroups: 1, connector: 'OR' }],
+        ['name', 'contains', 'x', { negated: true, closeGroups: 1 }],
+        ['price', 'gt', '3', { connector: 'OR' }],
+        ['price', 'lt', '1']
+      ),
+      schema
+    )
+    expect(where).toBe(
+      '(("status" = $1 OR NOT ("name" ILIKE $2 ESCAPE \'!\')) AND "price" > $3) OR "price" < $4'
+    )
+  })
+
+  it('should expand between and in', () => {
+    const result = toSql(
+      filter(['price', 'between', '10 and 20'], ['status', 'in', 'open, closed']),
+      schema
+    )
+
+    expect(result.where).toBe('"price" BETWEEN $1 AND $2 AND "status" IN ($3, $4)')
+    expect(result.params).toEqual([10, 20, 'open', 'closed'])
+  })
+
+  it('should compare datetimes by day for on', () => {
+    expect(toSql(filter(['updated', 'on', '2024-05-01']), schema).where).toBe(
+      'CAST("updated" AS DATE) = $1'
+    )
+    expect(
+      toSql(filter(['updated', 'on', '2024-05-01']), schema, { dialect: 'sqlite' }).where
+    ).toBe('DATE("updated") = ?')
+    expect(toSql(filter(['created', 'on', '2024-05-01']), schema).where).toBe('"created" = $1')
+  })
+
+  it('should map fields to columns', () => {
+    const expressions = filter(['name', 'eq', 'a'], ['price', 'gt', '1'])
+
+    expect(toSql(expressions, schema, { columns: { name: 'users.full_name' } }).where).toBe(
+      '"users"."full_name" = $1 AND "price" > $2'
+    )
+    expect(toSql(expressions, schema, { columns: (key) => `t.${key}` }).where).toBe(
+      '"t"."name" = $1 AND "t"."price" > $2'
+    )
+  })
+
+  it('should escape quotes in identifiers', () => {
+    const freeform: FilterSchema = { fields: [], allowFreeformFields: true }
+    const { expressions } = { expressions: createExpressions(freeform, ['a"b', 'eq', '1']) }
+    expect(toSql(expressions, freeform).where).toBe('"a""b" = $1')
+  })
+
+  it('should return a clause matching everything for no expressions', () => {
+    expect(toSql([], schema)).toEqual({ where: '1 = 1', params: [], namedParams: {} })
+  })
+
+  describe('pattern matching', () => {
+    it('should escape LIKE wildcards in values', () => {
+      const result = toSql(filter(['name', 'contains', '50%_off!']), schema)
+
+      expect(result.where).toBe('"name" ILIKE $1 ESCAPE \'!\'')
+      expect(result.params).toEqual(['%50!%!_off!!%'])
+    })
+
+    it('should anchor startsWith and endsWith', () => {
+      const result = toSql(filter(['name', 'startsWith', 'a'], ['name', 'endsWith', 'b']), schema)
+      expect(result.params).toEqual(['a%', '%b'])
+    })
+
+    it('should pass like patterns through without escaping', () => {
+      const result = toSql(filter(['name', 'like', 'a_c%']), schema)
+
+      expect(result.where).toBe('"name" ILIKE $1')
+      expect(result.params).toEqual(['a_c%'])
+    })
+
+    it('should match case-sensitively per dialect', () => {
+      const expressions = filter(['name', 'contains', 'x'])
+      const sensitive = (dialect: 'postgres' | 'mysql' | 'sqlite') =>
+        toSql(expressions, schema, { dialect, caseSensitive: true })
+
+      expect(sensitive('postgres').where).toBe('"name" LIKE $1 ESCAPE \'!\'')
+      expect(sensitive('mysql').where).toBe("`name` LIKE CAST(? AS BINARY) ESCAPE '!'")
+      expect(sensitive('sqlite').where).toBe('"name" GLOB ?')
+    })
+
+    it('should match case-insensitively per dialect', () => {
+      const expressions = filter(['name', 'contains', 'x'])
+
+      expect(toSql(expressions, schema, { dialect: 'mysql' }).where).toBe(
+        "LOWER(`name`) LIKE LOWER(?) ESCAPE '!'"
+      )
+      expect(toSql(expressions, schema, { dialect: 'sqlite' }).where).toBe(
+        '"name" LIKE ? ESCAPE \'!\''
+      )
+    })
+
+    it('should escape GLOB wildcards and convert like patterns for SQLite', () => {
+      const options = { dialect: 'sqlite' as const, caseSensitive: true }
+
+      expect(toSql(filter(['name', 'contains', 'a*b?']), schema, options).params).toEqual([
+        '*a[*]b[?]*',
+      ])
+      expect(toSql(filter(['name', 'like', 'a_c%*']), schema, options).params).toEqual(['a?c*[*]'])
+    })
+  })
+
+  describe('custom operators', () => {
+    it('should build custom operators with parameters', () => {
+      const result = toSql(filter(['tags', 'overlaps', 'a, b']), schema, {
+        operators: {
+          overlaps: ({ column, value, param }) =>
+            `${column} && ${param(String(value.raw).split(', '))}`,
+        },
+      })
+
+      expect(result.where).toBe('"tags" && $1')
+      expect(result.params).toEqual([['a', 'b']])
+    })
+
+    it('should throw for operators without SQL', () => {
+      expect(() => toSql(filter(['tags', 'overlaps', 'a']), schema)).toThrow(
+        'Unsupported operator "overlaps" for field "tags"'
+      )
+    })
+
+    it('should throw for fields that are not in the schema', () => {
+      const freeform: FilterSchema = { ...schema, allowFreeformFields: true }
+      const { expressions } = { expressions: createExpressions(freeform, ['team', 'eq', 'core']) }
+
+      expect(() => toSql(expressions, schema)).toThrow('Unknown field "team"')
+      expect(toSql(expressions, freeform).where).toBe('"team" = $1')
+    })
+  })
+})
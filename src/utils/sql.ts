@@ -0,0 +1,455 @@
+/**
+ * SQL Generation
+ *
+ * Converts filter expressions into a parameterized SQL WHERE clause. Values are
+ * never inlined into the SQL text: every value becomes a placeholder with its
+ * value in a separate parameter list, and column names are quoted identifiers.
+ */
+
+import type {
+  ConditionValue,
+  FieldConfig,
+  FieldType,
+  FilterCondition,
+  FilterExpression,
+  FilterNode,
+  FilterSchema,
+} from '@/types'
+import { toExpressionTree } from './expressionTree'
+import { getValueList } from './evaluation'
+import {
+  escapeLike,
+  formatDate,
+  getSingleValue,
+  resolveCondition,
+  toTypedValue,
+  unsupportedOperatorError,
+  type QueryOptions,
+} from './conditionValues'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * SQL dialects supported by `toSql`
+ */
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite'
+
+/**
+ * Context passed to custom SQL operator builders
+ */
+export interface SqlOperatorContext {
+  /** Quoted column expression for the field */
+  column: string
+  /** Value of the condition */
+  value: ConditionValue
+  /** Field config from the schema (undefined for freeform fields) */
+  field: FieldConfig | undefined
+  /** Target dialect */
+  dialect: SqlDialect
+  /** Add a parameter and return its placeholder */
+  param: (value: unknown) => string
+}
+
+/**
+ * Builds the SQL for a custom operator. Values must be added through `param`.
+ */
+export type SqlOperatorBuilder = (context: SqlOperatorContext) => string
+
+/**
+ * Options for generating SQL
+ */
+export interface ToSqlOptions extends QueryOptions {
+  /**
+   * Target dialect, which decides the placeholder syntax, identifier quoting and
+   * pattern matching
+   * @default 'postgres'
+   */
+  dialect?: SqlDialect
+  /**
+   * Positional placeholders (`$1` for Postgres, `?` for MySQL and SQLite) or
+   * named placeholders (`:p1`)
+   * @default 'positional'
+   */
+  placeholders?: 'positional' | 'named'
+  /**
+   * Name of the parameter at an index when using named placeholders
+   * @default (index) => `p${index + 1}`
+   */
+  paramName?: (index: number) => string
+  /**
+   * Column for each field key, as a map or a function. Dotted names such as
+   * `users.name` are qualified names. Defaults to the field key.
+   */
+  columns?: Record<string, string> | ((fieldKey: string) => string)
+  /**
+   * Match `contains`, `startsWith`, `endsWith` and `like` case-sensitively
+   * @default false
+   */
+  caseSensitive?: boolean
+  /**
+   * SQL builders for custom operators, by operator key. Also overrides the
+   * built-in SQL of an operator key.
+   */
+  operators?: Record<string, SqlOperatorBuilder>
+}
+
+/**
+ * A generated WHERE clause
+ */
+export interface SqlResult {
+  /** Condition to use after `WHERE` (without the keyword); `1 = 1` when there are no expressions */
+  where: string
+  /** Parameter values in placeholder order */
+  params: unknown[]
+  /** Parameter values by name (only with named placeholders) */
+  namedParams: Record<string, unknown>
+}
+
+/**
+ * State shared while generating a clause
+ */
+interface SqlContext {
+  schema: FilterSchema
+  dialect: SqlDialect
+  caseSensitive: boolean
+  operators: Record<string, SqlOperatorBuilder>
+  getColumn: (fieldKey: string) => string
+  param: (value: unknown) => string
+  now: Date | undefined
+}
+
+/**
+ * Escape character of LIKE patterns. Not `\`, which MySQL only reads as an
+ * escape character without the NO_BACKSLASH_ESCAPES SQL mode.
+ */
+const LIKE_ESCAPE = '!'
+
+// =============================================================================
+// Identifiers and Values
+// =============================================================================
+
+/**
+ * Quote an identifier, treating dots as qualified name separators
+ */
+function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  const quote = dialect === 'mysql' ? '`' : '"'
+  return name
+    .split('.')
+    .map((part) => `${quote}${part.split(quote).join(quote + quote)}${quote}`)
+    .join('.')
+}
+
+/**
+ * Convert a single value into a parameter of the field type.
+ * Values that cannot be converted are passed as they are.
+ */
+function toParam(value: unknown, type: FieldType): unknown {
+  if (value instanceof Date && (type === 'date' || type === 'datetime')) {
+    return formatDate(value, type)
+  }
+  return toTypedValue(value, type)
+}
+
+/**
+ * Get the single value of a condition as a parameter
+ */
+function getParam(value: ConditionValue, type: FieldType): unknown {
+  return toParam(getSingleValue(value), type)
+}
+
+/**
+ * Escape the GLOB wildcards in a value by wrapping them in brackets
+ */
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[]/g, (char) => `[${char}]`)
+}
+
+/**
+ * Convert a LIKE pattern into a GLOB pattern
+ */
+function likeToGlob(pattern: string): string {
+  return pattern
+    .split('')
+    .map((char) => {
+      if (char === '%') return '*'
+      if (char === '_') return '?'
+      return escapeGlob(char)
+    })
+    .join('')
+}
+
+// =============================================================================
+// Pattern Matching
+// =============================================================================
+
+/**
+ * Build a pattern match for `contains`, `startsWith`, `endsWith` and `like`.
+ *
+ * Case-insensitive matching uses `ILIKE` on Postgres, `LOWER()` on MySQL and
+ * `LIKE` on SQLite (which ignores ASCII case). Case-sensitive matching uses
+ * `LIKE` on Postgres, a binary comparison on MySQL and `GLOB` on SQLite.
+ */
+function buildPatternMatch(
+  column: string,
+  operatorKey: string,
+  text: string,
+  context: SqlContext
+): string {
+  const { dialect, caseSensitive, param } = context
+
+  if (dialect === 'sqlite' && caseSensitive) {
+    const glob =
+      operatorKey === 'like'
+        ? likeToGlob(text)
+        : `${operatorKey === 'startsWith' ? '' : '*'}${escapeGlob(text)}${operatorKey === 'endsWith' ? '' : '*'}`
+    return `${column} GLOB ${param(glob)}`
+  }
+
+  // User-written LIKE patterns keep their wildcards and have no escape character
+  const pattern =
+    operatorKey === 'like'
+      ? text
+      : `${operatorKey === 'startsWith' ? '' : '%'}${escapeLike(text, LIKE_ESCAPE)}${operatorKey === 'endsWith' ? '' : '%'}`
+  const escape = operatorKey === 'like' ? '' : ` ESCAPE '${LIKE_ESCAPE}'`
+
+  if (dialect === 'postgres') {
+    return `${column} ${caseSensitive ? 'LIKE' : 'ILIKE'} ${param(pattern)}${escape}`
+  }
+  if (dialect === 'mysql') {
+    return caseSensitive
+      ? `${column} LIKE CAST(${param(pattern)} AS BINARY)${escape}`
+      : `LOWER(${column}) LIKE LOWER(${param(pattern)})${escape}`
+  }
+  return `${column} LIKE ${param(pattern)}${escape}`
+}
+
+// =============================================================================
+// Array Columns
+// =============================================================================
+
+/**
+ * Build the SQL for an array operator.
+ *
+ * Arrays are native array columns on Postgres and JSON array columns on MySQL
+ * and SQLite. Missing arrays are empty.
+ */
+function buildArrayOperator(
+  column: string,
+  operatorKey: string,
+  value: ConditionValue,
+  context: SqlContext,
+  getValues: () => unknown[]
+): string | undefined {
+  const { dialect, param } = context
+  const length =
+    dialect === 'postgres'
+      ? `COALESCE(cardinality(${column}), 0)`
+      : dialect === 'mysql'
+        ? `COALESCE(JSON_LENGTH(${column}), 0)`
+        : `COALESCE(json_array_length(${column}), 0)`
+
+  switch (operatorKey) {
+    case 'isEmpty':
+      return `${length} = 0`
+    case 'lengthEq':
+      return `${length} = ${param(getParam(value, 'number'))}`
+    case 'lengthGt':
+      return `${length} > ${param(getParam(value, 'number'))}`
+    case 'lengthLt':
+      return `${length} < ${param(getParam(value, 'number'))}`
+  }
+
+  const values = [...new Set(getValues().map(String))]
+  // Every array contains all of an empty list and none of it
+  if (values.length === 0) return operatorKey === 'anyOf' ? '1 = 0' : '1 = 1'
+  const list = values.map((v) => param(v)).join(', ')
+
+  if (dialect === 'postgres') {
+    if (operatorKey === 'anyOf') return `${column} && ARRAY[${list}]`
+    if (operatorKey === 'allOf') return `${column} @> ARRAY[${list}]`
+    return `NOT (COALESCE(${column}, '{}') && ARRAY[${list}])`
+  }
+  if (dialect === 'mysql') {
+    if (operatorKey === 'anyOf') return `JSON_OVERLAPS(${column}, JSON_ARRAY(${list}))`
+    if (operatorKey === 'allOf') return `JSON_CONTAINS(${column}, JSON_ARRAY(${list}))`
+    return `NOT COALESCE(JSON_OVERLAPS(${column}, JSON_ARRAY(${list})), FALSE)`
+  }
+  const matches = `SELECT value FROM json_each(${column}) WHERE value IN (${list})`
+  if (operatorKey === 'anyOf') return `EXISTS (${matches})`
+  if (operatorKey === 'allOf') {
+    return `(SELECT COUNT(DISTINCT value) FROM json_each(${column}) WHERE value IN (${list})) = ${values.length}`
+  }
+  return `NOT EXISTS (${matches})`
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/**
+ * Build the SQL for a single condition
+ */
+function buildCondition(condition: FilterCondition, context: SqlContext): string {
+  const { schema, dialect, param } = context
+  const { field, operator } = condition
+  const { fieldConfig, operatorConfig, type, value } = resolveCondition(condition, schema, context)
+  const column = context.getColumn(field.key)
+
+  const custom = context.operators[operator.key]
+  const sql = custom
+    ? custom({ column, value, field: fieldConfig, dialect, param })
+    : buildOperator(column, operator.key, value, type, context, () =>
+        getValueList(value, operatorConfig)
+      )
+
+  if (sql === undefined) {
+    throw unsupportedOperatorError(condition, 'to generate SQL for it')
+  }
+  return condition.negated ? `NOT (${sql})` : sql
+}
+
+/**
+ * Build the SQL for a built-in operator, or undefined for unknown operators
+ */
+function buildOperator(
+  column: string,
+  operatorKey: string,
+  value: ConditionValue,
+  type: FieldType,
+  context: SqlContext,
+  getValues: () => unknown[]
+): string | undefined {
+  const { dialect, param } = context
+  const single = () => param(getParam(value, type))
+
+  switch (operatorKey) {
+    case 'eq':
+    case 'is':
+      return `${column} = ${single()}`
+    case 'neq':
+      return `${column} <> ${single()}`
+    case 'gt':
+    case 'after':
+      return `${column} > ${single()}`
+    case 'gte':
+      return `${column} >= ${single()}`
+    case 'lt':
+    case 'before':
+      return `${column} < ${single()}`
+    case 'lte':
+      return `${column} <= ${single()}`
+    case 'on': {
+      // Datetimes are on a date when they fall on the same day
+      const day = toParam(value.raw instanceof Date ? value.raw : value.serialized, 'date')
+      if (type !== 'datetime') return `${column} = ${param(day)}`
+      const date = dialect === 'postgres' ? `CAST(${column} AS DATE)` : `DATE(${column})`
+      return `${date} = ${param(day)}`
+    }
+    case 'between': {
+      const [from, to] = getValues()
+      return `${column} BETWEEN ${param(toParam(from, type))} AND ${param(toParam(to, type))}`
+    }
+    case 'in': {
+      const values = getValues()
+      // An empty list matches nothing
+      if (values.length === 0) return '1 = 0'
+      return `${column} IN (${values.map((v) => param(toParam(v, type))).join(', ')})`
+    }
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith':
+    case 'like':
+      return buildPatternMatch(column, operatorKey, String(getParam(value, 'string')), context)
+    case 'anyOf':
+    case 'allOf':
+    case 'noneOf':
+    case 'isEmpty':
+    case 'lengthEq':
+    case 'lengthGt':
+    case 'lengthLt':
+      return buildArrayOperator(column, operatorKey, value, context, getValues)
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Build the SQL for a tree node
+ */
+function buildNode(node: FilterNode, context: SqlContext): string {
+  if (node.type === 'condition') {
+    return buildCondition(node.condition, context)
+  }
+  return node.children
+    .map((child) => {
+      const sql = buildNode(child, context)
+      return child.type === 'group' && child.children.length > 1 ? `(${sql})` : sql
+    })
+    .join(` ${node.connector} `)
+}
+
+/**
+ * Convert filter expressions into a parameterized SQL WHERE clause.
+ *
+ * Supports the built-in operator keys and honors groups, negation and
+ * AND-over-OR precedence. Values are passed as parameters, converted to numbers
+ * and booleans according to the field type, and LIKE wildcards in values are
+ * escaped. Custom operators are added through the `operators` option.
+ *
+ * @throws Error for unknown fields and operators without SQL
+ *
+ * @example
+ * ```ts
+ * const { where, params } = toSql(expressions, schema, {
+ *   dialect: 'postgres',
+ *   columns: { assignee: 'users.name' },
+ * })
+ * await db.query(`SELECT * FROM tickets WHERE ${where}`, params)
+ * ```
+ */
+export function toSql(
+  expressions: FilterExpression[],
+  schema: FilterSchema,
+  options: ToSqlOptions = {}
+): SqlResult {
+  const {
+    dialect = 'postgres',
+    placeholders = 'positional',
+    paramName = (index: number) => `p${index + 1}`,
+    columns,
+    caseSensitive = false,
+    operators = {},
+  } = options
+
+  const params: unknown[] = []
+  const namedParams: Record<string, unknown> = {}
+
+  const param = (value: unknown): string => {
+    const index = params.push(value) - 1
+    if (placeholders === 'named') {
+      const name = paramName(index)
+      namedParams[name] = value
+      return `:${name}`
+    }
+    return dialect === 'postgres' ? `$${index + 1}` : '?'
+  }
+
+  const getColumn = (fieldKey: string): string => {
+    const name = typeof columns === 'function' ? columns(fieldKey) : columns?.[fieldKey]
+    return quoteIdentifier(name ?? fieldKey, dialect)
+  }
+
+  const where = buildNode(toExpressionTree(expressions), {
+    schema,
+    dialect,
+    caseSensitive,
+    operators,
+    getColumn,
+    param,
+    now: options.now,
+  })
+
+  return { where: where || '1 = 1', params, namedParams }
+}
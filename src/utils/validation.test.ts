@@ -1,6 +1,12 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { validateExpression, validateExpressions, validateSchema } from './validation'
+import { ARRAY_OPERATORS } from '@/types'
 import type { FilterSchema, FilterExpression } from '@/types'
+import {
+  createCascadingAutocompleter,
+  createDateAutocompleter,
+  createEnumAutocompleter,
+} from '@/autocompleters'
 
 describe('validation', () => {
   const testSchema: FilterSchema = {
@@ -102,6 +108,57 @@ describe('validation', () => {
       const result = validateExpression(expression, schemaWithOptional)
       expect(result.valid).toBe(true)
     })
+
+    it('should resolve fields of sub-schemas by dotted key', () => {
+      const nestedSchema: FilterSchema = {
+        fields: [
+          {
+            key: 'assignee',
+            label: 'Assignee',
+            type: 'string',
+            operators: [],
+            subSchema: {
+              fields: [
+                {
+                  key: 'team',
+                  label: 'Team',
+                  type: 'string',
+                  operators: [],
+                  subSchema: { fields: [testSchema.fields[1]] },
+                },
+              ],
+            },
+          },
+        ],
+      }
+      const expression = (operator: string): FilterExpression => ({
+        condition: {
+          field: { key: 'assignee.team.name', label: 'Assignee › Team › Name', type: 'string' },
+          operator: { key: operator, label: operator },
+          value: { raw: 'x', display: 'x', serialized: 'x' },
+        },
+      })
+
+      expect(validateExpression(expression('contains'), nestedSchema).valid).toBe(true)
+      expect(validateExpression(expression('gt'), nestedSchema).errors?.[0]?.type).toBe('operator')
+    })
+
+    it('should not require a value for operators that take none', () => {
+      const arraySchema: FilterSchema = {
+        fields: [{ key: 'labels', label: 'Labels', type: 'array', operators: ARRAY_OPERATORS }],
+      }
+      const expression = (operator: string, raw: unknown): FilterExpression => ({
+        condition: {
+          field: { key: 'labels', label: 'Labels', type: 'array' },
+          operator: { key: operator, label: operator },
+          value: { raw, display: '', serialized: '' },
+        },
+      })
+
+      expect(validateExpression(expression('isEmpty', ''), arraySchema).valid).toBe(true)
+      expect(validateExpression(expression('anyOf', []), arraySchema).valid).toBe(false)
+      expect(validateExpression(expression('lengthGt', ''), arraySchema).valid).toBe(false)
+    })
   })
 
   describe('validateExpressions', () => {
@@ -178,6 +235,44 @@ describe('validation', () => {
       const result = validateExpressions([], testSchema)
       expect(result.valid).toBe(true)
     })
+
+    it('should report unbalanced parentheses', () => {
+      const condition: FilterExpression['condition'] = {
+        field: { key: 'status', label: 'Status', type: 'enum' },
+        operator: { key: 'eq', label: 'equals' },
+        value: { raw: 'active', display: 'active', serialized: 'active' },
+      }
+
+      const unclosed = validateExpressions(
+        [{ condition, connector: 'OR', openGroups: 1 }, { condition }],
+        testSchema
+      )
+      expect(unclosed.valid).toBe(false)
+      expect(unclosed.errors).toContainEqual(
+        expect.objectContaining({ type: 'expression', expressionIndex: 0 })
+      )
+
+      const unopened = validateExpressions([{ condition, closeGroups: 1 }], testSchema)
+      expect(unopened.valid).toBe(false)
+      expect(unopened.errors?.[0]?.message).toMatch(/no matching opening parenthesis/)
+    })
+
+    it('should accept balanced parentheses', () => {
+      const condition: FilterExpression['condition'] = {
+        field: { key: 'status', label: 'Status', type: 'enum' },
+        operator: { key: 'eq', label: 'equals' },
+        value: { raw: 'active', display: 'active', serialized: 'active' },
+      }
+
+      const result = validateExpressions(
+        [
+          { condition, connector: 'OR', openGroups: 1 },
+          { condition, closeGroups: 1 },
+        ],
+        testSchema
+      )
+      expect(result.valid).toBe(true)
+    })
   })
 
   describe('validateSchema', () => {
@@ -815,4 +910,206 @@ describe('validation', () => {
       expect(result.errors.some((e) => e.message.includes('before end date'))).toBe(true)
     })
   })
+
+  describe('field dependencies', () => {
+    const operators = [{ key: 'eq', label: 'equals' }]
+    const schemaWithDependencies: FilterSchema = {
+      fields: [
+        { key: 'category', label: 'Category', type: 'string', operators },
+        {
+          key: 'subcategory',
+          label: 'Subcategory',
+          type: 'string',
+          operators,
+          dependsOn: 'category',
+        },
+        {
+          key: 'discount',
+          label: 'Discount',
+          type: 'string',
+          operators,
+          availableWhen: (expressions) => expressions.length === 0,
+        },
+      ],
+    }
+    const expression = (key: string, label: string): FilterExpression => ({
+      condition: {
+        field: { key, label, type: 'string' },
+        operator: { key: 'eq', label: 'equals' },
+        value: { raw: 'x', display: 'x', serialized: 'x' },
+      },
+    })
+
+    it('should accept dependent fields with their prerequisites', () => {
+      const result = validateExpressions(
+        [
+          { ...expression('category', 'Category'), connector: 'AND' },
+          expression('subcategory', 'Subcategory'),
+        ],
+        schemaWithDependencies
+      )
+      expect(result.valid).toBe(true)
+    })
+
+    it('should report dependent fields without their prerequisites', () => {
+      const result = validateExpressions(
+        [
+          { ...expression('subcategory', 'Subcategory'), connector: 'AND' },
+          expression('discount', 'Discount'),
+        ],
+        schemaWithDependencies
+      )
+      expect(result.errors).toEqual([
+        {
+          type: 'field',
+          message: 'Field "Subcategory" requires a filter on "Category"',
+          field: 'subcategory',
+          expressionIndex: 0,
+        },
+        {
+          type: 'field',
+          message: 'Field "Discount" is not available for the current filter',
+          field: 'discount',
+          expressionIndex: 1,
+        },
+      ])
+    })
+  })
+
+  describe('value autocompleter validation', () => {
+    const operators = [
+      { key: 'eq', label: 'equals' },
+      { key: 'in', label: 'in', multiValue: { count: -1, separator: ',', labels: [] } },
+    ]
+    const schemaWithCascade: FilterSchema = {
+      fields: [
+        { key: 'country', label: 'Country', type: 'enum', operators },
+        {
+          key: 'city',
+          label: 'City',
+          type: 'enum',
+          operators,
+          valueAutocompleter: createCascadingAutocompleter('country', {
+            FR: [{ key: 'paris', label: 'Paris' }],
+            DE: [{ key: 'berlin', label: 'Berlin' }],
+          }),
+        },
+      ],
+    }
+    const expression = (field: string, operator: string, raw: unknown): FilterExpression => ({
+      condition: {
+        field: { key: field, label: field, type: 'enum' },
+        operator: { key: operator, label: operator },
+        value: { raw, display: String(raw), serialized: String(raw) },
+      },
+    })
+
+    it('should validate values against the other expressions', () => {
+      const valid = validateExpressions(
+        [
+          { ...expression('country', 'eq', 'FR'), connector: 'AND' },
+          expression('city', 'eq', 'paris'),
+        ],
+        schemaWithCascade
+      )
+      expect(valid.valid).toBe(true)
+
+      const invalid = validateExpressions(
+        [
+          { ...expression('country', 'eq', 'DE'), connector: 'AND' },
+          expression('city', 'in', ['paris', 'berlin']),
+        ],
+        schemaWithCascade
+      )
+      expect(invalid.errors).toEqual([
+        {
+          type: 'value',
+          message: 'Value "paris" is not valid for field "city"',
+          expressionIndex: 1,
+          field: 'city',
+        },
+      ])
+    })
+
+    it('should validate each value of a multi-value string', () => {
+      const result = validateExpressions(
+        [
+          { ...expression('country', 'eq', 'DE'), connector: 'AND' },
+          expression('city', 'in', 'paris, berlin'),
+        ],
+        schemaWithCascade
+      )
+      expect(result.errors.filter((error) => error.message.startsWith('Value "'))).toEqual([
+        {
+          type: 'value',
+          message: 'Value "paris" is not valid for field "city"',
+          expressionIndex: 1,
+          field: 'city',
+        },
+      ])
+    })
+
+    it('should not run the validators of other value autocompleters', () => {
+      const schemaWithAutocompleters: FilterSchema = {
+        fields: [
+          {
+            key: 'status',
+            label: 'Status',
+            type: 'enum',
+            operators,
+            valueAutocompleter: createEnumAutocompleter([{ key: 'open', label: 'Open' }]),
+          },
+          {
+            key: 'created',
+            label: 'Created',
+            type: 'date',
+            operators: [
+              {
+                key: 'between',
+                label: 'between',
+                multiValue: { count: 2, separator: 'and', labels: ['from', 'to'] },
+              },
+            ],
+            valueAutocompleter: createDateAutocompleter(),
+          },
+        ],
+      }
+
+      expect(
+        validateExpressions([expression('status', 'eq', 'archived')], schemaWithAutocompleters)
+      ).toEqual({ valid: true, errors: [] })
+      expect(
+        validateExpressions(
+          [expression('created', 'between', 'soon and later')],
+          schemaWithAutocompleters
+        ).errors
+      ).toEqual([
+        {
+          type: 'value',
+          message: 'Value for "between" operator on field "created" must be an array',
+          expressionIndex: 0,
+          field: 'created',
+        },
+      ])
+    })
+
+    it('should pass all expressions to field validators', () => {
+      const validate = vi.fn(() => ({ valid: true }))
+      const expressions = [
+        { ...expression('country', 'eq', 'FR'), connector: 'AND' as const },
+        expression('city', 'eq', 'paris'),
+      ]
+      validateExpressions(expressions, {
+        fields: [
+          { key: 'country', label: 'Country', type: 'enum', operators, validate },
+          { key: 'city', label: 'City', type: 'enum', operators },
+        ],
+      })
+
+      expect(validate).toHaveBeenCalledWith(
+        expressions[0].condition.value,
+        expect.objectContaining({ expressions })
+      )
+    })
+  })
 })
@@ -5,6 +5,10 @@
  */
 
 import type { FilterSchema, FilterExpression } from '@/types'
+import { scanGroups } from './expressionTree'
+import { getMissingPrerequisites, getUnavailableExpressions } from './dependencies'
+import { findField, flattenFields } from './fieldPaths'
+import { getValueList } from './evaluation'
 
 /**
  * Validation error types
@@ -30,12 +34,17 @@ export interface ValidationResult {
 }
 
 /**
- * Validate a single expression against a schema
+ * Validate a single expression against a schema.
+ *
+ * Pass the filter's `expressions` so that field validators and value
+ * autocompleters with `validatesExpressions` (such as cascading autocompleters)
+ * can check the value against the other expressions.
  */
 export function validateExpression(
   expression: FilterExpression,
   schema: FilterSchema,
-  expressionIndex?: number
+  expressionIndex?: number,
+  expressions: FilterExpression[] = []
 ): ValidationResult {
   const errors: ValidationError[] = []
 
@@ -43,7 +52,7 @@ export function validateExpression(
   const { field, operator, value } = condition
 
   // Validate field exists in schema
-  const fieldConfig = schema.fields.find((f) => f.key === field.key)
+  const fieldConfig = findField(schema, field.key)
   if (!fieldConfig) {
     errors.push({
       type: 'field',
@@ -83,7 +92,7 @@ export function validateExpression(
     const validationContext = {
       field: fieldConfig,
       operator: operatorConfig ?? { key: operator.key, label: operator.label },
-      expressions: [], // Single expression context
+      expressions,
       schema,
     }
     const fieldValidationResult = fieldConfig.validate(value, validationContext)
@@ -98,9 +107,40 @@ export function validateExpression(
     }
   }
 
-  // Validate value is not empty (unless valueRequired is false)
+  // Run the validator of value autocompleters that check the other expressions
+  const autocompleter = operatorConfig?.valueAutocompleter ?? fieldConfig.valueAutocompleter
+  if (
+    autocompleter?.validatesExpressions &&
+    autocompleter.validate &&
+    operatorConfig &&
+    !isEmpty(value.raw)
+  ) {
+    const context = {
+      inputValue: '',
+      field: fieldConfig,
+      operator: operatorConfig,
+      existingExpressions: expressions.filter((expr) => expr !== expression),
+      schema,
+    }
+    const values = operatorConfig.multiValue ? getValueList(value, operatorConfig) : [value.raw]
+    for (const item of values) {
+      if (!autocompleter.validate(item, context)) {
+        errors.push({
+          type: 'value',
+          message: `Value "${String(item)}" is not valid for field "${field.key}"`,
+          expressionIndex,
+          field: field.key,
+        })
+      }
+    }
+  }
+
+  // Validate value is not empty (unless valueRequired is false or the operator takes no value)
   // Note: multi-value validation handles empty arrays separately
-  const valueRequired = fieldConfig.valueRequired !== false
+  const valueRequired =
+    fieldConfig.valueRequired !== false &&
+    operatorConfig?.valueRequired !== false &&
+    !operatorConfig?.noValue
   if (valueRequired && isEmpty(value.raw) && !operatorConfig?.multiValue) {
     errors.push({
       type: 'value',
@@ -139,7 +179,7 @@ export function validateExpressions(
   for (let i = 0; i < expressions.length; i++) {
     const expr = expressions[i]
     if (!expr) continue
-    const result = validateExpression(expr, schema, i)
+    const result = validateExpression(expr, schema, i, expressions)
     errors.push(...result.errors)
 
     // Track which expressions use each field
@@ -150,8 +190,25 @@ export function validateExpressions(
     fieldUsage.get(fieldKey)?.push(i)
   }
 
+  // Validate that groups are balanced
+  const { unmatchedCloses, unmatchedOpens } = scanGroups(expressions)
+  for (const index of new Set(unmatchedCloses)) {
+    errors.push({
+      type: 'expression',
+      message: `Closing parenthesis after expression ${index + 1} has no matching opening parenthesis`,
+      expressionIndex: index,
+    })
+  }
+  for (const index of new Set(unmatchedOpens)) {
+    errors.push({
+      type: 'expression',
+      message: `Opening parenthesis before expression ${index + 1} is never closed`,
+      expressionIndex: index,
+    })
+  }
+
   // Validate field uniqueness (if allowMultiple is false)
-  for (const field of schema.fields) {
+  for (const field of flattenFields(schema)) {
     if (field.allowMultiple === false) {
       const usage = fieldUsage.get(field.key)
       if (usage && usage.length > 1) {
@@ -165,6 +222,26 @@ export function validateExpressions(
     }
   }
 
+  // Validate that dependent fields have their prerequisites
+  for (const index of getUnavailableExpressions(expressions, schema)) {
+    const fieldKey = expressions[index]?.condition.field.key
+    const field = findField(schema, fieldKey)
+    if (!field) continue
+    const missing = getMissingPrerequisites(
+      field,
+      expressions.filter((_, i) => i !== index)
+    ).map((key) => findField(schema, key)?.label ?? key)
+    errors.push({
+      type: 'field',
+      message:
+        missing.length > 0
+          ? `Field "${field.label}" requires a filter on ${missing.map((label) => `"${label}"`).join(', ')}`
+          : `Field "${field.label}" is not available for the current filter`,
+      field: field.key,
+      expressionIndex: index,
+    })
+  }
+
   // Apply schema-level validation if provided
   if (schema.validate) {
     const schemaResult = schema.validate(expressions)
@@ -206,8 +283,8 @@ export function validateSchema(schema: FilterSchema): ValidationResult {
     }
     fieldKeys.add(field.key)
 
-    // Check for empty operators
-    if (field.operators.length === 0) {
+    // Check for empty operators (fields with a sub-schema are only drilled into)
+    if (field.operators.length === 0 && !field.subSchema) {
       errors.push({
         type: 'schema',
         message: `Field "${field.key}" must have at least one operator`,